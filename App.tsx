@@ -13,6 +13,7 @@ import { setupStorageBucket } from './lib/supabaseClient';
 import NoteEditorSkeleton from './components/NoteEditorSkeleton';
 import ChatViewSkeleton from './components/ChatViewSkeleton';
 import ApiKeyIndicator from './components/ApiKeyIndicator';
+import SyncStatusIndicator from './components/SyncStatusIndicator';
 import AnalyticsDashboardSkeleton from './components/AnalyticsDashboardSkeleton';
 import TrendAnalysisDashboardSkeleton from './components/TrendAnalysisDashboardSkeleton';
 import GraphViewSkeleton from './components/GraphViewSkeleton';
@@ -119,7 +120,7 @@ function AppContent() {
         if (smartFolderToEdit) {
             updateSmartCollection(smartFolderToEdit.id, data);
         } else {
-            addSmartCollection(data.name, data.query);
+            addSmartCollection(data.name, data.query, data.type, data.rules);
         }
         setIsSmartFolderModalOpen(false);
     };
@@ -180,6 +181,7 @@ function AppContent() {
             />
             {!isMobileView && <SidebarResizer onResizeStart={handleResizeStart} />}
             <main className="flex-1 flex flex-col h-full min-w-0">
+                <SyncStatusIndicator />
                 {isApiKeyMissing && <ApiKeyIndicator />}
                 <Suspense fallback={suspenseFallback}>
                     {renderMainView()}
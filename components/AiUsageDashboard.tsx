@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AI_FEATURES, AiSettings } from '../lib/aiSettings';
+import { getUsageRecords, getUsageTotals, toDayKey, UsageFeature, UsageRecord, AI_USAGE_EVENT } from '../lib/aiUsage';
+
+interface AiUsageDashboardProps {
+    budgets: AiSettings['budgets'];
+    onBudgetsChange: (budgets: AiSettings['budgets']) => void;
+    onResetUsage: () => void;
+}
+
+const CHART_DAYS = 14;
+const TABLE_DAYS = 30;
+
+const FEATURE_NAMES: Record<UsageFeature, string> = {
+    ...Object.fromEntries(AI_FEATURES.map(f => [f.id, f.name])) as Record<UsageFeature, string>,
+    embeddings: 'Search indexing',
+};
+
+const formatTokens = (tokens: number) => tokens >= 1_000_000
+    ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const daysAgo = (days: number) => toDayKey(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+
+const BudgetMeter: React.FC<{ label: string; used: number; budget: number | null }> = ({ label, used, budget }) => {
+    const percent = budget ? Math.min(100, (used / budget) * 100) : 0;
+    return (
+        <div>
+            <div className="flex justify-between text-sm">
+                <span className="font-medium">{label}</span>
+                <span className="text-light-text/60 dark:text-dark-text/60">
+                    {formatTokens(used)} tokens{budget !== null && ` of ${formatTokens(budget)}`}
+                </span>
+            </div>
+            {budget !== null && (
+                <div className="h-2 mt-1 rounded-full bg-light-ui dark:bg-dark-ui overflow-hidden">
+                    <div
+                        className={`h-full ${percent >= 100 ? 'bg-red-500' : 'bg-light-primary dark:bg-dark-primary'}`}
+                        style={{ width: `${percent}%` }}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+const BudgetInput: React.FC<{ label: string; value: number | null; onChange: (value: number | null) => void }> = ({ label, value, onChange }) => (
+    <label className="block text-sm font-medium flex-1">
+        {label}
+        <input
+            type="number"
+            min={0}
+            step={1000}
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+            placeholder="No limit"
+            className="mt-1 w-full p-2 bg-light-ui dark:bg-dark-ui rounded-md border border-light-border dark:border-dark-border focus:ring-2 focus:ring-light-primary focus:outline-none"
+        />
+    </label>
+);
+
+/**
+ * Token usage per day, feature and model, with the daily and monthly budgets that
+ * pause background AI features once they are reached.
+ */
+const AiUsageDashboard: React.FC<AiUsageDashboardProps> = ({ budgets, onBudgetsChange, onResetUsage }) => {
+    const [records, setRecords] = useState<UsageRecord[]>(getUsageRecords);
+
+    useEffect(() => {
+        const refresh = () => setRecords(getUsageRecords());
+        window.addEventListener(AI_USAGE_EVENT, refresh);
+        return () => window.removeEventListener(AI_USAGE_EVENT, refresh);
+    }, []);
+
+    const totals = useMemo(() => getUsageTotals(records), [records]);
+
+    const dailyTotals = useMemo(() => {
+        const days = Array.from({ length: CHART_DAYS }, (_, i) => daysAgo(CHART_DAYS - 1 - i));
+        const byDay = new Map(days.map(day => [day, 0]));
+        records.forEach(r => {
+            if (byDay.has(r.day)) byDay.set(r.day, byDay.get(r.day)! + r.inputTokens + r.outputTokens);
+        });
+        return days.map(day => ({ day, tokens: byDay.get(day)! }));
+    }, [records]);
+    const maxDailyTokens = Math.max(1, ...dailyTotals.map(d => d.tokens));
+
+    const byFeatureAndModel = useMemo(() => {
+        const since = daysAgo(TABLE_DAYS - 1);
+        const rows = new Map<string, Omit<UsageRecord, 'day'>>();
+        records.filter(r => r.day >= since).forEach(r => {
+            const key = `${r.feature}|${r.model}`;
+            const row = rows.get(key) ?? { feature: r.feature, model: r.model, requests: 0, inputTokens: 0, outputTokens: 0 };
+            row.requests += r.requests;
+            row.inputTokens += r.inputTokens;
+            row.outputTokens += r.outputTokens;
+            rows.set(key, row);
+        });
+        return [...rows.values()].sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens));
+    }, [records]);
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-3">
+                <h3 className="text-lg font-semibold">AI Usage</h3>
+                <BudgetMeter label="Today" used={totals.today} budget={budgets.dailyTokens} />
+                <BudgetMeter label="This month" used={totals.thisMonth} budget={budgets.monthlyTokens} />
+            </div>
+
+            <div>
+                <h4 className="font-medium mb-2">Last {CHART_DAYS} days</h4>
+                <div className="flex items-end gap-1 h-24" role="img" aria-label={`Tokens used per day over the last ${CHART_DAYS} days`}>
+                    {dailyTotals.map(({ day, tokens }) => (
+                        <div
+                            key={day}
+                            title={`${day}: ${formatTokens(tokens)} tokens`}
+                            className="flex-1 bg-light-primary/70 dark:bg-dark-primary/70 rounded-t"
+                            style={{ height: `${(tokens / maxDailyTokens) * 100}%`, minHeight: tokens > 0 ? 2 : 0 }}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            <div>
+                <h4 className="font-medium mb-2">By feature, last {TABLE_DAYS} days</h4>
+                {byFeatureAndModel.length === 0 ? (
+                    <p className="text-sm text-light-text/60 dark:text-dark-text/60">No AI requests recorded yet.</p>
+                ) : (
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-light-text/60 dark:text-dark-text/60">
+                                <th className="font-medium pb-1">Feature</th>
+                                <th className="font-medium pb-1">Model</th>
+                                <th className="font-medium pb-1 text-right">Requests</th>
+                                <th className="font-medium pb-1 text-right">In</th>
+                                <th className="font-medium pb-1 text-right">Out</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {byFeatureAndModel.map(row => (
+                                <tr key={`${row.feature}|${row.model}`} className="border-t border-light-border dark:border-dark-border">
+                                    <td className="py-1">{FEATURE_NAMES[row.feature] ?? row.feature}</td>
+                                    <td className="py-1 truncate max-w-[8rem]" title={row.model}>{row.model}</td>
+                                    <td className="py-1 text-right">{row.requests}</td>
+                                    <td className="py-1 text-right">{formatTokens(row.inputTokens)}</td>
+                                    <td className="py-1 text-right">{formatTokens(row.outputTokens)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                <p className="text-xs text-light-text/60 dark:text-dark-text/60 mt-2">
+                    Counts are reported by your AI provider. Search indexing is estimated, and responses served from the cache use no tokens.
+                </p>
+            </div>
+
+            <div className="pt-6 border-t border-light-border dark:border-dark-border">
+                <h3 className="text-lg font-semibold mb-3">Budgets</h3>
+                <p className="text-sm text-light-text/60 dark:text-dark-text/60 mb-3">
+                    When a budget is reached, spellcheck, automatic title and tag suggestions, related notes, search indexing and chat auto-titling pause until the next day or month. Chat and actions you start yourself keep working.
+                </p>
+                <div className="flex gap-3">
+                    <BudgetInput label="Daily tokens" value={budgets.dailyTokens} onChange={(dailyTokens) => onBudgetsChange({ ...budgets, dailyTokens })} />
+                    <BudgetInput label="Monthly tokens" value={budgets.monthlyTokens} onChange={(monthlyTokens) => onBudgetsChange({ ...budgets, monthlyTokens })} />
+                </div>
+                <button
+                    onClick={onResetUsage}
+                    className="w-full mt-4 text-center px-4 py-2 rounded-md bg-light-ui dark:bg-dark-ui hover:bg-light-ui-hover dark:hover:bg-dark-ui-hover"
+                >
+                    Reset Usage History
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default AiUsageDashboard;
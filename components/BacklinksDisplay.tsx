@@ -2,13 +2,17 @@ import React from 'react';
 import { LinkIcon } from './Icons';
 import { useUIContext } from '../context/AppContext';
 import { useStoreContext } from '../context/AppContext';
+import { Backlink } from '../lib/linkGraph';
+import { UnlinkedMention, UnlinkedMentionGroup } from '../lib/mentions';
 
 
 interface BacklinksDisplayProps {
-    backlinks: { sourceNoteId: string; sourceNoteTitle: string }[];
+    backlinks: Backlink[];
+    unlinkedMentions: UnlinkedMentionGroup[];
+    onLinkMention: (sourceNoteId: string, mention: UnlinkedMention) => void;
 }
 
-const BacklinksDisplay: React.FC<BacklinksDisplayProps> = ({ backlinks }) => {
+const BacklinksDisplay: React.FC<BacklinksDisplayProps> = ({ backlinks, unlinkedMentions, onLinkMention }) => {
     const { setActiveNoteId } = useStoreContext();
     const { setView } = useUIContext();
 
@@ -17,27 +21,75 @@ const BacklinksDisplay: React.FC<BacklinksDisplayProps> = ({ backlinks }) => {
         setView('NOTES');
     };
 
-    if (backlinks.length === 0) {
+    if (backlinks.length === 0 && unlinkedMentions.length === 0) {
         return null;
     }
 
+    const mentionCount = unlinkedMentions.reduce((count, group) => count + group.mentions.length, 0);
+
     return (
-        <div className="mt-8 pt-4 border-t border-light-border dark:border-dark-border">
-            <h3 className="text-sm font-semibold text-light-text/80 dark:text-dark-text/80 mb-3 flex items-center">
-                <LinkIcon className="w-4 h-4 mr-2" />
-                Linked Mentions ({backlinks.length})
-            </h3>
-            <div className="space-y-2">
-                {backlinks.map(({ sourceNoteId, sourceNoteTitle }) => (
-                    <button
-                        key={sourceNoteId}
-                        onClick={() => handleSelectNote(sourceNoteId)}
-                        className="w-full text-left p-2 rounded-md hover:bg-light-ui dark:hover:bg-dark-ui transition-colors"
-                    >
-                        <p className="font-medium text-sm truncate">{sourceNoteTitle}</p>
-                    </button>
-                ))}
-            </div>
+        <div className="mt-8 pt-4 border-t border-light-border dark:border-dark-border space-y-6">
+            {backlinks.length > 0 && (
+                <div>
+                    <h3 className="text-sm font-semibold text-light-text/80 dark:text-dark-text/80 mb-3 flex items-center">
+                        <LinkIcon className="w-4 h-4 mr-2" />
+                        Linked Mentions ({backlinks.length})
+                    </h3>
+                    <div className="space-y-2">
+                        {backlinks.map(({ sourceNoteId, sourceNoteTitle, contexts }) => (
+                            <button
+                                key={sourceNoteId}
+                                onClick={() => handleSelectNote(sourceNoteId)}
+                                className="w-full text-left p-2 rounded-md hover:bg-light-ui dark:hover:bg-dark-ui transition-colors"
+                            >
+                                <p className="font-medium text-sm truncate">{sourceNoteTitle}</p>
+                                {contexts.map((context, index) => (
+                                    <p key={index} className="mt-1 text-xs text-light-text/60 dark:text-dark-text/60 line-clamp-2">
+                                        {context.before}
+                                        <span className="font-semibold text-light-primary dark:text-dark-primary">{context.text}</span>
+                                        {context.after}
+                                    </p>
+                                ))}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {unlinkedMentions.length > 0 && (
+                <div>
+                    <h3 className="text-sm font-semibold text-light-text/80 dark:text-dark-text/80 mb-3 flex items-center">
+                        <LinkIcon className="w-4 h-4 mr-2 opacity-50" />
+                        Unlinked Mentions ({mentionCount})
+                    </h3>
+                    <div className="space-y-2">
+                        {unlinkedMentions.map(({ sourceNoteId, sourceNoteTitle, mentions }) => (
+                            <div key={sourceNoteId} className="p-2 rounded-md">
+                                <button
+                                    onClick={() => handleSelectNote(sourceNoteId)}
+                                    className="max-w-full font-medium text-sm truncate hover:underline"
+                                >
+                                    {sourceNoteTitle}
+                                </button>
+                                {mentions.map(mention => (
+                                    <div key={mention.index} className="mt-1 flex items-start gap-2">
+                                        <p className="flex-1 min-w-0 text-xs text-light-text/60 dark:text-dark-text/60 line-clamp-2">
+                                            {mention.context.before}
+                                            <span className="font-semibold">{mention.context.text}</span>
+                                            {mention.context.after}
+                                        </p>
+                                        <button
+                                            onClick={() => onLinkMention(sourceNoteId, mention)}
+                                            className="flex-shrink-0 px-2 py-0.5 text-xs rounded-md border border-light-border dark:border-dark-border hover:bg-light-ui dark:hover:bg-dark-ui transition-colors"
+                                        >
+                                            Link
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
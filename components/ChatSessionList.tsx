@@ -0,0 +1,163 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { ChatSession } from '../types';
+import { useChatContext, useUIContext } from '../context/AppContext';
+import { MagnifyingGlassIcon, PlusIcon, BookmarkIcon, PencilSquareIcon, TrashIcon } from './Icons';
+import Highlight from './Highlight';
+import { formatDate } from '../lib/dateUtils';
+
+const sessionMatches = (session: ChatSession, query: string) => {
+    if (session.name.toLowerCase().includes(query)) return true;
+    return session.messages.some(m => typeof m.content === 'string' && m.content.toLowerCase().includes(query));
+};
+
+interface SessionRowProps {
+    session: ChatSession;
+    isActive: boolean;
+    isDisabled: boolean;
+    searchTerm: string;
+}
+
+const SessionRow: React.FC<SessionRowProps> = ({ session, isActive, isDisabled, searchTerm }) => {
+    const { selectSession, renameSession, togglePinSession, deleteSession } = useChatContext();
+    const { showConfirmation } = useUIContext();
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [draftName, setDraftName] = useState(session.name);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (isRenaming) inputRef.current?.select();
+    }, [isRenaming]);
+
+    const commitRename = () => {
+        if (draftName.trim() && draftName.trim() !== session.name) renameSession(session.id, draftName);
+        setIsRenaming(false);
+    };
+
+    const handleDelete = () => {
+        showConfirmation({
+            title: 'Delete Chat',
+            message: `Are you sure you want to permanently delete "${session.name}"? This action cannot be undone.`,
+            confirmText: 'Delete',
+            onConfirm: () => deleteSession(session.id),
+        });
+    };
+
+    if (isRenaming) {
+        return (
+            <input
+                ref={inputRef}
+                value={draftName}
+                onChange={e => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') { setDraftName(session.name); setIsRenaming(false); }
+                }}
+                className="w-full px-2 py-1.5 text-sm bg-light-background dark:bg-dark-background rounded-md border border-light-border dark:border-dark-border focus:ring-1 focus:ring-light-primary focus:outline-none"
+                aria-label="Chat name"
+            />
+        );
+    }
+
+    return (
+        <div
+            className={`group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm transition-colors ${
+                isActive ? 'bg-light-primary/30 dark:bg-dark-primary/30' : 'hover:bg-light-background dark:hover:bg-dark-background'
+            }`}
+        >
+            <button
+                onClick={() => selectSession(session.id)}
+                onDoubleClick={() => { setDraftName(session.name); setIsRenaming(true); }}
+                disabled={isDisabled}
+                className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+            >
+                <span className="block truncate font-medium"><Highlight text={session.name} highlight={searchTerm} /></span>
+                <span className="block text-xs text-light-text/50 dark:text-dark-text/50">{formatDate(session.updatedAt)}</span>
+            </button>
+            <div className={`flex items-center ${session.isPinned ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'}`}>
+                <button onClick={() => togglePinSession(session.id)} className="p-1 rounded text-light-text/60 dark:text-dark-text/60 hover:text-light-text dark:hover:text-dark-text" aria-label={session.isPinned ? 'Unpin chat' : 'Pin chat'}>
+                    <BookmarkIcon className={`w-4 h-4 ${session.isPinned ? 'text-light-primary dark:text-dark-primary' : ''}`} />
+                </button>
+            </div>
+            <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                <button onClick={() => { setDraftName(session.name); setIsRenaming(true); }} className="p-1 rounded text-light-text/60 dark:text-dark-text/60 hover:text-light-text dark:hover:text-dark-text" aria-label="Rename chat">
+                    <PencilSquareIcon className="w-4 h-4" />
+                </button>
+                <button onClick={handleDelete} disabled={isDisabled && isActive} className="p-1 rounded text-light-text/60 dark:text-dark-text/60 hover:text-red-500 disabled:opacity-30" aria-label="Delete chat">
+                    <TrashIcon className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const ChatSessionList: React.FC = () => {
+    const { sessions, activeSessionId, isLoadingSessions, startNewSession, chatStatus } = useChatContext();
+    const [searchTerm, setSearchTerm] = useState('');
+    const isBusy = chatStatus !== 'idle';
+
+    const { pinned, recent } = useMemo(() => {
+        const query = searchTerm.trim().toLowerCase();
+        const filtered = query ? sessions.filter(s => sessionMatches(s, query)) : sessions;
+        return {
+            pinned: filtered.filter(s => s.isPinned),
+            recent: filtered.filter(s => !s.isPinned),
+        };
+    }, [sessions, searchTerm]);
+
+    const renderGroup = (title: string, group: ChatSession[]) => group.length > 0 && (
+        <div className="mb-3">
+            <h3 className="px-2 mb-1 text-xs font-semibold uppercase tracking-wider text-light-text/50 dark:text-dark-text/50">{title}</h3>
+            {group.map(session => (
+                <SessionRow
+                    key={session.id}
+                    session={session}
+                    isActive={session.id === activeSessionId}
+                    isDisabled={isBusy}
+                    searchTerm={searchTerm.trim()}
+                />
+            ))}
+        </div>
+    );
+
+    return (
+        <aside className="w-64 flex-shrink-0 flex flex-col border-r border-light-border dark:border-dark-border bg-light-ui/50 dark:bg-dark-ui/50">
+            <div className="p-3 space-y-2 border-b border-light-border dark:border-dark-border">
+                <button
+                    onClick={startNewSession}
+                    disabled={isBusy}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-md bg-light-primary text-white dark:bg-dark-primary dark:text-zinc-900 hover:bg-light-primary-hover dark:hover:bg-dark-primary-hover disabled:opacity-50"
+                >
+                    <PlusIcon className="w-4 h-4" />
+                    New Chat
+                </button>
+                <div className="relative">
+                    <input
+                        type="text"
+                        value={searchTerm}
+                        onChange={e => setSearchTerm(e.target.value)}
+                        placeholder="Search chats..."
+                        className="w-full pl-8 pr-2 py-1.5 text-sm bg-light-background dark:bg-dark-background rounded-md border border-light-border dark:border-dark-border focus:ring-1 focus:ring-light-primary focus:outline-none"
+                    />
+                    <MagnifyingGlassIcon className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-light-text/50 dark:text-dark-text/50" />
+                </div>
+            </div>
+            <div className="flex-1 overflow-y-auto p-2">
+                {isLoadingSessions && sessions.length === 0 ? (
+                    <p className="px-2 py-4 text-sm text-center text-light-text/60 dark:text-dark-text/60">Loading chats...</p>
+                ) : pinned.length === 0 && recent.length === 0 ? (
+                    <p className="px-2 py-4 text-sm text-center text-light-text/60 dark:text-dark-text/60">
+                        {searchTerm.trim() ? `No chats match "${searchTerm.trim()}"` : 'No saved chats in this mode yet.'}
+                    </p>
+                ) : (
+                    <>
+                        {renderGroup('Pinned', pinned)}
+                        {renderGroup('Recent', recent)}
+                    </>
+                )}
+            </div>
+        </aside>
+    );
+};
+
+export default ChatSessionList;
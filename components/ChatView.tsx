@@ -2,14 +2,16 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useChatContext, useStoreContext, useUIContext } from '../context/AppContext';
 import { ChatMessage, ChatMode, ChatStatus, Note } from '../types';
 import MarkdownPreview from './MarkdownPreview';
-import { PaperAirplaneIcon, SparklesIcon, XCircleIcon, DocumentPlusIcon, PaperClipIcon, ClipboardDocumentIcon, EllipsisHorizontalIcon, TrashIcon, ThumbsUpIcon, ThumbsDownIcon, DocumentTextIcon, XMarkIcon, ChevronDownIcon, BookmarkIcon, Cog6ToothIcon } from './Icons';
+import { PaperAirplaneIcon, SparklesIcon, XCircleIcon, DocumentPlusIcon, PaperClipIcon, ClipboardDocumentIcon, EllipsisHorizontalIcon, TrashIcon, ThumbsUpIcon, ThumbsDownIcon, DocumentTextIcon, XMarkIcon, ChevronDownIcon, BookmarkIcon, Cog6ToothIcon, HistoryIcon, ArrowUturnLeftIcon, ArrowPathIcon, ChevronLeftIcon, ChevronRightIcon, PencilSquareIcon, StopIcon } from './Icons';
 import { useToast } from '../context/ToastContext';
 import ChatViewSkeleton from './ChatViewSkeleton';
 import NoteSelectorModal from './NoteSelectorModal';
 import ToolCallDisplay from './ToolCallDisplay';
+import ChatSessionList from './ChatSessionList';
+import { describeChange } from '../lib/copilotChanges';
 
-const ChatHeader: React.FC = () => {
-    const { chatMode, setChatMode, chatStatus, clearChat } = useChatContext();
+const ChatHeader: React.FC<{ isSessionListOpen: boolean; onToggleSessionList: () => void }> = ({ isSessionListOpen, onToggleSessionList }) => {
+    const { chatMode, setChatMode, chatStatus, clearChat, sessions, activeSessionId } = useChatContext();
     const modes: { id: ChatMode; name: string; description: string }[] = [
         { id: 'ASSISTANT', name: 'Assistant', description: 'Your knowledge co-pilot. Answers questions based on your notes.' },
         { id: 'RESPONDER', name: 'Responder', description: 'Drafts professional customer service responses using your notes as a knowledge base.' },
@@ -18,18 +20,28 @@ const ChatHeader: React.FC = () => {
     ];
 
     const currentMode = modes.find(m => m.id === chatMode)!;
+    const activeSession = sessions.find(s => s.id === activeSessionId);
 
     return (
         <header className="p-4 border-b border-light-border dark:border-dark-border flex-shrink-0">
             <div className="flex items-center justify-between mb-4">
-                <div>
-                    <h1 className="text-xl font-bold">{currentMode.name}</h1>
-                    <p className="text-sm text-light-text/60 dark:text-dark-text/60">{currentMode.description}</p>
+                <div className="flex items-center gap-3 min-w-0">
+                    <button
+                        onClick={onToggleSessionList}
+                        className={`p-2 rounded-md flex-shrink-0 hover:bg-light-ui dark:hover:bg-dark-ui ${isSessionListOpen ? 'text-light-primary dark:text-dark-primary' : 'text-light-text/60 dark:text-dark-text/60'}`}
+                        aria-label={isSessionListOpen ? 'Hide chat history' : 'Show chat history'}
+                    >
+                        <HistoryIcon className="w-5 h-5" />
+                    </button>
+                    <div className="min-w-0">
+                        <h1 className="text-xl font-bold truncate">{currentMode.name}{activeSession && <span className="font-normal text-light-text/60 dark:text-dark-text/60"> · {activeSession.name}</span>}</h1>
+                        <p className="text-sm text-light-text/60 dark:text-dark-text/60">{currentMode.description}</p>
+                    </div>
                 </div>
                 <button
                     onClick={clearChat}
                     disabled={chatStatus !== 'idle'}
-                    className="text-sm font-semibold text-light-primary dark:text-dark-primary hover:underline disabled:opacity-50"
+                    className="text-sm font-semibold text-light-primary dark:text-dark-primary hover:underline disabled:opacity-50 flex-shrink-0"
                 >
                     Clear Chat
                 </button>
@@ -85,7 +97,7 @@ const SourceNotes: React.FC<{ sources: Note[] }> = ({ sources }) => {
     );
 };
 
-const MessageActions: React.FC<{ onDelete: () => void }> = ({ onDelete }) => {
+const MessageActions: React.FC<{ onDelete: () => void; onEdit?: () => void }> = ({ onDelete, onEdit }) => {
     const [isOpen, setIsOpen] = useState(false);
     
     return (
@@ -98,6 +110,15 @@ const MessageActions: React.FC<{ onDelete: () => void }> = ({ onDelete }) => {
             </button>
             {isOpen && (
                 <div className="absolute bottom-full mb-1 right-0 bg-light-background dark:bg-dark-background rounded-md shadow-lg border border-light-border dark:border-dark-border z-10 py-1">
+                    {onEdit && (
+                        <button
+                            onClick={() => { setIsOpen(false); onEdit(); }}
+                            className="w-full flex items-center gap-2 text-left px-3 py-1.5 text-sm hover:bg-light-ui dark:hover:bg-dark-ui"
+                        >
+                            <PencilSquareIcon className="w-4 h-4" />
+                            Edit
+                        </button>
+                    )}
                     <button
                         onClick={onDelete}
                         className="w-full flex items-center gap-2 text-left px-3 py-1.5 text-sm text-red-500 hover:bg-red-500/10"
@@ -123,6 +144,26 @@ const ActionButton: React.FC<{ tooltip: string; onClick: () => void; children: R
     </div>
 );
 
+// Pages through the alternatives to a message: regenerated answers, or edited questions.
+const BranchNavigator: React.FC<{ messageId: string }> = ({ messageId }) => {
+    const { getSiblingIds, selectBranch, chatStatus } = useChatContext();
+    const siblingIds = getSiblingIds(messageId);
+    if (siblingIds.length < 2) return null;
+    const index = siblingIds.indexOf(messageId);
+    const buttonClass = "p-0.5 rounded hover:bg-light-ui dark:hover:bg-dark-ui disabled:opacity-40 disabled:hover:bg-transparent";
+
+    return (
+        <div className="flex items-center gap-0.5 text-xs text-light-text/60 dark:text-dark-text/60">
+            <button onClick={() => selectBranch(siblingIds[index - 1])} disabled={index === 0 || chatStatus !== 'idle'} className={buttonClass} aria-label="Previous version">
+                <ChevronLeftIcon className="w-3.5 h-3.5" />
+            </button>
+            <span className="tabular-nums">{index + 1} / {siblingIds.length}</span>
+            <button onClick={() => selectBranch(siblingIds[index + 1])} disabled={index === siblingIds.length - 1 || chatStatus !== 'idle'} className={buttonClass} aria-label="Next version">
+                <ChevronRightIcon className="w-3.5 h-3.5" />
+            </button>
+        </div>
+    );
+};
 
 interface MessageProps {
     message: ChatMessage;
@@ -136,10 +177,14 @@ const feedbackReasons = ['Incorrect', 'Not Helpful', 'Off-topic'];
 const Message: React.FC<MessageProps> = ({ message, onDelete, onToggleSources, isSourcesPinned }) => {
     const { showToast } = useToast();
     const { onAddNote, setActiveNoteId, getNoteById } = useStoreContext();
-    const { handleFeedback } = useChatContext();
+    const { handleFeedback, chatStatus, chatMode, respondToToolApproval, undoCopilotTurn, regenerateResponse, editMessage } = useChatContext();
     const { setView } = useUIContext();
     const [isHovered, setIsHovered] = useState(false);
     const [isProvidingFeedback, setIsProvidingFeedback] = useState(false);
+    const [isUndoing, setIsUndoing] = useState(false);
+    const [editDraft, setEditDraft] = useState<string | null>(null);
+    // Co-pilot turns change the workspace and can't be replayed from an earlier point.
+    const canBranch = chatMode !== 'WESCORE_COPILOT' && chatStatus === 'idle';
 
 
     const handleSaveAsNote = async () => {
@@ -169,12 +214,58 @@ const Message: React.FC<MessageProps> = ({ message, onDelete, onToggleSources, i
         setView('NOTES');
     };
 
+    const handleUndoTurn = async () => {
+        setIsUndoing(true);
+        try {
+            await undoCopilotTurn(message.id);
+            showToast({ message: 'Changes from this turn were undone.', type: 'success' });
+        } catch (error) {
+            showToast({ message: error instanceof Error ? error.message : 'Failed to undo changes.', type: 'error' });
+        } finally {
+            setIsUndoing(false);
+        }
+    };
+
+    const handleSubmitEdit = () => {
+        if (editDraft === null || !editDraft.trim()) return;
+        setEditDraft(null);
+        editMessage(message.id, editDraft);
+    };
+
     const handleSelectReason = (reason: string) => {
         handleFeedback(message.id, { rating: 'down', tags: [reason] });
         setIsProvidingFeedback(false);
     };
 
     const renderContent = () => {
+        if (editDraft !== null) {
+            return (
+                <div className="w-[32rem] max-w-full">
+                    <textarea
+                        value={editDraft}
+                        onChange={(e) => setEditDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault();
+                                handleSubmitEdit();
+                            } else if (e.key === 'Escape') {
+                                setEditDraft(null);
+                            }
+                        }}
+                        rows={3}
+                        autoFocus
+                        className="w-full p-2 rounded-md bg-light-background dark:bg-dark-background border border-light-border dark:border-dark-border focus:outline-none focus:border-light-primary dark:focus:border-dark-primary resize-y"
+                    />
+                    <div className="flex justify-end gap-2 mt-2">
+                        <button onClick={() => setEditDraft(null)} className="px-3 py-1 text-sm rounded-md hover:bg-light-background dark:hover:bg-dark-background">Cancel</button>
+                        <button onClick={handleSubmitEdit} disabled={!editDraft.trim() || !canBranch} className="px-3 py-1 text-sm font-semibold rounded-md bg-light-primary text-white dark:bg-dark-primary dark:text-zinc-900 disabled:opacity-50">Send</button>
+                    </div>
+                </div>
+            );
+        }
+        if (message.stopped && !message.content) {
+            return <p className="text-sm italic text-light-text/60 dark:text-dark-text/60">Stopped before a reply was written.</p>;
+        }
         if (typeof message.content === 'string') {
             return <MarkdownPreview title="" content={message.content} onToggleTask={() => {}} isStreaming={message.role === 'ai' && message.status === 'processing'} />;
         }
@@ -188,9 +279,15 @@ const Message: React.FC<MessageProps> = ({ message, onDelete, onToggleSources, i
     if (isTool) {
         const toolContent = message.content;
         if (typeof toolContent === 'object' && toolContent !== null && 'name' in toolContent) {
+            // An approval left over from a reloaded page has nothing waiting on it.
+            const canRespond = toolContent.status === 'awaiting_approval' && chatStatus === 'awaiting_confirmation';
             return (
                 <div className="my-2 max-w-full md:max-w-2xl mx-auto">
-                     <ToolCallDisplay content={toolContent as any} />
+                     <ToolCallDisplay
+                        content={toolContent}
+                        onApprove={canRespond ? () => respondToToolApproval(message.id, true) : undefined}
+                        onReject={canRespond ? () => respondToToolApproval(message.id, false) : undefined}
+                     />
                 </div>
             );
         }
@@ -204,7 +301,14 @@ const Message: React.FC<MessageProps> = ({ message, onDelete, onToggleSources, i
             onMouseLeave={() => setIsHovered(false)}
         >
              {isAi && <div className="w-8 h-8 rounded-full bg-light-primary dark:bg-dark-primary flex items-center justify-center text-white flex-shrink-0 mt-1"><SparklesIcon className="w-5 h-5"/></div>}
-             {isUser && isHovered && <div className="flex-shrink-0 self-center"><MessageActions onDelete={onDelete} /></div>}
+             {isUser && isHovered && editDraft === null && (
+                <div className="flex-shrink-0 self-center">
+                    <MessageActions
+                        onDelete={onDelete}
+                        onEdit={canBranch && typeof message.content === 'string' ? () => setEditDraft(message.content as string) : undefined}
+                    />
+                </div>
+             )}
 
             <div className={`p-3 rounded-lg max-w-full md:max-w-2xl w-fit ${isUser ? 'bg-light-ui dark:bg-dark-ui' : 'bg-light-background dark:bg-dark-background'}`}>
                 {message.image && <img src={`data:image/jpeg;base64,${message.image}`} alt="User upload" className="max-w-xs rounded-lg mb-2" />}
@@ -227,6 +331,11 @@ const Message: React.FC<MessageProps> = ({ message, onDelete, onToggleSources, i
                 <div className="chat-markdown">
                     {renderContent()}
                 </div>
+                {isUser && editDraft === null && (
+                    <div className="flex justify-end empty:hidden mt-1">
+                        <BranchNavigator messageId={message.id} />
+                    </div>
+                )}
                 {isAi && message.sources && message.sources.length > 0 && <SourceNotes sources={message.sources} />}
                 {isAi && message.noteIds && message.noteIds.length > 0 && (
                     <div className="mt-2 space-y-1">
@@ -243,6 +352,28 @@ const Message: React.FC<MessageProps> = ({ message, onDelete, onToggleSources, i
                         })}
                     </div>
                 )}
+                {isAi && message.changeset && (
+                    <div className="mt-2 space-y-1">
+                        <p className="text-xs font-semibold text-light-text/60 dark:text-dark-text/60">Changes in this turn:</p>
+                        <ul className="text-xs list-disc list-inside text-light-text/80 dark:text-dark-text/80">
+                            {message.changeset.changes.map((change, index) => (
+                                <li key={index} className={message.changeset!.revertedAt ? 'line-through opacity-60' : ''}>{describeChange(change)}</li>
+                            ))}
+                        </ul>
+                        {message.changeset.revertedAt ? (
+                            <p className="text-xs italic text-light-text/60 dark:text-dark-text/60">Undone</p>
+                        ) : (
+                            <button
+                                onClick={handleUndoTurn}
+                                disabled={isUndoing || chatStatus !== 'idle'}
+                                className="flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-md bg-light-ui dark:bg-dark-ui hover:bg-light-ui-hover dark:hover:bg-dark-ui-hover disabled:opacity-50"
+                            >
+                                <ArrowUturnLeftIcon className="w-3 h-3" />
+                                {isUndoing ? 'Undoing...' : 'Undo this turn'}
+                            </button>
+                        )}
+                    </div>
+                )}
                 {isAi && message.status !== 'processing' && (
                     <div className="flex items-center gap-1 mt-2 pt-2 border-t border-light-border/50 dark:border-dark-border/50">
                         {isProvidingFeedback ? (
@@ -266,8 +397,20 @@ const Message: React.FC<MessageProps> = ({ message, onDelete, onToggleSources, i
                                 <ActionButton tooltip="Copy to Clipboard" onClick={handleCopyToClipboard}>
                                     <ClipboardDocumentIcon className="w-4 h-4" />
                                 </ActionButton>
+                                {canBranch && (
+                                    <ActionButton tooltip="Regenerate" onClick={() => regenerateResponse(message.id)}>
+                                        <ArrowPathIcon className="w-4 h-4" />
+                                    </ActionButton>
+                                )}
+                                <BranchNavigator messageId={message.id} />
 
                                 <div className="flex-1" />
+                                {message.stopped && (
+                                    <span className="text-xs italic text-light-text/50 dark:text-dark-text/50 mr-1">Stopped</span>
+                                )}
+                                {message.model && (
+                                    <span className="text-xs text-light-text/50 dark:text-dark-text/50 mr-1" title="Model that wrote this reply">{message.model}</span>
+                                )}
                                 
                                 <button 
                                     onClick={() => handleFeedback(message.id, { rating: 'up' })}
@@ -299,7 +442,7 @@ const ChatInput: React.FC = () => {
     const [isPreviewModalOpen, setIsPreviewModalOpen] = useState(false);
     const { 
         chatMode, chatStatus, onSendMessage, onGenerateServiceResponse, onSendGeneralMessage, onGenerateAmazonCopy,
-        recallLastMessage, responders, addResponder, deleteResponder, deleteMessage, contextNoteIds, setContextNoteIds,
+        recallLastMessage, responders, addResponder, deleteResponder, deleteMessage, contextNoteIds, setContextNoteIds, stopGenerating,
     } = useChatContext();
     const { showToast } = useToast();
     const { notes, getNoteById } = useStoreContext();
@@ -482,7 +625,11 @@ const ChatInput: React.FC = () => {
                         <button onClick={() => setIsNoteSelectorOpen(true)} className="p-2 rounded-md hover:bg-light-background dark:hover:bg-dark-background disabled:opacity-50" disabled={chatStatus !== 'idle'} aria-label="Add Note Context"><DocumentPlusIcon /></button>
                         <button onClick={() => fileInputRef.current?.click()} className="p-2 rounded-md hover:bg-light-background dark:hover:bg-dark-background disabled:opacity-50" disabled={chatStatus !== 'idle'}><PaperClipIcon /></button>
                         <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/jpeg,image/png" className="hidden" />
-                        <button onClick={handleSend} className="p-2 rounded-md bg-light-primary text-white dark:bg-dark-primary dark:text-zinc-900 disabled:opacity-50" disabled={chatStatus !== 'idle'}><PaperAirplaneIcon /></button>
+                        {chatStatus === 'idle' ? (
+                            <button onClick={handleSend} className="p-2 rounded-md bg-light-primary text-white dark:bg-dark-primary dark:text-zinc-900 disabled:opacity-50"><PaperAirplaneIcon /></button>
+                        ) : (
+                            <button onClick={stopGenerating} className="p-2 rounded-md bg-light-primary text-white dark:bg-dark-primary dark:text-zinc-900" aria-label="Stop generating"><StopIcon /></button>
+                        )}
                     </div>
                 </div>
             </div>
@@ -500,7 +647,8 @@ const ChatInput: React.FC = () => {
 
 const ChatView: React.FC = () => {
     const { chatMessages, chatStatus, activeToolName, deleteMessage } = useChatContext();
-    const { isAiEnabled, openSettings } = useUIContext();
+    const { isAiEnabled, openSettings, isMobileView } = useUIContext();
+    const [isSessionListOpen, setIsSessionListOpen] = useState(!isMobileView);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const [pinnedSourcesInfo, setPinnedSourcesInfo] = useState<{ messageId: string; sources: Note[] } | null>(null);
 
@@ -515,7 +663,7 @@ const ChatView: React.FC = () => {
     if (!isAiEnabled) {
         return (
             <div className="flex-1 flex flex-col h-full bg-light-background dark:bg-dark-background">
-                <ChatHeader />
+                <ChatHeader isSessionListOpen={isSessionListOpen} onToggleSessionList={() => setIsSessionListOpen(p => !p)} />
                 <div className="flex-1 flex flex-col items-center justify-center text-center p-8">
                     <SparklesIcon className="w-16 h-16 mb-4 text-light-text/30 dark:text-dark-text/30" />
                     <h2 className="text-xl font-bold">AI Features Disabled</h2>
@@ -539,14 +687,16 @@ const ChatView: React.FC = () => {
             case 'searching': return 'Searching notes...';
             case 'replying': return 'Generating response...';
             case 'using_tool': return activeToolName ? `Using tool: ${activeToolName}...` : 'Using tools...';
+            case 'awaiting_confirmation': return 'Waiting for your approval...';
             default: return null;
         }
     };
 
     return (
         <div className="flex-1 flex flex-col h-full bg-light-background dark:bg-dark-background">
-            <ChatHeader />
+            <ChatHeader isSessionListOpen={isSessionListOpen} onToggleSessionList={() => setIsSessionListOpen(p => !p)} />
             <div className="flex flex-1 min-h-0">
+                {isSessionListOpen && <ChatSessionList />}
                 <div className="flex-1 overflow-y-auto p-4 sm:p-8">
                     <div className="max-w-3xl mx-auto w-full space-y-6">
                         {chatMessages.map(msg => 
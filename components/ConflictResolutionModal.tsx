@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useModalAccessibility } from '../hooks/useModalAccessibility';
+import { MergeableNote, NoteMergeResult, joinHunks } from '../lib/merge';
+
+type Choice = 'local' | 'remote' | 'both';
+type TagChoice = 'merged' | 'local' | 'remote';
+
+interface ConflictResolutionModalProps {
+    isOpen: boolean;
+    mergeResult: NoteMergeResult | null;
+    local: MergeableNote | null;
+    remote: MergeableNote | null;
+    onResolve: (resolved: MergeableNote) => void;
+    onDiscardLocal: () => void;
+    onClose: () => void;
+}
+
+const ChoicePane: React.FC<{ label: string; selected: boolean; onClick: () => void; children: React.ReactNode }> = ({ label, selected, onClick, children }) => (
+    <button
+        onClick={onClick}
+        aria-pressed={selected}
+        className={`flex-1 min-w-0 text-left rounded-md border-2 p-2 transition-colors ${
+            selected
+                ? 'border-light-primary dark:border-dark-primary bg-light-primary/10 dark:bg-dark-primary/10'
+                : 'border-light-border dark:border-dark-border hover:border-light-primary/50 dark:hover:border-dark-primary/50'
+        }`}
+    >
+        <p className="text-xs font-semibold uppercase tracking-wider text-light-text/60 dark:text-dark-text/60 mb-1">{label}</p>
+        {children}
+    </button>
+);
+
+const LinesBlock: React.FC<{ lines: string[] }> = ({ lines }) => (
+    <pre className="text-sm whitespace-pre-wrap break-words font-mono max-h-48 overflow-y-auto">
+        {lines.length > 0 ? lines.join('\n') : <span className="italic text-light-text/50 dark:text-dark-text/50">(removed)</span>}
+    </pre>
+);
+
+const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({ isOpen, mergeResult, local, remote, onResolve, onDiscardLocal, onClose }) => {
+    const [hunkChoices, setHunkChoices] = useState<Record<number, Choice>>({});
+    const [titleChoice, setTitleChoice] = useState<Choice>('local');
+    const [tagChoice, setTagChoice] = useState<TagChoice>('merged');
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    useModalAccessibility(isOpen, onClose, modalRef);
+
+    useEffect(() => {
+        if (isOpen) {
+            setHunkChoices({});
+            setTitleChoice('local');
+            setTagChoice('merged');
+        }
+    }, [isOpen, mergeResult]);
+
+    const conflictHunks = useMemo(
+        () => (mergeResult?.contentHunks || []).filter((hunk): hunk is Extract<typeof hunk, { type: 'conflict' }> => hunk.type === 'conflict'),
+        [mergeResult]
+    );
+
+    if (!isOpen || !mergeResult || !local || !remote) return null;
+
+    const { titleConflict } = mergeResult;
+    const tagsDiffer = local.tags.join('\u0000') !== remote.tags.join('\u0000');
+
+    const handleApply = () => {
+        const content = joinHunks(mergeResult.contentHunks, (hunk, index) => {
+            const choice = hunkChoices[index] || 'local';
+            if (choice === 'remote') return hunk.remote;
+            if (choice === 'both') return [...hunk.local, ...hunk.remote];
+            return hunk.local;
+        });
+        const title = titleConflict && titleChoice === 'remote' ? titleConflict.remote : mergeResult.merged.title;
+        const tags = tagChoice === 'local' ? local.tags : tagChoice === 'remote' ? remote.tags : mergeResult.merged.tags;
+        onResolve({ title, content, tags });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div
+                ref={modalRef}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="conflict-modal-title"
+                className="bg-light-background dark:bg-dark-background rounded-lg shadow-xl w-full max-w-4xl flex flex-col max-h-full"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="p-6 border-b border-light-border dark:border-dark-border flex-shrink-0">
+                    <h2 id="conflict-modal-title" className="text-xl font-bold mb-2">Resolve Sync Conflict</h2>
+                    <p className="text-sm text-light-text/80 dark:text-dark-text/80">
+                        This note was changed on another device while you were editing. Changes that didn't overlap have been merged automatically.
+                        Choose which version to keep for each section below.
+                    </p>
+                </div>
+
+                <div className="overflow-y-auto p-6 space-y-6">
+                    {titleConflict && (
+                        <div>
+                            <h3 className="font-semibold mb-2">Title</h3>
+                            <div className="flex gap-3">
+                                <ChoicePane label="Your version" selected={titleChoice === 'local'} onClick={() => setTitleChoice('local')}>
+                                    <p className="truncate">{titleConflict.local}</p>
+                                </ChoicePane>
+                                <ChoicePane label="Their version" selected={titleChoice === 'remote'} onClick={() => setTitleChoice('remote')}>
+                                    <p className="truncate">{titleConflict.remote}</p>
+                                </ChoicePane>
+                            </div>
+                        </div>
+                    )}
+
+                    {conflictHunks.map((hunk, index) => {
+                        const choice = hunkChoices[index] || 'local';
+                        const choose = (next: Choice) => setHunkChoices(prev => ({ ...prev, [index]: next }));
+                        return (
+                            <div key={index}>
+                                <div className="flex items-center justify-between mb-2">
+                                    <h3 className="font-semibold">Content conflict {conflictHunks.length > 1 ? `${index + 1} of ${conflictHunks.length}` : ''}</h3>
+                                    <button
+                                        onClick={() => choose('both')}
+                                        aria-pressed={choice === 'both'}
+                                        className={`text-sm px-2 py-1 rounded-md ${choice === 'both' ? 'bg-light-primary text-white dark:bg-dark-primary' : 'hover:bg-light-ui dark:hover:bg-dark-ui'}`}
+                                    >
+                                        Keep both
+                                    </button>
+                                </div>
+                                <div className="flex gap-3">
+                                    <ChoicePane label="Your version" selected={choice === 'local' || choice === 'both'} onClick={() => choose('local')}>
+                                        <LinesBlock lines={hunk.local} />
+                                    </ChoicePane>
+                                    <ChoicePane label="Their version" selected={choice === 'remote' || choice === 'both'} onClick={() => choose('remote')}>
+                                        <LinesBlock lines={hunk.remote} />
+                                    </ChoicePane>
+                                </div>
+                            </div>
+                        );
+                    })}
+
+                    {tagsDiffer && (
+                        <div>
+                            <h3 className="font-semibold mb-2">Tags</h3>
+                            <div className="flex gap-3">
+                                {([
+                                    ['merged', 'Merged', mergeResult.merged.tags],
+                                    ['local', 'Your version', local.tags],
+                                    ['remote', 'Their version', remote.tags],
+                                ] as [TagChoice, string, string[]][]).map(([value, label, tags]) => (
+                                    <ChoicePane key={value} label={label} selected={tagChoice === value} onClick={() => setTagChoice(value)}>
+                                        <p className="text-sm truncate">{tags.length > 0 ? tags.map(t => `#${t}`).join(' ') : 'No tags'}</p>
+                                    </ChoicePane>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex justify-between items-center p-4 bg-light-ui/50 dark:bg-dark-ui/50 rounded-b-lg flex-shrink-0">
+                    <button onClick={onDiscardLocal} className="px-4 py-2 rounded-md text-red-600 dark:text-red-400 hover:bg-light-ui-hover dark:hover:bg-dark-ui-hover">
+                        Discard Mine & Reload
+                    </button>
+                    <div className="flex space-x-4">
+                        <button onClick={onClose} className="px-4 py-2 rounded-md hover:bg-light-ui-hover dark:hover:bg-dark-ui-hover">
+                            Decide Later
+                        </button>
+                        <button onClick={handleApply} className="px-4 py-2 bg-light-primary text-white rounded-md hover:bg-light-primary-hover dark:bg-dark-primary dark:hover:bg-dark-primary-hover">
+                            Apply Merge
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ConflictResolutionModal;
@@ -6,15 +6,22 @@ import { useToast } from '../context/ToastContext';
 import { Note } from '../types';
 import MarkdownPreview from './MarkdownPreview';
 import { generatePreviewFromMarkdown } from '../lib/markdownUtils';
-
-const noteLinkRegex = /\[\[([a-zA-Z0-9-]+)(?:\|.*?)?\]\]/g;
+import { formatWikiLink } from '../lib/wikiLinks';
+import { getFolderPath } from '../lib/trash';
+import { DEFAULT_GRAPH_SETTINGS, GraphNodeData, GraphSettings, buildGraphData, getTagFromNodeId, loadGraphSettings, saveGraphSettings } from '../lib/graphView';
+import GraphControls from './graph/GraphControls';
 
 type GraphNode = NodeObject & {
     id: string;
     name: string;
     val: number;
+    type: GraphNodeData['type'];
+    community: number | null;
 };
 
+// Yellow is left out: it marks the selected node.
+const COMMUNITY_COLORS = ['#f97316', '#22c55e', '#3b82f6', '#ec4899', '#14b8a6', '#ef4444', '#84cc16', '#6366f1', '#f43f5e', '#0ea5e9'];
+
 const NotePreviewPopover: React.FC<{ note: Note; position: { x: number; y: number } }> = ({ note, position }) => {
     const previewContent = generatePreviewFromMarkdown(note.content, 250);
 
@@ -41,7 +48,7 @@ const NotePreviewPopover: React.FC<{ note: Note; position: { x: number; y: numbe
 };
 
 const GraphView: React.FC = () => {
-    const { notes, setActiveNoteId, updateNote } = useStoreContext();
+    const { notes, collections, activeNoteId, setActiveNoteId, updateNote, linkGraph } = useStoreContext();
     const { setView, theme } = useUIContext();
     const { showToast } = useToast();
     const containerRef = useRef<HTMLDivElement>(null);
@@ -58,6 +65,7 @@ const GraphView: React.FC = () => {
     const hoverTimeoutRef = useRef<number | null>(null);
     const clickTimeoutRef = useRef<number | null>(null);
     const lastClickedNodeRef = useRef<GraphNode | null>(null);
+    const [settings, setSettings] = useState<GraphSettings>(loadGraphSettings);
 
     useEffect(() => {
         const handleResize = () => {
@@ -98,50 +106,51 @@ const GraphView: React.FC = () => {
         }
     }, [isLinkingMode]);
 
-    const { graphData, neighborsMap, hotNodeId } = useMemo(() => {
-        const links: Link<GraphNode>[] = [];
-        const noteIds = new Set(notes.map(n => n.id));
-        const degrees = new Map<string, number>();
-        const neighborsMap = new Map<string, Set<string>>();
-
-        notes.forEach(note => {
-            degrees.set(note.id, 0);
-            neighborsMap.set(note.id, new Set());
-            const matches = [...note.content.matchAll(noteLinkRegex)];
-            matches.forEach(match => {
-                const targetId = match[1];
-                if (note.id !== targetId && noteIds.has(targetId)) {
-                    links.push({ source: note.id, target: targetId });
-                    degrees.set(note.id, (degrees.get(note.id) || 0) + 1);
-                    degrees.set(targetId, (degrees.get(targetId) || 0) + 1);
-                }
-            });
-        });
+    const { graphData, neighborsMap, centerId, communityCount } = useMemo(() => {
+        const data = buildGraphData(notes, collections, linkGraph, settings, activeNoteId);
+        const nodes: GraphNode[] = data.nodes.map(node => ({
+            id: node.id,
+            name: node.name,
+            val: node.degree + 1,
+            type: node.type,
+            community: node.community,
+        }));
+        const links: Link<GraphNode>[] = data.links.map(({ source, target }) => ({ source, target }));
 
-        links.forEach(({ source, target }) => {
-            const sourceId = typeof source === 'object' ? (source as GraphNode).id as string : source as string;
-            const targetId = typeof target === 'object' ? (target as GraphNode).id as string : target as string;
-            neighborsMap.get(sourceId)?.add(targetId);
-            neighborsMap.get(targetId)?.add(sourceId);
+        const neighborsMap = new Map<string, Set<string>>(nodes.map(node => [node.id, new Set()]));
+        data.links.forEach(({ source, target }) => {
+            neighborsMap.get(source)?.add(target);
+            neighborsMap.get(target)?.add(source);
         });
-        
-        const nodes: GraphNode[] = notes.map(note => ({
-            id: note.id,
-            name: note.title || 'Untitled Note',
-            val: (degrees.get(note.id) || 0) + 1,
-        }));
-        
-        let hotNodeId: string | null = null;
-        let maxDegree = 0;
-        degrees.forEach((degree, nodeId) => {
-            if (degree > maxDegree) {
-                maxDegree = degree;
-                hotNodeId = nodeId;
-            }
+
+        return { graphData: { nodes, links }, neighborsMap, centerId: data.centerId, communityCount: data.communityCount };
+    }, [notes, collections, linkGraph, settings, activeNoteId]);
+
+    const tags = useMemo(() => [...new Set(notes.flatMap(note => note.tags))].sort((a, b) => a.localeCompare(b)), [notes]);
+    const folders = useMemo(() => collections
+        .map(c => ({ id: c.id, path: getFolderPath(c.id, collections).join(' / ') }))
+        .sort((a, b) => a.path.localeCompare(b.path)), [collections]);
+
+    const clearSelection = useCallback(() => {
+        setSelectedNodes(new Set());
+        setNeighbors(new Set());
+        setHighlightedLinks(new Set());
+    }, []);
+
+    const updateSettings = useCallback((changes: Partial<GraphSettings>) => {
+        setSettings(prev => {
+            const next = { ...prev, ...changes };
+            saveGraphSettings(next);
+            return next;
         });
+        clearSelection();
+    }, [clearSelection]);
 
-        return { graphData: { nodes, links }, neighborsMap, hotNodeId };
-    }, [notes]);
+    const resetSettings = useCallback(() => {
+        saveGraphSettings(DEFAULT_GRAPH_SETTINGS);
+        setSettings(DEFAULT_GRAPH_SETTINGS);
+        clearSelection();
+    }, [clearSelection]);
 
     const clearPreview = useCallback(() => {
         if (hoverTimeoutRef.current) clearTimeout(hoverTimeoutRef.current);
@@ -150,18 +159,23 @@ const GraphView: React.FC = () => {
     
     const handleNodeDoubleClick = useCallback((node: GraphNode) => {
         clearPreview();
+        const tag = getTagFromNodeId(node.id);
+        if (node.type === 'tag' && tag) {
+            // Narrows the graph to the tag's notes rather than opening anything.
+            const tagName = tags.find(t => t.toLowerCase() === tag) ?? tag;
+            updateSettings({ tag: tagName });
+            return;
+        }
         setActiveNoteId(node.id as string);
         setView('NOTES');
-    }, [setActiveNoteId, setView, clearPreview]);
+    }, [setActiveNoteId, setView, clearPreview, tags, updateSettings]);
     
     const handleSingleClick = useCallback((node: GraphNode) => {
         clearPreview();
         if (isLinkingMode) return;
 
         if (selectedNodes.has(node.id as string) && selectedNodes.size === 1) {
-            setSelectedNodes(new Set());
-            setNeighbors(new Set());
-            setHighlightedLinks(new Set());
+            clearSelection();
             return;
         }
 
@@ -183,7 +197,7 @@ const GraphView: React.FC = () => {
             fgRef.current?.centerAt(node.x, node.y, 1000);
             fgRef.current?.zoom(4, 500);
         }
-    }, [selectedNodes, neighborsMap, graphData.links, clearPreview, isLinkingMode]);
+    }, [selectedNodes, neighborsMap, graphData.links, clearPreview, isLinkingMode, clearSelection]);
 
     const handleNodeClick = useCallback((node: GraphNode) => {
         if (clickTimeoutRef.current && lastClickedNodeRef.current?.id === node.id) {
@@ -208,11 +222,9 @@ const GraphView: React.FC = () => {
 
     const handleBackgroundClick = useCallback(() => {
         clearPreview();
-        setSelectedNodes(new Set());
-        setNeighbors(new Set());
-        setHighlightedLinks(new Set());
+        clearSelection();
         fgRef.current?.zoomToFit(400, 100);
-    }, [clearPreview]);
+    }, [clearPreview, clearSelection]);
     
     const handleNodeDragStart = useCallback((node: GraphNode) => {
         clearPreview();
@@ -224,10 +236,10 @@ const GraphView: React.FC = () => {
     const handleNodeDragEnd = useCallback(async (node: GraphNode) => {
         if (isLinkingMode && linkSourceNode && hoveredNode && linkSourceNode.id !== hoveredNode.id) {
             const sourceNote = notes.find(n => n.id === linkSourceNode.id);
-            if (sourceNote) {
-                const linkText = `\n[[${hoveredNode.id}]]`;
-                if (!sourceNote.content.includes(linkText.trim())) {
-                    const newContent = `${sourceNote.content}${linkText}`;
+            const targetNote = notes.find(n => n.id === hoveredNode.id);
+            if (sourceNote && targetNote) {
+                if (!linkGraph.outbound.get(sourceNote.id)?.some(link => link.targetId === targetNote.id)) {
+                    const newContent = `${sourceNote.content}\n${formatWikiLink(targetNote, undefined, linkGraph.names)}`;
                     try {
                         await updateNote(sourceNote.id, { content: newContent });
                         showToast({ message: `Linked to "${hoveredNode.name}"!`, type: 'success' });
@@ -238,7 +250,7 @@ const GraphView: React.FC = () => {
             }
         }
         setLinkSourceNode(null);
-    }, [isLinkingMode, linkSourceNode, hoveredNode, notes, updateNote, showToast]);
+    }, [isLinkingMode, linkSourceNode, hoveredNode, notes, linkGraph, updateNote, showToast]);
 
     const handleNodeHover = useCallback((node: GraphNode | null) => {
         clearPreview();
@@ -265,10 +277,10 @@ const GraphView: React.FC = () => {
         const fg = fgRef.current;
         if (!fg || selectedNodes.size > 0) return;
 
-        if (hotNodeId) {
-            const hotNode = graphData.nodes.find(n => n.id === hotNodeId);
-            if (hotNode && typeof hotNode.x === 'number' && typeof hotNode.y === 'number') {
-                fg.centerAt(hotNode.x, hotNode.y, 1000);
+        if (centerId) {
+            const centerNode = graphData.nodes.find(n => n.id === centerId);
+            if (centerNode && typeof centerNode.x === 'number' && typeof centerNode.y === 'number') {
+                fg.centerAt(centerNode.x, centerNode.y, 1000);
                 fg.zoom(4, 500);
                 return;
             }
@@ -276,7 +288,7 @@ const GraphView: React.FC = () => {
         
         fg.zoomToFit(400, 100);
 
-    }, [graphData, hotNodeId, selectedNodes]);
+    }, [graphData, centerId, selectedNodes]);
     
     const nodeCanvasObject = useCallback((node: GraphNode, ctx: CanvasRenderingContext2D, globalScale: number) => {
         if (node.x === undefined || node.y === undefined) return;
@@ -285,13 +297,17 @@ const GraphView: React.FC = () => {
         const isNeighbor = neighbors.has(node.id as string);
         const isDimmed = selectedNodes.size > 0 && !isSelected && !isNeighbor;
         const isHovered = hoveredNode?.id === node.id;
-        const isInitialHot = !selectedNodes.size && hotNodeId === node.id;
+        const isInitialHot = !selectedNodes.size && centerId === node.id;
         
         const label = node.name;
         const fontSize = 12 / globalScale;
         const nodeRadius = 3 + Math.log2(node.val || 1) * (isSelected ? 1.5 : 1);
         
-        const nodeColor = theme === 'dark' ? '#22d3ee' : '#06b6d4';
+        const defaultColor = theme === 'dark' ? '#22d3ee' : '#06b6d4';
+        const tagColor = theme === 'dark' ? '#94a3b8' : '#64748b';
+        const nodeColor = node.type === 'tag'
+            ? tagColor
+            : (settings.colorByCommunity && node.community !== null ? COMMUNITY_COLORS[node.community % COMMUNITY_COLORS.length] : defaultColor);
         const selectedColor = '#facc15'; // yellow-400
         const labelColor = theme === 'dark' ? 'rgba(248, 250, 252, 0.8)' : 'rgba(2, 6, 23, 0.8)';
         
@@ -321,7 +337,7 @@ const GraphView: React.FC = () => {
         }
 
         ctx.globalAlpha = 1;
-    }, [theme, selectedNodes, neighbors, hoveredNode, hotNodeId]);
+    }, [theme, selectedNodes, neighbors, hoveredNode, centerId, settings.colorByCommunity]);
     
     const linkColor = useCallback((link: Link<GraphNode>) => {
         const isDimmed = selectedNodes.size > 0 && !highlightedLinks.has(link);
@@ -359,6 +375,22 @@ const GraphView: React.FC = () => {
 
     return (
         <div ref={containerRef} className="flex-1 w-full h-full relative bg-light-background dark:bg-dark-background">
+            <GraphControls
+                settings={settings}
+                onChange={updateSettings}
+                onReset={resetSettings}
+                tags={tags}
+                folders={folders}
+                hasActiveNote={!!activeNoteId && notes.some(n => n.id === activeNoteId)}
+                nodeCount={graphData.nodes.length}
+                communityCount={communityCount}
+            />
+            {graphData.nodes.length === 0 && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center text-center text-light-text/60 dark:text-dark-text/60 p-4 pointer-events-none">
+                    <GraphIcon className="w-12 h-12 mb-3" />
+                    <p>No notes match these graph options.</p>
+                </div>
+            )}
             {previewNode && (
                 <NotePreviewPopover 
                     note={previewNode.note} 
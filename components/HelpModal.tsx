@@ -96,7 +96,9 @@ const HelpContent = () => (
         </AccordionItem>
         <AccordionItem title="How do I link notes?">
             <p className="mb-2">You can create links between notes to build a web of knowledge. When you're in a note, you can see all the notes that link to it in the "Linked Mentions" section.</p>
-             <p>To create a link, type `[[` to open the note linker, search for the note you want to link to, and press Enter. You can also right-click a note in the sidebar and select "Copy Note Link" to get the link syntax.</p>
+             <p className="mb-2">To create a link, type `[[` to open the note linker, search for the note you want to link to, and press Enter. You can also right-click a note in the sidebar and select "Copy Note Link" to get the link syntax.</p>
+             <p>Links use the note's title: `[[Note Title]]`, `[[Note Title#Heading]]` to jump to a heading, or `[[Note Title|other text]]` to show different text. Add aliases under a note's tags to link it by other names too. When you rename a note, you'll be offered to update the links that use its old title.</p>
+             <p className="mt-2">When you finish typing another note's title or alias, a suggestion appears: press Tab to turn it into a link, or Esc to dismiss it. The "Unlinked Mentions" section lists the places other notes name the current note without linking to it; click "Link" to convert one.</p>
         </AccordionItem>
         <AccordionItem title="What are Templates & Synced Blocks?">
             <p className="mb-2">**Templates** are reusable note structures you can create in **Settings &rarr; Templates**. You can apply a template to a new or existing note to pre-fill its content.</p>
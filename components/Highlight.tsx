@@ -2,21 +2,27 @@ import React from 'react';
 
 interface HighlightProps {
     text: string;
-    highlight: string;
+    highlight: string | string[];
 }
 
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
 const Highlight: React.FC<HighlightProps> = ({ text, highlight }) => {
-    if (!highlight.trim()) {
+    const terms = (Array.isArray(highlight) ? highlight : [highlight]).map(t => t.trim()).filter(Boolean);
+    if (terms.length === 0) {
         return <>{text}</>;
     }
 
-    const regex = new RegExp(`(${highlight})`, 'gi');
+    // Longest first so a phrase wins over the words inside it.
+    const sortedTerms = [...terms].sort((a, b) => b.length - a.length);
+    const regex = new RegExp(`(${sortedTerms.map(escapeRegExp).join('|')})`, 'gi');
+    const lowercasedTerms = new Set(terms.map(t => t.toLowerCase()));
     const parts = text.split(regex);
 
     return (
         <>
             {parts.map((part, i) =>
-                part.toLowerCase() === highlight.toLowerCase() ? (
+                lowercasedTerms.has(part.toLowerCase()) ? (
                     <mark key={i} className="bg-yellow-300/70 dark:bg-yellow-500/50 text-inherit rounded-sm px-0.5 py-0">
                         {part}
                     </mark>
@@ -28,4 +34,4 @@ const Highlight: React.FC<HighlightProps> = ({ text, highlight }) => {
     );
 };
 
-export default React.memo(Highlight);
\ No newline at end of file
+export default React.memo(Highlight);
@@ -0,0 +1,39 @@
+import React, { useMemo, useRef } from 'react';
+import { LinkIcon } from './Icons';
+import { useDynamicPosition } from '../hooks/useDynamicPosition';
+
+interface LinkSuggestionProps {
+    noteTitle: string;
+    onAccept: () => void;
+    position: { top: number; left: number };
+    editorPaneRef: React.RefObject<HTMLElement>;
+}
+
+const LinkSuggestion: React.FC<LinkSuggestionProps> = ({ noteTitle, onAccept, position, editorPaneRef }) => {
+    const menuRef = useRef<HTMLButtonElement>(null);
+
+    const anchorRect = useMemo(() => new DOMRect(position.left, position.top, 0, 0), [position]);
+
+    const style = useDynamicPosition({
+        anchorRect,
+        isOpen: true,
+        menuRef,
+        scrollContainerRef: editorPaneRef,
+    });
+
+    return (
+        <button
+            ref={menuRef}
+            style={style}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={onAccept}
+            className="flex items-center gap-2 max-w-xs px-2 py-1 text-sm bg-light-background dark:bg-dark-background rounded-md shadow-lg border border-light-border dark:border-dark-border hover:bg-light-ui dark:hover:bg-dark-ui animate-fade-in-down"
+        >
+            <LinkIcon className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">Link to "{noteTitle}"</span>
+            <kbd className="px-1 text-xs rounded border border-light-border dark:border-dark-border text-light-text/60 dark:text-dark-text/60">Tab</kbd>
+        </button>
+    );
+};
+
+export default LinkSuggestion;
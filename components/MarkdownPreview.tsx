@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeRaw from 'rehype-raw';
 import { PrismLight as SyntaxHighlighter } from 'react-syntax-highlighter';
@@ -11,6 +11,7 @@ import bash from 'react-syntax-highlighter/dist/esm/languages/prism/bash';
 import markdown from 'react-syntax-highlighter/dist/esm/languages/prism/markdown';
 import { useStoreContext, useUIContext } from '../context/AppContext';
 import { InformationCircleIcon, LightBulbIcon, ExclamationTriangleIcon, ExclamationCircleIcon, ClipboardDocumentIcon, CheckIcon, PhotoIcon } from './Icons';
+import { createWikiLinkRegex, getHeadingAnchorId, resolveLinkTarget } from '../lib/wikiLinks';
 
 SyntaxHighlighter.registerLanguage('jsx', jsx);
 SyntaxHighlighter.registerLanguage('tsx', typescript);
@@ -61,6 +62,25 @@ const getYoutubeVideoId = (url: string) => {
     return match ? match[1] : null;
 };
 
+// react-markdown drops links with unknown protocols, which would include the app's own.
+const urlTransform = (url: string) => /^(note|source):\/\//.test(url) ? url : defaultUrlTransform(url);
+
+// Note links are inserted as raw HTML, so their text has to be escaped.
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const getNodeText = (node: any): string =>
+    node?.type === 'text' ? node.value : (node?.children ?? []).map(getNodeText).join('');
+
+/**
+ * Scrolls to a heading in a note's editor. The note may have only just been opened, so
+ * the heading is looked for again for a short while before giving up.
+ */
+const scrollToHeading = (noteId: string, anchorId: string, attemptsLeft = 20) => {
+    const heading = document.querySelector(`[data-note-id="${noteId}"] #${anchorId}`);
+    if (heading) heading.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    else if (attemptsLeft > 0) setTimeout(() => scrollToHeading(noteId, anchorId, attemptsLeft - 1), 100);
+};
+
 const getVimeoVideoId = (url: string) => {
     const regex = /(?:https?:\/\/)?(?:www\.)?vimeo\.com\/(?:channels\/(?:\w+\/)?|groups\/(?:[^\/]*)\/videos\/|album\/(?:\d+)\/video\/|)(\d+)/;
     const match = url.match(regex);
@@ -138,7 +158,7 @@ const RecursiveRenderer: React.FC<{
     components: any;
     recursionDepth?: number;
 }> = ({ content, onToggleTask, components, recursionDepth = 0 }) => {
-    const { templates } = useStoreContext();
+    const { templates, linkGraph } = useStoreContext();
     const MAX_RECURSION = 5;
 
     if (recursionDepth > MAX_RECURSION) {
@@ -170,12 +190,16 @@ const RecursiveRenderer: React.FC<{
                 }
 
                 // A single regex to match both note links and source citations to prevent replacement conflicts.
-                const combinedRegex = /(\[\[([a-zA-Z0-9-]+)(?:\|(.*?))?\]\])|\[(\d+)\]/g;
-                const preprocessedPart = part.replace(combinedRegex, (match, _noteLinkMatch, noteId, noteText, sourceNum) => {
-                    // If noteId is truthy, it's a note link
-                    if (noteId) {
-                        const displayText = noteText || noteId;
-                        return `<a href="note://${noteId}">${displayText}</a>`;
+                const combinedRegex = new RegExp(`(${createWikiLinkRegex().source})|\\[(\\d+)\\]`, 'g');
+                const preprocessedPart = part.replace(combinedRegex, (match, noteLinkMatch, target: string, heading, alias, sourceNum) => {
+                    // If noteLinkMatch is truthy, it's a note link
+                    if (noteLinkMatch) {
+                        const linkedNote = resolveLinkTarget(linkGraph.names, target);
+                        // Links by id show the note's title rather than the id.
+                        const targetText = linkedNote?.id === target.trim() ? linkedNote.title : target.trim();
+                        const displayText = alias?.trim() || (heading?.trim() ? `${targetText} › ${heading.trim()}` : targetText);
+                        const href = linkedNote ? `note://${linkedNote.id}${heading?.trim() ? `#${getHeadingAnchorId(heading)}` : ''}` : 'note://';
+                        return `<a href="${href}">${escapeHtml(displayText)}</a>`;
                     }
                     // If sourceNum is truthy, it's a source citation
                     if (sourceNum) {
@@ -191,6 +215,7 @@ const RecursiveRenderer: React.FC<{
                         remarkPlugins={[remarkGfm]}
                         rehypePlugins={[rehypeRaw]}
                         components={components}
+                        urlTransform={urlTransform}
                     >
                         {preprocessedPart}
                     </ReactMarkdown>
@@ -238,11 +263,19 @@ const MarkdownPreview: React.FC<MarkdownPreviewProps> = ({ title, content, onTog
             }
 
             if (url.startsWith('note://')) {
-                const noteId = url.substring(7);
-                const linkedNote = getNoteById(noteId);
-                const displayText = children[0] || linkedNote?.title || 'Untitled Note';
+                const [noteId, anchorId] = url.substring(7).split('#');
+                const linkedNote = noteId ? getNoteById(noteId) : undefined;
+                if (!linkedNote) {
+                    return <span className="text-light-text/50 dark:text-dark-text/50 border-b border-dashed border-current" title="No note has this title or alias">{children}</span>;
+                }
+                const displayText = children[0] || linkedNote.title || 'Untitled Note';
+                const handleClick = () => {
+                    setActiveNoteId(noteId);
+                    setView('NOTES');
+                    if (anchorId) scrollToHeading(noteId, anchorId);
+                };
                 return (
-                    <button onClick={() => { setActiveNoteId(noteId); setView('NOTES'); }} className="text-light-primary dark:text-dark-primary bg-light-primary/10 dark:bg-dark-primary/10 px-1 py-0.5 rounded-md hover:bg-light-primary/20 dark:hover:bg-dark-primary/20">
+                    <button onClick={handleClick} className="text-light-primary dark:text-dark-primary bg-light-primary/10 dark:bg-dark-primary/10 px-1 py-0.5 rounded-md hover:bg-light-primary/20 dark:hover:bg-dark-primary/20">
                         {displayText}
                     </button>
                 );
@@ -330,12 +363,12 @@ const MarkdownPreview: React.FC<MarkdownPreviewProps> = ({ title, content, onTog
             
             return <blockquote className="border-l-4 border-light-border dark:border-dark-border pl-4 italic text-light-text/80 dark:text-dark-text/80 my-4" {...props}>{children}</blockquote>;
         },
-        h1: ({node, ...props}) => <h1 className="text-4xl font-bold mt-8 mb-4 border-b border-light-border dark:border-dark-border pb-2" {...props} />,
-        h2: ({node, ...props}) => <h2 className="text-3xl font-bold mt-6 mb-3 border-b border-light-border dark:border-dark-border pb-2" {...props} />,
-        h3: ({node, ...props}) => <h3 className="text-2xl font-bold mt-5 mb-2" {...props} />,
-        h4: ({node, ...props}) => <h4 className="text-xl font-semibold mt-4 mb-2" {...props} />,
-        h5: ({node, ...props}) => <h5 className="text-lg font-semibold mt-3 mb-1" {...props} />,
-        h6: ({node, ...props}) => <h6 className="text-base font-semibold mt-2 mb-1" {...props} />,
+        h1: ({node, ...props}: any) => <h1 id={getHeadingAnchorId(getNodeText(node))} className="text-4xl font-bold mt-8 mb-4 border-b border-light-border dark:border-dark-border pb-2" {...props} />,
+        h2: ({node, ...props}: any) => <h2 id={getHeadingAnchorId(getNodeText(node))} className="text-3xl font-bold mt-6 mb-3 border-b border-light-border dark:border-dark-border pb-2" {...props} />,
+        h3: ({node, ...props}: any) => <h3 id={getHeadingAnchorId(getNodeText(node))} className="text-2xl font-bold mt-5 mb-2" {...props} />,
+        h4: ({node, ...props}: any) => <h4 id={getHeadingAnchorId(getNodeText(node))} className="text-xl font-semibold mt-4 mb-2" {...props} />,
+        h5: ({node, ...props}: any) => <h5 id={getHeadingAnchorId(getNodeText(node))} className="text-lg font-semibold mt-3 mb-1" {...props} />,
+        h6: ({node, ...props}: any) => <h6 id={getHeadingAnchorId(getNodeText(node))} className="text-base font-semibold mt-2 mb-1" {...props} />,
         p: ({node, ...props}) => <p className="my-4 leading-relaxed" {...props} />,
         ul: ({node, ...props}) => <ul className="list-disc pl-6 my-4 space-y-2" {...props} />,
         ol: ({node, ...props}) => <ol className="list-decimal pl-6 my-4 space-y-2" {...props} />,
@@ -13,7 +13,7 @@ interface NoteCardProps {
     isFavorite: boolean;
     isActive: boolean;
     onClick: () => void;
-    searchTerm: string;
+    searchTerm: string | string[];
     onContextMenu?: (event: React.MouseEvent) => void;
 }
 
@@ -9,6 +9,7 @@ import EditorContent from './editor/EditorContent';
 import EditorMeta from './editor/EditorMeta';
 import EditorStatusBar from './editor/EditorStatusBar';
 import VersionHistorySidebar from './VersionHistorySidebar';
+import VersionDiffView from './editor/VersionDiffView';
 import { useUndoableState } from '../hooks/useUndoableState';
 import InlineAiMenu from './InlineAiMenu';
 import SpellcheckMenu from './SpellcheckMenu';
@@ -26,6 +27,14 @@ import { useAiActions } from '../hooks/useAiActions';
 import { useEditorHotkeys } from '../hooks/useEditorHotkeys';
 import { SparklesIcon } from './Icons';
 import ParagraphActionMenu from './editor/ParagraphActionMenu';
+import ConflictResolutionModal from './ConflictResolutionModal';
+import { mergeNotes, NoteMergeResult } from '../lib/merge';
+import { suggestLocalTitle } from '../lib/localSuggestions';
+import { formatDate } from '../lib/dateUtils';
+import { formatWikiLink, toLinkName } from '../lib/wikiLinks';
+import { getBrokenLinks } from '../lib/linkGraph';
+import { UnlinkedMention, findNameBeforeCursor, findUnlinkedMentions, getMentionableNames, linkMention } from '../lib/mentions';
+import LinkSuggestion from './LinkSuggestion';
 
 interface NoteEditorProps {
     note: Note;
@@ -53,8 +62,8 @@ const areNoteStatesEqual = (a: NoteState, b: NoteState): boolean => {
 
 
 const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
-    const { updateNote, toggleFavorite, notes, restoreNoteVersion } = useStoreContext();
-    const { isMobileView, onToggleSidebar, isAiRateLimited, isSettingsOpen, isCommandPaletteOpen, isSmartFolderModalOpen, isWelcomeModalOpen, isApiKeyMissing, isFocusMode, showConfirmation, hideConfirmation, isAiEnabled, isHelpOpen, confirmation } = useUIContext();
+    const { updateNote, toggleFavorite, setNoteAliases, notes, restoreNoteVersion, loadNoteHistory, linkGraph, handleNoteRenamed } = useStoreContext();
+    const { isMobileView, onToggleSidebar, isAiRateLimited, isAiBudgetExceeded, isSettingsOpen, isCommandPaletteOpen, isSmartFolderModalOpen, isWelcomeModalOpen, isApiKeyMissing, isFocusMode, showConfirmation, isAiEnabled, isHelpOpen, confirmation } = useUIContext();
     const { session } = useAuthContext();
     const { showToast } = useToast();
     const { registerEditorActions, unregisterEditorActions } = useEditorContext();
@@ -88,22 +97,25 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
     }, [editorState]);
     
     const prevNoteRef = useRef(note);
-    const [lastWarnedTimestamp, setLastWarnedTimestamp] = useState<string | null>(null);
+    const [pendingMerge, setPendingMerge] = useState<{ result: NoteMergeResult; local: NoteState; remote: NoteState } | null>(null);
     const [paragraphGutterTarget, setParagraphGutterTarget] = useState<{ start: number; rect: DOMRect } | null>(null);
+    const [isHistoryLoading, setIsHistoryLoading] = useState(false);
     const stateWhenLastSavedRef = useRef<NoteState | null>(null);
+    // The title when the title field was focused, to tell a rename once it loses focus.
+    const titleAtFocusRef = useRef(note.title);
 
     const [uiState, dispatch] = useNoteEditorReducer();
     const {
-        saveStatus, isHistoryOpen, previewVersion, viewMode, selection, noteLinker, templateLinker, noteLinkerForSelection,
+        saveStatus, isHistoryOpen, previewVersion, versionCompare, viewMode, selection, noteLinker, templateLinker, noteLinkerForSelection, linkSuggestion,
         slashCommand, isDragOver, isAiActionLoading, isFullAiActionLoading, gutterMenu,
     } = uiState;
 
     const { 
-        suggestedTags, isSuggestingTags,
-        suggestedTitle, isSuggestingTitle,
+        suggestedTags, isSuggestingTags, tagSuggestionSource,
+        suggestedTitle, isSuggestingTitle, titleSuggestionSource,
         setSuggestedTags, setSuggestedTitle,
         suggestTagsForFullNote, suggestTitleForFullNote, resetAiSuggestions
-    } = useAiSuggestions(editorState, isAiRateLimited || !isAiEnabled);
+    } = useAiSuggestions(editorState, !isAiEnabled, isAiBudgetExceeded, isAiRateLimited || isApiKeyMissing);
     
     const {
         applyAiActionToFullNote,
@@ -118,9 +130,12 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
     const { 
         spellingErrors, isCheckingSpelling, activeSpellingError, setActiveSpellingError,
         spellingSuggestions, isLoadingSuggestions, suggestionError 
-    } = useSpellcheck(editorState.content, isEffectivelyReadOnly || isAiRateLimited || isApiKeyMissing || !isAiEnabled);
+    } = useSpellcheck(editorState.content, isEffectivelyReadOnly || isAiRateLimited || isAiBudgetExceeded || isApiKeyMissing || !isAiEnabled);
 
-    const backlinks = useBacklinks(note.id, notes);
+    const backlinks = useBacklinks(note.id, linkGraph);
+    const brokenLinks = useMemo(() => getBrokenLinks(linkGraph, note.id), [linkGraph, note.id]);
+    const unlinkedMentions = useMemo(() => findUnlinkedMentions(linkGraph, note.id), [linkGraph, note.id]);
+    const mentionableNames = useMemo(() => getMentionableNames(linkGraph.names).filter(name => name.note.id !== note.id), [linkGraph.names, note.id]);
     
     const allTags = useMemo(() => {
         const tagSet = new Set<string>();
@@ -187,7 +202,7 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
         resetAiSuggestions();
         setActiveSpellingError(null);
         hasAutoTitledRef.current = false;
-        setLastWarnedTimestamp(null);
+        setPendingMerge(null);
         setParagraphGutterTarget(null);
         
         if (note.title === 'Untitled Note' && note.content === '') {
@@ -219,7 +234,6 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
 
             if (isSelfUpdate) {
                 stateWhenLastSavedRef.current = null; // Consume the flag
-                setLastWarnedTimestamp(null);
                 prevNoteRef.current = note;
                 return;
             }
@@ -231,26 +245,32 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
             });
     
             if (hasLocalChanges) {
-                // CONFLICT: External change detected while there are local unsaved changes.
-                if (lastWarnedTimestamp !== note.updatedAt) {
-                    showConfirmation({
-                        title: "Sync Conflict",
-                        message: "This note was updated on another device. You can discard your local changes to load the latest version, or cancel to manually copy your work.",
-                        confirmText: "Reload & Discard",
-                        confirmClass: "bg-red-600 hover:bg-red-700",
-                        onConfirm: () => {
-                            resetEditorState({ title: note.title, content: note.content, tags: note.tags });
-                            setLastWarnedTimestamp(null); // Mark as resolved
-                            hideConfirmation();
-                        },
+                // External change arrived while there are unsaved local edits: three-way merge them.
+                const base = stateWhenLastSavedRef.current ?? {
+                    title: prevNoteRef.current.title,
+                    content: prevNoteRef.current.content,
+                    tags: prevNoteRef.current.tags,
+                };
+                const local = latestEditorStateRef.current;
+                const remote = { title: note.title, content: note.content, tags: note.tags };
+                const result = mergeNotes(base, local, remote);
+
+                if (result.hasConflicts) {
+                    setPendingMerge({ result, local, remote });
+                } else {
+                    // Keep the merge undoable so the user can back out of it.
+                    setEditorState(result.merged);
+                    setPendingMerge(null);
+                    showToast({
+                        message: `Merged changes to "${note.title}" from another device.`,
+                        type: 'info',
                     });
-                    setLastWarnedTimestamp(note.updatedAt);
                 }
             } else {
                 // NO CONFLICT: No local changes, so safe to sync the external update.
                 // Use setPresent to update the state without clearing undo/redo history.
                 setPresent({ title: note.title, content: note.content, tags: note.tags });
-                setLastWarnedTimestamp(null);
+                setPendingMerge(null);
                 showToast({
                     message: `"${note.title}" was synced from an external change.`,
                     type: 'info',
@@ -258,7 +278,7 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
             }
         }
         prevNoteRef.current = note;
-    }, [note, resetEditorState, showToast, lastWarnedTimestamp, showConfirmation, hideConfirmation, setPresent]);
+    }, [note, showToast, setEditorState, setPresent]);
 
     useEffect(() => {
         if (previewVersion) return;
@@ -339,6 +359,21 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
         registerEditorActions(editorActions);
         return () => unregisterEditorActions();
     }, [registerEditorActions, unregisterEditorActions, editorActions]);
+
+    // Version history is fetched each time the sidebar opens rather than with the workspace.
+    useEffect(() => {
+        if (!isHistoryOpen) return;
+        let isCurrent = true;
+        setIsHistoryLoading(true);
+        loadNoteHistory(note.id)
+            .catch(error => {
+                if (isCurrent) showToast({ message: `Couldn't load version history: ${(error as Error).message}`, type: 'error' });
+            })
+            .finally(() => {
+                if (isCurrent) setIsHistoryLoading(false);
+            });
+        return () => { isCurrent = false; };
+    }, [isHistoryOpen, note.id, loadNoteHistory, showToast]);
     
     // When a popup opens, record the current scroll position.
     useEffect(() => {
@@ -481,6 +516,18 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
             if (slashCommand) dispatch({ type: 'SET_SLASH_COMMAND', payload: null });
             if (noteLinker) dispatch({ type: 'SET_NOTE_LINKER', payload: null });
         }
+
+        const nameMatch = slashMatch || linkerMatch ? null : findNameBeforeCursor(textBeforeCursor, mentionableNames);
+        if (nameMatch) {
+            const rect = getCursorPositionRect(e.target, selectionStart);
+            dispatch({ type: 'SET_LINK_SUGGESTION', payload: {
+                start: nameMatch.start, end: selectionStart, text: value.substring(nameMatch.start, selectionStart),
+                noteId: nameMatch.note.id, noteTitle: nameMatch.note.title,
+                position: { top: rect.bottom + window.scrollY, left: rect.left + window.scrollX },
+            } });
+        } else if (linkSuggestion) {
+            dispatch({ type: 'SET_LINK_SUGGESTION', payload: null });
+        }
     };
     
     const handleSelect = () => {
@@ -489,6 +536,9 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
         const { selectionStart, selectionEnd, value } = textarea;
         const textBeforeCursor = value.substring(0, selectionStart);
         const slashMatch = textBeforeCursor.match(/(?:\s|^)\/([\w-]*)$/);
+        if (linkSuggestion && (selectionStart !== selectionEnd || selectionStart !== linkSuggestion.end)) {
+            dispatch({ type: 'SET_LINK_SUGGESTION', payload: null });
+        }
         if (!slashMatch || selectionStart !== selectionEnd) {
             if (slashCommand) dispatch({ type: 'SET_SLASH_COMMAND', payload: null });
         }
@@ -521,6 +571,12 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
         const pairs: { [key: string]: string } = { '(': ')', '[': ']', '{': '}', '"': '"', '*': '*', '_': '_' };
         const textarea = e.currentTarget;
         const { selectionStart, selectionEnd, value } = textarea;
+        if (linkSuggestion && (e.key === 'Tab' || e.key === 'Escape')) {
+            e.preventDefault();
+            if (e.key === 'Tab') handleAcceptLinkSuggestion();
+            else dispatch({ type: 'SET_LINK_SUGGESTION', payload: null });
+            return;
+        }
         if (pairs[e.key]) {
             e.preventDefault();
             const char = e.key; const closingChar = pairs[char];
@@ -608,34 +664,64 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
     
     const handleContentBlur = () => {
         if (isAiEnabled && !hasAutoTitledRef.current && editorState.title === 'Untitled Note' && editorState.content.trim()) {
-            const firstLine = editorState.content.split('\n')[0].trim().replace(/^#+\s*/, '');
-            if (firstLine) {
-                const newTitle = firstLine.length > 100 ? firstLine.substring(0, 100) + '...' : firstLine;
+            const newTitle = suggestLocalTitle(editorState.content);
+            if (newTitle) {
                 setEditorState({ ...editorState, title: newTitle });
                 hasAutoTitledRef.current = true;
             }
         }
     };
 
+    // Replaces `start`..`end` of the content with a link to the note, showing `text` if given.
+    const insertLink = (textarea: HTMLTextAreaElement, start: number, end: number, linkedNote: { id: string; title: string }, text?: string) => {
+        const link = formatWikiLink(linkedNote, text, linkGraph.names);
+        setEditorState(prev => ({ ...prev, content: `${prev.content.substring(0, start)}${link}${prev.content.substring(end)}` }));
+        const pos = start + link.length;
+        desiredCursorPosRef.current = pos;
+        textarea.focus();
+    };
+
     const handleInsertLink = (noteId: string, noteTitle: string) => {
         const textarea = textareaRef.current;
         if (!textarea) return;
         if (noteLinkerForSelection) {
             const { start, end, text } = noteLinkerForSelection;
-            setEditorState(prev => ({ ...prev, content: `${prev.content.substring(0, start)}[[${noteId}|${text}]]${prev.content.substring(end)}` }));
+            insertLink(textarea, start, end, { id: noteId, title: noteTitle }, text);
             dispatch({ type: 'SET_NOTE_LINKER_FOR_SELECTION', payload: null });
-            const pos = start + noteId.length + text.length + 5;
-            desiredCursorPosRef.current = pos;
-            textarea.focus();
         } else if (noteLinker) {
             const { selectionStart } = textarea; const startIndex = selectionStart - noteLinker.query.length - 2;
-            setEditorState(prev => ({ ...prev, content: `${prev.content.substring(0, startIndex)}[[${noteId}|${noteTitle}]]${prev.content.substring(selectionStart)}` }));
+            insertLink(textarea, startIndex, selectionStart, { id: noteId, title: noteTitle });
             dispatch({ type: 'SET_NOTE_LINKER', payload: null });
-            const pos = startIndex + noteId.length + noteTitle.length + 5;
-            desiredCursorPosRef.current = pos;
-            textarea.focus();
         }
     };
+
+    const handleAcceptLinkSuggestion = () => {
+        const textarea = textareaRef.current;
+        if (!textarea || !linkSuggestion) return;
+        const { start, end, text, noteId, noteTitle } = linkSuggestion;
+        insertLink(textarea, start, end, { id: noteId, title: noteTitle }, text);
+        dispatch({ type: 'SET_LINK_SUGGESTION', payload: null });
+    };
+
+    const handleLinkMention = async (sourceNoteId: string, mention: UnlinkedMention) => {
+        const sourceNote = notes.find(n => n.id === sourceNoteId);
+        const content = sourceNote ? linkMention(sourceNote.content, mention, note, linkGraph.names) : null;
+        if (!sourceNote || content === null) {
+            showToast({ message: 'That note has changed since the mention was found.', type: 'error' });
+            return;
+        }
+        try {
+            await updateNote(sourceNote.id, { content });
+            showToast({ message: `Linked the mention in "${sourceNote.title}".`, type: 'success' });
+        } catch (err) {
+            showToast({ message: err instanceof Error ? err.message : 'Failed to link the mention.', type: 'error' });
+        }
+    };
+
+    const handleAliasesChange = (aliases: string[]) => {
+        const cleaned = [...new Set(aliases.map(toLinkName).filter(Boolean))];
+        setNoteAliases(note.id, cleaned).catch(err => showToast({ message: err instanceof Error ? err.message : 'Failed to save aliases.', type: 'error' }));
+    };
     
     const handleInsertSyncedBlock = (templateId: string) => {
         if (!templateLinker) return;
@@ -700,6 +786,11 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
     };
 
     const handleRestore = (version: NoteVersion) => { restoreNoteVersion(note.id, version); dispatch({ type: 'SET_PREVIEW_VERSION', payload: null }); dispatch({ type: 'SET_HISTORY_OPEN', payload: false }); };
+    const handleRestoreSelected = (restored: NoteState) => {
+        setEditorState(restored);
+        dispatch({ type: 'SET_VERSION_COMPARE', payload: null });
+        showToast({ message: 'Selected changes restored.', type: 'success' });
+    };
     const handleCloseHistory = () => { dispatch({ type: 'SET_PREVIEW_VERSION', payload: null }); dispatch({ type: 'SET_HISTORY_OPEN', payload: false }); };
     const handleApplyTemplate = (template: Template) => {
         const apply = () => {
@@ -732,6 +823,11 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
     const handleAddTag = (tagToAdd: string) => { if (!editorState.tags.includes(tagToAdd)) { setEditorState({ ...editorState, tags: [...editorState.tags, tagToAdd] }); } setSuggestedTags(prev => prev.filter(t => t !== tagToAdd)); };
     const handleApplyTitleSuggestion = (title: string) => { setEditorState({ ...editorState, title }); setSuggestedTitle(null); };
 
+    // Two versions are compared oldest first; the current draft is always the newer side.
+    const compareSides = versionCompare && (versionCompare.target && new Date(versionCompare.target.savedAt) < new Date(versionCompare.base.savedAt)
+        ? { before: versionCompare.target, after: versionCompare.base }
+        : { before: versionCompare.base, after: versionCompare.target });
+
     const editorPaddingClass = 'px-4 sm:px-8';
     const sharedEditorClasses = 'w-full p-0 border-0 text-base sm:text-lg resize-none focus:outline-none leading-relaxed whitespace-pre-wrap break-words';
 
@@ -740,8 +836,9 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
             <pre ref={cursorMeasureRef} style={{ position: 'absolute', visibility: 'hidden', top: -9999, left: -9999, pointerEvents: 'none' }} />
             <EditorHeader note={note} onToggleFavorite={() => toggleFavorite(note.id)} saveStatus={saveStatus} handleSave={handleSave} editorTitle={editorState.title} onEnhance={(tone) => handleEnhanceNote(tone, editorState.content)} onSummarize={() => summarizeAndFindActionForFullNote(editorState.content)} onToggleHistory={() => dispatch({type: 'SET_HISTORY_OPEN', payload: !isHistoryOpen})} isHistoryOpen={isHistoryOpen} onApplyTemplate={handleApplyTemplate} isMobileView={isMobileView} onToggleSidebar={onToggleSidebar} onUndo={undo} onRedo={redo} canUndo={canUndo} canRedo={canRedo} viewMode={viewMode} onToggleViewMode={() => dispatch({type: 'SET_VIEW_MODE', payload: viewMode === 'edit' ? 'preview' : 'edit'})} wordCount={wordCount} charCount={charCount} isFullAiActionLoading={isFullAiActionLoading} isApiKeyMissing={isApiKeyMissing} isAiEnabled={isAiEnabled} />
             {isAiRateLimited && <div className="bg-yellow-100 dark:bg-yellow-900/30 border-b border-yellow-300 dark:border-yellow-700/50 py-2 px-4 text-center text-sm text-yellow-800 dark:text-yellow-200 flex-shrink-0">AI features are temporarily paused due to high usage. They will be available again shortly.</div>}
+            {isAiBudgetExceeded && !isAiRateLimited && isAiEnabled && <div className="bg-yellow-100 dark:bg-yellow-900/30 border-b border-yellow-300 dark:border-yellow-700/50 py-2 px-4 text-center text-sm text-yellow-800 dark:text-yellow-200 flex-shrink-0">Your AI token budget has been reached, so spellcheck, automatic suggestions and related notes are paused. You can change the budget in Settings.</div>}
             
-            <div ref={editorPaneRef} className={`flex-1 overflow-y-auto relative transition-opacity`}>
+            <div ref={editorPaneRef} data-note-id={note.id} className={`flex-1 overflow-y-auto relative transition-opacity`}>
                  {!!previewVersion && <div className={`bg-yellow-100 dark:bg-yellow-900/30 py-2 text-center text-sm text-yellow-800 dark:text-yellow-200 max-w-3xl mx-auto ${editorPaddingClass}`}>You are previewing a version from {new Date(previewVersion.savedAt).toLocaleString()}.</div>}
 
                 <div className={`relative mx-auto py-12 ${editorPaddingClass} transition-all duration-300 ${isFullAiActionLoading ? 'opacity-50 pointer-events-none' : ''} ${isFocusMode ? 'max-w-4xl' : 'max-w-3xl'}`}>
@@ -759,56 +856,87 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note }) => {
                             <SparklesIcon />
                         </button>
                     )}
-                    <EditorTitle
-                        titleInputRef={titleInputRef}
-                        value={displayedTitle}
-                        onChange={(e) => setEditorState({ ...editorState, title: e.target.value })}
-                        isReadOnly={isEffectivelyReadOnly}
-                        suggestion={suggestedTitle}
-                        onApplySuggestion={handleApplyTitleSuggestion}
-                        isSuggesting={isSuggestingTitle}
-                        isApiKeyMissing={isApiKeyMissing}
-                        isAiEnabled={isAiEnabled}
-                    />
-                    <EditorContent
-                        textareaRef={textareaRef}
-                        viewMode={viewMode}
-                        displayedTitle={displayedTitle}
-                        displayedContent={displayedContent}
-                        isReadOnly={isEffectivelyReadOnly}
-                        onChange={handleChange}
-                        onSelect={handleSelect}
-                        onKeyDown={handleKeyDown}
-                        onKeyUp={handleSelect}
-                        onClick={handleSelect}
-                        onBlur={handleContentBlur}
-                        onToggleTask={handleToggleTask}
-                        sharedEditorClasses={sharedEditorClasses}
-                    />
-                    <EditorMeta
-                        note={note}
-                        backlinks={backlinks}
-                        tags={displayedTags}
-                        onTagsChange={(tags) => setEditorState({ ...editorState, tags })}
-                        isReadOnly={isEffectivelyReadOnly}
-                        allExistingTags={allTags}
-                        suggestedTags={suggestedTags}
-                        onAddTag={handleAddTag}
-                        isLoadingTags={isSuggestingTags}
-                        isApiKeyMissing={isApiKeyMissing}
-                        isAiEnabled={isAiEnabled}
-                    />
+                    {compareSides ? (
+                        <VersionDiffView
+                            before={compareSides.before}
+                            beforeLabel={formatDate(compareSides.before.savedAt, 'medium')}
+                            after={compareSides.after ?? editorState}
+                            afterLabel={compareSides.after ? formatDate(compareSides.after.savedAt, 'medium') : 'Current draft'}
+                            onRestore={compareSides.after ? undefined : handleRestoreSelected}
+                            onClose={() => dispatch({ type: 'SET_VERSION_COMPARE', payload: null })}
+                        />
+                    ) : (
+                        <>
+                            <EditorTitle
+                                titleInputRef={titleInputRef}
+                                value={displayedTitle}
+                                onChange={(e) => setEditorState({ ...editorState, title: e.target.value })}
+                                onFocus={() => { titleAtFocusRef.current = editorState.title; }}
+                                onBlur={() => handleNoteRenamed(note.id, titleAtFocusRef.current, editorState.title)}
+                                isReadOnly={isEffectivelyReadOnly}
+                                suggestion={suggestedTitle}
+                                onApplySuggestion={handleApplyTitleSuggestion}
+                                isSuggesting={isSuggestingTitle}
+                                suggestionSource={titleSuggestionSource}
+                                isAiEnabled={isAiEnabled}
+                            />
+                            <EditorContent
+                                textareaRef={textareaRef}
+                                viewMode={viewMode}
+                                displayedTitle={displayedTitle}
+                                displayedContent={displayedContent}
+                                isReadOnly={isEffectivelyReadOnly}
+                                onChange={handleChange}
+                                onSelect={handleSelect}
+                                onKeyDown={handleKeyDown}
+                                onKeyUp={handleSelect}
+                                onClick={handleSelect}
+                                onBlur={handleContentBlur}
+                                onToggleTask={handleToggleTask}
+                                sharedEditorClasses={sharedEditorClasses}
+                            />
+                            <EditorMeta
+                                note={note}
+                                backlinks={backlinks}
+                                brokenLinks={brokenLinks}
+                                unlinkedMentions={unlinkedMentions}
+                                onLinkMention={handleLinkMention}
+                                tags={displayedTags}
+                                onTagsChange={(tags) => setEditorState({ ...editorState, tags })}
+                                aliases={note.aliases ?? []}
+                                onAliasesChange={handleAliasesChange}
+                                isReadOnly={isEffectivelyReadOnly}
+                                allExistingTags={allTags}
+                                suggestedTags={suggestedTags}
+                                onAddTag={handleAddTag}
+                                isLoadingTags={isSuggestingTags}
+                                tagSuggestionSource={tagSuggestionSource}
+                                isApiKeyMissing={isApiKeyMissing}
+                                isAiEnabled={isAiEnabled}
+                            />
+                        </>
+                    )}
                 </div>
             </div>
             
             <EditorStatusBar wordCount={wordCount} charCount={charCount} readingTime={readingTime} isCheckingSpelling={isCheckingSpelling} />
 
             {(noteLinker || noteLinkerForSelection) && <NoteLinker editorPaneRef={editorPaneRef} query={noteLinker?.query || ''} onSelect={handleInsertLink} onClose={() => { dispatch({ type: 'SET_NOTE_LINKER', payload: null }); dispatch({ type: 'SET_NOTE_LINKER_FOR_SELECTION', payload: null }); }} position={noteLinker?.position || { top: noteLinkerForSelection!.rect.bottom, left: noteLinkerForSelection!.rect.left }} />}
+            {linkSuggestion && <LinkSuggestion editorPaneRef={editorPaneRef} noteTitle={linkSuggestion.noteTitle} position={linkSuggestion.position} onAccept={handleAcceptLinkSuggestion} />}
             {templateLinker && <TemplateLinker editorPaneRef={editorPaneRef} query={templateLinker.query} onSelect={handleInsertSyncedBlock} onClose={() => dispatch({ type: 'SET_TEMPLATE_LINKER', payload: null })} position={templateLinker.position} />}
             {slashCommand && <SlashCommandMenu editorPaneRef={editorPaneRef} query={slashCommand.query} position={slashCommand.position} onSelect={handleSelectCommand} onClose={() => dispatch({ type: 'SET_SLASH_COMMAND', payload: null })} textareaRef={textareaRef} />}
             <InlineAiMenu editorPaneRef={editorPaneRef} selection={selection} onAction={async (action) => { if (selection) { const newPos = await handleInlineAiAction(action, selection); if (newPos !== null && textareaRef.current) { textareaRef.current.focus(); desiredCursorPosRef.current = newPos; } } }} onFormat={handleFormatSelection} isLoading={isAiActionLoading} onClose={() => dispatch({ type: 'SET_SELECTION', payload: null })} isApiKeyMissing={isApiKeyMissing} isAiEnabled={isAiEnabled} />
             <SpellcheckMenu editorPaneRef={editorPaneRef} activeError={activeSpellingError} suggestions={spellingSuggestions} onSelect={handleApplySuggestion} isLoading={isLoadingSuggestions} error={suggestionError} onClose={() => setActiveSpellingError(null)} />
-            {isHistoryOpen && <VersionHistorySidebar history={note.history || []} onClose={handleCloseHistory} onPreview={(version) => dispatch({ type: 'SET_PREVIEW_VERSION', payload: version })} onRestore={handleRestore} activeVersionTimestamp={previewVersion?.savedAt} />}
+            {isHistoryOpen && <VersionHistorySidebar history={note.history || []} isLoading={isHistoryLoading} onClose={handleCloseHistory} onPreview={(version) => dispatch({ type: 'SET_PREVIEW_VERSION', payload: version })} onRestore={handleRestore} activeVersionTimestamp={previewVersion?.savedAt} versionCompare={versionCompare} onCompare={(compare) => dispatch({ type: 'SET_VERSION_COMPARE', payload: compare })} />}
+            <ConflictResolutionModal
+                isOpen={!!pendingMerge}
+                mergeResult={pendingMerge?.result || null}
+                local={pendingMerge?.local || null}
+                remote={pendingMerge?.remote || null}
+                onResolve={(resolved) => { setEditorState(resolved); setPendingMerge(null); }}
+                onDiscardLocal={() => { if (pendingMerge) resetEditorState(pendingMerge.remote); setPendingMerge(null); }}
+                onClose={() => setPendingMerge(null)}
+            />
             {gutterMenu && (
                 <ParagraphActionMenu
                     anchorRect={gutterMenu.anchorRect}
@@ -19,7 +19,7 @@ const NoteLinker: React.FC<NoteLinkerProps> = ({ query, onSelect, onClose, posit
     const resultsRef = useRef<HTMLDivElement>(null);
 
     const filteredNotes = query
-        ? notes.filter(note => note.title.toLowerCase().includes(query.toLowerCase()))
+        ? notes.filter(note => [note.title, ...(note.aliases ?? [])].some(name => name.toLowerCase().includes(query.toLowerCase())))
         : notes;
         
     const anchorRect = useMemo(() => {
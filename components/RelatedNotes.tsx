@@ -1,7 +1,6 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Note } from '../types';
 import { useDebounce } from '../hooks/useDebounce';
-import { semanticSearchNotes } from '../services/geminiService';
 import { useStoreContext, useUIContext } from '../context/AppContext';
 import { SparklesIcon, DocumentTextIcon } from './Icons';
 import { useToast } from '../context/ToastContext';
@@ -13,8 +12,8 @@ interface RelatedNotesProps {
 const MIN_CONTENT_LENGTH_FOR_SUGGESTIONS = 100;
 
 const RelatedNotes: React.FC<RelatedNotesProps> = ({ note }) => {
-    const { notes, setActiveNoteId, logAiSuggestionEvent, getSuggestionAnalytics } = useStoreContext();
-    const { setView, isAiRateLimited } = useUIContext();
+    const { notes, setActiveNoteId, logAiSuggestionEvent, getSuggestionAnalytics, semanticSearch } = useStoreContext();
+    const { setView, isAiRateLimited, isAiBudgetExceeded } = useUIContext();
     const { showToast } = useToast();
 
     const [relatedNoteIds, setRelatedNoteIds] = useState<string[] | null>(null);
@@ -31,7 +30,7 @@ const RelatedNotes: React.FC<RelatedNotesProps> = ({ note }) => {
     }, [note.id]);
 
     useEffect(() => {
-        if (isAiRateLimited) {
+        if (isAiRateLimited || isAiBudgetExceeded) {
             return;
         }
 
@@ -49,10 +48,11 @@ const RelatedNotes: React.FC<RelatedNotesProps> = ({ note }) => {
             setIsLoading(true);
             try {
                 const searchQuery = `${note.title}\n${contentToSearch}`;
-                const [ids, allAnalytics] = await Promise.all([
-                    semanticSearchNotes(searchQuery, notes),
+                const [results, allAnalytics] = await Promise.all([
+                    semanticSearch(searchQuery, { excludeIds: [note.id], limit: 5 }),
                     getSuggestionAnalytics()
                 ]);
+                const ids = results.map(r => r.noteId);
                 
                 if (currentSearchId === searchIdRef.current) {
                     const noteAnalytics = allAnalytics.filter(a => a.sourceNoteId === note.id);
@@ -86,7 +86,7 @@ const RelatedNotes: React.FC<RelatedNotesProps> = ({ note }) => {
         };
 
         fetchRelated();
-    }, [debouncedContent, note.id, note.title, notes, isAiRateLimited, getSuggestionAnalytics, showToast]);
+    }, [debouncedContent, note.id, note.title, isAiRateLimited, isAiBudgetExceeded, getSuggestionAnalytics, showToast, semanticSearch]);
 
     const relatedNotes = useMemo(() => {
         if (!relatedNoteIds) return [];
@@ -1,13 +1,21 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { PlusIcon, EyeIcon, EyeSlashIcon, ClipboardDocumentIcon, ArrowDownTrayIcon, ArrowUpTrayIcon } from './Icons';
 import TemplateEditorModal from './TemplateEditorModal';
-import { Template, SettingsTab } from '../types';
+import { Template, SettingsTab, NoteVersion } from '../types';
 import { useStoreContext, useUIContext } from '../context/AppContext';
 import ConfirmationModal from './ConfirmationModal';
 import { useToast } from '../context/ToastContext';
 import { useModalAccessibility } from '../hooks/useModalAccessibility';
 import { supabase } from '../lib/supabaseClient';
 import { useApiKey } from '../hooks/useApiKey';
+import { useAiSettings } from '../hooks/useAiSettings';
+import { getAiCacheStats, purgeAiCache, AiCacheStats } from '../services/geminiService';
+import { loadTrashRetentionDays, saveTrashRetentionDays } from '../lib/trash';
+import { getCacheCounters, CacheCounters, aiResponseCache, L1CacheStats } from '../lib/cache';
+import { AI_CACHE_L1_BYTE_BUDGET } from '../lib/config';
+import { clearUsage } from '../lib/aiUsage';
+import AiUsageDashboard from './AiUsageDashboard';
+import { AI_FEATURES, AI_PROVIDERS, AI_TASKS, AiFeature, AiProviderId, AiSettings, AiTask, DEFAULT_GEMINI_MODELS, getModelChain } from '../lib/aiSettings';
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -28,13 +36,30 @@ const TabButton: React.FC<{ active: boolean; onClick: () => void; children: Reac
     </button>
 );
 
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatHitRate = ({ localHits, cloudHits, misses }: CacheCounters) => {
+    const lookups = localHits + cloudHits + misses;
+    if (lookups === 0) return 'No requests yet';
+    const rate = Math.round(((localHits + cloudHits) / lookups) * 100);
+    return `${rate}% of ${lookups} requests (${localHits} local, ${cloudHits} cloud)`;
+};
+
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialTab }) => {
-    const { templates, addTemplate, updateTemplate, deleteTemplate, notes, collections, smartCollections, importData } = useStoreContext();
-    const { isAiEnabled, toggleAiEnabled, showConfirmation } = useUIContext();
+    const { templates, addTemplate, updateTemplate, deleteTemplate, notes, collections, smartCollections, importData, loadAllNoteHistory, purgeExpiredTrash } = useStoreContext();
+    const { isAiEnabled, toggleAiEnabled, showConfirmation, isDemoMode } = useUIContext();
     const { showToast } = useToast();
     
     const { apiKey, saveApiKey } = useApiKey();
     const [localApiKey, setLocalApiKey] = useState(apiKey || '');
+    const { aiSettings, saveAiSettings } = useAiSettings();
+    const [localAiSettings, setLocalAiSettings] = useState<AiSettings>(aiSettings);
+    // Model chains are edited as comma-separated text and parsed on save.
+    const [routingDrafts, setRoutingDrafts] = useState<Partial<Record<AiTask, string>>>({});
     const [isSaving, setIsSaving] = useState(false);
     
     const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
@@ -45,6 +70,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
     const [isKeyVisible, setIsKeyVisible] = useState(false);
     const [apiKeyError, setApiKeyError] = useState<string | null>(null);
     const [activeTab, setActiveTab] = useState<SettingsTab>(initialTab);
+    const [cacheCounters, setCacheCounters] = useState<CacheCounters>(getCacheCounters);
+    const [localCacheStats, setLocalCacheStats] = useState<L1CacheStats>(aiResponseCache.getStats);
+    const [cloudCacheStats, setCloudCacheStats] = useState<AiCacheStats | null>(null);
+    const [isPurgingCache, setIsPurgingCache] = useState(false);
+    const [trashRetentionDraft, setTrashRetentionDraft] = useState(() => String(loadTrashRetentionDays()));
 
     const apiKeyInputRef = useRef<HTMLInputElement>(null);
     const saveButtonRef = useRef<HTMLButtonElement>(null);
@@ -56,7 +86,10 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
         if (isOpen) {
             setActiveTab(initialTab);
             setLocalApiKey(apiKey || '');
+            setLocalAiSettings(aiSettings);
+            setRoutingDrafts(Object.fromEntries(Object.entries(aiSettings.routing).map(([task, models]) => [task, models.join(', ')])));
             setIsKeyVisible(false);
+            setTrashRetentionDraft(String(loadTrashRetentionDays()));
             setTimeout(() => {
                 if (initialTab === 'general') {
                     if (!apiKey) {
@@ -67,7 +100,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
                 }
             }, 100);
         }
-    }, [isOpen, apiKey, initialTab]);
+    }, [isOpen, apiKey, aiSettings, initialTab]);
     
     useEffect(() => {
         const validateApiKey = (key: string) => {
@@ -102,9 +135,17 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
         onClose();
     };
     
-    const handleExport = () => {
+    const handleExport = async () => {
+        // History isn't kept in memory for every note, so it's fetched for the backup.
+        let historyByNoteId: Map<string, NoteVersion[]>;
+        try {
+            historyByNoteId = await loadAllNoteHistory();
+        } catch (error) {
+            showToast({ message: `Export failed: ${(error as Error).message}`, type: 'error' });
+            return;
+        }
         const allData = {
-            notes,
+            notes: notes.map(note => ({ ...note, history: historyByNoteId.get(note.id) ?? note.history })),
             collections,
             smartCollections,
             templates,
@@ -173,8 +214,28 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
             showToast({ message: apiKeyError, type: 'error' });
             return;
         }
+        const featureWithoutModel = AI_FEATURES.find(f => !localAiSettings.features[f.id].model.trim());
+        if (featureWithoutModel) {
+            showToast({ message: `Please choose a model for ${featureWithoutModel.name}.`, type: 'error' });
+            return;
+        }
+        const trashRetentionDays = Number(trashRetentionDraft);
+        if (!Number.isInteger(trashRetentionDays) || trashRetentionDays < 1) {
+            showToast({ message: 'Trash retention must be a whole number of days.', type: 'error' });
+            return;
+        }
         setIsSaving(true);
         saveApiKey(localApiKey);
+        if (trashRetentionDays !== loadTrashRetentionDays()) {
+            saveTrashRetentionDays(trashRetentionDays);
+            purgeExpiredTrash().catch(error => console.warn("Failed to purge expired trash:", error));
+        }
+        const routing = AI_TASKS.reduce((routing, { id }) => {
+            const models = (routingDrafts[id] ?? '').split(',').map(model => model.trim()).filter(Boolean);
+            if (models.length > 0) routing[id] = models;
+            return routing;
+        }, {} as AiSettings['routing']);
+        saveAiSettings({ ...localAiSettings, routing });
         setTimeout(() => {
             setIsSaving(false);
             showToast({ message: 'Settings saved!', type: 'success' });
@@ -182,6 +243,50 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
         }, 500);
     };
     
+    const handleFeatureProviderChange = (feature: AiFeature, provider: AiProviderId) => {
+        // Model names aren't portable between providers, so start from that provider's default.
+        const model = provider === 'gemini' ? DEFAULT_GEMINI_MODELS[feature] : '';
+        setLocalAiSettings(prev => ({ ...prev, features: { ...prev.features, [feature]: { ...prev.features[feature], provider, model } } }));
+    };
+
+    const handleFeatureModelChange = (feature: AiFeature, model: string) => {
+        setLocalAiSettings(prev => ({ ...prev, features: { ...prev.features, [feature]: { ...prev.features[feature], model } } }));
+    };
+
+    const handleFeatureCloudCacheChange = (feature: AiFeature, cloudCache: boolean) => {
+        setLocalAiSettings(prev => ({ ...prev, features: { ...prev.features, [feature]: { ...prev.features[feature], cloudCache } } }));
+    };
+
+    const refreshCacheStats = useCallback(async () => {
+        setCacheCounters(getCacheCounters());
+        setLocalCacheStats(aiResponseCache.getStats());
+        if (isDemoMode) return;
+        try {
+            setCloudCacheStats(await getAiCacheStats());
+        } catch (error) {
+            console.error("Failed to load AI cache stats:", error);
+            setCloudCacheStats(null);
+        }
+    }, [isDemoMode]);
+
+    useEffect(() => {
+        if (isOpen && activeTab === 'data') refreshCacheStats();
+    }, [isOpen, activeTab, refreshCacheStats]);
+
+    const handlePurgeCache = async () => {
+        setIsPurgingCache(true);
+        try {
+            await purgeAiCache();
+            showToast({ message: 'AI cache purged.', type: 'success' });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "An unknown error occurred.";
+            showToast({ message: `Failed to purge AI cache: ${message}`, type: 'error' });
+        } finally {
+            setIsPurgingCache(false);
+            refreshCacheStats();
+        }
+    };
+
     const handleCopySyncId = (templateId: string) => {
         const syncText = `[[sync:${templateId}]]`;
         navigator.clipboard.writeText(syncText)
@@ -203,6 +308,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
                     <div className="px-6 border-b border-light-border dark:border-dark-border flex-shrink-0">
                         <div className="flex -mb-px">
                             <TabButton active={activeTab === 'general'} onClick={() => setActiveTab('general')}>General</TabButton>
+                            <TabButton active={activeTab === 'usage'} onClick={() => setActiveTab('usage')}>Usage</TabButton>
                             <TabButton active={activeTab === 'templates'} onClick={() => setActiveTab('templates')}>Templates</TabButton>
                             <TabButton active={activeTab === 'data'} onClick={() => setActiveTab('data')}>Data</TabButton>
                         </div>
@@ -239,6 +345,88 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
                                         Get an API key from Google AI Studio &rarr;
                                     </a>
                                 </div>
+                                <div className="pt-6 border-t border-light-border dark:border-dark-border">
+                                    <h3 className="text-lg font-semibold mb-3">AI Providers</h3>
+                                    <p className="text-sm text-light-text/60 dark:text-dark-text/60 mb-3">
+                                        Choose which provider and model each feature uses. The OpenAI-compatible provider works with local servers such as Ollama or llama.cpp. Semantic search embeddings always use Gemini.
+                                    </p>
+                                    <div className="space-y-2 mb-4">
+                                        <label className="block text-sm font-medium">
+                                            OpenAI-compatible base URL
+                                            <input
+                                                type="text"
+                                                value={localAiSettings.openAiCompatible.baseUrl}
+                                                onChange={(e) => setLocalAiSettings(prev => ({ ...prev, openAiCompatible: { ...prev.openAiCompatible, baseUrl: e.target.value } }))}
+                                                placeholder="http://localhost:11434/v1"
+                                                className="mt-1 w-full p-2 bg-light-ui dark:bg-dark-ui rounded-md border border-light-border dark:border-dark-border focus:ring-2 focus:ring-light-primary focus:outline-none"
+                                            />
+                                        </label>
+                                        <label className="block text-sm font-medium">
+                                            OpenAI-compatible API key (optional)
+                                            <input
+                                                type="password"
+                                                value={localAiSettings.openAiCompatible.apiKey}
+                                                onChange={(e) => setLocalAiSettings(prev => ({ ...prev, openAiCompatible: { ...prev.openAiCompatible, apiKey: e.target.value } }))}
+                                                placeholder="Not needed for most local servers"
+                                                className="mt-1 w-full p-2 bg-light-ui dark:bg-dark-ui rounded-md border border-light-border dark:border-dark-border focus:ring-2 focus:ring-light-primary focus:outline-none"
+                                            />
+                                        </label>
+                                    </div>
+                                    <div className="space-y-3">
+                                        {AI_FEATURES.map(feature => (
+                                            <div key={feature.id}>
+                                                <p className="font-medium">{feature.name}</p>
+                                                <p className="text-xs text-light-text/60 dark:text-dark-text/60 mb-1">{feature.description}</p>
+                                                <div className="flex gap-2">
+                                                    <select
+                                                        value={localAiSettings.features[feature.id].provider}
+                                                        onChange={(e) => handleFeatureProviderChange(feature.id, e.target.value as AiProviderId)}
+                                                        aria-label={`${feature.name} provider`}
+                                                        className="flex-1 p-2 bg-light-ui dark:bg-dark-ui rounded-md border border-light-border dark:border-dark-border focus:ring-2 focus:ring-light-primary focus:outline-none"
+                                                    >
+                                                        {AI_PROVIDERS.map(provider => <option key={provider.id} value={provider.id}>{provider.name}</option>)}
+                                                    </select>
+                                                    <input
+                                                        type="text"
+                                                        value={localAiSettings.features[feature.id].model}
+                                                        onChange={(e) => handleFeatureModelChange(feature.id, e.target.value)}
+                                                        placeholder="Model name, e.g. llama3.1"
+                                                        aria-label={`${feature.name} model`}
+                                                        className="flex-1 p-2 bg-light-ui dark:bg-dark-ui rounded-md border border-light-border dark:border-dark-border focus:ring-2 focus:ring-light-primary focus:outline-none"
+                                                    />
+                                                </div>
+                                                <label className="flex items-center gap-2 mt-1 text-xs text-light-text/60 dark:text-dark-text/60">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={localAiSettings.features[feature.id].cloudCache}
+                                                        onChange={(e) => handleFeatureCloudCacheChange(feature.id, e.target.checked)}
+                                                    />
+                                                    Store responses in the cloud cache
+                                                </label>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="pt-6 border-t border-light-border dark:border-dark-border">
+                                    <h3 className="text-lg font-semibold mb-3">Model Routing</h3>
+                                    <p className="text-sm text-light-text/60 dark:text-dark-text/60 mb-3">
+                                        Each task tries its models in order and falls back to the next one if a model is overloaded or fails. Leave a task empty to use the default shown, or enter your own comma-separated list of models for that feature's provider.
+                                    </p>
+                                    <div className="space-y-2">
+                                        {AI_TASKS.map(task => (
+                                            <label key={task.id} className="block text-sm font-medium">
+                                                {task.name}
+                                                <input
+                                                    type="text"
+                                                    value={routingDrafts[task.id] ?? ''}
+                                                    onChange={(e) => setRoutingDrafts(prev => ({ ...prev, [task.id]: e.target.value }))}
+                                                    placeholder={getModelChain({ ...localAiSettings, routing: {} }, task.id).join(', ')}
+                                                    className="mt-1 w-full p-2 bg-light-ui dark:bg-dark-ui rounded-md border border-light-border dark:border-dark-border focus:ring-2 focus:ring-light-primary focus:outline-none"
+                                                />
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
                                 <div className="pt-6 border-t border-light-border dark:border-dark-border">
                                     <h3 className="text-lg font-semibold mb-3">AI Engine</h3>
                                     <div className="flex items-center justify-between">
@@ -269,6 +457,19 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
                                 </div>
                             </div>
                         )}
+                        {activeTab === 'usage' && (
+                            <AiUsageDashboard
+                                budgets={localAiSettings.budgets}
+                                onBudgetsChange={(budgets) => setLocalAiSettings(prev => ({ ...prev, budgets }))}
+                                onResetUsage={() => showConfirmation({
+                                    title: "Reset Usage History",
+                                    message: "This deletes the recorded AI usage for this browser, which also resets today's and this month's budget totals.",
+                                    onConfirm: clearUsage,
+                                    confirmText: "Reset",
+                                    confirmClass: "bg-red-600 hover:bg-red-700",
+                                })}
+                            />
+                        )}
                         {activeTab === 'templates' && (
                              <div>
                                 <h3 className="text-lg font-semibold mb-3">Note Templates</h3>
@@ -320,6 +521,53 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
                                         Import Data...
                                     </button>
                                 </div>
+                                <div className="mt-6 pt-6 border-t border-light-border dark:border-dark-border">
+                                    <h3 className="text-lg font-semibold mb-3">Trash</h3>
+                                    <label htmlFor="trash-retention" className="block text-sm text-light-text/60 dark:text-dark-text/60 mb-2">
+                                        Deleted notes and folders stay in the trash for this many days, then they're deleted for good.
+                                    </label>
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            id="trash-retention"
+                                            type="number"
+                                            min={1}
+                                            step={1}
+                                            value={trashRetentionDraft}
+                                            onChange={(e) => setTrashRetentionDraft(e.target.value)}
+                                            className="w-24 p-2 bg-light-ui dark:bg-dark-ui rounded-md border border-light-border dark:border-dark-border focus:ring-2 focus:ring-light-primary focus:outline-none"
+                                        />
+                                        <span className="text-sm">days</span>
+                                    </div>
+                                </div>
+                                <div className="mt-6 pt-6 border-t border-light-border dark:border-dark-border">
+                                    <h3 className="text-lg font-semibold mb-3">AI Cache</h3>
+                                    <p className="text-sm text-light-text/60 dark:text-dark-text/60 mb-3">
+                                        AI responses are cached in this browser and in your private cloud cache, so repeated requests are instant and don't use your quota. Cloud entries expire after 30 days.
+                                    </p>
+                                    <dl className="grid grid-cols-2 gap-y-1 text-sm mb-3">
+                                        <dt className="text-light-text/60 dark:text-dark-text/60">This browser</dt>
+                                        <dd>{localCacheStats.entries} entries, {formatBytes(localCacheStats.bytes)} of {formatBytes(AI_CACHE_L1_BYTE_BUDGET)}</dd>
+                                        <dt className="text-light-text/60 dark:text-dark-text/60">Cloud entries</dt>
+                                        <dd>{isDemoMode ? 'Not used in demo mode' : cloudCacheStats ? cloudCacheStats.entries : 'Unavailable'}</dd>
+                                        <dt className="text-light-text/60 dark:text-dark-text/60">Cloud size</dt>
+                                        <dd>{!isDemoMode && cloudCacheStats ? formatBytes(cloudCacheStats.bytes) : '\u2014'}</dd>
+                                        <dt className="text-light-text/60 dark:text-dark-text/60">Hit rate</dt>
+                                        <dd>{formatHitRate(cacheCounters)}</dd>
+                                    </dl>
+                                    <button
+                                        onClick={() => showConfirmation({
+                                            title: "Purge AI Cache",
+                                            message: "This deletes every cached AI response in this browser and in your cloud cache. Future requests will call the AI again.",
+                                            onConfirm: handlePurgeCache,
+                                            confirmText: "Purge",
+                                            confirmClass: "bg-red-600 hover:bg-red-700",
+                                        })}
+                                        disabled={isPurgingCache}
+                                        className="w-full text-center px-4 py-2 rounded-md bg-light-ui dark:bg-dark-ui hover:bg-light-ui-hover dark:hover:bg-dark-ui-hover disabled:opacity-50"
+                                    >
+                                        {isPurgingCache ? 'Purging...' : 'Purge AI Cache'}
+                                    </button>
+                                </div>
                             </div>
                         )}
                     </div>
@@ -6,6 +6,7 @@ import { useStoreContext, useUIContext } from '../context/AppContext';
 import { useToast } from '../context/ToastContext';
 import Highlight from './Highlight';
 import { useDragAndDrop } from '../hooks/useDragAndDrop';
+import { formatWikiLink } from '../lib/wikiLinks';
 
 interface SidebarNodeProps {
     node: TreeNode;
@@ -28,7 +29,7 @@ const SidebarNode: React.FC<SidebarNodeProps> = ({
 }) => {
     const { 
         collections, onAddNote, onAddNoteFromFile, updateCollection, renameNoteTitle, moveItem,
-        copyNote, handleDeleteNoteConfirm, handleDeleteCollectionConfirm, notes
+        copyNote, handleDeleteNoteConfirm, handleDeleteCollectionConfirm, notes, linkGraph, handleNoteRenamed
     } = useStoreContext();
     const { onOpenContextMenu, renamingItemId, setRenamingItemId, draggingItemId, setDraggingItemId, showConfirmation } = useUIContext();
 
@@ -112,9 +113,8 @@ const SidebarNode: React.FC<SidebarNodeProps> = ({
                         showConfirmation({
                             title: 'Delete Folder',
                             message: hasChildren
-                                ? `Are you sure you want to delete the folder "${collectionAsCollection.name}"? All notes and folders inside it will also be permanently deleted. This action cannot be undone.`
-                                : `Are you sure you want to delete the empty folder "${collectionAsCollection.name}"? This action cannot be undone.`,
-                            confirmationRequiredText: hasChildren ? collectionAsCollection.name : undefined,
+                                ? `Move the folder "${collectionAsCollection.name}" and everything inside it to the trash? You can restore it from the Trash section of the sidebar.`
+                                : `Move the empty folder "${collectionAsCollection.name}" to the trash?`,
                             onConfirm: () => handleDeleteCollectionConfirm(collectionAsCollection),
                         });
                     }, 
@@ -189,7 +189,7 @@ const SidebarNode: React.FC<SidebarNodeProps> = ({
                 { 
                     label: 'Copy Note Link', 
                     action: () => {
-                        const linkText = `[[${noteAsNote.id}|${noteAsNote.title}]]`;
+                        const linkText = formatWikiLink(noteAsNote, undefined, linkGraph.names);
                         navigator.clipboard.writeText(linkText)
                             .then(() => showToast({ message: 'Note link copied!', type: 'success' }))
                             .catch(() => showToast({ message: 'Failed to copy link.', type: 'error' }));
@@ -210,7 +210,7 @@ const SidebarNode: React.FC<SidebarNodeProps> = ({
                     label: 'Delete Note', 
                     action: () => showConfirmation({
                         title: 'Delete Note',
-                        message: `Are you sure you want to permanently delete "${noteAsNote.title}"? This action cannot be undone.`,
+                        message: `Move "${noteAsNote.title}" to the trash? You can restore it from the Trash section of the sidebar.`,
                         onConfirm: () => handleDeleteNoteConfirm(noteAsNote),
                         confirmText: 'Delete',
                     }), 
@@ -231,7 +231,7 @@ const SidebarNode: React.FC<SidebarNodeProps> = ({
             if (isCollection) {
                 updateCollection(node.id, { name: renameValue.trim() });
             } else {
-                renameNoteTitle(node.id, renameValue.trim());
+                renameNoteTitle(node.id, renameValue.trim()).then(() => handleNoteRenamed(node.id, name, renameValue.trim()));
             }
         }
         setRenamingItemId(null);
@@ -1,8 +1,12 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { SmartCollection } from '../types';
-import { BrainIcon } from './Icons';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { SmartCollection, SmartCollectionType, SmartRule, SmartRuleGroup, SmartRuleField } from '../types';
+import { BrainIcon, ListBulletIcon, PlusIcon, TrashIcon } from './Icons';
 import { useModalAccessibility } from '../hooks/useModalAccessibility';
 import { useStoreContext } from '../context/AppContext';
+import {
+    RULE_FIELD_LABELS, RULE_OPERATORS, isRuleGroup, createRule, createRuleGroup,
+    validateRuleGroup, filterNotesByRules,
+} from '../lib/smartFolderRules';
 
 interface SmartFolderModalProps {
     isOpen: boolean;
@@ -12,9 +16,155 @@ interface SmartFolderModalProps {
     initialQuery?: string;
 }
 
+const inputClassName = "p-1.5 text-sm bg-light-ui dark:bg-dark-ui rounded-md border border-light-border dark:border-dark-border focus:ring-2 focus:ring-light-primary focus:outline-none";
+
+const updateItemInGroup = (group: SmartRuleGroup, id: string, update: (item: SmartRule | SmartRuleGroup) => SmartRule | SmartRuleGroup | null): SmartRuleGroup => ({
+    ...group,
+    rules: group.rules.flatMap(item => {
+        if (item.id === id) {
+            const updated = update(item);
+            return updated ? [updated] : [];
+        }
+        return isRuleGroup(item) ? [updateItemInGroup(item, id, update)] : [item];
+    }),
+});
+
+interface RuleRowProps {
+    rule: SmartRule;
+    onChange: (rule: SmartRule) => void;
+    onRemove: () => void;
+}
+
+const RuleRow: React.FC<RuleRowProps> = ({ rule, onChange, onRemove }) => {
+    const { collections } = useStoreContext();
+
+    const handleFieldChange = (field: SmartRuleField) => {
+        onChange({ ...createRule(field), id: rule.id });
+    };
+
+    const renderValueInput = () => {
+        switch (rule.field) {
+            case 'folder':
+                return (
+                    <select value={rule.value} onChange={e => onChange({ ...rule, value: e.target.value })} className={`${inputClassName} flex-1 min-w-0`} aria-label="Folder">
+                        <option value="">Select a folder…</option>
+                        {collections.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                );
+            case 'isFavorite':
+                return (
+                    <select value={rule.value} onChange={e => onChange({ ...rule, value: e.target.value })} className={`${inputClassName} flex-1 min-w-0`} aria-label="Favorite">
+                        <option value="true">Yes</option>
+                        <option value="false">No</option>
+                    </select>
+                );
+            case 'createdAt':
+            case 'updatedAt':
+                return rule.operator === 'withinDays'
+                    ? <input type="number" min={0} value={rule.value} onChange={e => onChange({ ...rule, value: e.target.value })} placeholder="30" className={`${inputClassName} flex-1 min-w-0`} aria-label="Days" />
+                    : <input type="date" value={rule.value} onChange={e => onChange({ ...rule, value: e.target.value })} className={`${inputClassName} flex-1 min-w-0`} aria-label="Date" />;
+            case 'wordCount':
+                return <input type="number" min={0} value={rule.value} onChange={e => onChange({ ...rule, value: e.target.value })} placeholder="500" className={`${inputClassName} flex-1 min-w-0`} aria-label="Word count" />;
+            case 'content':
+                return <input type="text" value={rule.value} onChange={e => onChange({ ...rule, value: e.target.value })} placeholder="e.g. TODO|FIXME" className={`${inputClassName} flex-1 min-w-0 font-mono`} aria-label="Pattern" />;
+            default:
+                return <input type="text" value={rule.value} onChange={e => onChange({ ...rule, value: e.target.value })} placeholder="e.g. work" className={`${inputClassName} flex-1 min-w-0`} aria-label="Tag" />;
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <select value={rule.field} onChange={e => handleFieldChange(e.target.value as SmartRuleField)} className={inputClassName} aria-label="Field">
+                {(Object.keys(RULE_FIELD_LABELS) as SmartRuleField[]).map(field => (
+                    <option key={field} value={field}>{RULE_FIELD_LABELS[field]}</option>
+                ))}
+            </select>
+            <select
+                value={rule.operator}
+                onChange={e => onChange({ ...rule, operator: e.target.value as SmartRule['operator'], value: rule.field === 'isFavorite' ? rule.value : '' })}
+                className={inputClassName}
+                aria-label="Operator"
+            >
+                {RULE_OPERATORS[rule.field].map(op => <option key={op.value} value={op.value}>{op.label}</option>)}
+            </select>
+            {renderValueInput()}
+            <button onClick={onRemove} className="p-1.5 rounded-md text-light-text/60 dark:text-dark-text/60 hover:text-red-500 hover:bg-light-ui dark:hover:bg-dark-ui" aria-label="Remove rule">
+                <TrashIcon className="w-4 h-4" />
+            </button>
+        </div>
+    );
+};
+
+interface RuleGroupEditorProps {
+    group: SmartRuleGroup;
+    isRoot?: boolean;
+    onChange: (group: SmartRuleGroup) => void;
+    onRemove?: () => void;
+}
+
+const RuleGroupEditor: React.FC<RuleGroupEditorProps> = ({ group, isRoot = false, onChange, onRemove }) => {
+    const updateItem = (id: string, update: (item: SmartRule | SmartRuleGroup) => SmartRule | SmartRuleGroup | null) => {
+        onChange(updateItemInGroup(group, id, update));
+    };
+
+    return (
+        <div className={`space-y-2 ${isRoot ? '' : 'p-3 rounded-md border border-light-border dark:border-dark-border bg-light-ui/40 dark:bg-dark-ui/40'}`}>
+            <div className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                    <span>Match</span>
+                    <select
+                        value={group.combinator}
+                        onChange={e => onChange({ ...group, combinator: e.target.value as SmartRuleGroup['combinator'] })}
+                        className={inputClassName}
+                        aria-label="Combinator"
+                    >
+                        <option value="AND">all</option>
+                        <option value="OR">any</option>
+                    </select>
+                    <span>of the following:</span>
+                </div>
+                {onRemove && (
+                    <button onClick={onRemove} className="p-1.5 rounded-md text-light-text/60 dark:text-dark-text/60 hover:text-red-500 hover:bg-light-ui dark:hover:bg-dark-ui" aria-label="Remove group">
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                )}
+            </div>
+            {group.rules.map(item => isRuleGroup(item) ? (
+                <RuleGroupEditor
+                    key={item.id}
+                    group={item}
+                    onChange={updated => updateItem(item.id, () => updated)}
+                    onRemove={() => updateItem(item.id, () => null)}
+                />
+            ) : (
+                <RuleRow
+                    key={item.id}
+                    rule={item}
+                    onChange={updated => updateItem(item.id, () => updated)}
+                    onRemove={() => updateItem(item.id, () => null)}
+                />
+            ))}
+            <div className="flex items-center gap-3 text-sm">
+                <button onClick={() => onChange({ ...group, rules: [...group.rules, createRule()] })} className="flex items-center gap-1 text-light-primary dark:text-dark-primary hover:underline">
+                    <PlusIcon className="w-4 h-4" /> Add rule
+                </button>
+                {/* Nesting is limited to one level to keep the builder readable. */}
+                {isRoot && (
+                    <button onClick={() => onChange({ ...group, rules: [...group.rules, createRuleGroup(group.combinator === 'AND' ? 'OR' : 'AND')] })} className="flex items-center gap-1 text-light-primary dark:text-dark-primary hover:underline">
+                        <PlusIcon className="w-4 h-4" /> Add group
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
 const SmartFolderModal: React.FC<SmartFolderModalProps> = ({ isOpen, onClose, folderToEdit, onSave, initialQuery }) => {
+    const { notes, collections } = useStoreContext();
     const [name, setName] = useState('');
+    const [type, setType] = useState<SmartCollectionType>('AI');
     const [query, setQuery] = useState('');
+    const [rules, setRules] = useState<SmartRuleGroup>(() => createRuleGroup());
     const nameInputRef = useRef<HTMLInputElement>(null);
     const modalRef = useRef<HTMLDivElement>(null);
 
@@ -24,40 +174,57 @@ const SmartFolderModal: React.FC<SmartFolderModalProps> = ({ isOpen, onClose, fo
         if (isOpen) {
             if (folderToEdit) {
                 setName(folderToEdit.name);
+                setType(folderToEdit.type ?? 'AI');
                 setQuery(folderToEdit.query);
+                setRules(folderToEdit.rules ?? createRuleGroup());
             } else {
                 setName('');
+                setType('AI');
                 setQuery(initialQuery || '');
+                setRules(createRuleGroup());
             }
             setTimeout(() => nameInputRef.current?.focus(), 100);
         }
     }, [isOpen, folderToEdit, initialQuery]);
 
+    const ruleErrors = useMemo(() => type === 'RULES' ? validateRuleGroup(rules) : [], [type, rules]);
+
+    const matchCount = useMemo(() => {
+        if (!isOpen || type !== 'RULES' || ruleErrors.length > 0) return null;
+        return filterNotesByRules(notes, rules, { collections }).length;
+    }, [isOpen, type, rules, ruleErrors, notes, collections]);
+
+    const isValid = !!name.trim() && (type === 'RULES' ? ruleErrors.length === 0 : !!query.trim());
+
     const handleSave = () => {
-        if (name.trim() && query.trim()) {
-            onSave({ name: name.trim(), query: query.trim() });
-        }
+        if (!isValid) return;
+        onSave({
+            name: name.trim(),
+            query: type === 'RULES' ? '' : query.trim(),
+            type,
+            rules: type === 'RULES' ? rules : null,
+        });
     };
 
     if (!isOpen) return null;
 
     return (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60]" onClick={onClose}>
-            <div 
+            <div
                 ref={modalRef}
-                role="dialog" 
-                aria-modal="true" 
+                role="dialog"
+                aria-modal="true"
                 aria-labelledby="smart-folder-title"
-                className="bg-light-background dark:bg-dark-background rounded-lg shadow-xl w-full max-w-lg p-6" 
+                className="bg-light-background dark:bg-dark-background rounded-lg shadow-xl w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto"
                 onClick={e => e.stopPropagation()}
             >
                 <h2 id="smart-folder-title" className="text-2xl font-bold mb-4 flex items-center">
-                    <BrainIcon className="w-5 h-5 mr-3" />
+                    {type === 'RULES' ? <ListBulletIcon className="w-5 h-5 mr-3" /> : <BrainIcon className="w-5 h-5 mr-3" />}
                     {folderToEdit ? 'Edit Smart Folder' : 'New Smart Folder'}
                 </h2>
-                
+
                 <p className="text-sm text-light-text/60 dark:text-dark-text/60 mb-4">
-                    Smart folders automatically display notes that match your AI-powered search query. They are like saved searches that stay up-to-date.
+                    Smart folders are saved searches that stay up-to-date. Use an AI query for conceptual matches, or rules for exact, instant filtering that works offline.
                 </p>
 
                 <div className="mb-4">
@@ -73,23 +240,55 @@ const SmartFolderModal: React.FC<SmartFolderModalProps> = ({ isOpen, onClose, fo
                     />
                 </div>
 
-                <div className="mb-6">
-                    <label htmlFor="folderQuery" className="block text-sm font-medium mb-1">AI Search Query</label>
-                    <textarea
-                        id="folderQuery"
-                        value={query}
-                        onChange={(e) => setQuery(e.target.value)}
-                        placeholder="e.g., all notes about marketing strategies from the last month"
-                        rows={3}
-                        className="w-full p-2 bg-light-ui dark:bg-dark-ui rounded-md border border-light-border dark:border-dark-border focus:ring-2 focus:ring-light-primary focus:outline-none text-sm"
-                    />
+                <div className="flex w-full mb-4 bg-light-ui dark:bg-dark-ui p-0.5 rounded-md border border-light-border dark:border-dark-border text-sm">
+                    <button
+                        onClick={() => setType('AI')}
+                        className={`flex-1 px-2 py-1 flex items-center justify-center gap-1 rounded-md transition-colors ${type === 'AI' ? 'bg-light-primary text-white dark:bg-dark-primary dark:text-zinc-900' : 'hover:bg-light-background dark:hover:bg-dark-background'}`}
+                    >
+                        <BrainIcon className="w-4 h-4" /> AI Query
+                    </button>
+                    <button
+                        onClick={() => setType('RULES')}
+                        className={`flex-1 px-2 py-1 flex items-center justify-center gap-1 rounded-md transition-colors ${type === 'RULES' ? 'bg-light-primary text-white dark:bg-dark-primary dark:text-zinc-900' : 'hover:bg-light-background dark:hover:bg-dark-background'}`}
+                    >
+                        <ListBulletIcon className="w-4 h-4" /> Rules
+                    </button>
                 </div>
-                
+
+                {type === 'AI' ? (
+                    <div className="mb-6">
+                        <label htmlFor="folderQuery" className="block text-sm font-medium mb-1">AI Search Query</label>
+                        <textarea
+                            id="folderQuery"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="e.g., all notes about marketing strategies from the last month"
+                            rows={3}
+                            className="w-full p-2 bg-light-ui dark:bg-dark-ui rounded-md border border-light-border dark:border-dark-border focus:ring-2 focus:ring-light-primary focus:outline-none text-sm"
+                        />
+                    </div>
+                ) : (
+                    <div className="mb-6">
+                        <RuleGroupEditor group={rules} isRoot onChange={setRules} />
+                        <div className="mt-3 text-sm">
+                            {ruleErrors.length > 0 ? (
+                                <ul className="text-red-500 list-disc list-inside">
+                                    {[...new Set(ruleErrors)].map(error => <li key={error}>{error}</li>)}
+                                </ul>
+                            ) : (
+                                <p className="text-light-text/60 dark:text-dark-text/60">
+                                    {matchCount === 1 ? '1 note matches' : `${matchCount} notes match`} these rules.
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 <div className="flex justify-end items-center space-x-4">
                     <button onClick={onClose} className="px-4 py-2 rounded-md hover:bg-light-ui dark:hover:bg-dark-ui">Cancel</button>
-                    <button 
-                        onClick={handleSave} 
-                        disabled={!name.trim() || !query.trim()}
+                    <button
+                        onClick={handleSave}
+                        disabled={!isValid}
                         className="px-4 py-2 bg-light-primary text-white rounded-md hover:bg-light-primary-hover dark:bg-dark-primary dark:hover:bg-dark-primary-hover disabled:opacity-50"
                     >
                         Save Folder
@@ -100,4 +299,4 @@ const SmartFolderModal: React.FC<SmartFolderModalProps> = ({ isOpen, onClose, fo
     );
 };
 
-export default SmartFolderModal;
\ No newline at end of file
+export default SmartFolderModal;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { useStoreContext } from '../context/AppContext';
+import { ExclamationTriangleIcon, ServerStackIcon } from './Icons';
+
+const SyncStatusIndicator: React.FC = () => {
+    const { isOnline, pendingMutationCount, syncNow, rejectedMutationCount, dismissSyncRejections } = useStoreContext();
+
+    if (rejectedMutationCount > 0) {
+        return (
+            <div className="bg-red-100 dark:bg-red-900/40 border-b border-red-300 dark:border-red-800 py-2 px-4 text-center text-sm text-red-800 dark:text-red-200 flex-shrink-0 flex items-center justify-center gap-4">
+                <div className="flex items-center gap-2">
+                    <ExclamationTriangleIcon className="w-5 h-5" />
+                    <span>
+                        The server rejected {rejectedMutationCount} change{rejectedMutationCount === 1 ? '' : 's'} made while offline.
+                        {' '}{rejectedMutationCount === 1 ? 'It was' : 'They were'} not saved, and the affected items show the saved version again.
+                    </span>
+                </div>
+                <button
+                    onClick={dismissSyncRejections}
+                    className="font-semibold underline hover:text-red-900 dark:hover:text-red-100"
+                >
+                    Dismiss
+                </button>
+            </div>
+        );
+    }
+
+    if (isOnline && pendingMutationCount === 0) return null;
+
+    const pendingLabel = `${pendingMutationCount} change${pendingMutationCount === 1 ? '' : 's'}`;
+
+    return (
+        <div className="bg-light-ui dark:bg-dark-ui border-b border-light-border dark:border-dark-border py-2 px-4 text-center text-sm text-light-text/80 dark:text-dark-text/80 flex-shrink-0 flex items-center justify-center gap-4">
+            <div className="flex items-center gap-2">
+                <ServerStackIcon className="w-5 h-5" />
+                {isOnline ? (
+                    <span>Syncing {pendingLabel} made while offline...</span>
+                ) : (
+                    <span>
+                        You're offline. Your edits are saved on this device
+                        {pendingMutationCount > 0 ? ` (${pendingLabel} waiting)` : ''} and will sync when you reconnect.
+                    </span>
+                )}
+            </div>
+            {pendingMutationCount > 0 && (
+                <button
+                    onClick={() => syncNow()}
+                    className="font-semibold underline hover:text-light-text dark:hover:text-dark-text"
+                >
+                    Retry now
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default SyncStatusIndicator;
@@ -6,9 +6,10 @@ interface TagInputProps {
     setTags: (tags: string[]) => void;
     allExistingTags?: string[];
     readOnly?: boolean;
+    placeholder?: string;
 }
 
-const TagInput: React.FC<TagInputProps> = ({ tags, setTags, allExistingTags = [], readOnly = false }) => {
+const TagInput: React.FC<TagInputProps> = ({ tags, setTags, allExistingTags = [], readOnly = false, placeholder = 'Add a tag...' }) => {
     const [inputValue, setInputValue] = useState('');
     const [suggestions, setSuggestions] = useState<string[]>([]);
     const [isFocused, setIsFocused] = useState(false);
@@ -92,7 +93,7 @@ const TagInput: React.FC<TagInputProps> = ({ tags, setTags, allExistingTags = []
                     onKeyDown={handleKeyDown}
                     onFocus={() => setIsFocused(true)}
                     onBlur={() => setTimeout(() => setIsFocused(false), 200)}
-                    placeholder={readOnly ? '' : 'Add a tag...'}
+                    placeholder={readOnly ? '' : placeholder}
                     className="bg-transparent focus:outline-none flex-1 min-w-[100px]"
                     readOnly={readOnly}
                 />
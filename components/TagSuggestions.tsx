@@ -1,23 +1,32 @@
 import React from 'react';
-import { PlusIcon, SparklesIcon } from './Icons';
+import { LightBulbIcon, PlusIcon, SparklesIcon } from './Icons';
+import { SuggestionSource } from '../services/geminiService';
 
 interface TagSuggestionsProps {
     suggestions: string[];
     onAddTag: (tag: string) => void;
     isLoading: boolean;
+    source: SuggestionSource;
 }
 
-const TagSuggestions: React.FC<TagSuggestionsProps> = ({ suggestions, onAddTag, isLoading }) => {
+const TagSuggestions: React.FC<TagSuggestionsProps> = ({ suggestions, onAddTag, isLoading, source }) => {
     if (!isLoading && suggestions.length === 0) {
         return null;
     }
 
     return (
         <div className="mt-3 pt-3 border-t border-light-border/50 dark:border-dark-border/50">
-            <h4 className="text-xs font-semibold text-light-text/60 dark:text-dark-text/60 mb-2 flex items-center">
-                <SparklesIcon className="w-4 h-4 mr-1 text-light-primary dark:text-dark-primary" />
-                AI Tag Suggestions
-            </h4>
+            {source === 'local' && !isLoading ? (
+                <h4 className="text-xs font-semibold text-light-text/60 dark:text-dark-text/60 mb-2 flex items-center" title="Keywords from this note, weighted toward tags you already use">
+                    <LightBulbIcon className="w-4 h-4 mr-1" />
+                    Tag Suggestions (no AI)
+                </h4>
+            ) : (
+                <h4 className="text-xs font-semibold text-light-text/60 dark:text-dark-text/60 mb-2 flex items-center">
+                    <SparklesIcon className="w-4 h-4 mr-1 text-light-primary dark:text-dark-primary" />
+                    AI Tag Suggestions
+                </h4>
+            )}
             {isLoading && (
                  <div className="text-sm text-light-text/70 dark:text-dark-text/70 animate-pulse">
                     Analyzing note...
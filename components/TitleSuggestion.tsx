@@ -1,13 +1,15 @@
 import React from 'react';
-import { SparklesIcon } from './Icons';
+import { LightBulbIcon, SparklesIcon } from './Icons';
+import { SuggestionSource } from '../services/geminiService';
 
 interface TitleSuggestionProps {
     suggestion: string | null;
     onApply: (title: string) => void;
     isLoading: boolean;
+    source: SuggestionSource;
 }
 
-const TitleSuggestion: React.FC<TitleSuggestionProps> = ({ suggestion, onApply, isLoading }) => {
+const TitleSuggestion: React.FC<TitleSuggestionProps> = ({ suggestion, onApply, isLoading, source }) => {
     if (!isLoading && !suggestion) {
         return null;
     }
@@ -28,7 +30,14 @@ const TitleSuggestion: React.FC<TitleSuggestionProps> = ({ suggestion, onApply,
             )}
             {!isLoading && suggestion && (
                 <div className="flex items-center gap-2">
-                    <span className="text-light-text/70 dark:text-dark-text/70">AI Suggestion:</span>
+                    {source === 'local' ? (
+                        <span className="text-light-text/70 dark:text-dark-text/70 flex items-center" title="Suggested from your note's text without AI">
+                            <LightBulbIcon className="w-4 h-4 mr-1" />
+                            Suggestion (no AI):
+                        </span>
+                    ) : (
+                        <span className="text-light-text/70 dark:text-dark-text/70">AI Suggestion:</span>
+                    )}
                      <button
                         onClick={handleClick}
                         className="font-semibold text-light-primary dark:text-dark-primary bg-light-primary/10 dark:bg-dark-primary/10 px-3 py-1 rounded-full hover:bg-light-primary/20 dark:hover:bg-dark-primary/20 transition-colors"
@@ -1,15 +1,18 @@
 import React from 'react';
-import { Cog6ToothIcon, CheckIcon, ExclamationCircleIcon } from './Icons';
+import { Cog6ToothIcon, CheckIcon, ExclamationCircleIcon, ExclamationTriangleIcon, XCircleIcon } from './Icons';
+import { NoteChangePreview, ToolCallContent } from '../types';
+import { diffSequences } from '../lib/diff';
 
 interface ToolCallDisplayProps {
-    content: {
-        name: string;
-        args: any;
-        result?: any;
-        status: 'pending' | 'complete' | 'error';
-    };
+    content: ToolCallContent;
+    // Present while the call is waiting on the user's approval.
+    onApprove?: () => void;
+    onReject?: () => void;
 }
 
+// Runs of unchanged lines longer than this are collapsed in the preview.
+const MAX_CONTEXT_LINES = 2;
+
 const formatValue = (value: any): string => {
     if (typeof value === 'string') {
         return `"${value.length > 100 ? value.substring(0, 100) + '...' : value}"`;
@@ -20,8 +23,67 @@ const formatValue = (value: any): string => {
     return String(value);
 };
 
-const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({ content }) => {
-    const { name, args, result, status } = content;
+const ContentDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => {
+    const ops = diffSequences(before.split('\n'), after.split('\n'));
+    return (
+        <pre className="text-xs whitespace-pre-wrap break-words bg-light-background dark:bg-dark-background p-2 rounded-md max-h-64 overflow-y-auto">
+            {ops.map((op, index) => {
+                if (op.type === 'insert') {
+                    return op.items.map((line, i) => <div key={`${index}-${i}`} className="bg-green-500/10 text-green-700 dark:text-green-400">+ {line}</div>);
+                }
+                if (op.type === 'delete') {
+                    return op.items.map((line, i) => <div key={`${index}-${i}`} className="bg-red-500/10 text-red-700 dark:text-red-400">- {line}</div>);
+                }
+                if (op.items.length > MAX_CONTEXT_LINES * 2) {
+                    const head = index > 0 ? op.items.slice(0, MAX_CONTEXT_LINES) : [];
+                    const tail = index < ops.length - 1 ? op.items.slice(-MAX_CONTEXT_LINES) : [];
+                    const hidden = op.items.length - head.length - tail.length;
+                    return (
+                        <React.Fragment key={index}>
+                            {head.map((line, i) => <div key={`h-${i}`} className="text-light-text/60 dark:text-dark-text/60">  {line}</div>)}
+                            <div className="italic text-light-text/40 dark:text-dark-text/40">  ... {hidden} unchanged line{hidden === 1 ? '' : 's'}</div>
+                            {tail.map((line, i) => <div key={`t-${i}`} className="text-light-text/60 dark:text-dark-text/60">  {line}</div>)}
+                        </React.Fragment>
+                    );
+                }
+                return op.items.map((line, i) => <div key={`${index}-${i}`} className="text-light-text/60 dark:text-dark-text/60">  {line}</div>);
+            })}
+        </pre>
+    );
+};
+
+const TagsDiff: React.FC<{ before: string[]; after: string[] }> = ({ before, after }) => {
+    const removed = before.filter(tag => !after.includes(tag));
+    const added = after.filter(tag => !before.includes(tag));
+    if (removed.length === 0 && added.length === 0) return null;
+    return (
+        <p className="text-xs">
+            <span className="text-light-text/60 dark:text-dark-text/60">Tags: </span>
+            {removed.map(tag => <span key={`-${tag}`} className="mr-2 text-red-700 dark:text-red-400 line-through">#{tag}</span>)}
+            {added.map(tag => <span key={`+${tag}`} className="mr-2 text-green-700 dark:text-green-400">#{tag}</span>)}
+        </p>
+    );
+};
+
+const NoteChangeDiff: React.FC<{ change: NoteChangePreview }> = ({ change }) => {
+    const { before, after } = change;
+    const title = after?.title ?? before?.title ?? 'Untitled Note';
+    const hasTagChange = !!(before?.tags && after?.tags);
+    return (
+        <div className="space-y-1">
+            <p className="font-semibold text-light-text/90 dark:text-dark-text/90">
+                {before && after && before.title !== after.title ? `${before.title} \u2192 ${after.title}` : title}
+                {!before && <span className="ml-2 text-green-600 dark:text-green-400">(new)</span>}
+                {!after && <span className="ml-2 text-red-600 dark:text-red-400">(will be deleted)</span>}
+            </p>
+            {hasTagChange && <TagsDiff before={before!.tags!} after={after!.tags!} />}
+            <ContentDiff before={before?.content ?? ''} after={after?.content ?? ''} />
+        </div>
+    );
+};
+
+const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({ content, onApprove, onReject }) => {
+    const { name, args, result, status, preview } = content;
 
     const renderStatus = () => {
         switch (status) {
@@ -32,6 +94,13 @@ const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({ content }) => {
                         <span>In progress...</span>
                     </div>
                 );
+            case 'awaiting_approval':
+                return (
+                    <div className="flex items-center gap-2 text-yellow-600 dark:text-yellow-400">
+                        <ExclamationTriangleIcon className="w-4 h-4" />
+                        <span>Needs approval</span>
+                    </div>
+                );
             case 'complete':
                  return (
                     <div className="flex items-center gap-2 text-green-600 dark:text-green-400">
@@ -39,6 +108,13 @@ const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({ content }) => {
                         <span>Complete</span>
                     </div>
                 );
+            case 'rejected':
+                return (
+                    <div className="flex items-center gap-2 text-light-text/60 dark:text-dark-text/60">
+                        <XCircleIcon className="w-4 h-4" />
+                        <span>Rejected</span>
+                    </div>
+                );
             case 'error':
                  return (
                     <div className="flex items-center gap-2 text-red-600 dark:text-red-400">
@@ -74,6 +150,26 @@ const ToolCallDisplay: React.FC<ToolCallDisplayProps> = ({ content }) => {
                         </dd>
                     </div>
                 )}
+                {preview && preview.length > 0 && (
+                    <div>
+                        <dt className="font-semibold text-light-text/70 dark:text-dark-text/70">
+                            {preview.length > 1 ? `Changes to ${preview.length} notes:` : 'Change:'}
+                        </dt>
+                        <dd className="pl-4 mt-1 space-y-3 max-h-96 overflow-y-auto">
+                            {preview.map(change => <NoteChangeDiff key={change.noteId} change={change} />)}
+                        </dd>
+                    </div>
+                )}
+                {status === 'awaiting_approval' && onApprove && onReject && (
+                    <div className="flex justify-end gap-2 pt-1 font-sans">
+                        <button onClick={onReject} className="px-3 py-1 rounded-md text-sm font-semibold bg-light-background dark:bg-dark-background hover:bg-light-ui-hover dark:hover:bg-dark-ui-hover">
+                            Reject
+                        </button>
+                        <button onClick={onApprove} className="px-3 py-1 rounded-md text-sm font-semibold bg-light-primary text-white dark:bg-dark-primary dark:text-zinc-900 hover:opacity-90">
+                            Apply
+                        </button>
+                    </div>
+                )}
                 {result && (
                      <div>
                         <dt className="font-semibold text-light-text/70 dark:text-dark-text/70">Result:</dt>
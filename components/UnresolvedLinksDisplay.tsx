@@ -0,0 +1,48 @@
+import React from 'react';
+import { DocumentPlusIcon, ExclamationTriangleIcon } from './Icons';
+import { useStoreContext } from '../context/AppContext';
+import { useToast } from '../context/ToastContext';
+import { BrokenLink } from '../lib/linkGraph';
+
+interface UnresolvedLinksDisplayProps {
+    brokenLinks: BrokenLink[];
+    // Where notes created from these links go.
+    parentId: string | null;
+}
+
+const UnresolvedLinksDisplay: React.FC<UnresolvedLinksDisplayProps> = ({ brokenLinks, parentId }) => {
+    const { onAddNote } = useStoreContext();
+    const { showToast } = useToast();
+
+    const handleCreateNote = (title: string) => {
+        onAddNote(parentId, title).catch(err => showToast({ message: err instanceof Error ? err.message : 'Failed to create note.', type: 'error' }));
+    };
+
+    if (brokenLinks.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="pt-4 border-t border-light-border dark:border-dark-border">
+            <h3 className="text-sm font-semibold text-light-text/80 dark:text-dark-text/80 mb-3 flex items-center">
+                <ExclamationTriangleIcon className="w-4 h-4 mr-2" />
+                Unresolved Links ({brokenLinks.length})
+            </h3>
+            <p className="text-xs text-light-text/60 dark:text-dark-text/60 mb-2">No note has these titles or aliases. Click one to create it.</p>
+            <div className="flex flex-wrap gap-2">
+                {brokenLinks.map(({ target }) => (
+                    <button
+                        key={target}
+                        onClick={() => handleCreateNote(target)}
+                        className="flex items-center gap-1 px-2 py-1 text-sm rounded-md border border-dashed border-light-border dark:border-dark-border hover:bg-light-ui dark:hover:bg-dark-ui transition-colors"
+                    >
+                        <DocumentPlusIcon className="w-4 h-4" />
+                        {target}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default UnresolvedLinksDisplay;
@@ -2,17 +2,50 @@ import React from 'react';
 import { NoteVersion } from '../types';
 import { XMarkIcon } from './Icons';
 import { formatDate } from '../lib/dateUtils';
+import { VersionCompareState } from '../hooks/useNoteEditorReducer';
 
 interface VersionHistorySidebarProps {
     history: NoteVersion[];
+    isLoading: boolean;
     onClose: () => void;
     onPreview: (version: NoteVersion | null) => void;
     onRestore: (version: NoteVersion) => void;
     activeVersionTimestamp?: string | null;
+    versionCompare: VersionCompareState;
+    // Compares `base` with another version, or with the current draft when `target` is null.
+    onCompare: (compare: VersionCompareState) => void;
 }
 
-const VersionHistorySidebar: React.FC<VersionHistorySidebarProps> = ({ history, onClose, onPreview, onRestore, activeVersionTimestamp }) => {
-    
+const VersionHistorySidebar: React.FC<VersionHistorySidebarProps> = ({ history, isLoading, onClose, onPreview, onRestore, activeVersionTimestamp, versionCompare, onCompare }) => {
+    const rowClass = (isSelected: boolean) => `p-3 mb-2 rounded-lg cursor-pointer transition-colors ${isSelected ? 'bg-light-primary/30 dark:bg-dark-primary/30' : 'hover:bg-light-background dark:hover:bg-dark-background'}`;
+
+    const renderCompareList = (compare: NonNullable<VersionCompareState>) => (
+        <>
+            <div className={rowClass(compare.target === null)} onClick={() => onCompare({ base: compare.base, target: null })}>
+                <p className="font-semibold text-sm">Current draft</p>
+                <p className="text-xs text-light-text/70 dark:text-dark-text/70">Including unsaved changes</p>
+            </div>
+            {history.map(version => {
+                const isBase = version.savedAt === compare.base.savedAt;
+                const isTarget = version.savedAt === compare.target?.savedAt;
+                return (
+                    <div key={version.savedAt}
+                        className={rowClass(isBase || isTarget)}
+                        onClick={() => !isBase && onCompare({ base: compare.base, target: version })}
+                    >
+                        <p className="font-semibold text-sm flex items-center justify-between gap-2">
+                            {formatDate(version.savedAt, 'medium')}
+                            {isBase && <span className="text-xs font-normal text-light-text/60 dark:text-dark-text/60">Comparing</span>}
+                        </p>
+                        <p className="text-xs text-light-text/70 dark:text-dark-text/70 truncate">
+                            {version.content.substring(0, 50) || "No content"}...
+                        </p>
+                    </div>
+                );
+            })}
+        </>
+    );
+
     return (
         <aside className="w-80 bg-light-ui dark:bg-dark-ui border-l border-light-border dark:border-dark-border flex flex-col h-full flex-shrink-0">
             <div className="p-4 flex-shrink-0 border-b border-light-border dark:border-dark-border">
@@ -22,13 +55,25 @@ const VersionHistorySidebar: React.FC<VersionHistorySidebarProps> = ({ history,
                         <XMarkIcon />
                     </button>
                 </div>
-                 <p className="text-xs text-light-text/60 dark:text-dark-text/60">Click a version to preview. Click the current version to stop previewing.</p>
+                {versionCompare ? (
+                    <div className="flex items-center justify-between gap-2">
+                        <p className="text-xs text-light-text/60 dark:text-dark-text/60">Pick the current draft or another version to compare with.</p>
+                        <button onClick={() => onCompare(null)} className="text-xs font-semibold text-light-primary dark:text-dark-primary hover:underline flex-shrink-0">Done</button>
+                    </div>
+                ) : (
+                    <p className="text-xs text-light-text/60 dark:text-dark-text/60">Click a version to preview. Click the current version to stop previewing.</p>
+                )}
             </div>
             <div className="flex-1 overflow-y-auto p-4">
-                {history.length > 0 ? (
+                {isLoading && history.length === 0 ? (
+                    <div className="flex flex-col items-center mt-8 text-sm text-light-text/60 dark:text-dark-text/60">
+                        <div className="w-6 h-6 border-2 border-light-ui dark:border-dark-ui border-t-light-primary dark:border-t-dark-primary rounded-full animate-spin mb-2"></div>
+                        Loading history...
+                    </div>
+                ) : versionCompare ? renderCompareList(versionCompare) : history.length > 0 ? (
                     history.map(version => (
                         <div key={version.savedAt}
-                            className={`p-3 mb-2 rounded-lg cursor-pointer transition-colors ${activeVersionTimestamp === version.savedAt ? 'bg-light-primary/30 dark:bg-dark-primary/30' : 'hover:bg-light-background dark:hover:bg-dark-background'}`}
+                            className={rowClass(activeVersionTimestamp === version.savedAt)}
                         >
                             <div onClick={() => activeVersionTimestamp === version.savedAt ? onPreview(null) : onPreview(version)}>
                                 <p className="font-semibold text-sm">
@@ -39,12 +84,20 @@ const VersionHistorySidebar: React.FC<VersionHistorySidebarProps> = ({ history,
                                 </p>
                             </div>
                              {activeVersionTimestamp === version.savedAt && (
-                                <button
-                                    onClick={() => onRestore(version)}
-                                    className="w-full text-center mt-2 px-3 py-1 text-sm bg-light-primary text-white rounded-md hover:bg-light-primary-hover dark:bg-dark-primary dark:hover:bg-dark-primary-hover"
-                                >
-                                    Restore this version
-                                </button>
+                                <div className="flex gap-2 mt-2">
+                                    <button
+                                        onClick={() => onRestore(version)}
+                                        className="flex-1 text-center px-3 py-1 text-sm bg-light-primary text-white rounded-md hover:bg-light-primary-hover dark:bg-dark-primary dark:hover:bg-dark-primary-hover"
+                                    >
+                                        Restore
+                                    </button>
+                                    <button
+                                        onClick={() => onCompare({ base: version, target: null })}
+                                        className="flex-1 text-center px-3 py-1 text-sm rounded-md bg-light-background dark:bg-dark-background hover:bg-light-ui-hover dark:hover:bg-dark-ui-hover"
+                                    >
+                                        Compare
+                                    </button>
+                                </div>
                             )}
                         </div>
                     ))
@@ -59,4 +112,4 @@ const VersionHistorySidebar: React.FC<VersionHistorySidebarProps> = ({ history,
     );
 };
 
-export default VersionHistorySidebar;
\ No newline at end of file
+export default VersionHistorySidebar;
@@ -214,7 +214,7 @@ const EditorHeader: React.FC<EditorHeaderProps> = ({
                     <button 
                         onClick={() => showConfirmation({
                             title: 'Delete Note',
-                            message: `Are you sure you want to permanently delete "${note.title}"? This action cannot be undone.`,
+                            message: `Move "${note.title}" to the trash? You can restore it from the Trash section of the sidebar.`,
                             onConfirm: () => handleDeleteNoteConfirm(note),
                             confirmText: 'Delete',
                         })} 
@@ -1,25 +1,30 @@
 import React from 'react';
 import { Note } from '../../types';
 import BacklinksDisplay from '../BacklinksDisplay';
+import UnresolvedLinksDisplay from '../UnresolvedLinksDisplay';
 import RelatedNotes from '../RelatedNotes';
 import TagInput from '../TagInput';
 import TagSuggestions from '../TagSuggestions';
-
-interface Backlink {
-    sourceNoteId: string;
-    sourceNoteTitle: string;
-}
+import { SuggestionSource } from '../../services/geminiService';
+import { Backlink, BrokenLink } from '../../lib/linkGraph';
+import { UnlinkedMention, UnlinkedMentionGroup } from '../../lib/mentions';
 
 interface EditorMetaProps {
     note: Note;
     backlinks: Backlink[];
+    brokenLinks: BrokenLink[];
+    unlinkedMentions: UnlinkedMentionGroup[];
+    onLinkMention: (sourceNoteId: string, mention: UnlinkedMention) => void;
     tags: string[];
     onTagsChange: (tags: string[]) => void;
+    aliases: string[];
+    onAliasesChange: (aliases: string[]) => void;
     isReadOnly: boolean;
     allExistingTags: string[];
     suggestedTags: string[];
     onAddTag: (tag: string) => void;
     isLoadingTags: boolean;
+    tagSuggestionSource: SuggestionSource;
     isApiKeyMissing: boolean;
     isAiEnabled: boolean;
 }
@@ -27,18 +32,25 @@ interface EditorMetaProps {
 const EditorMeta: React.FC<EditorMetaProps> = ({
     note,
     backlinks,
+    brokenLinks,
+    unlinkedMentions,
+    onLinkMention,
     tags,
     onTagsChange,
+    aliases,
+    onAliasesChange,
     isReadOnly,
     allExistingTags,
     suggestedTags,
     onAddTag,
     isLoadingTags,
+    tagSuggestionSource,
     isApiKeyMissing,
     isAiEnabled,
 }) => (
     <div className="mt-12 space-y-8">
-        <BacklinksDisplay backlinks={backlinks} />
+        <BacklinksDisplay backlinks={backlinks} unlinkedMentions={unlinkedMentions} onLinkMention={onLinkMention} />
+        <UnresolvedLinksDisplay brokenLinks={brokenLinks} parentId={note.parentId} />
         {!isApiKeyMissing && isAiEnabled && <RelatedNotes note={note} />}
         <div id="onboarding-tag-input" className={`pt-6 border-t border-light-border dark:border-dark-border ${isReadOnly ? 'opacity-60' : ''}`}>
             <TagInput
@@ -47,14 +59,24 @@ const EditorMeta: React.FC<EditorMetaProps> = ({
                 readOnly={isReadOnly}
                 allExistingTags={allExistingTags}
             />
-            {!isApiKeyMissing && !isReadOnly && isAiEnabled && (
+            {!isReadOnly && isAiEnabled && (
                 <TagSuggestions
                     suggestions={suggestedTags}
                     onAddTag={onAddTag}
                     isLoading={isLoadingTags}
+                    source={tagSuggestionSource}
                 />
             )}
         </div>
+        <div className={isReadOnly ? 'opacity-60' : ''}>
+            <h3 className="text-sm font-semibold mb-2 text-light-text/70 dark:text-dark-text/70">Aliases</h3>
+            <TagInput
+                tags={aliases}
+                setTags={onAliasesChange}
+                readOnly={isReadOnly}
+                placeholder="Add another name to link this note by..."
+            />
+        </div>
     </div>
 );
 
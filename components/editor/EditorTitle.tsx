@@ -1,15 +1,18 @@
 import React from 'react';
 import TitleSuggestion from '../TitleSuggestion';
+import { SuggestionSource } from '../../services/geminiService';
 
 interface EditorTitleProps {
     titleInputRef: React.RefObject<HTMLInputElement>;
     value: string;
     onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    onFocus: () => void;
+    onBlur: () => void;
     isReadOnly: boolean;
     suggestion: string | null;
     onApplySuggestion: (title: string) => void;
     isSuggesting: boolean;
-    isApiKeyMissing: boolean;
+    suggestionSource: SuggestionSource;
     isAiEnabled: boolean;
 }
 
@@ -17,11 +20,13 @@ const EditorTitle: React.FC<EditorTitleProps> = ({
     titleInputRef,
     value,
     onChange,
+    onFocus,
+    onBlur,
     isReadOnly,
     suggestion,
     onApplySuggestion,
     isSuggesting,
-    isApiKeyMissing,
+    suggestionSource,
     isAiEnabled,
 }) => (
     <>
@@ -30,15 +35,18 @@ const EditorTitle: React.FC<EditorTitleProps> = ({
             type="text"
             value={value}
             onChange={onChange}
+            onFocus={onFocus}
+            onBlur={onBlur}
             placeholder="Note Title"
             className={`w-full bg-transparent text-3xl sm:text-4xl font-bold focus:outline-none rounded-md ${isReadOnly ? 'cursor-not-allowed opacity-70' : ''}`}
             readOnly={isReadOnly}
         />
-        {!isApiKeyMissing && !isReadOnly && isAiEnabled && (
+        {!isReadOnly && isAiEnabled && (
             <TitleSuggestion
                 suggestion={suggestion}
                 onApply={onApplySuggestion}
                 isLoading={isSuggesting}
+                source={suggestionSource}
             />
         )}
     </>
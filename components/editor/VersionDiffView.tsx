@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { XMarkIcon } from '../Icons';
+import { ContentHunk, NoteSnapshot, diffVersions, diffWords, revertHunks } from '../../lib/versionDiff';
+
+type Granularity = 'words' | 'lines';
+
+interface VersionDiffViewProps {
+    before: NoteSnapshot;
+    beforeLabel: string;
+    after: NoteSnapshot;
+    afterLabel: string;
+    // Present when `after` is the current draft: puts the chosen parts of `before` back into it.
+    onRestore?: (restored: NoteSnapshot) => void;
+    onClose: () => void;
+}
+
+// Unchanged lines shown around each change; longer unchanged runs are collapsed.
+const CONTEXT_LINES = 3;
+
+const WordDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+    <>
+        {diffWords(before, after).map((op, index) => {
+            const text = op.items.join('');
+            if (op.type === 'insert') return <ins key={index} className="no-underline bg-green-500/20 text-green-800 dark:text-green-300 rounded-sm">{text}</ins>;
+            if (op.type === 'delete') return <del key={index} className="bg-red-500/20 text-red-800 dark:text-red-300 rounded-sm">{text}</del>;
+            return <span key={index}>{text}</span>;
+        })}
+    </>
+);
+
+const UnchangedLines: React.FC<{ lines: string[]; isFirst: boolean; isLast: boolean }> = ({ lines, isFirst, isLast }) => {
+    const head = isFirst ? [] : lines.slice(0, CONTEXT_LINES);
+    const tail = isLast ? [] : lines.slice(-CONTEXT_LINES);
+    const hidden = lines.length - head.length - tail.length;
+    if (hidden <= 1) {
+        return <>{lines.map((line, i) => <div key={i} className="text-light-text/60 dark:text-dark-text/60">{line || ' '}</div>)}</>;
+    }
+    return (
+        <>
+            {head.map((line, i) => <div key={`h-${i}`} className="text-light-text/60 dark:text-dark-text/60">{line || ' '}</div>)}
+            <div className="my-1 text-xs italic text-light-text/40 dark:text-dark-text/40">... {hidden} unchanged lines</div>
+            {tail.map((line, i) => <div key={`t-${i}`} className="text-light-text/60 dark:text-dark-text/60">{line || ' '}</div>)}
+        </>
+    );
+};
+
+const ChangedLines: React.FC<{ hunk: Extract<ContentHunk, { type: 'change' }>; granularity: Granularity }> = ({ hunk, granularity }) => {
+    if (granularity === 'words') {
+        return <div><WordDiff before={hunk.before.join('\n')} after={hunk.after.join('\n')} /></div>;
+    }
+    return (
+        <>
+            {hunk.before.map((line, i) => <div key={`d-${i}`} className="bg-red-500/10 text-red-700 dark:text-red-400">- {line}</div>)}
+            {hunk.after.map((line, i) => <div key={`i-${i}`} className="bg-green-500/10 text-green-700 dark:text-green-400">+ {line}</div>)}
+        </>
+    );
+};
+
+const RestoreCheckbox: React.FC<{ checked: boolean; onChange: () => void; label: string }> = ({ checked, onChange, label }) => (
+    <label className="flex items-center gap-1.5 text-xs font-semibold text-light-text/70 dark:text-dark-text/70 cursor-pointer select-none">
+        <input type="checkbox" checked={checked} onChange={onChange} className="accent-light-primary dark:accent-dark-primary" />
+        {label}
+    </label>
+);
+
+/**
+ * Shows what changed between two snapshots of a note: the title, added and removed tags,
+ * and the content by word or by line. Against the current draft, individual changes can
+ * be selected and restored without restoring the whole version.
+ */
+const VersionDiffView: React.FC<VersionDiffViewProps> = ({ before, beforeLabel, after, afterLabel, onRestore, onClose }) => {
+    const [granularity, setGranularity] = useState<Granularity>('words');
+    const [selectedHunks, setSelectedHunks] = useState<Set<number>>(new Set());
+    const [restoreTitle, setRestoreTitle] = useState(false);
+    const [restoreTags, setRestoreTags] = useState(false);
+
+    // Keyed on the values rather than the objects, so a re-render doesn't clear the selection.
+    const beforeKey = [before.title, before.content, ...before.tags].join('\u0000');
+    const afterKey = [after.title, after.content, ...after.tags].join('\u0000');
+    const diff = useMemo(() => diffVersions(before, after), [beforeKey, afterKey]);
+    const changeIndexes = useMemo(
+        () => diff.hunks.flatMap((hunk, index) => hunk.type === 'change' ? [index] : []),
+        [diff]
+    );
+    const tagsChanged = diff.tags.added.length > 0 || diff.tags.removed.length > 0;
+
+    useEffect(() => {
+        setSelectedHunks(new Set());
+        setRestoreTitle(false);
+        setRestoreTags(false);
+    }, [diff]);
+
+    const toggleHunk = (index: number) => setSelectedHunks(prev => {
+        const next = new Set(prev);
+        if (next.has(index)) next.delete(index);
+        else next.add(index);
+        return next;
+    });
+
+    const selectionCount = selectedHunks.size + (restoreTitle ? 1 : 0) + (restoreTags ? 1 : 0);
+    const changeCount = changeIndexes.length + (diff.title ? 1 : 0) + (tagsChanged ? 1 : 0);
+
+    const handleSelectAll = () => {
+        const selectAll = selectionCount < changeCount;
+        setSelectedHunks(selectAll ? new Set(changeIndexes) : new Set());
+        setRestoreTitle(selectAll && !!diff.title);
+        setRestoreTags(selectAll && tagsChanged);
+    };
+
+    const handleRestore = () => onRestore?.({
+        title: restoreTitle ? before.title : after.title,
+        content: revertHunks(diff.hunks, selectedHunks),
+        tags: restoreTags ? before.tags : after.tags,
+    });
+
+    const granularityButtonClass = (value: Granularity) => `px-2 py-1 text-xs font-semibold rounded-md ${
+        granularity === value ? 'bg-light-primary text-white dark:bg-dark-primary dark:text-zinc-900' : 'hover:bg-light-ui dark:hover:bg-dark-ui'
+    }`;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                    <h2 className="text-lg font-bold">Compare Versions</h2>
+                    <p className="text-sm text-light-text/60 dark:text-dark-text/60">
+                        <span className="text-red-600 dark:text-red-400">{beforeLabel}</span> &rarr; <span className="text-green-600 dark:text-green-400">{afterLabel}</span>
+                    </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    <div className="flex gap-1 p-0.5 rounded-lg bg-light-ui/50 dark:bg-dark-ui/50" role="group" aria-label="Diff granularity">
+                        <button onClick={() => setGranularity('words')} aria-pressed={granularity === 'words'} className={granularityButtonClass('words')}>Words</button>
+                        <button onClick={() => setGranularity('lines')} aria-pressed={granularity === 'lines'} className={granularityButtonClass('lines')}>Lines</button>
+                    </div>
+                    <button onClick={onClose} className="p-2 rounded-md hover:bg-light-ui dark:hover:bg-dark-ui" aria-label="Stop comparing">
+                        <XMarkIcon />
+                    </button>
+                </div>
+            </div>
+
+            {changeCount === 0 && (
+                <p className="text-sm text-center text-light-text/60 dark:text-dark-text/60">These versions are identical.</p>
+            )}
+
+            {diff.title && (
+                <div>
+                    <div className="flex items-center justify-between mb-1">
+                        <h3 className="text-sm font-semibold">Title</h3>
+                        {onRestore && <RestoreCheckbox checked={restoreTitle} onChange={() => setRestoreTitle(p => !p)} label="Restore" />}
+                    </div>
+                    <p className="text-xl font-bold"><WordDiff before={diff.title.before} after={diff.title.after} /></p>
+                </div>
+            )}
+
+            {tagsChanged && (
+                <div>
+                    <div className="flex items-center justify-between mb-1">
+                        <h3 className="text-sm font-semibold">Tags</h3>
+                        {onRestore && <RestoreCheckbox checked={restoreTags} onChange={() => setRestoreTags(p => !p)} label="Restore" />}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {diff.tags.removed.map(tag => (
+                            <span key={`-${tag}`} className="px-2 py-0.5 text-sm rounded-full bg-red-500/10 text-red-700 dark:text-red-400 line-through">#{tag}</span>
+                        ))}
+                        {diff.tags.added.map(tag => (
+                            <span key={`+${tag}`} className="px-2 py-0.5 text-sm rounded-full bg-green-500/10 text-green-700 dark:text-green-400">#{tag}</span>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {changeIndexes.length > 0 && (
+                <div>
+                    <h3 className="text-sm font-semibold mb-1">Content</h3>
+                    <div className="text-sm font-mono whitespace-pre-wrap break-words space-y-1">
+                        {diff.hunks.map((hunk, index) => hunk.type === 'equal' ? (
+                            <UnchangedLines key={index} lines={hunk.lines} isFirst={index === 0} isLast={index === diff.hunks.length - 1} />
+                        ) : (
+                            <div
+                                key={index}
+                                className={`rounded-md border p-2 ${selectedHunks.has(index) ? 'border-light-primary dark:border-dark-primary' : 'border-light-border dark:border-dark-border'}`}
+                            >
+                                {onRestore && (
+                                    <div className="flex justify-end mb-1 font-sans">
+                                        <RestoreCheckbox checked={selectedHunks.has(index)} onChange={() => toggleHunk(index)} label="Restore this change" />
+                                    </div>
+                                )}
+                                <ChangedLines hunk={hunk} granularity={granularity} />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {onRestore && changeCount > 0 && (
+                <div className="sticky bottom-0 flex items-center justify-end gap-2 py-3 bg-light-background dark:bg-dark-background border-t border-light-border dark:border-dark-border">
+                    <button onClick={handleSelectAll} className="px-3 py-1.5 text-sm rounded-md hover:bg-light-ui dark:hover:bg-dark-ui">
+                        {selectionCount < changeCount ? 'Select all' : 'Select none'}
+                    </button>
+                    <button
+                        onClick={handleRestore}
+                        disabled={selectionCount === 0}
+                        className="px-3 py-1.5 text-sm font-semibold rounded-md bg-light-primary text-white hover:bg-light-primary-hover dark:bg-dark-primary dark:text-zinc-900 dark:hover:bg-dark-primary-hover disabled:opacity-50"
+                    >
+                        Restore selected ({selectionCount})
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default VersionDiffView;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Cog6ToothIcon, XMarkIcon } from '../Icons';
+import { GRAPH_DATE_RANGES, GraphDateRange, GraphSettings, MAX_LOCAL_DEPTH } from '../../lib/graphView';
+
+interface GraphControlsProps {
+    settings: GraphSettings;
+    onChange: (changes: Partial<GraphSettings>) => void;
+    onReset: () => void;
+    tags: string[];
+    folders: { id: string; path: string }[];
+    // A local graph needs a note to center on.
+    hasActiveNote: boolean;
+    nodeCount: number;
+    communityCount: number;
+}
+
+const selectClassName = "w-full p-1.5 text-sm bg-light-ui dark:bg-dark-ui rounded-md border border-light-border dark:border-dark-border focus:ring-2 focus:ring-light-primary focus:outline-none";
+
+const Toggle: React.FC<{ checked: boolean; onChange: (checked: boolean) => void; label: string; disabled?: boolean }> = ({ checked, onChange, label, disabled }) => (
+    <label className={`flex items-center gap-2 text-sm select-none ${disabled ? 'opacity-50' : 'cursor-pointer'}`}>
+        <input type="checkbox" checked={checked} disabled={disabled} onChange={e => onChange(e.target.checked)} className="accent-light-primary dark:accent-dark-primary" />
+        {label}
+    </label>
+);
+
+const GraphControls: React.FC<GraphControlsProps> = ({ settings, onChange, onReset, tags, folders, hasActiveNote, nodeCount, communityCount }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    if (!isOpen) {
+        return (
+            <button
+                onClick={() => setIsOpen(true)}
+                className="absolute top-4 left-4 z-10 flex items-center gap-2 px-3 py-1.5 text-sm bg-light-background dark:bg-dark-background rounded-md shadow-md border border-light-border dark:border-dark-border hover:bg-light-ui dark:hover:bg-dark-ui transition-colors"
+            >
+                <Cog6ToothIcon className="w-4 h-4" />
+                Graph options
+            </button>
+        );
+    }
+
+    return (
+        <div className="absolute top-4 left-4 z-10 w-64 max-h-[calc(100%-2rem)] overflow-y-auto p-4 space-y-4 bg-light-background dark:bg-dark-background rounded-lg shadow-xl border border-light-border dark:border-dark-border text-light-text dark:text-dark-text animate-fade-in">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold">Graph options</h3>
+                <button onClick={() => setIsOpen(false)} className="p-1 rounded-md hover:bg-light-ui dark:hover:bg-dark-ui" aria-label="Close graph options">
+                    <XMarkIcon className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="space-y-2">
+                <h4 className="text-xs font-semibold uppercase text-light-text/60 dark:text-dark-text/60">Filters</h4>
+                <select value={settings.tag ?? ''} onChange={e => onChange({ tag: e.target.value || null })} className={selectClassName} aria-label="Tag">
+                    <option value="">All tags</option>
+                    {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                </select>
+                <select value={settings.folderId ?? ''} onChange={e => onChange({ folderId: e.target.value || null })} className={selectClassName} aria-label="Folder">
+                    <option value="">All folders</option>
+                    {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.path}</option>)}
+                </select>
+                <select value={settings.dateRange} onChange={e => onChange({ dateRange: e.target.value as GraphDateRange })} className={selectClassName} aria-label="Last updated">
+                    {GRAPH_DATE_RANGES.map(range => <option key={range.id} value={range.id}>{range.name}</option>)}
+                </select>
+                <Toggle checked={settings.hideOrphans} onChange={hideOrphans => onChange({ hideOrphans })} label="Hide notes without links" />
+            </div>
+
+            <div className="space-y-2">
+                <h4 className="text-xs font-semibold uppercase text-light-text/60 dark:text-dark-text/60">Local graph</h4>
+                <Toggle checked={settings.isLocal && hasActiveNote} disabled={!hasActiveNote} onChange={isLocal => onChange({ isLocal })} label="Only show notes near the open note" />
+                {!hasActiveNote && <p className="text-xs text-light-text/60 dark:text-dark-text/60">Open a note to see its local graph.</p>}
+                {settings.isLocal && hasActiveNote && (
+                    <label className="block text-sm">
+                        <span className="flex justify-between">
+                            Depth
+                            <span className="text-light-text/60 dark:text-dark-text/60">{settings.localDepth} {settings.localDepth === 1 ? 'link' : 'links'}</span>
+                        </span>
+                        <input
+                            type="range"
+                            min={1}
+                            max={MAX_LOCAL_DEPTH}
+                            value={settings.localDepth}
+                            onChange={e => onChange({ localDepth: Number(e.target.value) })}
+                            className="w-full accent-light-primary dark:accent-dark-primary"
+                        />
+                    </label>
+                )}
+            </div>
+
+            <div className="space-y-2">
+                <h4 className="text-xs font-semibold uppercase text-light-text/60 dark:text-dark-text/60">Display</h4>
+                <Toggle checked={settings.showTags} onChange={showTags => onChange({ showTags })} label="Show tags as nodes" />
+                <Toggle checked={settings.colorByCommunity} onChange={colorByCommunity => onChange({ colorByCommunity })} label="Color by community" />
+                {settings.colorByCommunity && (
+                    <p className="text-xs text-light-text/60 dark:text-dark-text/60">
+                        {communityCount === 0 ? 'No groups of linked notes found.' : `${communityCount} ${communityCount === 1 ? 'community' : 'communities'} of closely linked notes.`}
+                    </p>
+                )}
+            </div>
+
+            <div className="flex items-center justify-between pt-2 border-t border-light-border dark:border-dark-border">
+                <span className="text-xs text-light-text/60 dark:text-dark-text/60">{nodeCount} {nodeCount === 1 ? 'node' : 'nodes'}</span>
+                <button onClick={onReset} className="text-xs font-semibold text-light-primary dark:text-dark-primary hover:underline">Reset</button>
+            </div>
+        </div>
+    );
+};
+
+export default GraphControls;
@@ -1,15 +1,19 @@
 import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Note, TreeNode, Collection } from '../../types';
 import NoteCard from '../NoteCard';
+import Highlight from '../Highlight';
 import {
     PencilSquareIcon, PlusIcon, FolderPlusIcon, BrainIcon, TrashIcon, XMarkIcon,
-    ArrowDownTrayIcon, SparklesIcon, StarIcon
+    ArrowDownTrayIcon, SparklesIcon, StarIcon, FolderIcon, ListBulletIcon, ArrowUturnLeftIcon, DocumentTextIcon
 } from '../Icons';
 import SidebarNode from '../SidebarNode';
 import CollapsibleSection from './CollapsibleSection';
 import { useStoreContext, useUIContext } from '../../context/AppContext';
 import { useDragAndDrop } from '../../hooks/useDragAndDrop';
 import { useToast } from '../../context/ToastContext';
+import { isRuleBasedCollection } from '../../lib/smartFolderRules';
+import { TrashEntry } from '../../lib/trash';
+import { formatDate } from '../../lib/dateUtils';
 
 const EXPANDED_FOLDERS_KEY = 'wesai-sidebar-expanded-folders';
 
@@ -24,11 +28,13 @@ const SidebarContent: React.FC = () => {
         handleDeleteNoteConfirm, handleDeleteSmartCollectionConfirm,
         activeSmartCollection,
         activeNotePath,
+        handleSearchTermChange,
+        trash, restoreFromTrash, deleteFromTrash, emptyTrash,
     } = useStoreContext();
     
     const {
         isMobileView, setIsSidebarOpen, setView,
-        openSmartFolderModal, onOpenContextMenu, showConfirmation, isAiEnabled
+        openSmartFolderModal, onOpenContextMenu, showConfirmation, hideConfirmation, isAiEnabled
     } = useUIContext();
     const { showToast } = useToast();
     
@@ -104,7 +110,10 @@ const SidebarContent: React.FC = () => {
         return ids;
     }, [expandedFolders, searchData]);
 
-    const visibleNodeIds = React.useMemo(() => getVisibleNodes(fileTree), [fileTree, getVisibleNodes]);
+    const visibleNodeIds = React.useMemo(
+        () => searchData.isSearching ? searchData.results.map(r => r.noteId) : getVisibleNodes(fileTree),
+        [fileTree, getVisibleNodes, searchData]
+    );
 
     useEffect(() => {
         if (focusedNodeId && !visibleNodeIds.includes(focusedNodeId)) {
@@ -158,7 +167,7 @@ const SidebarContent: React.FC = () => {
                 label: 'Delete Note', 
                 action: () => showConfirmation({
                     title: "Delete Note",
-                    message: `Are you sure you want to permanently delete "${note.title}"? This action cannot be undone.`,
+                    message: `Move "${note.title}" to the trash? You can restore it from the Trash section of the sidebar.`,
                     confirmText: "Delete",
                     onConfirm: () => handleDeleteNoteConfirm(note),
                 }), 
@@ -168,6 +177,89 @@ const SidebarContent: React.FC = () => {
         ]);
     };
 
+    const handleRestoreFromTrash = async (entry: TrashEntry) => {
+        try {
+            await restoreFromTrash(entry.id);
+            showToast({ message: `Restored "${entry.title}".`, type: 'success' });
+        } catch (error) {
+            showToast({ message: `Failed to restore "${entry.title}": ${(error as Error).message}`, type: 'error' });
+        }
+    };
+
+    const confirmPermanentDelete = (title: string, message: string, action: () => Promise<void>) => showConfirmation({
+        title,
+        message,
+        confirmText: 'Delete Forever',
+        onConfirm: async () => {
+            try {
+                await action();
+            } catch (error) {
+                showToast({ message: `Failed to delete: ${(error as Error).message}`, type: 'error' });
+            } finally {
+                hideConfirmation();
+            }
+        },
+    });
+
+    const renderTrash = () => (
+        <CollapsibleSection
+            title="Trash"
+            count={trash.length}
+            defaultExpanded={false}
+            actions={trash.length > 0 && (
+                <button
+                    onClick={() => confirmPermanentDelete("Empty Trash", "Everything in the trash will be permanently deleted. This action cannot be undone.", emptyTrash)}
+                    className="px-1.5 py-0.5 rounded text-xs text-light-text/60 dark:text-dark-text/60 hover:text-red-500 hover:bg-light-background dark:hover:bg-dark-background"
+                >
+                    Empty
+                </button>
+            )}
+        >
+            {trash.length > 0 ? (
+                trash.map(entry => {
+                    const itemCount = entry.contents.collectionIds.length + entry.contents.noteIds.length - 1;
+                    return (
+                        <div key={entry.id} className="group flex items-center gap-2 w-full rounded-md px-2 py-1.5 my-0.5 text-sm hover:bg-light-background dark:hover:bg-dark-background">
+                            {entry.type === 'collection'
+                                ? <FolderIcon className="w-4 h-4 flex-shrink-0 opacity-60" />
+                                : <DocumentTextIcon className="w-4 h-4 flex-shrink-0 opacity-60" />}
+                            <div className="min-w-0 flex-1">
+                                <p className="truncate text-light-text/80 dark:text-dark-text/80">{entry.title || 'Untitled'}</p>
+                                <p className="truncate text-xs text-light-text/50 dark:text-dark-text/50">
+                                    Deleted {formatDate(entry.deletedAt)}
+                                    {entry.deletedFrom.length > 0 && ` from ${entry.deletedFrom.join(' / ')}`}
+                                    {itemCount > 0 && ` · ${itemCount} item${itemCount === 1 ? '' : 's'} inside`}
+                                </p>
+                            </div>
+                            <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity flex-shrink-0">
+                                <button onClick={() => handleRestoreFromTrash(entry)} className="p-1 rounded hover:bg-light-ui dark:hover:bg-dark-ui" aria-label={`Restore ${entry.title}`} title="Restore">
+                                    <ArrowUturnLeftIcon className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => confirmPermanentDelete(
+                                        entry.type === 'collection' ? "Delete Folder Forever" : "Delete Note Forever",
+                                        `"${entry.title}"${itemCount > 0 ? ' and everything inside it' : ''} will be permanently deleted. This action cannot be undone.`,
+                                        () => deleteFromTrash(entry.id),
+                                    )}
+                                    className="p-1 rounded text-red-500 hover:bg-light-ui dark:hover:bg-dark-ui"
+                                    aria-label={`Delete ${entry.title} forever`}
+                                    title="Delete forever"
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })
+            ) : (
+                <div className="px-2 py-1 text-xs text-light-text/50 dark:text-dark-text/50 flex items-center gap-2">
+                    <TrashIcon className="w-4 h-4 opacity-70" />
+                    <span>The trash is empty.</span>
+                </div>
+            )}
+        </CollapsibleSection>
+    );
+
     const renderFavorites = () => (
         <CollapsibleSection title="Favorites" count={favoriteNotes.length}>
              {favoriteNotes.length > 0 ? (
@@ -194,18 +286,21 @@ const SidebarContent: React.FC = () => {
         </CollapsibleSection>
     );
     
+    // AI smart folders are hidden while AI is disabled; rule-based ones always work.
+    const visibleSmartCollections = isAiEnabled ? smartCollections : smartCollections.filter(isRuleBasedCollection);
+
     const renderSmartCollections = () => (
          <CollapsibleSection
             title="Smart Folders"
-            count={smartCollections.length}
+            count={visibleSmartCollections.length}
             actions={(
                 <button onClick={() => openSmartFolderModal(null)} className="p-1 rounded text-light-text/60 dark:text-dark-text/60 hover:text-light-text dark:hover:text-dark-text hover:bg-light-background dark:hover:bg-dark-background" aria-label="Add new smart folder">
                     <PlusIcon className="w-4 h-4" />
                 </button>
             )}
         >
-            {smartCollections.length > 0 ? (
-                smartCollections.map(sc => (
+            {visibleSmartCollections.length > 0 ? (
+                visibleSmartCollections.map(sc => (
                     <div key={sc.id} 
                         className={`group flex items-center justify-between w-full text-left rounded-md px-2 py-1.5 my-0.5 text-sm cursor-pointer hover:bg-light-background dark:hover:bg-dark-background`}
                          onClick={() => onActivateSmartCollection(sc)}
@@ -225,7 +320,9 @@ const SidebarContent: React.FC = () => {
                          ])}
                     >
                          <div className="flex items-center truncate">
-                            <BrainIcon className="w-4 h-4 mr-2 flex-shrink-0 text-light-primary dark:text-dark-primary" />
+                            {isRuleBasedCollection(sc)
+                                ? <ListBulletIcon className="w-4 h-4 mr-2 flex-shrink-0 text-light-primary dark:text-dark-primary" />
+                                : <BrainIcon className="w-4 h-4 mr-2 flex-shrink-0 text-light-primary dark:text-dark-primary" />}
                             <span className="truncate">{sc.name}</span>
                         </div>
                     </div>
@@ -238,6 +335,50 @@ const SidebarContent: React.FC = () => {
         </CollapsibleSection>
     );
     
+    const renderSearchResults = () => {
+        const noteMap = new Map(notes.map(n => [n.id, n]));
+        const matchedCollections = collections.filter(c => searchData.matchIds?.has(c.id));
+        return (
+            <>
+                {matchedCollections.length > 0 && (
+                    <CollapsibleSection title="Folders" count={matchedCollections.length}>
+                        {matchedCollections.map(collection => (
+                            <button
+                                key={collection.id}
+                                onClick={() => handleSearchTermChange(`in:"${collection.name}"`)}
+                                className="w-full flex items-center text-left rounded-md px-2 py-1.5 my-0.5 text-sm hover:bg-light-background dark:hover:bg-dark-background"
+                            >
+                                <FolderIcon className="w-4 h-4 mr-2 flex-shrink-0 opacity-70" />
+                                <span className="truncate"><Highlight text={collection.name} highlight={searchData.highlightTerms} /></span>
+                            </button>
+                        ))}
+                    </CollapsibleSection>
+                )}
+                <CollapsibleSection title="Results" count={searchData.results.length}>
+                    {searchData.results.map(result => {
+                        const note = noteMap.get(result.noteId);
+                        if (!note) return null;
+                        return (
+                            <div key={note.id} className={focusedNodeId === note.id && note.id !== activeNoteId ? 'rounded-lg ring-1 ring-light-primary/50 dark:ring-dark-primary/50' : ''}>
+                                <NoteCard
+                                    id={note.id}
+                                    title={note.title}
+                                    content={result.snippet}
+                                    updatedAt={note.updatedAt}
+                                    isFavorite={note.isFavorite}
+                                    isActive={note.id === activeNoteId}
+                                    onClick={() => onSelectNote(note.id)}
+                                    searchTerm={searchData.highlightTerms}
+                                    onContextMenu={(e) => handleNoteCardContextMenu(e, note)}
+                                />
+                            </div>
+                        );
+                    })}
+                </CollapsibleSection>
+            </>
+        );
+    };
+
     const { isSearching, visibleIds } = searchData;
 
     if (isAiSearching) {
@@ -252,8 +393,17 @@ const SidebarContent: React.FC = () => {
     if (isSearching && visibleIds?.size === 0) {
         return (
             <div className="text-center px-4 py-8 text-sm text-light-text/60 dark:text-dark-text/60">
-                <p className="font-semibold">No results for "{activeSmartCollection ? activeSmartCollection.query : searchTerm}"</p>
-                <p className="mt-1">Try a different keyword or use AI Search for conceptual matches.</p>
+                {activeSmartCollection && isRuleBasedCollection(activeSmartCollection) ? (
+                    <>
+                        <p className="font-semibold">No notes match "{activeSmartCollection.name}"</p>
+                        <p className="mt-1">Edit the smart folder to adjust its rules.</p>
+                    </>
+                ) : (
+                    <>
+                        <p className="font-semibold">No results for "{activeSmartCollection ? activeSmartCollection.query : searchTerm}"</p>
+                        <p className="mt-1">Try a different keyword or use AI Search for conceptual matches.</p>
+                    </>
+                )}
             </div>
         );
     }
@@ -290,42 +440,47 @@ const SidebarContent: React.FC = () => {
                             Drop to Import
                         </div>
                     )}
-                    {renderFavorites()}
-                    {isAiEnabled && renderSmartCollections()}
-                    <CollapsibleSection
-                        title="Folders"
-                        count={notes.length}
-                        actions={(
-                            <button onClick={() => addCollection('New Folder', null)} className="p-1 rounded text-light-text/60 dark:text-dark-text/60 hover:text-light-text dark:hover:text-dark-text hover:bg-light-background dark:hover:bg-dark-background" aria-label="Add new folder">
-                                <FolderPlusIcon className="w-4 h-4" />
-                            </button>
-                        )}
-                    >
-                        {fileTree.length > 0 ? (
-                            fileTree.map(node => (
-                                <SidebarNode 
-                                    key={node.id} 
-                                    node={node} 
-                                    level={0} 
-                                    activeNoteId={activeNoteId}
-                                    searchTerm={searchTerm}
-                                    searchData={searchData}
-                                    onSelectNote={onSelectNote}
-                                    expandedFolders={expandedFolders}
-                                    onToggleFolder={toggleFolder}
-                                    isFocused={focusedNodeId === node.id}
-                                    isActivePath={activeNotePath.has(node.id)}
-                                    activeNotePath={activeNotePath}
-                                    focusedNodeId={focusedNodeId}
-                                />
-                            ))
-                        ) : (
-                             <div className="text-center px-4 py-8 text-sm text-light-text/60 dark:text-dark-text/60">
-                                <p>Your workspace is empty.</p>
-                                <button onClick={() => onAddNote()} className="mt-2 text-light-primary dark:text-dark-primary font-semibold">Create your first note</button>
-                            </div>
-                        )}
-                    </CollapsibleSection>
+                    {isSearching ? renderSearchResults() : (
+                        <>
+                        {renderFavorites()}
+                        {renderSmartCollections()}
+                        <CollapsibleSection
+                            title="Folders"
+                            count={notes.length}
+                            actions={(
+                                <button onClick={() => addCollection('New Folder', null)} className="p-1 rounded text-light-text/60 dark:text-dark-text/60 hover:text-light-text dark:hover:text-dark-text hover:bg-light-background dark:hover:bg-dark-background" aria-label="Add new folder">
+                                    <FolderPlusIcon className="w-4 h-4" />
+                                </button>
+                            )}
+                        >
+                            {fileTree.length > 0 ? (
+                                fileTree.map(node => (
+                                    <SidebarNode 
+                                        key={node.id} 
+                                        node={node} 
+                                        level={0} 
+                                        activeNoteId={activeNoteId}
+                                        searchTerm={searchTerm}
+                                        searchData={searchData}
+                                        onSelectNote={onSelectNote}
+                                        expandedFolders={expandedFolders}
+                                        onToggleFolder={toggleFolder}
+                                        isFocused={focusedNodeId === node.id}
+                                        isActivePath={activeNotePath.has(node.id)}
+                                        activeNotePath={activeNotePath}
+                                        focusedNodeId={focusedNodeId}
+                                    />
+                                ))
+                            ) : (
+                                 <div className="text-center px-4 py-8 text-sm text-light-text/60 dark:text-dark-text/60">
+                                    <p>Your workspace is empty.</p>
+                                    <button onClick={() => onAddNote()} className="mt-2 text-light-primary dark:text-dark-primary font-semibold">Create your first note</button>
+                                </div>
+                            )}
+                        </CollapsibleSection>
+                        {renderTrash()}
+                        </>
+                    )}
                 </div>
             </div>
         </div>
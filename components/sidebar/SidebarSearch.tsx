@@ -28,7 +28,7 @@ const SidebarSearch: React.FC<SidebarSearchProps> = ({ onboardingSteps, isOnboar
             <div className="relative">
                 <input
                     type="text"
-                    placeholder={activeSmartCollection ? activeSmartCollection.query : "Search notes..."}
+                    placeholder={activeSmartCollection ? (activeSmartCollection.query || activeSmartCollection.name) : "Search notes..."}
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     onFocus={() => setIsSearchFocused(true)}
@@ -28,9 +28,11 @@ export const useAiActions = (
     const summarizeAndFindActionForFullNote = useCallback(async (content: string) => {
         dispatch({ type: 'SET_FULL_AI_ACTION_LOADING', payload: 'Summarizing...' });
         try {
-            const { summary, actionItems } = await summarizeAndExtractActions(content);
+            const { summary, actionItems, source } = await summarizeAndExtractActions(content);
             let formattedSummary = '';
-            if (summary) formattedSummary += `### ✨ AI Summary\n\n${summary}\n\n`;
+            if (summary) formattedSummary += source === 'local'
+                ? `### Summary (extracted without AI)\n\n${summary}\n\n`
+                : `### ✨ AI Summary\n\n${summary}\n\n`;
             if (actionItems && actionItems.length > 0) formattedSummary += `### ✅ Action Items\n\n${actionItems.map(item => `- [ ] ${item}`).join('\n')}\n\n`;
             if (formattedSummary) {
                 const newContent = `---\n\n${formattedSummary}---\n\n${content}`;
@@ -0,0 +1,13 @@
+import { useState, useCallback } from 'react';
+import { AiSettings, loadAiSettings, saveAiSettings as persistAiSettings } from '../lib/aiSettings';
+
+export const useAiSettings = () => {
+    const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+
+    const saveAiSettings = useCallback((settings: AiSettings) => {
+        persistAiSettings(settings);
+        setAiSettings(settings);
+    }, []);
+
+    return { aiSettings, saveAiSettings };
+};
@@ -1,7 +1,8 @@
-import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useDebounce } from './useDebounce';
-import { suggestTags, suggestTitle, suggestTitleAndTags } from '../services/geminiService';
+import { suggestTags, suggestTitle, suggestTitleAndTags, SuggestionSource } from '../services/geminiService';
 import { useToast } from '../context/ToastContext';
+import { useStoreContext } from '../context/AppContext';
 
 type EditorState = { title: string; content: string; tags: string[] };
 
@@ -9,18 +10,39 @@ const MIN_CONTENT_LENGTH_FOR_SUGGESTIONS = 50;
 
 export const useAiSuggestions = (
     editorState: EditorState,
-    isDisabled: boolean
+    isDisabled: boolean,
+    // Stops only the automatic suggestions, e.g. when the AI budget is used up.
+    isAutoSuggestPaused = false,
+    // Suggests from local heuristics instead of the AI, e.g. without an API key or while rate-limited.
+    isLocalOnly = false
 ) => {
     const { showToast } = useToast();
+    const { notes } = useStoreContext();
     const [suggestedTags, setSuggestedTags] = useState<string[]>([]);
     const [isSuggestingTags, setIsSuggestingTags] = useState(false);
+    const [tagSuggestionSource, setTagSuggestionSource] = useState<SuggestionSource>('ai');
     const [suggestedTitle, setSuggestedTitle] = useState<string | null>(null);
     const [isSuggestingTitle, setIsSuggestingTitle] = useState(false);
+    const [titleSuggestionSource, setTitleSuggestionSource] = useState<SuggestionSource>('ai');
+
+    // Read at request time, so edits elsewhere in the workspace don't restart suggestions.
+    const notesRef = useRef(notes);
+    notesRef.current = notes;
+    const getSuggestionOptions = (signal: AbortSignal) => ({ signal, localOnly: isLocalOnly, workspace: { notes: notesRef.current } });
 
     const lastAnalyzedContentForTagsRef = useRef<string | null>(null);
     const lastAnalyzedContentForTitleRef = useRef<string | null>(null);
     const tagSuggestionIdRef = useRef(0);
     const titleSuggestionIdRef = useRef(0);
+    // Stale suggestion requests are cancelled so they don't wait in the AI queue for nothing.
+    const tagRequestRef = useRef<AbortController | null>(null);
+    const titleRequestRef = useRef<AbortController | null>(null);
+
+    const restartRequest = (ref: React.MutableRefObject<AbortController | null>) => {
+        ref.current?.abort();
+        ref.current = new AbortController();
+        return ref.current.signal;
+    };
     
     const debouncedValue = useDebounce(JSON.stringify(editorState), 2000);
     const debouncedEditorState = useMemo(() => JSON.parse(debouncedValue), [debouncedValue]);
@@ -33,20 +55,22 @@ export const useAiSuggestions = (
         setIsSuggestingTags(true);
         setSuggestedTags([]);
 
-        suggestTags(title, content).then(tags => {
+        const signal = restartRequest(tagRequestRef);
+        suggestTags(title, content, getSuggestionOptions(signal)).then(({ tags, source }) => {
             if (currentSuggestionId === tagSuggestionIdRef.current) {
                 const newSuggestions = tags.filter(tag => !editorState.tags.includes(tag));
                 setSuggestedTags(newSuggestions);
+                setTagSuggestionSource(source);
             }
         }).catch(err => {
-            if (currentSuggestionId === tagSuggestionIdRef.current) {
+            if (currentSuggestionId === tagSuggestionIdRef.current && !signal.aborted) {
                 const message = err.message || 'Failed to suggest tags.';
                 showToast({ message, type: 'error' });
             }
         }).finally(() => {
             if (currentSuggestionId === tagSuggestionIdRef.current) setIsSuggestingTags(false);
         });
-    }, [editorState.tags, showToast, isDisabled]);
+    }, [editorState.tags, showToast, isDisabled, isLocalOnly]);
 
     const suggestTitleForFullNote = useCallback((content: string) => {
         if (isDisabled) return;
@@ -56,21 +80,26 @@ export const useAiSuggestions = (
         setIsSuggestingTitle(true);
         setSuggestedTitle(null);
 
-        suggestTitle(content).then(title => {
-            if (currentSuggestionId === titleSuggestionIdRef.current && title) setSuggestedTitle(title);
+        const signal = restartRequest(titleRequestRef);
+        suggestTitle(content, getSuggestionOptions(signal)).then(({ title, source }) => {
+            if (currentSuggestionId === titleSuggestionIdRef.current && title) {
+                setSuggestedTitle(title);
+                setTitleSuggestionSource(source);
+            }
         }).catch(err => {
-            if (currentSuggestionId === titleSuggestionIdRef.current) {
+            if (currentSuggestionId === titleSuggestionIdRef.current && !signal.aborted) {
                  const message = err.message || 'Failed to suggest a title.';
                  showToast({ message, type: 'error' });
             }
         }).finally(() => {
             if (currentSuggestionId === titleSuggestionIdRef.current) setIsSuggestingTitle(false);
         });
-    }, [showToast, isDisabled]);
+    }, [showToast, isDisabled, isLocalOnly]);
 
     // Effect for automatic suggestions on debounced state change
     useEffect(() => {
-        if (isDisabled) return;
+        // Local suggestions cost nothing, so only the AI ones pause.
+        if (isDisabled || (isAutoSuggestPaused && !isLocalOnly)) return;
         
         const contentForAnalysis = debouncedEditorState.content;
         if (contentForAnalysis.length < MIN_CONTENT_LENGTH_FOR_SUGGESTIONS) {
@@ -100,14 +129,20 @@ export const useAiSuggestions = (
             setIsSuggestingTitle(true);
             setIsSuggestingTags(true);
             
-            suggestTitleAndTags(contentForAnalysis).then(({ title, tags }) => {
+            titleRequestRef.current?.abort();
+            const signal = restartRequest(tagRequestRef);
+            titleRequestRef.current = tagRequestRef.current;
+
+            suggestTitleAndTags(contentForAnalysis, getSuggestionOptions(signal)).then(({ title, tags, source }) => {
                 if (currentSuggestionId === titleSuggestionIdRef.current) {
-                    setSuggestedTitle(title);
+                    setSuggestedTitle(title || null);
                     const newTagSuggestions = tags.filter(tag => !editorState.tags.includes(tag));
                     setSuggestedTags(newTagSuggestions);
+                    setTitleSuggestionSource(source);
+                    setTagSuggestionSource(source);
                 }
             }).catch(err => {
-                if (currentSuggestionId === titleSuggestionIdRef.current) {
+                if (currentSuggestionId === titleSuggestionIdRef.current && !signal.aborted) {
                     const message = err.message || 'Failed to generate suggestions.';
                     showToast({ message, type: 'error' });
                 }
@@ -123,10 +158,12 @@ export const useAiSuggestions = (
             suggestTagsForFullNote(debouncedEditorState.title, contentForAnalysis);
         }
 
-    }, [debouncedEditorState, isDisabled, editorState.tags, suggestTitleForFullNote, suggestTagsForFullNote, showToast]);
+    }, [debouncedEditorState, isDisabled, isAutoSuggestPaused, isLocalOnly, editorState.tags, suggestTitleForFullNote, suggestTagsForFullNote, showToast]);
 
     // Function to reset state for a new note
     const resetAiSuggestions = useCallback(() => {
+        tagRequestRef.current?.abort();
+        titleRequestRef.current?.abort();
         setSuggestedTags([]);
         setSuggestedTitle(null);
         tagSuggestionIdRef.current += 1;
@@ -135,9 +172,14 @@ export const useAiSuggestions = (
         lastAnalyzedContentForTitleRef.current = null;
     }, []);
 
+    useEffect(() => () => {
+        tagRequestRef.current?.abort();
+        titleRequestRef.current?.abort();
+    }, []);
+
     return {
-        suggestedTags, isSuggestingTags,
-        suggestedTitle, isSuggestingTitle,
+        suggestedTags, isSuggestingTags, tagSuggestionSource,
+        suggestedTitle, isSuggestingTitle, titleSuggestionSource,
         setSuggestedTags, setSuggestedTitle,
         suggestTagsForFullNote, suggestTitleForFullNote, resetAiSuggestions,
     };
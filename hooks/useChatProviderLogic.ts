@@ -1,45 +1,120 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { ChatMessage, Note, ChatMode, ChatStatus } from '../types';
-import { generateChatStream, semanticSearchNotes, createGeneralChatSession } from '../services/geminiService';
-import { useStoreContext } from '../context/AppContext';
-import { Chat } from '@google/genai';
-import { useDebounce } from './useDebounce';
+import { ChatMessage, Note, ChatMode, ChatStatus, ChatSessionSummary, CopilotChange, CopilotChangeset, NoteChangePreview, ToolCallContent, ToolCallStatus } from '../types';
+import { generateChatStream, createGeneralChatSession, rewriteFollowUpQuery, summarizeConversation, RoutedToolChatSession } from '../services/geminiService';
+import { ToolResponse } from '../services/llm';
+import { useAuthContext, useStoreContext, useUIContext } from '../context/AppContext';
+import { useChatSessions } from './useChatSessions';
+import { ChatTurn, toChatTurns, planChatHistory } from '../lib/chatHistory';
+import { getActivePath, getParentId, getPathTo, getSiblings, removeMessage } from '../lib/chatTree';
+import { PreviewWorkspace, previewToolCall, describeChange, getCollectionContents, getVersionId } from '../lib/copilotChanges';
+import { parseRuleGroup } from '../lib/smartFolderRules';
+import { getBacklinks } from '../lib/linkGraph';
 
-const CHAT_HISTORIES_STORAGE_KEY = 'wesai-chat-histories';
 const RESPONDERS_STORAGE_KEY = 'wesai-chat-responders';
+const ACTIVE_SESSIONS_STORAGE_KEY = 'wesai-active-chat-sessions';
+
+type StreamedChatMode = Exclude<ChatMode, 'WESCORE_COPILOT'>;
+
+// How each streamed mode answers; the Co-pilot works through tools instead.
+const STREAMED_MODES: Record<StreamedChatMode, { task: 'chat' | 'amazonCopy'; getSystemInstruction: (sourceNotes: Note[]) => string }> = {
+    ASSISTANT: {
+        task: 'chat',
+        getSystemInstruction: (s) => `You are a helpful AI assistant integrated into a note-taking app. Use the provided "Source Notes" to answer the user's query.\n- When you use information from a source, you MUST cite it by number, like this: [1].\n- Place citations at the end of the sentence or clause they support.\n- If the sources are not relevant, ignore them and answer from your general knowledge without citing any sources.\n- Be concise and helpful.\n\nSource Notes:\n${s.length > 0 ? s.map((n, i) => `--- SOURCE [${i + 1}]: ${n.title} ---\n${n.content}\n`).join('') : 'No source notes provided.'}`,
+    },
+    RESPONDER: {
+        task: 'chat',
+        getSystemInstruction: (s) => `You are a professional and empathetic customer service agent. Your goal is to resolve the customer's issue using the provided knowledge base.\n- When you use information from the knowledge base, you MUST cite it by number, like this: [1].\n- Place citations at the end of the sentence or clause they support.\n- If the knowledge base doesn't have the answer, apologize and explain that you will escalate the issue, without citing any sources.\nKnowledge Base:\n${s.length > 0 ? s.map((n, i) => `--- DOC [${i + 1}]: ${n.title} ---\n${n.content}\n`).join('') : 'No knowledge provided.'}`,
+    },
+    AMAZON: {
+        task: 'amazonCopy',
+        getSystemInstruction: (s) => `You are an expert Amazon E-commerce Strategist and Copywriter, now operating under **Brand Story Intelligence v2.0**. Your mission is to generate a complete, SEO-optimized, and brand-aligned product listing from the provided research notes. This output must be **layout-aware** and ready for handoff to a design team.
 
+**OVERALL DIRECTIVE:**
+You MUST generate the entire Amazon product listing, structured into the following sections using Markdown headings.
+
+**TONE & VOICE DIRECTIVE (Voice-of-the-Customer Layer):**
+- Translate technical jargon into simple, benefit-driven language. Think like a customer, not an engineer.
+- **Good Example:** "Press one button for help — no phone needed."
+- **Bad Example:** "Features instant SOS calling."
+- **Good Example:** "Works anywhere your phone does."
+- **Bad Example:** "Nationwide 4G LTE coverage."
+
+**DESIGN ALIGNMENT DIRECTIVE (Visual Cues):**
+- Within the A+ Content section, you MUST embed **visual layout cues** using bracket syntax. These cues guide the design team.
+- Use \`[IMG: Description of a lifestyle or product shot]\` for images.
+- Use \`[GRAPHIC: Description of an infographic or map]\` for graphics.
+- Use \`[ICON SET: Feature 1 / Feature 2 / Feature 3]\` to suggest a set of icons.
+
+**OUTPUT STRUCTURE:**
+
+## 1. Product Title
+A concise, keyword-rich title (max 200 characters).
+
+## 2. Bullet Points (5 Key Features)
+- Five distinct bullet points.
+- Each starts with a capitalized, benefit-oriented phrase.
+- Each explains a key feature and its direct benefit to the customer.
+
+## 3. Product Description
+A detailed, paragraph-based description of the product that expands on the bullet points and tells a cohesive story.
+
+## 4. Backend Keywords (Search Terms)
+A comma-separated list of 15-20 relevant, long-tail keywords. Do not repeat words from the title.
+
+## 5. Premium A+ Content
+This section MUST be a sequence of distinct A+ modules, following this exact order:
+1.  **Hero:** A powerful, emotionally resonant headline and opening.
+2.  **Compatibility:** Clear, direct information about device/service compatibility.
+3.  **Features:** Detail 3-4 key product features, translating specs into benefits.
+4.  **Coverage:** Explain network coverage or service availability with confidence.
+5.  **Brand Story:** A brief narrative about the brand's mission or origin.
+6.  **Brand Differentiation:** A short, 2-3 sentence micro-block explaining why our product is superior. Start it with a bolded header, e.g., **Why Choose Us?**. This is the competitive positioning node.
+7.  **CTA (Call to Action):** A final, compelling reason to choose this product.
+
+**NARRATIVE RHYTHM DIRECTIVE (For A+ Content):**
+For each A+ module (except Compatibility and Brand Differentiation), you MUST follow this internal structure:
+1.  **Emotional Hook:** Start with a sentence that connects to the customer's feelings or needs.
+2.  **Rational Clarity:** Follow with clear, factual information.
+3.  **Trust/Reassurance Cue:** End with a statement that builds confidence.
+
+**EXECUTION:**
+- Base ALL content on the provided "Research Notes".
+- When using information from notes, cite the source by number, like this: [1].
+- Adhere strictly to Amazon's Terms of Service.
+
+Research Notes:
+${s.length > 0 ? s.map((n, i) => `--- NOTE [${i + 1}]: ${n.title} ---\n${n.content}\n`).join('') : 'No research notes provided.'}`,
+    },
+};
 
 export const useChatProviderLogic = () => {
+    const storeContext = useStoreContext();
     const { 
         notes, getNoteById, onAddNote, deleteNote, activeNoteId, setActiveNoteId, 
-        updateNote: updateNoteInStore, collections, ...store 
-    } = useStoreContext();
+        updateNote: updateNoteInStore, collections, semanticSearch, ...store 
+    } = storeContext;
+    // The store as of the latest render. A Co-pilot turn spans many renders, so its tools act through this.
+    const storeRef = useRef(storeContext);
+    storeRef.current = storeContext;
+    const { session } = useAuthContext();
+    const { isDemoMode, isAiEnabled, isApiKeyMissing, isAiRateLimited, isAiBudgetExceeded } = useUIContext();
     
     const [chatMode, setInternalChatMode] = useState<ChatMode>('ASSISTANT');
-    const [chatHistories, setChatHistories] = useState<Record<ChatMode, ChatMessage[]>>(() => {
+    // The session that is streaming a reply, which may not be the one on screen.
+    const [busySessionId, setBusySessionId] = useState<string | null>(null);
+    const {
+        sessions, isLoading: isLoadingSessions,
+        createSession, updateSessionMessages, addSessionSummary, setActiveLeaf, renameSession, togglePinSession, deleteSession: removeSession,
+    } = useChatSessions(session?.user.id, isDemoMode, isAiEnabled && !isApiKeyMissing && !isAiRateLimited && !isAiBudgetExceeded, busySessionId);
+    const [activeSessionIds, setActiveSessionIds] = useState<Record<ChatMode, string | null>>(() => {
+        const initial = { ASSISTANT: null, RESPONDER: null, WESCORE_COPILOT: null, AMAZON: null };
         try {
-            const saved = localStorage.getItem(CHAT_HISTORIES_STORAGE_KEY);
-            const initial = { ASSISTANT: [], RESPONDER: [], WESCORE_COPILOT: [], AMAZON: [] };
-            if (saved) {
-                const parsed = JSON.parse(saved);
-                // Simple migration for existing users
-                if (parsed.GENERAL && !parsed.WESCORE_COPILOT) {
-                    parsed.WESCORE_COPILOT = parsed.GENERAL;
-                    delete parsed.GENERAL;
-                }
-                return {
-                    ASSISTANT: Array.isArray(parsed.ASSISTANT) ? parsed.ASSISTANT : [],
-                    RESPONDER: Array.isArray(parsed.RESPONDER) ? parsed.RESPONDER : [],
-                    WESCORE_COPILOT: Array.isArray(parsed.WESCORE_COPILOT) ? parsed.WESCORE_COPILOT : [],
-                    AMAZON: Array.isArray(parsed.AMAZON) ? parsed.AMAZON : [],
-                };
-            }
-            return initial;
+            const saved = localStorage.getItem(ACTIVE_SESSIONS_STORAGE_KEY);
+            return saved ? { ...initial, ...JSON.parse(saved) } : initial;
         } catch {
-            return { ASSISTANT: [], RESPONDER: [], WESCORE_COPILOT: [], AMAZON: [] };
+            return initial;
         }
     });
-    const debouncedChatHistories = useDebounce(chatHistories, 1000);
     const [responders, setResponders] = useState<string[]>(() => {
         try {
             const saved = localStorage.getItem(RESPONDERS_STORAGE_KEY);
@@ -53,12 +128,19 @@ export const useChatProviderLogic = () => {
     const [chatStatus, setChatStatus] = useState<ChatStatus>('idle');
     const [activeToolName, setActiveToolName] = useState<string | null>(null);
     const streamSessionIdRef = useRef(0);
-    const chatHistoriesRef = useRef(chatHistories);
-    const generalChatRef = useRef<Chat | null>(null);
-
-    useEffect(() => {
-        chatHistoriesRef.current = chatHistories;
-    }, [chatHistories]);
+    // Aborts the reply being generated, when the user presses Stop.
+    const streamAbortRef = useRef<AbortController | null>(null);
+    const generalChatRef = useRef<RoutedToolChatSession | null>(null);
+    // Resolves the approval prompt of a tool call that is waiting on the user.
+    const approvalResolversRef = useRef(new Map<string, (approved: boolean) => void>());
+
+    const modeSessions = useMemo(() => sessions
+        .filter(s => s.mode === chatMode)
+        .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()),
+    [sessions, chatMode]);
+    const activeSession = useMemo(() => sessions.find(s => s.id === activeSessionIds[chatMode]) ?? null, [sessions, activeSessionIds, chatMode]);
+    const activeSessionRef = useRef(activeSession);
+    activeSessionRef.current = activeSession;
 
     const setChatMode = useCallback((mode: ChatMode) => {
         if (chatMode === 'WESCORE_COPILOT' && mode !== 'WESCORE_COPILOT') {
@@ -67,7 +149,6 @@ export const useChatProviderLogic = () => {
         setInternalChatMode(mode);
     }, [chatMode]);
 
-
     useEffect(() => {
         try {
             localStorage.setItem(RESPONDERS_STORAGE_KEY, JSON.stringify(responders));
@@ -76,177 +157,208 @@ export const useChatProviderLogic = () => {
         }
     }, [responders]);
 
-    // Proactive debounced save to localStorage during the session.
     useEffect(() => {
         try {
-            const historiesToSave = (Object.keys(debouncedChatHistories) as ChatMode[]).reduce((acc, mode) => {
-                const history = debouncedChatHistories[mode];
-                if (Array.isArray(history)) {
-                    // Truncate to the last 100 messages to prevent localStorage from blowing up.
-                    acc[mode] = history.slice(-100); 
-                } else {
-                    acc[mode] = [];
-                }
-                return acc;
-            }, {} as Record<ChatMode, ChatMessage[]>);
-            localStorage.setItem(CHAT_HISTORIES_STORAGE_KEY, JSON.stringify(historiesToSave));
+            localStorage.setItem(ACTIVE_SESSIONS_STORAGE_KEY, JSON.stringify(activeSessionIds));
         } catch (error) {
-            console.error("Failed to save chat history to localStorage", error);
+            console.error("Failed to save active chat sessions to localStorage", error);
         }
-    }, [debouncedChatHistories]);
+    }, [activeSessionIds]);
 
-    // Final save attempt on page unload as a safety net.
-    useEffect(() => {
-        const handleBeforeUnload = () => {
-            try {
-                // Use synchronous save on unload to prevent data loss, with truncation
-                const historiesToSave = (Object.keys(chatHistoriesRef.current) as ChatMode[]).reduce((acc, mode) => {
-                    const history = chatHistoriesRef.current[mode];
-                    if (Array.isArray(history)) {
-                        acc[mode] = history.slice(-100);
-                    } else {
-                        acc[mode] = [];
-                    }
-                    return acc;
-                }, {} as Record<ChatMode, ChatMessage[]>);
-                localStorage.setItem(CHAT_HISTORIES_STORAGE_KEY, JSON.stringify(historiesToSave));
-            } catch (error) {
-                console.error("Failed to save chat history on unload", error);
-            }
-        };
-
-        window.addEventListener('beforeunload', handleBeforeUnload);
-        return () => {
-            window.removeEventListener('beforeunload', handleBeforeUnload);
-        };
+    const resetConversationState = useCallback(() => {
+        streamSessionIdRef.current++; // Invalidate any in-flight streaming sessions
+        streamAbortRef.current?.abort();
+        streamAbortRef.current = null;
+        setChatError(null);
+        setChatStatus('idle');
+        setActiveToolName(null);
+        setBusySessionId(null);
+        setContextNoteIds([]);
+        generalChatRef.current = null;
+        // Tool calls still waiting for approval are treated as rejected.
+        approvalResolversRef.current.forEach(resolve => resolve(false));
+        approvalResolversRef.current.clear();
     }, []);
 
-    const _handleStreamedChat = useCallback(async (query: string, image: string | undefined, getSystemInstruction: (sourceNotes: Note[]) => string) => {
+    const selectSession = useCallback((sessionId: string | null) => {
+        if (sessionId === activeSessionIds[chatMode]) return;
+        resetConversationState();
+        setActiveSessionIds(prev => ({ ...prev, [chatMode]: sessionId }));
+    }, [chatMode, activeSessionIds, resetConversationState]);
+
+    // Starting a new chat is lazy; the session is created when the first message is sent.
+    const startNewSession = useCallback(() => selectSession(null), [selectSession]);
+
+    const deleteSession = useCallback(async (sessionId: string) => {
+        if (sessionId === activeSessionIds[chatMode]) startNewSession();
+        await removeSession(sessionId);
+    }, [activeSessionIds, chatMode, startNewSession, removeSession]);
+
+    // Returns the session that a new message belongs to, creating it if needed.
+    const ensureActiveSession = useCallback(() => {
+        if (activeSessionRef.current) return activeSessionRef.current.id;
+        const created = createSession(chatMode);
+        activeSessionRef.current = created;
+        setActiveSessionIds(prev => ({ ...prev, [chatMode]: created.id }));
+        return created.id;
+    }, [chatMode, createSession]);
+
+    // Folds turns that overflow the history budget into a rolling summary of this branch.
+    const prepareHistory = useCallback(async (sessionId: string, turns: ChatTurn[], summaries: ChatSessionSummary[] | undefined) => {
+        const plan = planChatHistory(turns, summaries);
+        if (plan.toSummarize.length === 0) {
+            return { recent: plan.recent, summary: plan.summary?.text ?? null };
+        }
+        try {
+            const text = await summarizeConversation(plan.summary?.text ?? null, plan.toSummarize);
+            addSessionSummary(sessionId, { text, throughMessageId: plan.toSummarize[plan.toSummarize.length - 1].id });
+            return { recent: plan.recent, summary: text };
+        } catch {
+            // The turns that didn't fit are dropped for this reply and folded in next time.
+            return { recent: plan.recent, summary: plan.summary?.text ?? null };
+        }
+    }, [addSessionSummary]);
+
+    // Streams a reply to a user message already in the session. `priorPath` is the
+    // branch of the conversation that the message follows.
+    const _streamReply = useCallback(async (sessionId: string, userMessage: ChatMessage, priorPath: ChatMessage[], summaries: ChatSessionSummary[] | undefined, mode: StreamedChatMode) => {
         const currentSessionId = ++streamSessionIdRef.current;
+        const controller = new AbortController();
+        streamAbortRef.current = controller;
+        const { task, getSystemInstruction } = STREAMED_MODES[mode];
+        const query = userMessage.content as string;
+        const messageContextIds = userMessage.contextNoteIds ?? [];
+        const priorTurns = toChatTurns(priorPath);
+        setBusySessionId(sessionId);
         setChatError(null);
-        const newUserMessage: ChatMessage = { id: crypto.randomUUID(), role: 'user', content: query, image, contextNoteIds };
-        setChatHistories(prev => ({ ...prev, [chatMode]: [...prev[chatMode], newUserMessage] }));
-        
-        let sourceNotes: Note[];
-        if (contextNoteIds.length > 0) {
-            setChatStatus('replying');
-            sourceNotes = contextNoteIds.map(id => getNoteById(id)).filter((n): n is Note => !!n);
-        } else {
-            setChatStatus('searching');
-            const sourceNoteIds = await semanticSearchNotes(query, notes);
-            sourceNotes = sourceNoteIds.map(id => getNoteById(id)).filter((n): n is Note => !!n);
-        }
 
         let newAiMessage: ChatMessage | null = null;
 
         try {
-            if (currentSessionId !== streamSessionIdRef.current) return;
+            let sourceNotes: Note[];
+            if (messageContextIds.length > 0) {
+                setChatStatus('replying');
+                sourceNotes = messageContextIds.map(id => getNoteById(id)).filter((n): n is Note => !!n);
+            } else {
+                setChatStatus('searching');
+                // Follow-ups like "what about the second one?" retrieve nothing useful on their own.
+                const retrievalQuery = await rewriteFollowUpQuery(priorTurns, query, controller.signal);
+                if (currentSessionId !== streamSessionIdRef.current || controller.signal.aborted) return;
+                const results = await semanticSearch(retrievalQuery, { signal: controller.signal });
+                sourceNotes = results.map(r => getNoteById(r.noteId)).filter((n): n is Note => !!n);
+            }
+
+            if (currentSessionId !== streamSessionIdRef.current || controller.signal.aborted) return;
             
-            if (chatStatus !== 'replying') setChatStatus('replying');
+            setChatStatus('replying');
             
             const systemInstruction = getSystemInstruction(sourceNotes);
-            const stream = await generateChatStream(query, systemInstruction, image);
+            const history = await prepareHistory(sessionId, priorTurns, summaries);
+            if (currentSessionId !== streamSessionIdRef.current || controller.signal.aborted) return;
+            const { stream, model } = await generateChatStream(query, systemInstruction, userMessage.image, history.recent, history.summary, task, controller.signal);
 
-            newAiMessage = { id: crypto.randomUUID(), role: 'ai', content: '', sources: sourceNotes, status: 'processing' };
+            newAiMessage = { id: crypto.randomUUID(), role: 'ai', content: '', sources: sourceNotes, status: 'processing', model, parentId: userMessage.id };
             
             if (currentSessionId !== streamSessionIdRef.current) return;
-            setChatHistories(prev => ({ ...prev, [chatMode]: [...prev[chatMode], newAiMessage!] }));
+            updateSessionMessages(sessionId, messages => [...messages, newAiMessage!]);
 
             let fullResponse = '';
             for await (const chunk of stream) {
-                if (currentSessionId !== streamSessionIdRef.current) break; // Invalidate stream if chat is cleared
-                fullResponse += chunk.text;
-                setChatHistories(prev => {
-                    const currentModeHistory = [...prev[chatMode]];
-                    const messageIndex = currentModeHistory.findIndex(m => m.id === newAiMessage!.id);
-                    if (messageIndex > -1) {
-                         currentModeHistory[messageIndex] = { ...currentModeHistory[messageIndex], content: fullResponse };
-                    }
-                    return { ...prev, [chatMode]: currentModeHistory };
-                });
+                // Invalidate stream if chat is cleared or the user stopped it
+                if (currentSessionId !== streamSessionIdRef.current || controller.signal.aborted) break;
+                fullResponse += chunk;
+                updateSessionMessages(sessionId, messages => messages.map(m => m.id === newAiMessage!.id ? { ...m, content: fullResponse } : m));
             }
         } catch (error) {
-            if (currentSessionId !== streamSessionIdRef.current) return;
+            if (currentSessionId !== streamSessionIdRef.current || controller.signal.aborted) return;
             const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
             setChatError(errorMessage);
-            const errorAiMessage: ChatMessage = { id: crypto.randomUUID(), role: 'ai', content: `Sorry, I ran into an error: ${errorMessage}` };
-            setChatHistories(prev => ({ ...prev, [chatMode]: [...prev[chatMode], errorAiMessage] }));
+            const errorAiMessage: ChatMessage = { id: crypto.randomUUID(), role: 'ai', content: `Sorry, I ran into an error: ${errorMessage}`, parentId: userMessage.id };
+            updateSessionMessages(sessionId, messages => [...messages, errorAiMessage]);
         } finally {
             if (currentSessionId === streamSessionIdRef.current) {
+                streamAbortRef.current = null;
                 setChatStatus('idle');
+                setBusySessionId(null);
+                const stopped = controller.signal.aborted;
                 if (newAiMessage) {
-                    setChatHistories(prev => {
-                        const currentModeHistory = [...prev[chatMode]];
-                        const messageIndex = currentModeHistory.findIndex(m => m.id === newAiMessage!.id);
-                        if (messageIndex > -1) {
-                            currentModeHistory[messageIndex] = { ...currentModeHistory[messageIndex], status: 'complete' };
-                        }
-                        return { ...prev, [chatMode]: currentModeHistory };
-                    });
+                    updateSessionMessages(sessionId, messages => messages.map(m => m.id === newAiMessage!.id ? { ...m, status: 'complete', ...(stopped && { stopped }) } : m));
+                } else if (stopped) {
+                    // An empty reply keeps the question answerable with Regenerate.
+                    updateSessionMessages(sessionId, messages => [...messages, { id: crypto.randomUUID(), role: 'ai', content: '', status: 'complete', stopped, parentId: userMessage.id }]);
                 }
             }
         }
-    }, [chatMode, getNoteById, notes, contextNoteIds, chatStatus]);
+    }, [updateSessionMessages, prepareHistory, getNoteById, semanticSearch]);
+
+    const _handleStreamedChat = useCallback(async (query: string, image: string | undefined, mode: StreamedChatMode) => {
+        const priorSession = activeSessionRef.current;
+        const priorPath = priorSession ? getActivePath(priorSession.messages, priorSession.activeLeafId) : [];
+        const sessionId = ensureActiveSession();
+        const newUserMessage: ChatMessage = { id: crypto.randomUUID(), role: 'user', content: query, image, contextNoteIds, parentId: priorPath[priorPath.length - 1]?.id ?? null };
+        updateSessionMessages(sessionId, messages => [...messages, newUserMessage]);
+        await _streamReply(sessionId, newUserMessage, priorPath, priorSession?.summaries, mode);
+    }, [ensureActiveSession, updateSessionMessages, _streamReply, contextNoteIds]);
+
+    /**
+     * Answers a question again. The new reply becomes a sibling of the old one, which
+     * stays reachable through the branch navigator.
+     */
+    const regenerateResponse = useCallback(async (aiMessageId: string) => {
+        const session = activeSessionRef.current;
+        if (!session || session.mode === 'WESCORE_COPILOT' || chatStatus !== 'idle') return;
+        const userMessageId = getParentId(session.messages, aiMessageId);
+        const userMessage = session.messages.find(m => m.id === userMessageId);
+        if (!userMessage || userMessage.role !== 'user' || typeof userMessage.content !== 'string') return;
+        // The newest reply under the question is shown, which will be the one about to stream.
+        setActiveLeaf(session.id, userMessage.id);
+        const priorPath = getPathTo(session.messages, getParentId(session.messages, userMessage.id));
+        await _streamReply(session.id, userMessage, priorPath, session.summaries, session.mode);
+    }, [chatStatus, setActiveLeaf, _streamReply]);
+
+    /**
+     * Sends an edited copy of an earlier question as a new branch from the same point
+     * in the conversation. The original question and everything after it are kept.
+     */
+    const editMessage = useCallback(async (userMessageId: string, newText: string) => {
+        const session = activeSessionRef.current;
+        const original = session?.messages.find(m => m.id === userMessageId);
+        if (!session || !original || original.role !== 'user' || session.mode === 'WESCORE_COPILOT' || chatStatus !== 'idle' || !newText.trim()) return;
+        const parentId = getParentId(session.messages, userMessageId);
+        const editedMessage: ChatMessage = { id: crypto.randomUUID(), role: 'user', content: newText, image: original.image, contextNoteIds: original.contextNoteIds, parentId };
+        updateSessionMessages(session.id, messages => [...messages, editedMessage]);
+        setActiveLeaf(session.id, editedMessage.id);
+        await _streamReply(session.id, editedMessage, getPathTo(session.messages, parentId), session.summaries, session.mode);
+    }, [chatStatus, updateSessionMessages, setActiveLeaf, _streamReply]);
+
+    // Shows the branch through a message, e.g. another answer to the same question.
+    const selectBranch = useCallback((messageId: string) => {
+        if (!activeSession || chatStatus !== 'idle') return;
+        setActiveLeaf(activeSession.id, messageId);
+    }, [activeSession, chatStatus, setActiveLeaf]);
+
+    const getSiblingIds = useCallback((messageId: string) =>
+        activeSession ? getSiblings(activeSession.messages, messageId).map(m => m.id) : [],
+    [activeSession]);
+
+    // Stops the reply being generated; whatever has streamed so far is kept.
+    const stopGenerating = useCallback(() => {
+        streamAbortRef.current?.abort();
+        // A Co-pilot tool call waiting on the user is rejected so the turn can wind down.
+        approvalResolversRef.current.forEach(resolve => resolve(false));
+        approvalResolversRef.current.clear();
+    }, []);
     
-    const onSendMessage = useCallback((q, i) => _handleStreamedChat(q, i, (s) => `You are a helpful AI assistant integrated into a note-taking app. Use the provided "Source Notes" to answer the user's query.\n- When you use information from a source, you MUST cite it by number, like this: [1].\n- Place citations at the end of the sentence or clause they support.\n- If the sources are not relevant, ignore them and answer from your general knowledge without citing any sources.\n- Be concise and helpful.\n\nSource Notes:\n${s.length > 0 ? s.map((n, i) => `--- SOURCE [${i + 1}]: ${n.title} ---\n${n.content}\n`).join('') : 'No source notes provided.'}`), [_handleStreamedChat]);
-    const onGenerateServiceResponse = useCallback((q, i) => _handleStreamedChat(q, i, (s) => `You are a professional and empathetic customer service agent. Your goal is to resolve the customer's issue using the provided knowledge base.\n- When you use information from the knowledge base, you MUST cite it by number, like this: [1].\n- Place citations at the end of the sentence or clause they support.\n- If the knowledge base doesn't have the answer, apologize and explain that you will escalate the issue, without citing any sources.\nKnowledge Base:\n${s.length > 0 ? s.map((n, i) => `--- DOC [${i + 1}]: ${n.title} ---\n${n.content}\n`).join('') : 'No knowledge provided.'}`), [_handleStreamedChat]);
-    const onGenerateAmazonCopy = useCallback((q, i) => _handleStreamedChat(q, i, (s) => `You are an expert Amazon E-commerce Strategist and Copywriter, now operating under **Brand Story Intelligence v2.0**. Your mission is to generate a complete, SEO-optimized, and brand-aligned product listing from the provided research notes. This output must be **layout-aware** and ready for handoff to a design team.
-
-**OVERALL DIRECTIVE:**
-You MUST generate the entire Amazon product listing, structured into the following sections using Markdown headings.
-
-**TONE & VOICE DIRECTIVE (Voice-of-the-Customer Layer):**
-- Translate technical jargon into simple, benefit-driven language. Think like a customer, not an engineer.
-- **Good Example:** "Press one button for help — no phone needed."
-- **Bad Example:** "Features instant SOS calling."
-- **Good Example:** "Works anywhere your phone does."
-- **Bad Example:** "Nationwide 4G LTE coverage."
-
-**DESIGN ALIGNMENT DIRECTIVE (Visual Cues):**
-- Within the A+ Content section, you MUST embed **visual layout cues** using bracket syntax. These cues guide the design team.
-- Use \`[IMG: Description of a lifestyle or product shot]\` for images.
-- Use \`[GRAPHIC: Description of an infographic or map]\` for graphics.
-- Use \`[ICON SET: Feature 1 / Feature 2 / Feature 3]\` to suggest a set of icons.
-
-**OUTPUT STRUCTURE:**
-
-## 1. Product Title
-A concise, keyword-rich title (max 200 characters).
-
-## 2. Bullet Points (5 Key Features)
-- Five distinct bullet points.
-- Each starts with a capitalized, benefit-oriented phrase.
-- Each explains a key feature and its direct benefit to the customer.
-
-## 3. Product Description
-A detailed, paragraph-based description of the product that expands on the bullet points and tells a cohesive story.
-
-## 4. Backend Keywords (Search Terms)
-A comma-separated list of 15-20 relevant, long-tail keywords. Do not repeat words from the title.
-
-## 5. Premium A+ Content
-This section MUST be a sequence of distinct A+ modules, following this exact order:
-1.  **Hero:** A powerful, emotionally resonant headline and opening.
-2.  **Compatibility:** Clear, direct information about device/service compatibility.
-3.  **Features:** Detail 3-4 key product features, translating specs into benefits.
-4.  **Coverage:** Explain network coverage or service availability with confidence.
-5.  **Brand Story:** A brief narrative about the brand's mission or origin.
-6.  **Brand Differentiation:** A short, 2-3 sentence micro-block explaining why our product is superior. Start it with a bolded header, e.g., **Why Choose Us?**. This is the competitive positioning node.
-7.  **CTA (Call to Action):** A final, compelling reason to choose this product.
-
-**NARRATIVE RHYTHM DIRECTIVE (For A+ Content):**
-For each A+ module (except Compatibility and Brand Differentiation), you MUST follow this internal structure:
-1.  **Emotional Hook:** Start with a sentence that connects to the customer's feelings or needs.
-2.  **Rational Clarity:** Follow with clear, factual information.
-3.  **Trust/Reassurance Cue:** End with a statement that builds confidence.
-
-**EXECUTION:**
-- Base ALL content on the provided "Research Notes".
-- When using information from notes, cite the source by number, like this: [1].
-- Adhere strictly to Amazon's Terms of Service.
-
-Research Notes:
-${s.length > 0 ? s.map((n, i) => `--- NOTE [${i + 1}]: ${n.title} ---\n${n.content}\n`).join('') : 'No research notes provided.'}`), [_handleStreamedChat]);
+    const onSendMessage = useCallback((q: string, i?: string) => _handleStreamedChat(q, i, 'ASSISTANT'), [_handleStreamedChat]);
+    const onGenerateServiceResponse = useCallback((q: string, i?: string) => _handleStreamedChat(q, i, 'RESPONDER'), [_handleStreamedChat]);
+    const onGenerateAmazonCopy = useCallback((q: string, i?: string) => _handleStreamedChat(q, i, 'AMAZON'), [_handleStreamedChat]);
+
+    const respondToToolApproval = useCallback((toolMessageId: string, approved: boolean) => {
+        const resolve = approvalResolversRef.current.get(toolMessageId);
+        if (!resolve) return;
+        approvalResolversRef.current.delete(toolMessageId);
+        resolve(approved);
+    }, []);
 
     const onSendGeneralMessage = useCallback(async (query: string, image?: string) => {
         const getChat = () => {
@@ -256,49 +368,98 @@ ${s.length > 0 ? s.map((n, i) => `--- NOTE [${i + 1}]: ${n.title} ---\n${n.conte
             return generalChatRef.current;
         };
 
+        const priorSession = activeSessionRef.current;
+        const priorPath = priorSession ? getActivePath(priorSession.messages, priorSession.activeLeafId) : [];
+        const sessionId = ensureActiveSession();
+        const controller = new AbortController();
+        streamAbortRef.current = controller;
+        setBusySessionId(sessionId);
         setChatError(null);
-        const userMessage: ChatMessage = { id: crypto.randomUUID(), role: 'user', content: query, image, status: 'processing' };
-        setChatHistories(prev => ({ ...prev, [chatMode]: [...prev[chatMode], userMessage] }));
+        const userMessage: ChatMessage = { id: crypto.randomUUID(), role: 'user', content: query, image, status: 'processing', parentId: priorPath[priorPath.length - 1]?.id ?? null };
+        updateSessionMessages(sessionId, messages => [...messages, userMessage]);
+        // The turn's messages form a chain: the question, each tool call, then the reply.
+        let lastMessageId = userMessage.id;
         const touchedNoteIds = new Set<string>();
+        const changes: CopilotChange[] = [];
+        const getChangeset = (): CopilotChangeset | undefined => changes.length > 0 ? { id: crypto.randomUUID(), changes } : undefined;
+
+        // The workspace as this turn's tools see it: the store when the turn began, plus what earlier
+        // tools changed, which the store may not have re-rendered with yet.
+        const workspace: PreviewWorkspace = { notes: storeRef.current.notes, collections: storeRef.current.collections, templates: storeRef.current.templates };
+        const findNote = (noteId: string) => workspace.notes.find(n => n.id === noteId);
+        const findCollection = (collectionId: string) => workspace.collections.find(c => c.id === collectionId);
+        const patchNote = (noteId: string, fields: Partial<Note>) => {
+            workspace.notes = workspace.notes.map(n => n.id === noteId ? { ...n, ...fields } : n);
+        };
+
+        const updateToolMessage = (toolMessageId: string, fields: Partial<ToolCallContent>) => {
+            updateSessionMessages(sessionId, messages => messages.map(msg => {
+                if (msg.id === toolMessageId && typeof msg.content === 'object' && msg.content !== null) {
+                    return { ...msg, content: { ...msg.content, ...fields } };
+                }
+                return msg;
+            }));
+        };
+
+        const requestApproval = (toolMessageId: string, preview: NoteChangePreview[]) => {
+            updateToolMessage(toolMessageId, { status: 'awaiting_approval', preview });
+            setChatStatus('awaiting_confirmation');
+            return new Promise<boolean>(resolve => approvalResolversRef.current.set(toolMessageId, resolve))
+                .finally(() => setChatStatus('using_tool'));
+        };
 
         try {
             const chat = getChat();
-            let response = await chat.sendMessage({ message: query });
+            let response = await chat.sendMessage(query);
             
-            while (response.functionCalls && response.functionCalls.length > 0) {
+            while (response.functionCalls.length > 0 && !controller.signal.aborted) {
                 setChatStatus('using_tool');
-                const functionResponses = [];
-                const pendingToolMessages: ChatMessage[] = response.functionCalls.map(fc => ({
-                    id: crypto.randomUUID(),
-                    role: 'tool',
-                    content: { name: fc.name, args: fc.args, status: 'pending' }
-                }));
-                setChatHistories(prev => ({ ...prev, [chatMode]: [...prev[chatMode], ...pendingToolMessages] }));
+                const functionResponses: ToolResponse[] = [];
+                const pendingToolMessages: ChatMessage[] = response.functionCalls.map(fc => {
+                    const parentId = lastMessageId;
+                    lastMessageId = crypto.randomUUID();
+                    return { id: lastMessageId, role: 'tool', content: { name: fc.name, args: fc.args, status: 'pending' }, parentId };
+                });
+                updateSessionMessages(sessionId, messages => [...messages, ...pendingToolMessages]);
 
                 for (const [index, fc] of response.functionCalls.entries()) {
                     const toolMessageId = pendingToolMessages[index].id;
                     setActiveToolName(fc.name);
                     let result: any;
-                    let status: 'complete' | 'error' = 'complete';
+                    let status: ToolCallStatus = 'complete';
                     try {
-                        switch (fc.name) {
+                        if (controller.signal.aborted) throw new Error("Stopped by the user.");
+                        const currentStore = storeRef.current;
+                        // Version history is loaded on demand, so the tools that read it fetch it first.
+                        const historyNoteId = fc.name === 'getNoteVersions' || fc.name === 'restoreNoteVersion' ? String(fc.args.noteId || '') : null;
+                        const loadedHistory = historyNoteId && findNote(historyNoteId) ? await currentStore.loadNoteHistory(historyNoteId) : null;
+                        if (loadedHistory) patchNote(historyNoteId!, { history: loadedHistory });
+                        // Destructive and bulk tools only run once the user approves their preview.
+                        const preview = previewToolCall(fc.name, fc.args, workspace);
+                        if (preview && preview.length > 0 && !(await requestApproval(toolMessageId, preview))) {
+                            status = 'rejected';
+                            result = { success: false, error: "The user rejected this change." };
+                        } else switch (fc.name) {
                             case 'createNote':
                                 const title = String(fc.args.title || 'Untitled Note');
                                 const content = String(fc.args.content || '');
-                                const newNoteId = await onAddNote(null, title, content);
+                                const newNoteId = await currentStore.onAddNote(null, title, content);
+                                const createdAt = new Date().toISOString();
+                                workspace.notes = [...workspace.notes, { id: newNoteId, title, content, createdAt, updatedAt: createdAt, isFavorite: false, tags: [], history: [], parentId: null }];
                                 result = { success: true, noteId: newNoteId };
                                 touchedNoteIds.add(newNoteId);
+                                changes.push({ kind: 'createNote', noteId: newNoteId, title });
                                 break;
                             case 'findNotes':
                                 const queryToSearch = String(fc.args.query || '');
-                                const foundNotes = notes
+                                const foundNotes = workspace.notes
                                     .filter(n => n.title.toLowerCase().includes(queryToSearch.toLowerCase()))
                                     .map(n => ({ id: n.id, title: n.title }));
                                 result = { notes: foundNotes };
                                 break;
                              case 'getNoteContent':
                                 const noteIdToRead = String(fc.args.noteId || '');
-                                const noteToRead = getNoteById(noteIdToRead);
+                                const noteToRead = findNote(noteIdToRead);
                                 if (noteToRead) {
                                     result = { success: true, title: noteToRead.title, content: noteToRead.content };
                                 } else {
@@ -306,31 +467,24 @@ ${s.length > 0 ? s.map((n, i) => `--- NOTE [${i + 1}]: ${n.title} ---\n${n.conte
                                 }
                                 break;
                             case 'updateNote':
-                                const noteIdToUpdate = String(fc.args.noteId || '');
-                                const noteToUpdate = getNoteById(noteIdToUpdate);
-                                if (noteToUpdate) {
-                                    const updatedFields: { title?: string, content?: string } = {};
-                                    if (fc.args.title) updatedFields.title = String(fc.args.title);
-                                    if (fc.args.content) updatedFields.content = String(fc.args.content);
-                                    
-                                    if (Object.keys(updatedFields).length > 0) {
-                                        await updateNoteInStore(noteIdToUpdate, updatedFields);
-                                        result = { success: true, noteId: noteIdToUpdate };
-                                        touchedNoteIds.add(noteIdToUpdate);
-                                    } else {
-                                        throw new Error("No fields to update were provided.");
-                                    }
-                                } else {
-                                    throw new Error("Note not found.");
-                                }
+                            case 'applyTemplateToNote':
+                                // The preview holds exactly the title and content the user approved.
+                                const [edit] = preview!;
+                                await currentStore.updateNote(edit.noteId, edit.after!);
+                                patchNote(edit.noteId, edit.after!);
+                                result = { success: true, noteId: edit.noteId };
+                                touchedNoteIds.add(edit.noteId);
+                                changes.push({ kind: 'updateNote', noteId: edit.noteId, title: edit.after!.title, before: edit.before!, after: edit.after! });
                                 break;
                             case 'deleteNote':
                                 const noteIdToDelete = String(fc.args.noteId || '');
-                                const noteToDeleteInstance = getNoteById(noteIdToDelete);
+                                const noteToDeleteInstance = findNote(noteIdToDelete);
                                 if (noteToDeleteInstance) {
-                                    await deleteNote(noteIdToDelete);
-                                    if (activeNoteId === noteIdToDelete) setActiveNoteId(null);
+                                    await currentStore.deleteNote(noteIdToDelete);
+                                    workspace.notes = workspace.notes.filter(n => n.id !== noteIdToDelete);
+                                    if (currentStore.activeNoteId === noteIdToDelete) currentStore.setActiveNoteId(null);
                                     result = { success: true, noteId: noteIdToDelete };
+                                    changes.push({ kind: 'deleteNote', noteId: noteIdToDelete, title: noteToDeleteInstance.title, note: { ...noteToDeleteInstance, history: [] } });
                                 } else {
                                     throw new Error("Note not found.");
                                 }
@@ -338,12 +492,14 @@ ${s.length > 0 ? s.map((n, i) => `--- NOTE [${i + 1}]: ${n.title} ---\n${n.conte
                              case 'createCollection':
                                 const name = String(fc.args.name || 'New Folder');
                                 const parentId = fc.args.parentId ? String(fc.args.parentId) : null;
-                                const newCollectionId = await store.addCollection(name, parentId);
+                                const newCollectionId = await currentStore.addCollection(name, parentId);
+                                workspace.collections = [...workspace.collections, { id: newCollectionId, name, parentId }];
                                 result = { success: true, collectionId: newCollectionId };
+                                changes.push({ kind: 'createCollection', collectionId: newCollectionId, title: name });
                                 break;
                             case 'findCollections':
                                 const collectionQuery = String(fc.args.query || '').toLowerCase();
-                                const foundCollections = collections
+                                const foundCollections = workspace.collections
                                     .filter(c => c.name.toLowerCase().includes(collectionQuery))
                                     .map(c => ({ id: c.id, name: c.name }));
                                 result = { collections: foundCollections };
@@ -351,67 +507,140 @@ ${s.length > 0 ? s.map((n, i) => `--- NOTE [${i + 1}]: ${n.title} ---\n${n.conte
                             case 'moveNoteToCollection':
                                 const noteIdToMove = String(fc.args.noteId || '');
                                 const collectionId = fc.args.collectionId === null || fc.args.collectionId === 'null' ? null : String(fc.args.collectionId);
-                                const noteToMove = getNoteById(noteIdToMove);
-                                const collection = collectionId ? store.getCollectionById(collectionId) : { name: 'root' };
+                                const noteToMove = findNote(noteIdToMove);
+                                const collection = collectionId ? findCollection(collectionId) : { name: 'root' };
                                 
                                 if (noteToMove && (collection || collectionId === null)) {
-                                    await store.moveItem(noteIdToMove, collectionId, 'inside');
+                                    await currentStore.moveItem(noteIdToMove, collectionId, 'inside');
+                                    patchNote(noteIdToMove, { parentId: collectionId });
                                     result = { success: true };
+                                    changes.push({ kind: 'moveNote', noteId: noteIdToMove, title: noteToMove.title, fromParentId: noteToMove.parentId, toParentId: collectionId });
                                 } else {
                                     throw new Error("Note or destination folder not found.");
                                 }
                                 break;
                             case 'findTemplates':
                                 const templateQuery = String(fc.args.query || '').toLowerCase();
-                                const foundTemplates = store.templates
+                                const foundTemplates = workspace.templates
                                     .filter(t => t.title.toLowerCase().includes(templateQuery))
                                     .map(t => ({ id: t.id, title: t.title }));
                                 result = { templates: foundTemplates };
                                 break;
                             case 'createTemplateFromNote':
                                 const noteIdForTemplate = String(fc.args.noteId || '');
-                                const noteForTemplate = getNoteById(noteIdForTemplate);
+                                const noteForTemplate = findNote(noteIdForTemplate);
                                 if (noteForTemplate) {
-                                    await store.addTemplate(noteForTemplate.title, noteForTemplate.content);
-                                    result = { success: true, templateTitle: noteForTemplate.title };
+                                    const newTemplateId = await currentStore.addTemplate(noteForTemplate.title, noteForTemplate.content);
+                                    workspace.templates = [...workspace.templates, { id: newTemplateId, title: noteForTemplate.title, content: noteForTemplate.content }];
+                                    result = { success: true, templateId: newTemplateId, templateTitle: noteForTemplate.title };
+                                    changes.push({ kind: 'createTemplate', templateId: newTemplateId, title: noteForTemplate.title });
                                 } else {
                                     throw new Error("Note not found.");
                                 }
                                 break;
-                            case 'applyTemplateToNote':
-                                const templateIdToApply = String(fc.args.templateId || '');
-                                const noteIdToApplyTo = String(fc.args.noteId || '');
-                                const templateToApply = store.templates.find(t => t.id === templateIdToApply);
-                                const noteToApplyToInstance = getNoteById(noteIdToApplyTo);
-
-                                if (templateToApply && noteToApplyToInstance) {
-                                    await updateNoteInStore(noteIdToApplyTo, {
-                                        title: templateToApply.title,
-                                        content: templateToApply.content,
-                                    });
-                                    result = { success: true, noteId: noteIdToApplyTo };
-                                    touchedNoteIds.add(noteIdToApplyTo);
-                                } else {
-                                    if (!templateToApply) throw new Error("Template not found.");
-                                    if (!noteToApplyToInstance) throw new Error("Note not found.");
+                            case 'findAndReplaceInNotes':
+                                const replacements = preview ?? [];
+                                await Promise.all(replacements.map(edit => currentStore.updateNote(edit.noteId, { content: edit.after!.content })));
+                                replacements.forEach(edit => {
+                                    patchNote(edit.noteId, { content: edit.after!.content });
+                                    touchedNoteIds.add(edit.noteId);
+                                    changes.push({ kind: 'updateNote', noteId: edit.noteId, title: edit.before!.title, before: edit.before!, after: edit.after! });
+                                });
+                                result = { success: true, notesUpdated: replacements.length, updatedNoteIds: replacements.map(edit => edit.noteId) };
+                                break;
+                            case 'addTagsToNote':
+                            case 'removeTagsFromNote':
+                                const noteToTag = findNote(String(fc.args.noteId || ''));
+                                if (!noteToTag) throw new Error("Note not found.");
+                                const requestedTags: string[] = Array.from(new Set((Array.isArray(fc.args.tags) ? fc.args.tags : [])
+                                    .map((tag: unknown) => String(tag).trim().replace(/^#/, ''))
+                                    .filter(Boolean)));
+                                if (requestedTags.length === 0) throw new Error("No tags were provided.");
+                                const hasTag = (tags: string[], tag: string) => tags.some(t => t.toLowerCase() === tag.toLowerCase());
+                                const newTags = fc.name === 'addTagsToNote'
+                                    ? [...noteToTag.tags, ...requestedTags.filter(tag => !hasTag(noteToTag.tags, tag))]
+                                    : noteToTag.tags.filter(tag => !hasTag(requestedTags, tag));
+                                if (newTags.length !== noteToTag.tags.length) {
+                                    await currentStore.updateNote(noteToTag.id, { tags: newTags });
+                                    patchNote(noteToTag.id, { tags: newTags });
+                                    touchedNoteIds.add(noteToTag.id);
+                                    changes.push({ kind: 'updateNoteTags', noteId: noteToTag.id, title: noteToTag.title, before: noteToTag.tags, after: newTags });
                                 }
+                                result = { success: true, noteId: noteToTag.id, tags: newTags };
                                 break;
-                            case 'findAndReplaceInNotes':
-                                const { searchQuery, newText, caseSensitive = false } = fc.args;
-                                if (typeof searchQuery !== 'string' || typeof newText !== 'string') {
-                                    throw new Error("searchQuery and newText must be provided as strings.");
+                            case 'setNoteFavorite':
+                                const noteToFavorite = findNote(String(fc.args.noteId || ''));
+                                if (!noteToFavorite) throw new Error("Note not found.");
+                                const isFavorite = fc.args.isFavorite === true || fc.args.isFavorite === 'true';
+                                if (noteToFavorite.isFavorite !== isFavorite) {
+                                    await currentStore.toggleFavorite(noteToFavorite.id);
+                                    patchNote(noteToFavorite.id, { isFavorite });
+                                    touchedNoteIds.add(noteToFavorite.id);
+                                    changes.push({ kind: 'setFavorite', noteId: noteToFavorite.id, title: noteToFavorite.title, before: noteToFavorite.isFavorite, after: isFavorite });
                                 }
-                                const regex = new RegExp(searchQuery, caseSensitive ? 'g' : 'gi');
-                                const notesToUpdate = notes.filter(note => regex.test(note.content));
-                                
-                                const updatePromises = notesToUpdate.map(note => {
-                                    const newContent = note.content.replace(regex, newText);
-                                    return updateNoteInStore(note.id, { content: newContent });
+                                result = { success: true, noteId: noteToFavorite.id, isFavorite };
+                                break;
+                            case 'renameCollection':
+                                const collectionToRename = findCollection(String(fc.args.collectionId || ''));
+                                const newCollectionName = String(fc.args.name || '').trim();
+                                if (!collectionToRename) throw new Error("Folder not found.");
+                                if (!newCollectionName) throw new Error("A folder name is required.");
+                                await currentStore.updateCollection(collectionToRename.id, { name: newCollectionName });
+                                workspace.collections = workspace.collections.map(c => c.id === collectionToRename.id ? { ...c, name: newCollectionName } : c);
+                                result = { success: true, collectionId: collectionToRename.id };
+                                changes.push({ kind: 'renameCollection', collectionId: collectionToRename.id, title: newCollectionName, fromName: collectionToRename.name });
+                                break;
+                            case 'deleteCollection':
+                                const collectionIdToDelete = String(fc.args.collectionId || '');
+                                const deletedContents = getCollectionContents(collectionIdToDelete, workspace.collections, workspace.notes);
+                                if (deletedContents.collections.length === 0) throw new Error("Folder not found.");
+                                await currentStore.deleteCollection(collectionIdToDelete);
+                                const deletedCollectionIds = new Set(deletedContents.collections.map(c => c.id));
+                                const deletedNoteIds = new Set(deletedContents.notes.map(n => n.id));
+                                workspace.collections = workspace.collections.filter(c => !deletedCollectionIds.has(c.id));
+                                workspace.notes = workspace.notes.filter(n => !deletedNoteIds.has(n.id));
+                                if (currentStore.activeNoteId && deletedNoteIds.has(currentStore.activeNoteId)) currentStore.setActiveNoteId(null);
+                                result = { success: true, notesDeleted: deletedContents.notes.length };
+                                changes.push({
+                                    kind: 'deleteCollection',
+                                    collectionId: collectionIdToDelete,
+                                    title: deletedContents.collections[0].name,
+                                    collections: deletedContents.collections,
+                                    notes: deletedContents.notes.map(n => ({ ...n, history: [] })),
                                 });
-
-                                await Promise.all(updatePromises);
-
-                                result = { success: true, notesUpdated: notesToUpdate.length, updatedNoteIds: notesToUpdate.map(n => n.id) };
+                                break;
+                            case 'createSmartCollection':
+                                const smartCollectionName = String(fc.args.name || '').trim() || 'New Smart Folder';
+                                const smartCollectionQuery = String(fc.args.query || '').trim();
+                                const hasRules = Array.isArray(fc.args.rules) && fc.args.rules.length > 0;
+                                if (!hasRules && !smartCollectionQuery) throw new Error("Either rules or a query must be provided.");
+                                const newSmartCollectionId = hasRules
+                                    ? await currentStore.addSmartCollection(smartCollectionName, '', 'RULES', parseRuleGroup(fc.args.combinator, fc.args.rules))
+                                    : await currentStore.addSmartCollection(smartCollectionName, smartCollectionQuery, 'AI');
+                                result = { success: true, smartCollectionId: newSmartCollectionId };
+                                changes.push({ kind: 'createSmartCollection', smartCollectionId: newSmartCollectionId, title: smartCollectionName });
+                                break;
+                            case 'findBacklinks':
+                                const linkedNote = findNote(String(fc.args.noteId || ''));
+                                if (!linkedNote) throw new Error("Note not found.");
+                                result = { backlinks: getBacklinks(currentStore.linkGraph, linkedNote.id).map(b => ({ id: b.sourceNoteId, title: b.sourceNoteTitle })) };
+                                break;
+                            case 'getNoteVersions':
+                                if (!loadedHistory) throw new Error("Note not found.");
+                                const versions = [...loadedHistory]
+                                    .sort((a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime())
+                                    .map(v => ({ versionId: getVersionId(v), savedAt: v.savedAt, title: v.title, tags: v.tags }));
+                                result = { versions };
+                                break;
+                            case 'restoreNoteVersion':
+                                const [restoreEdit] = preview!;
+                                const versionToRestore = loadedHistory!.find(v => getVersionId(v) === String(fc.args.versionId))!;
+                                await currentStore.restoreNoteVersion(restoreEdit.noteId, versionToRestore);
+                                patchNote(restoreEdit.noteId, restoreEdit.after!);
+                                result = { success: true, noteId: restoreEdit.noteId };
+                                touchedNoteIds.add(restoreEdit.noteId);
+                                // The preview carries the tags too, so undoing the edit puts them back.
+                                changes.push({ kind: 'updateNote', noteId: restoreEdit.noteId, title: versionToRestore.title, before: restoreEdit.before!, after: restoreEdit.after! });
                                 break;
                             default:
                                 throw new Error(`Unknown function: ${fc.name}`);
@@ -423,53 +652,124 @@ ${s.length > 0 ? s.map((n, i) => `--- NOTE [${i + 1}]: ${n.title} ---\n${n.conte
                         setActiveToolName(null);
                     }
 
-                    setChatHistories(prev => {
-                        const newHistory = prev[chatMode].map(msg => {
-                            if (msg.id === toolMessageId) {
-                                const currentContent = msg.content;
-                                if (typeof currentContent === 'object' && currentContent !== null) {
-                                    return {
-                                        ...msg,
-                                        content: {
-                                            ...currentContent,
-                                            status,
-                                            result,
-                                        }
-                                    };
-                                }
-                            }
-                            return msg;
-                        });
-                        return { ...prev, [chatMode]: newHistory };
-                    });
+                    updateToolMessage(toolMessageId, { status, result });
                     functionResponses.push({ id: fc.id, name: fc.name, response: { result }});
                 }
                 
-                const functionResponseParts = functionResponses.map(({ name, response }) => ({
-                    functionResponse: { name, response },
-                }));
-                response = await chat.sendMessage({ message: functionResponseParts });
+                if (controller.signal.aborted) break;
+                response = await chat.sendToolResponses(functionResponses);
             }
 
-            if (response.text) {
-                setChatHistories(prev => ({ ...prev, [chatMode]: [...prev[chatMode], { id: crypto.randomUUID(), role: 'ai', content: response.text, noteIds: Array.from(touchedNoteIds) }] }));
+            const changeset = getChangeset();
+            if (response.functionCalls.length > 0) {
+                // The model is still owed the results of its tool calls, so its session can't continue.
+                generalChatRef.current = null;
+                updateSessionMessages(sessionId, messages => [...messages, { id: crypto.randomUUID(), role: 'ai', content: changeset ? "Stopped. The changes made so far are listed below." : '', noteIds: Array.from(touchedNoteIds), changeset, model: response.model, stopped: true, parentId: lastMessageId }]);
+            } else if (response.text || changeset) {
+                updateSessionMessages(sessionId, messages => [...messages, { id: crypto.randomUUID(), role: 'ai', content: response.text || "Done. The changes are listed below.", noteIds: Array.from(touchedNoteIds), changeset, model: response.model, parentId: lastMessageId }]);
             }
 
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
             setChatError(errorMessage);
-            setChatHistories(prev => ({ ...prev, [chatMode]: [...prev[chatMode], { id: crypto.randomUUID(), role: 'ai', content: `Sorry, I ran into an error: ${errorMessage}` }] }));
+            // Changes made before the failure can still be undone.
+            updateSessionMessages(sessionId, messages => [...messages, { id: crypto.randomUUID(), role: 'ai', content: `Sorry, I ran into an error: ${errorMessage}`, changeset: getChangeset(), parentId: lastMessageId }]);
         } finally {
+            if (streamAbortRef.current === controller) streamAbortRef.current = null;
             setChatStatus('idle');
-            setChatHistories(prev => {
-                const newHistory = prev[chatMode].map(msg => msg.id === userMessage.id ? { ...msg, status: 'complete' } : msg);
-                return { ...prev, [chatMode]: newHistory };
-            });
+            setBusySessionId(null);
+            updateSessionMessages(sessionId, messages => messages.map(msg => msg.id === userMessage.id ? { ...msg, status: 'complete' } : msg));
+        }
+    }, [ensureActiveSession, updateSessionMessages]);
+
+    const revertChange = useCallback(async (change: CopilotChange, changeset: CopilotChangeset) => {
+        switch (change.kind) {
+            case 'createNote':
+                if (!getNoteById(change.noteId)) return;
+                await deleteNote(change.noteId);
+                if (activeNoteId === change.noteId) setActiveNoteId(null);
+                return;
+            case 'updateNote':
+                if (!getNoteById(change.noteId)) throw new Error("The note no longer exists.");
+                await updateNoteInStore(change.noteId, change.before);
+                return;
+            case 'deleteNote':
+                if (getNoteById(change.noteId)) return;
+                await store.restoreDeletedNote(change.note);
+                return;
+            case 'moveNote':
+                if (!getNoteById(change.noteId)) throw new Error("The note no longer exists.");
+                await store.moveItem(change.noteId, change.fromParentId, 'inside');
+                return;
+            case 'createCollection': {
+                if (!store.getCollectionById(change.collectionId)) return;
+                // Notes moved in by this turn have already been moved back out.
+                const movedBack = new Set(changeset.changes.filter(c => c.kind === 'moveNote').map(c => c.noteId));
+                const isEmpty = !notes.some(n => n.parentId === change.collectionId && !movedBack.has(n.id))
+                    && !collections.some(c => c.parentId === change.collectionId);
+                // Deleting a folder deletes its contents, so one the user has since filled is kept.
+                if (!isEmpty) throw new Error("The folder is no longer empty.");
+                await store.deleteCollection(change.collectionId);
+                return;
+            }
+            case 'updateNoteTags':
+                if (!getNoteById(change.noteId)) throw new Error("The note no longer exists.");
+                await updateNoteInStore(change.noteId, { tags: change.before });
+                return;
+            case 'setFavorite': {
+                const note = getNoteById(change.noteId);
+                if (!note) throw new Error("The note no longer exists.");
+                if (note.isFavorite !== change.before) await store.toggleFavorite(change.noteId);
+                return;
+            }
+            case 'renameCollection':
+                if (!store.getCollectionById(change.collectionId)) throw new Error("The folder no longer exists.");
+                await store.updateCollection(change.collectionId, { name: change.fromName });
+                return;
+            case 'deleteCollection':
+                if (store.getCollectionById(change.collectionId)) return;
+                await store.restoreDeletedCollection(change.collections, change.notes);
+                return;
+            case 'createSmartCollection':
+                if (!store.smartCollections.some(sc => sc.id === change.smartCollectionId)) return;
+                await store.deleteSmartCollection(change.smartCollectionId);
+                return;
+            case 'createTemplate':
+                if (!store.templates.some(t => t.id === change.templateId)) return;
+                await store.deleteTemplate(change.templateId);
+                return;
+        }
+    }, [notes, collections, getNoteById, deleteNote, updateNoteInStore, activeNoteId, setActiveNoteId, store]);
+
+    /**
+     * Reverts every workspace change the Co-pilot made in the turn that produced a message,
+     * newest first. Changes that can no longer be reverted are skipped and reported.
+     */
+    const undoCopilotTurn = useCallback(async (messageId: string) => {
+        const session = activeSessionRef.current;
+        const changeset = session?.messages.find(m => m.id === messageId)?.changeset;
+        if (!session || !changeset || changeset.revertedAt) return;
+
+        const failures: string[] = [];
+        for (const change of [...changeset.changes].reverse()) {
+            try {
+                await revertChange(change, changeset);
+            } catch (error) {
+                console.error(`Failed to revert Co-pilot change "${describeChange(change)}":`, error);
+                failures.push(change.title);
+            }
+        }
+        updateSessionMessages(session.id, messages => messages.map(msg => msg.id === messageId && msg.changeset
+            ? { ...msg, changeset: { ...msg.changeset, revertedAt: new Date().toISOString() } }
+            : msg));
+        if (failures.length > 0) {
+            throw new Error(`Some changes could not be undone: ${failures.join(', ')}.`);
         }
-    }, [chatMode, onAddNote, notes, getNoteById, updateNoteInStore, deleteNote, activeNoteId, store, collections, setActiveNoteId]);
+    }, [revertChange, updateSessionMessages]);
     
     const recallLastMessage = useCallback(() => {
-        const currentHistory = chatHistoriesRef.current[chatMode];
+        const session = activeSessionRef.current;
+        const currentHistory = session ? getActivePath(session.messages, session.activeLeafId) : [];
         // Use a reverse for-loop for broad compatibility instead of findLastIndex.
         for (let i = currentHistory.length - 1; i >= 0; i--) {
             const msg = currentHistory[i];
@@ -478,39 +778,28 @@ ${s.length > 0 ? s.map((n, i) => `--- NOTE [${i + 1}]: ${n.title} ---\n${n.conte
             }
         }
         return null;
-    }, [chatMode]);
+    }, []);
     
     const deleteMessage = useCallback((messageId: string) => {
-        setChatHistories(prev => ({
-            ...prev,
-            [chatMode]: prev[chatMode].filter(msg => msg.id !== messageId)
-        }));
-    }, [chatMode]);
+        if (!activeSession) return;
+        if (activeSession.activeLeafId === messageId) {
+            setActiveLeaf(activeSession.id, getParentId(activeSession.messages, messageId));
+        }
+        updateSessionMessages(activeSession.id, messages => removeMessage(messages, messageId));
+    }, [activeSession, updateSessionMessages, setActiveLeaf]);
 
     const clearChat = useCallback(() => {
-        streamSessionIdRef.current++; // Invalidate any in-flight streaming sessions
-        setChatHistories(prev => ({ ...prev, [chatMode]: [] }));
-        setChatError(null);
-        setChatStatus('idle');
-        setActiveToolName(null);
-        setContextNoteIds([]);
-        if (chatMode === 'WESCORE_COPILOT') {
-            generalChatRef.current = null;
+        resetConversationState();
+        if (activeSession) {
+            updateSessionMessages(activeSession.id, () => []);
+            setActiveLeaf(activeSession.id, null);
         }
-    }, [chatMode]);
+    }, [activeSession, updateSessionMessages, setActiveLeaf, resetConversationState]);
     
     const handleFeedback = useCallback((messageId: string, feedbackData: { rating: 'up' | 'down'; tags?: string[] }) => {
-        setChatHistories(prev => {
-            const currentHistory = prev[chatMode];
-            const updatedHistory = currentHistory.map(msg => {
-                if (msg.id === messageId) {
-                    return { ...msg, feedback: feedbackData };
-                }
-                return msg;
-            });
-            return { ...prev, [chatMode]: updatedHistory };
-        });
-    }, [chatMode]);
+        if (!activeSession) return;
+        updateSessionMessages(activeSession.id, messages => messages.map(msg => msg.id === messageId ? { ...msg, feedback: feedbackData } : msg));
+    }, [activeSession, updateSessionMessages]);
     
     const addResponder = useCallback((prompt: string) => {
         setResponders(prev => [prompt, ...prev.filter(p => p !== prompt)]);
@@ -521,17 +810,26 @@ ${s.length > 0 ? s.map((n, i) => `--- NOTE [${i + 1}]: ${n.title} ---\n${n.conte
     }, []);
 
 
+    const chatMessages = useMemo(() => activeSession ? getActivePath(activeSession.messages, activeSession.activeLeafId) : [], [activeSession]);
+
     const chatValue = useMemo(() => ({
-        chatMessages: chatHistories[chatMode] || [], 
+        chatMessages, 
         chatStatus, chatMode, setChatMode, 
         onSendMessage, onGenerateServiceResponse, onSendGeneralMessage, onGenerateAmazonCopy, clearChat,
+        stopGenerating, regenerateResponse, editMessage, selectBranch, getSiblingIds,
         activeToolName, deleteMessage, handleFeedback, recallLastMessage,
+        respondToToolApproval, undoCopilotTurn,
         responders, addResponder, deleteResponder,
         contextNoteIds, setContextNoteIds,
+        sessions: modeSessions, activeSessionId: activeSession?.id ?? null, isLoadingSessions,
+        selectSession, startNewSession, renameSession, togglePinSession, deleteSession,
     }), [
-        chatHistories, chatMode, chatStatus, setChatMode,
+        activeSession, chatMessages, modeSessions, isLoadingSessions, chatMode, chatStatus, setChatMode,
+        selectSession, startNewSession, renameSession, togglePinSession, deleteSession,
         onSendMessage, onGenerateServiceResponse, onSendGeneralMessage, onGenerateAmazonCopy, clearChat,
+        stopGenerating, regenerateResponse, editMessage, selectBranch, getSiblingIds,
         activeToolName, deleteMessage, handleFeedback, recallLastMessage,
+        respondToToolApproval, undoCopilotTurn,
         responders, addResponder, deleteResponder,
         contextNoteIds, setContextNoteIds,
     ]);
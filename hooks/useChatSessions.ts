@@ -0,0 +1,323 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatMessage, ChatMode, ChatSession, ChatSessionSummary } from '../types';
+import { supabase } from '../lib/supabaseClient';
+import { generateChatTitle } from '../services/geminiService';
+import { useDebounce } from './useDebounce';
+import { getActivePath, trimMessageTree } from '../lib/chatTree';
+import { addSummary } from '../lib/chatHistory';
+
+const CHAT_SESSIONS_STORAGE_KEY = 'wesai-chat-sessions';
+const LEGACY_CHAT_HISTORIES_STORAGE_KEY = 'wesai-chat-histories';
+const CHAT_MODES: ChatMode[] = ['ASSISTANT', 'RESPONDER', 'WESCORE_COPILOT', 'AMAZON'];
+// Truncate stored conversations to keep localStorage and rows bounded.
+const MAX_STORED_MESSAGES = 100;
+
+export const DEFAULT_SESSION_NAME = 'New chat';
+
+interface CachedSessions {
+    sessions: ChatSession[];
+    // Sessions changed locally that have not reached the server yet.
+    pendingIds: string[];
+}
+
+// Sessions saved before branching kept a single summary.
+const readSummaries = (saved: any): ChatSessionSummary[] =>
+    Array.isArray(saved.summaries) ? saved.summaries : saved.summary ? [saved.summary] : [];
+
+const fromRow = (row: any): ChatSession => ({
+    id: row.id,
+    userId: row.user_id,
+    name: row.name || DEFAULT_SESSION_NAME,
+    mode: row.mode,
+    messages: Array.isArray(row.messages) ? row.messages : [],
+    isPinned: !!row.is_pinned,
+    titleSource: row.title_source || 'default',
+    summaries: readSummaries(row),
+    activeLeafId: row.active_leaf_id ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at || row.created_at,
+});
+
+const toRow = (session: ChatSession, userId: string) => ({
+    id: session.id,
+    user_id: userId,
+    name: session.name,
+    mode: session.mode,
+    messages: session.messages,
+    is_pinned: session.isPinned,
+    title_source: session.titleSource,
+    summaries: session.summaries ?? [],
+    active_leaf_id: session.activeLeafId ?? null,
+    created_at: session.createdAt,
+    updated_at: session.updatedAt,
+});
+
+// Cited notes are stored without their version history, which the chat never displays.
+const prepareForStorage = (session: ChatSession): ChatSession => ({
+    ...session,
+    messages: trimMessageTree(session.messages, session.activeLeafId, MAX_STORED_MESSAGES).map(msg => msg.sources
+        ? { ...msg, sources: msg.sources.map(({ history, ...note }) => ({ ...note, history: [] })) }
+        : msg),
+});
+
+const newSession = (mode: ChatMode, messages: ChatMessage[] = []): ChatSession => {
+    const now = new Date().toISOString();
+    return {
+        id: crypto.randomUUID(),
+        name: DEFAULT_SESSION_NAME,
+        mode,
+        messages,
+        isPinned: false,
+        titleSource: 'default',
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+// Converts the old one-history-per-mode format into sessions, once.
+const migrateLegacyHistories = (): ChatSession[] => {
+    try {
+        const saved = localStorage.getItem(LEGACY_CHAT_HISTORIES_STORAGE_KEY);
+        if (!saved) return [];
+        const parsed = JSON.parse(saved);
+        if (parsed.GENERAL && !parsed.WESCORE_COPILOT) parsed.WESCORE_COPILOT = parsed.GENERAL;
+        localStorage.removeItem(LEGACY_CHAT_HISTORIES_STORAGE_KEY);
+        return CHAT_MODES
+            .filter(mode => Array.isArray(parsed[mode]) && parsed[mode].length > 0)
+            .map(mode => newSession(mode, parsed[mode]));
+    } catch {
+        return [];
+    }
+};
+
+const writeCache = (ownerId: string, cache: CachedSessions) => {
+    try {
+        localStorage.setItem(`${CHAT_SESSIONS_STORAGE_KEY}:${ownerId}`, JSON.stringify({
+            sessions: cache.sessions.map(prepareForStorage),
+            pendingIds: cache.pendingIds,
+        }));
+    } catch (error) {
+        console.error("Failed to save chat sessions to localStorage", error);
+    }
+};
+
+const readCache = (ownerId: string): CachedSessions => {
+    try {
+        const saved = localStorage.getItem(`${CHAT_SESSIONS_STORAGE_KEY}:${ownerId}`);
+        const parsed = saved ? JSON.parse(saved) : { sessions: [], pendingIds: [] };
+        const cached: CachedSessions = {
+            sessions: parsed.sessions.map((session: any) => {
+                const { summary, ...rest } = session;
+                return { ...rest, summaries: readSummaries(session) };
+            }),
+            pendingIds: parsed.pendingIds,
+        };
+        const migrated = migrateLegacyHistories();
+        if (migrated.length === 0) return cached;
+        const result = {
+            sessions: [...cached.sessions, ...migrated],
+            pendingIds: [...cached.pendingIds, ...migrated.map(s => s.id)],
+        };
+        // The legacy key is gone now, so the migrated sessions must be saved right away.
+        writeCache(ownerId, result);
+        return result;
+    } catch {
+        return { sessions: [], pendingIds: [] };
+    }
+};
+
+const isNewer = (a: ChatSession, b: ChatSession) => new Date(a.updatedAt).getTime() > new Date(b.updatedAt).getTime();
+
+/**
+ * Manages named chat sessions. Sessions are cached in localStorage and, for signed-in
+ * users, synced to the `chat_sessions` table so they follow the user across devices.
+ * @param userId The signed-in user, or undefined in demo mode.
+ * @param isDemoMode Whether sessions should stay local to this browser.
+ * @param canGenerateTitles Whether untitled sessions may be named by the AI.
+ * @param busySessionId A session that is mid-reply and should not be titled yet.
+ */
+export const useChatSessions = (userId: string | undefined, isDemoMode: boolean, canGenerateTitles: boolean, busySessionId: string | null) => {
+    const [sessions, setSessions] = useState<ChatSession[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    // The owner whose sessions are currently in state; nothing is saved for anyone else.
+    const [hydratedOwnerId, setHydratedOwnerId] = useState<string | null>(null);
+    const pendingIdsRef = useRef(new Set<string>());
+    const [isTitling, setIsTitling] = useState(false);
+    const titleAttemptedIdsRef = useRef(new Set<string>());
+    const debouncedSessions = useDebounce(sessions, 1500);
+
+    const ownerId = isDemoMode ? 'demo' : userId ?? null;
+    const syncUserId = isDemoMode ? null : userId ?? null;
+
+    useEffect(() => {
+        if (!ownerId) {
+            setSessions([]);
+            setHydratedOwnerId(null);
+            setIsLoading(false);
+            return;
+        }
+        let isCancelled = false;
+        const cached = readCache(ownerId);
+        pendingIdsRef.current = new Set(cached.pendingIds);
+        setSessions(cached.sessions);
+        setHydratedOwnerId(ownerId);
+
+        if (!syncUserId) {
+            setIsLoading(false);
+            return;
+        }
+        setIsLoading(true);
+        supabase.from('chat_sessions').select('*').eq('user_id', syncUserId).then(({ data, error }) => {
+            if (isCancelled) return;
+            if (error) {
+                console.error("Error fetching chat sessions:", error);
+            } else {
+                const remote = (data || []).map(fromRow);
+                setSessions(prev => {
+                    const localById = new Map(prev.map(s => [s.id, s]));
+                    const merged = remote.map(r => {
+                        const local = localById.get(r.id);
+                        return local && pendingIdsRef.current.has(r.id) && isNewer(local, r) ? local : r;
+                    });
+                    const remoteIds = new Set(remote.map(r => r.id));
+                    // Sessions missing from the server were either deleted elsewhere or never uploaded.
+                    const unsynced = prev.filter(s => !remoteIds.has(s.id) && pendingIdsRef.current.has(s.id));
+                    return [...merged, ...unsynced];
+                });
+            }
+            setIsLoading(false);
+        });
+        return () => { isCancelled = true; };
+    }, [ownerId, syncUserId]);
+
+    // Realtime updates from the user's other devices.
+    useEffect(() => {
+        if (!syncUserId) return;
+        const channel = supabase.channel(`chat-sessions-${syncUserId}`)
+            .on('postgres_changes', { event: '*', schema: 'public', table: 'chat_sessions', filter: `user_id=eq.${syncUserId}` }, (payload: any) => {
+                if (payload.eventType === 'DELETE') {
+                    setSessions(prev => prev.filter(s => s.id !== payload.old.id));
+                    return;
+                }
+                const incoming = fromRow(payload.new);
+                setSessions(prev => {
+                    const existing = prev.find(s => s.id === incoming.id);
+                    if (!existing) return [...prev, incoming];
+                    // Our own writes echo back with the same timestamp and are ignored.
+                    return isNewer(incoming, existing) ? prev.map(s => s.id === incoming.id ? incoming : s) : prev;
+                });
+            })
+            .subscribe();
+        return () => { supabase.removeChannel(channel); };
+    }, [syncUserId]);
+
+    // Persist to the cache and push pending sessions once edits settle.
+    useEffect(() => {
+        // Wait until the debounced value has caught up with freshly hydrated state.
+        if (!ownerId || isLoading || hydratedOwnerId !== ownerId || debouncedSessions !== sessions) return;
+        writeCache(ownerId, { sessions: debouncedSessions, pendingIds: Array.from(pendingIdsRef.current) });
+        if (!syncUserId || pendingIdsRef.current.size === 0) return;
+
+        const pending = debouncedSessions.filter(s => pendingIdsRef.current.has(s.id));
+        if (pending.length === 0) return;
+        supabase.from('chat_sessions').upsert(pending.map(s => toRow(prepareForStorage(s), syncUserId))).then(({ error }) => {
+            if (error) {
+                console.error("Failed to sync chat sessions:", error);
+                return;
+            }
+            pending.forEach(sent => {
+                // A session edited again while the request was in flight stays pending.
+                const latest = debouncedSessions.find(s => s.id === sent.id);
+                if (latest && latest.updatedAt === sent.updatedAt) pendingIdsRef.current.delete(sent.id);
+            });
+            writeCache(ownerId, { sessions: debouncedSessions, pendingIds: Array.from(pendingIdsRef.current) });
+        });
+    }, [debouncedSessions, sessions, ownerId, hydratedOwnerId, syncUserId, isLoading]);
+
+    const updateSession = useCallback((id: string, update: (session: ChatSession) => Partial<ChatSession>) => {
+        pendingIdsRef.current.add(id);
+        setSessions(prev => prev.map(s => s.id === id ? { ...s, ...update(s), updatedAt: new Date().toISOString() } : s));
+    }, []);
+
+    const createSession = useCallback((mode: ChatMode): ChatSession => {
+        const session = newSession(mode);
+        pendingIdsRef.current.add(session.id);
+        setSessions(prev => [...prev, session]);
+        return session;
+    }, []);
+
+    const updateSessionMessages = useCallback((id: string, updater: (messages: ChatMessage[]) => ChatMessage[]) => {
+        updateSession(id, s => ({ messages: updater(s.messages) }));
+    }, [updateSession]);
+
+    const addSessionSummary = useCallback((id: string, summary: ChatSessionSummary) => {
+        updateSession(id, s => ({ summaries: addSummary(s.summaries, summary) }));
+    }, [updateSession]);
+
+    const setActiveLeaf = useCallback((id: string, activeLeafId: string | null) => {
+        updateSession(id, () => ({ activeLeafId }));
+    }, [updateSession]);
+
+    const renameSession = useCallback((id: string, name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        updateSession(id, () => ({ name: trimmed, titleSource: 'user' }));
+    }, [updateSession]);
+
+    const togglePinSession = useCallback((id: string) => {
+        updateSession(id, s => ({ isPinned: !s.isPinned }));
+    }, [updateSession]);
+
+    const deleteSession = useCallback(async (id: string) => {
+        const wasPending = pendingIdsRef.current.delete(id);
+        setSessions(prev => prev.filter(s => s.id !== id));
+        if (!syncUserId) return;
+        const { error } = await supabase.from('chat_sessions').delete().eq('id', id).eq('user_id', syncUserId);
+        if (error) {
+            console.error("Failed to delete chat session:", error);
+            if (wasPending) pendingIdsRef.current.add(id);
+        }
+    }, [syncUserId]);
+
+    // Final synchronous save on page unload as a safety net for the debounce.
+    const sessionsRef = useRef(sessions);
+    sessionsRef.current = sessions;
+    useEffect(() => {
+        if (!ownerId || hydratedOwnerId !== ownerId) return;
+        const handleBeforeUnload = () => writeCache(ownerId, { sessions: sessionsRef.current, pendingIds: Array.from(pendingIdsRef.current) });
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [ownerId, hydratedOwnerId]);
+
+    // Name untitled sessions from their first exchange, one at a time.
+    useEffect(() => {
+        if (!canGenerateTitles || isTitling) return;
+        const candidate = debouncedSessions.find(s =>
+            s.titleSource === 'default'
+            && s.id !== busySessionId
+            && !titleAttemptedIdsRef.current.has(s.id)
+            && s.messages.some(m => m.role === 'user')
+            && s.messages.some(m => m.role === 'ai' && m.status !== 'processing')
+        );
+        if (!candidate) return;
+
+        titleAttemptedIdsRef.current.add(candidate.id);
+        setIsTitling(true);
+        generateChatTitle(getActivePath(candidate.messages, candidate.activeLeafId))
+            .then(title => {
+                if (!title) return;
+                pendingIdsRef.current.add(candidate.id);
+                // Don't overwrite a name the user set while the title was generating.
+                setSessions(prev => prev.map(s => s.id === candidate.id && s.titleSource === 'default'
+                    ? { ...s, name: title, titleSource: 'ai', updatedAt: new Date().toISOString() }
+                    : s));
+            })
+            .catch(error => console.warn("Failed to generate chat title:", error))
+            .finally(() => setIsTitling(false));
+    }, [debouncedSessions, canGenerateTitles, busySessionId, isTitling]);
+
+    return {
+        sessions, isLoading,
+        createSession, updateSessionMessages, addSessionSummary, setActiveLeaf, renameSession, togglePinSession, deleteSession,
+    };
+};
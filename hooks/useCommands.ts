@@ -79,7 +79,7 @@ export const useCommands = (onComplete: () => void): Command[] => {
                     action: () => {
                         showConfirmation({
                             title: "Delete Note",
-                            message: `Are you sure you want to permanently delete "${activeNote.title}"? This action cannot be undone.`,
+                            message: `Move "${activeNote.title}" to the trash? You can restore it from the Trash section of the sidebar.`,
                             onConfirm: () => handleDeleteNoteConfirm(activeNote),
                             confirmText: "Delete",
                         });
@@ -0,0 +1,15 @@
+import { useMemo, useRef } from 'react';
+import { Note } from '../types';
+import { LinkGraph, updateLinkGraph } from '../lib/linkGraph';
+
+/**
+ * Keeps the link graph in step with the notes, updating it from the previous one rather
+ * than rebuilding it on every change.
+ */
+export const useLinkGraph = (notes: Note[]): LinkGraph => {
+    const graphRef = useRef<LinkGraph | null>(null);
+    return useMemo(() => {
+        graphRef.current = updateLinkGraph(graphRef.current, notes);
+        return graphRef.current;
+    }, [notes]);
+};
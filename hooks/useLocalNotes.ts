@@ -1,6 +1,7 @@
-import { useState, useCallback } from 'react';
-import { Note, Collection, SmartCollection, Template } from '../types';
+import { useState, useCallback, useMemo } from 'react';
+import { Note, NoteVersion, Collection, SmartCollection, SmartCollectionType, SmartRuleGroup, Template } from '../types';
 import { demoNotes, demoCollections, demoTemplates, demoSmartCollections } from '../lib/demoData';
+import { TrashSelection, getAllTrash, getExpiredTrash, getFolderPath, getTrashEntries, loadTrashRetentionDays, planRestore, selectFolderForTrash } from '../lib/trash';
 
 // This hook mimics the return signature of useStore for the demo mode.
 // "Write" operations modify local state and are lost on refresh.
@@ -30,11 +31,62 @@ export const useLocalNotes = () => {
         setNotes(prev => prev.map(n => n.id === id ? { ...n, ...updatedFields, updatedAt: new Date().toISOString() } : n));
     }, []);
 
-    const deleteNote = useCallback(async (id: string) => {
-        setNotes(prev => prev.filter(n => n.id !== id));
+    const moveToTrash = useCallback(async (selection: TrashSelection) => {
+        const deletedAt = new Date().toISOString();
+        const collectionIds = new Set(selection.collectionIds);
+        const noteIds = new Set(selection.noteIds);
+        setCollections(prev => prev.map(c => collectionIds.has(c.id) ? { ...c, deletedAt, deletedFrom: getFolderPath(c.parentId, collections) } : c));
+        setNotes(prev => prev.map(n => noteIds.has(n.id) ? { ...n, deletedAt, deletedFrom: getFolderPath(n.parentId, collections) } : n));
+    }, [collections]);
+
+    const restoreFromTrash = useCallback(async (itemId: string) => {
+        const plan = planRestore(itemId, notes, collections);
+        if (!plan) throw new Error("That item is not in the trash.");
+        let reattachParentId: string | null = null;
+        const recreated: Collection[] = [];
+        for (const name of plan.reattach?.path ?? []) {
+            const existing = collections.find(c => !c.deletedAt && c.parentId === reattachParentId && c.name === name);
+            const folder = existing ?? { id: `demo-collection-${Date.now()}-${recreated.length}`, name, parentId: reattachParentId };
+            if (!existing) recreated.push(folder);
+            reattachParentId = folder.id;
+        }
+        const collectionIds = new Set(plan.restore.collectionIds);
+        const noteIds = new Set(plan.restore.noteIds);
+        const restoreItem = <T extends Note | Collection>(item: T): T => ({
+            ...item,
+            deletedAt: null,
+            deletedFrom: null,
+            ...(plan.reattach?.id === item.id ? { parentId: reattachParentId } : {}),
+        });
+        setCollections(prev => [...prev.map(c => collectionIds.has(c.id) ? restoreItem(c) : c), ...recreated]);
+        setNotes(prev => prev.map(n => noteIds.has(n.id) ? restoreItem(n) : n));
+    }, [notes, collections]);
+
+    const deleteTrashedItems = useCallback(async (selection: TrashSelection) => {
+        const collectionIds = new Set(selection.collectionIds);
+        const noteIds = new Set(selection.noteIds);
+        setCollections(prev => prev.filter(c => !collectionIds.has(c.id)));
+        setNotes(prev => prev.filter(n => !noteIds.has(n.id)));
     }, []);
 
-    const getNoteById = useCallback((id: string) => notes.find(note => note.id === id), [notes]);
+    const trash = useMemo(() => getTrashEntries(notes, collections), [notes, collections]);
+
+    const deleteNote = useCallback(async (id: string) => {
+        await moveToTrash({ collectionIds: [], noteIds: [id] });
+    }, [moveToTrash]);
+
+    const restoreDeletedNote = useCallback(async (note: Note) => {
+        if (notes.some(n => n.id === note.id && n.deletedAt)) return restoreFromTrash(note.id);
+        setNotes(prev => prev.some(n => n.id === note.id) ? prev : [...prev, note]);
+    }, [notes, restoreFromTrash]);
+
+    const getNoteById = useCallback((id: string) => notes.find(note => note.id === id && !note.deletedAt), [notes]);
+    const liveNotes = useMemo(() => notes.filter(n => !n.deletedAt), [notes]);
+    const liveCollections = useMemo(() => collections.filter(c => !c.deletedAt), [collections]);
+
+    // Demo notes keep their history in memory, so there is nothing to fetch.
+    const loadNoteHistory = useCallback(async (noteId: string): Promise<NoteVersion[]> => notes.find(n => n.id === noteId)?.history ?? [], [notes]);
+    const loadAllNoteHistory = useCallback(async () => new Map(notes.map(n => [n.id, n.history])), [notes]);
     
     // Stub out other functions to prevent errors.
     const noOpAsync = async () => {};
@@ -48,17 +100,37 @@ export const useLocalNotes = () => {
 
     return {
         loading: false,
-        notes,
-        collections,
+        isOnline: true,
+        pendingMutationCount: 0,
+        syncNow: async () => 0,
+        rejectedMutationCount: 0,
+        dismissSyncRejections: () => {},
+        notes: liveNotes,
+        collections: liveCollections,
         smartCollections,
         templates,
+        trash,
+        restoreFromTrash,
+        deleteFromTrash: async (itemId: string) => {
+            const entry = trash.find(e => e.id === itemId);
+            if (entry) await deleteTrashedItems(entry.contents);
+        },
+        emptyTrash: () => deleteTrashedItems(getAllTrash(notes, collections)),
+        purgeExpiredTrash: () => deleteTrashedItems(getExpiredTrash(notes, collections, loadTrashRetentionDays())),
         addNote,
         addNoteFromFile: (title: string, content: string, parentId: string | null) => addNote(parentId, title, content),
         updateNote,
         deleteNote,
+        restoreDeletedNote,
         getNoteById,
         toggleFavorite: (id: string) => updateNote(id, { isFavorite: !notes.find(n => n.id === id)?.isFavorite }),
-        restoreNoteVersion: noOpAsync,
+        setNoteAliases: (id: string, aliases: string[]) => updateNote(id, { aliases }),
+        restoreNoteVersion: (noteId: string, version: NoteVersion) => {
+            const { title, content, tags } = version;
+            return updateNote(noteId, { title, content, tags });
+        },
+        loadNoteHistory,
+        loadAllNoteHistory,
         copyNote: noOpAsyncCopy,
         renameNoteTitle: (id: string, title: string) => updateNote(id, { title }),
         addCollection: async (name: string, parentId: string | null) => {
@@ -69,11 +141,16 @@ export const useLocalNotes = () => {
         updateCollection: async (id: string, updatedFields: Partial<Omit<Collection, 'id'>>) => {
              setCollections(prev => prev.map(c => c.id === id ? { ...c, ...updatedFields } : c));
         },
-        deleteCollection: async (id: string) => {
-            setCollections(prev => prev.filter(c => c.id !== id));
-            setNotes(prev => prev.map(n => n.parentId === id ? { ...n, parentId: null } : n));
+        deleteCollection: (id: string) => moveToTrash(selectFolderForTrash(id, notes, collections)),
+        restoreDeletedCollection: async (deletedCollections: Collection[], deletedNotes: Note[]) => {
+            const [root] = deletedCollections;
+            if (root && collections.some(c => c.id === root.id && c.deletedAt)) return restoreFromTrash(root.id);
+            const restoredIds = new Set(deletedCollections.map(c => c.id));
+            const restoredNoteIds = new Set(deletedNotes.map(n => n.id));
+            setCollections(prev => [...prev.filter(c => !restoredIds.has(c.id)), ...deletedCollections]);
+            setNotes(prev => [...prev.filter(n => !restoredNoteIds.has(n.id)), ...deletedNotes]);
         },
-        getCollectionById: (id: string) => collections.find(c => c.id === id),
+        getCollectionById: (id: string) => collections.find(c => c.id === id && !c.deletedAt),
         moveItem: async (draggedItemId: string, targetItemId: string | null, position: 'top' | 'bottom' | 'inside') => {
             const isNote = notes.some(n => n.id === draggedItemId);
             if (position !== 'inside') {
@@ -87,15 +164,19 @@ export const useLocalNotes = () => {
                  setCollections(prev => prev.map(c => c.id === draggedItemId ? { ...c, parentId: targetItemId } : c));
             }
         },
-        addSmartCollection: async (name: string, query: string) => {
-            setSmartCollections(prev => [...prev, { id: `demo-sc-${Date.now()}`, name, query }]);
+        addSmartCollection: async (name: string, query: string, type: SmartCollectionType = 'AI', rules: SmartRuleGroup | null = null) => {
+            const id = `demo-sc-${Date.now()}`;
+            setSmartCollections(prev => [...prev, { id, name, query, type, rules }]);
+            return id;
         },
         updateSmartCollection: async (id: string, updatedFields: Partial<Omit<SmartCollection, 'id'>>) => {
             setSmartCollections(prev => prev.map(sc => sc.id === id ? { ...sc, ...updatedFields } : sc));
         },
         deleteSmartCollection: async (id: string) => setSmartCollections(prev => prev.filter(sc => sc.id !== id)),
         addTemplate: async (title: string, content: string) => {
-            setTemplates(prev => [...prev, { id: `demo-template-${Date.now()}`, title, content }]);
+            const id = `demo-template-${Date.now()}`;
+            setTemplates(prev => [...prev, { id, title, content }]);
+            return id;
         },
         updateTemplate: async (id: string, updatedFields: Partial<Omit<Template, 'id'>>) => {
             setTemplates(prev => prev.map(t => t.id === id ? { ...t, ...updatedFields } : t));
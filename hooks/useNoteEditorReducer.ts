@@ -4,17 +4,23 @@ import { NoteVersion } from '../types';
 // Define state shapes from NoteEditor
 export type SelectionState = { start: number; end: number; text: string; rect: DOMRect } | null;
 export type NoteLinkerState = { query: string; position: { top: number; left: number } } | null;
+// A note name typed just before the cursor, offered as a link to that note.
+export type LinkSuggestionState = { start: number; end: number; text: string; noteId: string; noteTitle: string; position: { top: number; left: number } } | null;
 export type SlashCommandState = { query: string; position: { top: number; left: number }, range: { start: number, end: number } } | null;
+// A version compared with another version, or with the current draft when `target` is null.
+export type VersionCompareState = { base: NoteVersion; target: NoteVersion | null } | null;
 
 export interface NoteEditorUIState {
     saveStatus: 'saved' | 'saving' | 'unsaved' | 'error';
     isHistoryOpen: boolean;
     previewVersion: NoteVersion | null;
+    versionCompare: VersionCompareState;
     viewMode: 'edit' | 'preview';
     selection: SelectionState;
     noteLinker: NoteLinkerState;
     templateLinker: NoteLinkerState;
     noteLinkerForSelection: SelectionState;
+    linkSuggestion: LinkSuggestionState;
     slashCommand: SlashCommandState;
     isDragOver: boolean;
     isAiActionLoading: boolean; // inline
@@ -26,11 +32,13 @@ export const initialNoteEditorUIState: NoteEditorUIState = {
     saveStatus: 'saved',
     isHistoryOpen: false,
     previewVersion: null,
+    versionCompare: null,
     viewMode: 'preview',
     selection: null,
     noteLinker: null,
     templateLinker: null,
     noteLinkerForSelection: null,
+    linkSuggestion: null,
     slashCommand: null,
     isDragOver: false,
     isAiActionLoading: false,
@@ -42,11 +50,13 @@ export type NoteEditorAction =
     | { type: 'SET_SAVE_STATUS'; payload: 'saved' | 'saving' | 'unsaved' | 'error' }
     | { type: 'SET_HISTORY_OPEN'; payload: boolean }
     | { type: 'SET_PREVIEW_VERSION'; payload: NoteVersion | null }
+    | { type: 'SET_VERSION_COMPARE'; payload: VersionCompareState }
     | { type: 'SET_VIEW_MODE'; payload: 'edit' | 'preview' }
     | { type: 'SET_SELECTION'; payload: SelectionState }
     | { type: 'SET_NOTE_LINKER'; payload: NoteLinkerState }
     | { type: 'SET_TEMPLATE_LINKER'; payload: NoteLinkerState }
     | { type: 'SET_NOTE_LINKER_FOR_SELECTION'; payload: SelectionState }
+    | { type: 'SET_LINK_SUGGESTION'; payload: LinkSuggestionState }
     | { type: 'SET_SLASH_COMMAND'; payload: SlashCommandState }
     | { type: 'SET_DRAG_OVER'; payload: boolean }
     | { type: 'SET_AI_ACTION_LOADING'; payload: boolean }
@@ -59,10 +69,13 @@ const reducer = (state: NoteEditorUIState, action: NoteEditorAction): NoteEditor
         case 'SET_SAVE_STATUS':
             return { ...state, saveStatus: action.payload };
         case 'SET_HISTORY_OPEN':
-            // When closing history, also clear any active version preview
-            return { ...state, isHistoryOpen: action.payload, previewVersion: action.payload ? state.previewVersion : null };
+            // When closing history, also clear any active version preview or comparison
+            return action.payload ? { ...state, isHistoryOpen: true } : { ...state, isHistoryOpen: false, previewVersion: null, versionCompare: null };
         case 'SET_PREVIEW_VERSION':
-            return { ...state, previewVersion: action.payload };
+            // Previewing and comparing are mutually exclusive
+            return { ...state, previewVersion: action.payload, versionCompare: action.payload ? null : state.versionCompare };
+        case 'SET_VERSION_COMPARE':
+            return { ...state, versionCompare: action.payload, previewVersion: action.payload ? null : state.previewVersion };
         case 'SET_VIEW_MODE':
             return { ...state, viewMode: action.payload };
         case 'SET_SELECTION':
@@ -75,6 +88,8 @@ const reducer = (state: NoteEditorUIState, action: NoteEditorAction): NoteEditor
         case 'SET_NOTE_LINKER_FOR_SELECTION':
              // When linking from selection, clear the main selection popup
             return { ...state, noteLinkerForSelection: action.payload, selection: null };
+        case 'SET_LINK_SUGGESTION':
+            return { ...state, linkSuggestion: action.payload };
         case 'SET_SLASH_COMMAND':
             // Note linker and slash command are mutually exclusive
             return { ...state, slashCommand: action.payload, noteLinker: null, templateLinker: null };
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Note } from '../types';
+import { useDebounce } from './useDebounce';
+import { createSemanticIndex, SemanticSearchOptions, SemanticSearchResult } from '../lib/semanticIndex';
+import { geminiEmbeddingProvider } from '../services/geminiService';
+
+/**
+ * Keeps a persisted embedding index of the user's notes up to date and exposes
+ * similarity search over it. Changed notes are re-embedded in the background.
+ * @param notes The notes to index.
+ * @param ownerId The workspace owner, or null while signed out.
+ * @param isEnabled Whether background indexing is allowed (AI on, key present).
+ * @param isReady Whether `notes` reflects the loaded workspace.
+ */
+export const useSemanticIndex = (notes: Note[], ownerId: string | null, isEnabled: boolean, isReady: boolean) => {
+    const index = useMemo(() => (ownerId ? createSemanticIndex(geminiEmbeddingProvider, ownerId) : null), [ownerId]);
+    const [isIndexing, setIsIndexing] = useState(false);
+    const [indexedNoteCount, setIndexedNoteCount] = useState(0);
+    const debouncedNotes = useDebounce(notes, 3000);
+    const failedNotesRef = useRef<Note[] | null>(null);
+
+    useEffect(() => {
+        // Syncing before the workspace has loaded would discard every stored embedding.
+        if (!index || !isEnabled || !isReady) return;
+        // Don't retry a failed sync until the notes actually change.
+        if (failedNotesRef.current === debouncedNotes) return;
+
+        let isCancelled = false;
+        setIsIndexing(true);
+        index.sync(debouncedNotes)
+            .then(() => { failedNotesRef.current = null; })
+            .catch(error => {
+                failedNotesRef.current = debouncedNotes;
+                console.warn("Semantic index sync failed:", error);
+            })
+            .finally(() => {
+                if (isCancelled) return;
+                setIsIndexing(false);
+                setIndexedNoteCount(index.getIndexedNoteCount());
+            });
+        return () => { isCancelled = true; };
+    }, [index, debouncedNotes, isEnabled, isReady]);
+
+    const semanticSearch = useCallback(async (query: string, options?: SemanticSearchOptions): Promise<SemanticSearchResult[]> => {
+        if (!index) return [];
+        return index.search(query, options);
+    }, [index]);
+
+    return { semanticSearch, isIndexing, indexedNoteCount };
+};
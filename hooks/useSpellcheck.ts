@@ -34,8 +34,10 @@ export const useSpellcheck = (content: string, isDisabled: boolean) => {
         const contentForSpelling = debouncedContentForSpelling;
         if (contentForSpelling && contentForSpelling !== lastAnalyzedContentForSpellingRef.current) {
             const currentCheckId = ++spellingCheckIdRef.current;
+            // Aborted when the content changes again, so a stale check never holds up the queue.
+            const controller = new AbortController();
             setIsCheckingSpelling(true);
-            findMisspelledWords(contentForSpelling)
+            findMisspelledWords(contentForSpelling, controller.signal)
                 .then(errors => {
                     if (currentCheckId === spellingCheckIdRef.current) {
                         lastAnalyzedContentForSpellingRef.current = contentForSpelling;
@@ -45,7 +47,7 @@ export const useSpellcheck = (content: string, isDisabled: boolean) => {
                 .catch(err => {
                     // Gracefully handle API errors for spellchecking without showing a toast,
                     // as it could be too noisy for the user. A console warning is sufficient.
-                    if (currentCheckId === spellingCheckIdRef.current) {
+                    if (currentCheckId === spellingCheckIdRef.current && !controller.signal.aborted) {
                         console.warn('Spellcheck analysis failed:', err);
                         setSpellingErrors([]); // Ensure no stale errors are shown
                     }
@@ -55,6 +57,7 @@ export const useSpellcheck = (content: string, isDisabled: boolean) => {
                         setIsCheckingSpelling(false);
                     }
                 });
+            return () => controller.abort();
         } else if (!contentForSpelling) {
              setSpellingErrors([]);
         }
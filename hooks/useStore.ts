@@ -1,7 +1,16 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Note, NoteVersion, Collection, SmartCollection, Template } from '../types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Note, NoteVersion, Collection, SmartCollection, SmartCollectionType, SmartRuleGroup, Template } from '../types';
 import { supabase } from '../lib/supabaseClient';
 import { User } from '@supabase/supabase-js';
+import { readReplica, writeReplica, replaceReplicaRows } from '../lib/offlineDb';
+import { MutationInput, QueuedMutation, executeMutation, enqueueMutation, getQueuedMutations, replayMutationQueue, isNetworkError, getAffectedRowIds } from '../lib/syncQueue';
+import { ChainHead, StoredVersion, applyRetention, compactHistory, decodeVersions, encodeVersion, getChainHead } from '../lib/noteHistory';
+import { TrashSelection, getAllTrash, getExpiredTrash, getFolderPath, getTrashEntries, loadTrashRetentionDays, planRestore, selectFolderForTrash } from '../lib/trash';
+import { useDebounce } from './useDebounce';
+
+// Bounds for retrying queued writes after a network failure the browser didn't report as going offline.
+const SYNC_RETRY_BASE_MS = 2000;
+const SYNC_RETRY_MAX_MS = 60 * 1000;
 
 const fromSupabase = <T extends { [key: string]: any }>(data: T) => {
     const result: { [key: string]: any } = {};
@@ -33,6 +42,56 @@ const processNote = (noteData: any): Note => {
     return note;
 };
 
+const groupVersionsByNote = <T extends { noteId?: string }>(versions: T[]) => {
+    const versionsByNoteId = new Map<string, T[]>();
+    versions.forEach(v => {
+        if (!v.noteId) return;
+        if (!versionsByNoteId.has(v.noteId)) {
+            versionsByNoteId.set(v.noteId, []);
+        }
+        versionsByNoteId.get(v.noteId)!.push(v);
+    });
+    return versionsByNoteId;
+};
+
+interface WorkspaceSnapshot {
+    ownerId: string | null;
+    notes: Note[];
+    collections: Collection[];
+    smartCollections: SmartCollection[];
+    templates: Template[];
+}
+
+const sortNewestFirst = (versions: NoteVersion[]) =>
+    versions.sort((a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime());
+
+// Reads the user's workspace from the IndexedDB replica. History is loaded per note, when it's asked for.
+const loadReplica = async (userId: string) => {
+    const [notes, collections, smartCollections, templates] = await Promise.all([
+        readReplica<Note>('notes', userId),
+        readReplica<Collection>('collections', userId),
+        readReplica<SmartCollection>('smart_collections', userId),
+        readReplica<Template>('templates', userId),
+    ]);
+    return {
+        notes: notes.map(note => ({ ...note, history: [] })),
+        collections,
+        smartCollections,
+        templates,
+    };
+};
+
+// Writes the in-memory workspace back to the replica. Versions are written to their own store as they're saved and loaded.
+const saveReplica = async (userId: string, snapshot: WorkspaceSnapshot) => {
+    const notesWithoutHistory = snapshot.notes.map(({ history, ...note }) => note);
+    await Promise.all([
+        writeReplica('notes', userId, notesWithoutHistory),
+        writeReplica('collections', userId, snapshot.collections),
+        writeReplica('smart_collections', userId, snapshot.smartCollections),
+        writeReplica('templates', userId, snapshot.templates),
+    ]);
+};
+
 
 export const useStore = (user: User | undefined) => {
     const [notes, setNotes] = useState<Note[]>([]);
@@ -40,74 +99,287 @@ export const useStore = (user: User | undefined) => {
     const [smartCollections, setSmartCollections] = useState<SmartCollection[]>([]);
     const [templates, setTemplates] = useState<Template[]>([]);
     const [loading, setLoading] = useState(true);
+    const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' ? true : navigator.onLine);
+    const [pendingMutationCount, setPendingMutationCount] = useState(0);
+    // Offline changes the server refused when they were replayed; they've been undone locally.
+    const [rejectedMutationCount, setRejectedMutationCount] = useState(0);
+    // The user whose data is currently held in state; the replica is only written for this user.
+    const [replicaOwnerId, setReplicaOwnerId] = useState<string | null>(null);
+    const pendingMutationCountRef = useRef(0);
+    const isSyncingRef = useRef(false);
+    const syncRetryAttemptRef = useRef(0);
+    // Lets async work tell whether the signed-in user changed while it was waiting.
+    const userIdRef = useRef(user?.id);
+    userIdRef.current = user?.id;
+    // The newest version of each note's history that this session knows, which the next version is stored as a delta against.
+    const versionHeadsRef = useRef(new Map<string, ChainHead>());
+
+    // The ref is read synchronously by `commit`, so it is updated alongside the state.
+    const updatePendingMutationCount = useCallback((count: number) => {
+        pendingMutationCountRef.current = count;
+        setPendingMutationCount(count);
+    }, []);
+
+    /**
+     * Puts the rows that rejected offline changes wrote back the way the server has them.
+     * Rows that changes still in the queue write are left alone until those are sent.
+     */
+    const reloadRejectedRows = useCallback(async (userId: string, rejected: QueuedMutation[], remaining: QueuedMutation[]) => {
+        const stillQueued = new Set(remaining.flatMap(m => getAffectedRowIds(m).flatMap(rows => rows.ids)));
+        const idsByTable = new Map<string, Set<string>>();
+        rejected.forEach(m => getAffectedRowIds(m).forEach(({ table, ids }) => ids.forEach(id => {
+            if (stillQueued.has(id)) return;
+            if (!idsByTable.has(table)) idsByTable.set(table, new Set());
+            idsByTable.get(table)!.add(id);
+        })));
+
+        // History is loaded on demand, so a note whose versions were rejected loads it again next time.
+        // The head is forgotten too, so the next save starts a fresh snapshot rather than a delta on a broken chain.
+        const versionIds = idsByTable.get('note_versions') ?? new Set<string>();
+        const versionNoteIds = new Set(rejected.flatMap(m => {
+            const noteId = m.table === 'note_versions' ? m.payload?.note_id ?? m.match?.note_id : undefined;
+            return noteId ? [noteId as string] : [];
+        }));
+        if (versionIds.size > 0 || versionNoteIds.size > 0) {
+            setNotes(prev => prev.map(note => {
+                if (!versionNoteIds.has(note.id) && !note.history.some(v => v.id && versionIds.has(v.id))) return note;
+                versionHeadsRef.current.delete(note.id);
+                return { ...note, history: [] };
+            }));
+            idsByTable.delete('note_versions');
+        }
+
+        const replaceRows = <T extends { id: string }>(prev: T[], ids: Set<string>, rows: T[]) => {
+            const rowById = new Map(rows.map(row => [row.id, row]));
+            const existingIds = new Set(prev.map(item => item.id));
+            return [
+                ...prev.flatMap(item => ids.has(item.id) ? (rowById.has(item.id) ? [rowById.get(item.id)!] : []) : [item]),
+                ...rows.filter(row => !existingIds.has(row.id)),
+            ];
+        };
+        await Promise.all([...idsByTable].map(async ([table, ids]) => {
+            const { data, error } = await supabase.from(table).select('*').eq('user_id', userId).in('id', [...ids]);
+            if (error) throw error;
+            const rows = data || [];
+            if (table === 'notes') {
+                setNotes(prev => {
+                    const historyByNoteId = new Map(prev.map(note => [note.id, note.history]));
+                    return replaceRows(prev, ids, rows.map(row => ({ ...processNote(row), history: historyByNoteId.get(row.id) || [] })));
+                });
+            } else if (table === 'collections') {
+                setCollections(prev => replaceRows(prev, ids, rows.map(fromSupabase)));
+            } else if (table === 'smart_collections') {
+                setSmartCollections(prev => replaceRows(prev, ids, rows.map(fromSupabase)));
+            } else if (table === 'templates') {
+                setTemplates(prev => replaceRows(prev, ids, rows.map(fromSupabase)));
+            }
+        }));
+    }, []);
+
+    /**
+     * Replays any writes that were queued while offline. Writes the server rejects are
+     * undone locally and counted in `rejectedMutationCount`. A replay that gets through
+     * marks the store online again, since the browser may never have reported going offline.
+     * @returns The number of mutations that reached the server.
+     */
+    const syncNow = useCallback(async (): Promise<number> => {
+        if (!user || isSyncingRef.current) return 0;
+        isSyncingRef.current = true;
+        try {
+            const { replayed, rejected, interrupted } = await replayMutationQueue(user.id);
+            const remaining = await getQueuedMutations(user.id);
+            updatePendingMutationCount(remaining.length);
+            if (interrupted) setIsOnline(false);
+            else if (navigator.onLine) setIsOnline(true);
+            if (rejected.length > 0) {
+                setRejectedMutationCount(count => count + rejected.length);
+                await reloadRejectedRows(user.id, rejected, remaining).catch(error => {
+                    console.error("Failed to reload rows after rejected changes:", error);
+                });
+            }
+            return replayed;
+        } catch (error) {
+            console.error("Failed to replay offline changes:", error);
+            return 0;
+        } finally {
+            isSyncingRef.current = false;
+        }
+    }, [user, updatePendingMutationCount, reloadRejectedRows]);
+
+    const dismissSyncRejections = useCallback(() => setRejectedMutationCount(0), []);
 
     const fetchData = useCallback(async () => {
         if (!user) {
             setLoading(false);
+            setReplicaOwnerId(null);
             setNotes([]);
             setCollections([]);
             setSmartCollections([]);
             setTemplates([]);
+            updatePendingMutationCount(0);
+            setRejectedMutationCount(0);
             return;
         }
         setLoading(true);
+        setReplicaOwnerId(null);
+
+        // 1. Hydrate from the local replica so the workspace is usable immediately, even offline.
+        try {
+            const replica = await loadReplica(user.id);
+            setNotes(replica.notes);
+            setCollections(replica.collections);
+            setSmartCollections(replica.smartCollections);
+            setTemplates(replica.templates);
+            setReplicaOwnerId(user.id);
+            updatePendingMutationCount((await getQueuedMutations(user.id)).length);
+        } catch (error) {
+            console.warn("Local replica unavailable; loading from the server only.", error);
+        }
+
+        // 2. Push writes made while offline before pulling, so the server snapshot includes them.
+        if (navigator.onLine) {
+            await syncNow();
+        }
+
+        // 3. Refresh from Supabase. If we're offline this fails and the replica stays in place.
         try {
-            const [notesRes, collectionsRes, smartCollectionsRes, templatesRes, versionsRes] = await Promise.all([
+            // Version history isn't part of the initial load; `loadNoteHistory` fetches it when a note's history is opened.
+            const [notesRes, collectionsRes, smartCollectionsRes, templatesRes] = await Promise.all([
                 supabase.from('notes').select('*').eq('user_id', user.id),
                 supabase.from('collections').select('*').eq('user_id', user.id),
                 supabase.from('smart_collections').select('*').eq('user_id', user.id),
                 supabase.from('templates').select('*').eq('user_id', user.id),
-                supabase.from('note_versions').select('*').eq('user_id', user.id).order('saved_at', { ascending: false })
             ]);
 
             if (notesRes.error) throw notesRes.error;
             if (collectionsRes.error) throw collectionsRes.error;
             if (smartCollectionsRes.error) throw smartCollectionsRes.error;
             if (templatesRes.error) throw templatesRes.error;
-            if (versionsRes.error) throw versionsRes.error;
 
+            // Writes queued after step 2 have not reached the server yet; keep the local state that reflects them.
+            if (pendingMutationCountRef.current > 0) return;
 
-            const versionsByNoteId = new Map<string, NoteVersion[]>();
-            if (versionsRes.data) {
-                versionsRes.data.forEach(version => {
-                    const v = fromSupabase(version) as NoteVersion & { noteId: string };
-                    if (!versionsByNoteId.has(v.noteId)) {
-                        versionsByNoteId.set(v.noteId, []);
-                    }
-                    versionsByNoteId.get(v.noteId)!.push(v);
-                });
-            }
-    
-            const notesWithHistory = (notesRes.data || []).map(noteData => {
-                const note = processNote(noteData);
-                note.history = versionsByNoteId.get(note.id) || [];
-                return note;
+            // History already loaded this session is kept, since the server rows carry none.
+            setNotes(prev => {
+                const historyByNoteId = new Map(prev.map(note => [note.id, note.history]));
+                return (notesRes.data || []).map(noteData => ({ ...processNote(noteData), history: historyByNoteId.get(noteData.id) || [] }));
             });
-    
-            setNotes(notesWithHistory);
             setCollections((collectionsRes.data || []).map(fromSupabase));
             setSmartCollections((smartCollectionsRes.data || []).map(fromSupabase));
             setTemplates((templatesRes.data || []).map(fromSupabase));
+            setReplicaOwnerId(user.id);
 
         } catch (error) {
             console.error("Error fetching data:", error);
         } finally {
             setLoading(false);
         }
-    }, [user]);
+    }, [user, syncNow, updatePendingMutationCount]);
 
     useEffect(() => {
         fetchData();
     }, [fetchData]);
 
+    // Persist the workspace to the local replica whenever it changes.
+    const workspaceSnapshot = useMemo<WorkspaceSnapshot>(
+        () => ({ ownerId: replicaOwnerId, notes, collections, smartCollections, templates }),
+        [replicaOwnerId, notes, collections, smartCollections, templates]
+    );
+    const debouncedSnapshot = useDebounce(workspaceSnapshot, 500);
+
+    useEffect(() => {
+        if (!user || debouncedSnapshot.ownerId !== user.id) return;
+        saveReplica(user.id, debouncedSnapshot).catch(error => {
+            console.warn("Failed to update local replica:", error);
+        });
+    }, [debouncedSnapshot, user]);
+
+    // Track connectivity and flush the outbound queue as soon as we're back online.
+    useEffect(() => {
+        const handleOnline = async () => {
+            setIsOnline(true);
+            const replayed = await syncNow();
+            if (replayed > 0) fetchData();
+        };
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [syncNow, fetchData]);
+
+    // A write that failed on the network is queued without the browser going offline, so no
+    // 'online' event will flush it. Keep retrying with backoff while anything is queued.
+    const hasPendingMutations = pendingMutationCount > 0;
+    useEffect(() => {
+        if (!user || !hasPendingMutations) {
+            syncRetryAttemptRef.current = 0;
+            return;
+        }
+        const userId = user.id;
+        let cancelled = false;
+        let timer: ReturnType<typeof setTimeout>;
+        const scheduleRetry = () => {
+            const delayMs = Math.min(SYNC_RETRY_MAX_MS, SYNC_RETRY_BASE_MS * 2 ** syncRetryAttemptRef.current);
+            timer = setTimeout(async () => {
+                // While the browser is offline, the 'online' handler takes over.
+                if (navigator.onLine) {
+                    syncRetryAttemptRef.current++;
+                    const replayed = await syncNow();
+                    // Pull what changed on the server meanwhile, even if draining the queue ended this effect.
+                    if (replayed > 0 && userIdRef.current === userId) fetchData();
+                    if (cancelled) return;
+                }
+                scheduleRetry();
+            }, delayMs);
+        };
+        scheduleRetry();
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [user, hasPendingMutations, syncNow, fetchData]);
+
+    /**
+     * Sends a write to Supabase, or queues it for replay if we're offline.
+     * Writes are also queued while older ones are still pending so they reach the server in order.
+     * Throws only when the server rejects the write.
+     */
+    const commit = useCallback(async (mutation: MutationInput) => {
+        if (!user) return;
+        const queued: QueuedMutation = { ...mutation, userId: user.id, createdAt: new Date().toISOString() };
+        const queueForLater = async () => {
+            await enqueueMutation(queued);
+            updatePendingMutationCount(pendingMutationCountRef.current + 1);
+        };
+
+        if (!navigator.onLine || pendingMutationCountRef.current > 0) {
+            await queueForLater();
+            return;
+        }
+        try {
+            await executeMutation(queued);
+        } catch (error) {
+            if (!isNetworkError(error)) throw error;
+            setIsOnline(false);
+            await queueForLater();
+        }
+    }, [user, updatePendingMutationCount]);
+
      useEffect(() => {
         if (!user) return;
 
         const handleNoteChanges = (payload: any) => {
             if (payload.eventType === 'INSERT') {
-                setNotes(prev => [...prev, processNote(payload.new)]);
+                // The note may already exist locally from an optimistic insert.
+                setNotes(prev => prev.some(n => n.id === payload.new.id)
+                    ? prev.map(n => n.id === payload.new.id ? { ...processNote(payload.new), history: n.history } : n)
+                    : [...prev, processNote(payload.new)]);
             } else if (payload.eventType === 'UPDATE') {
-                setNotes(prev => prev.map(n => n.id === payload.new.id ? processNote(payload.new) : n));
+                // Realtime payloads don't include history, so keep what we already have.
+                setNotes(prev => prev.map(n => n.id === payload.new.id ? { ...processNote(payload.new), history: n.history } : n));
             } else if (payload.eventType === 'DELETE') {
                 setNotes(prev => prev.filter(n => n.id !== payload.old.id));
             }
@@ -115,7 +387,9 @@ export const useStore = (user: User | undefined) => {
         
         const handleCollectionChanges = (payload: any) => {
             if (payload.eventType === 'INSERT') {
-                setCollections(prev => [...prev, fromSupabase(payload.new)]);
+                setCollections(prev => prev.some(c => c.id === payload.new.id)
+                    ? prev.map(c => c.id === payload.new.id ? fromSupabase(payload.new) : c)
+                    : [...prev, fromSupabase(payload.new)]);
             } else if (payload.eventType === 'UPDATE') {
                 setCollections(prev => prev.map(c => c.id === payload.new.id ? fromSupabase(payload.new) : c));
             } else if (payload.eventType === 'DELETE') {
@@ -125,7 +399,9 @@ export const useStore = (user: User | undefined) => {
 
         const handleSmartCollectionChanges = (payload: any) => {
             if (payload.eventType === 'INSERT') {
-                setSmartCollections(prev => [...prev, fromSupabase(payload.new)]);
+                setSmartCollections(prev => prev.some(sc => sc.id === payload.new.id)
+                    ? prev.map(sc => sc.id === payload.new.id ? fromSupabase(payload.new) : sc)
+                    : [...prev, fromSupabase(payload.new)]);
             } else if (payload.eventType === 'UPDATE') {
                 setSmartCollections(prev => prev.map(sc => sc.id === payload.new.id ? fromSupabase(payload.new) : sc));
             } else if (payload.eventType === 'DELETE') {
@@ -135,7 +411,9 @@ export const useStore = (user: User | undefined) => {
 
         const handleTemplateChanges = (payload: any) => {
             if (payload.eventType === 'INSERT') {
-                setTemplates(prev => [...prev, fromSupabase(payload.new)]);
+                setTemplates(prev => prev.some(t => t.id === payload.new.id)
+                    ? prev.map(t => t.id === payload.new.id ? fromSupabase(payload.new) : t)
+                    : [...prev, fromSupabase(payload.new)]);
             } else if (payload.eventType === 'UPDATE') {
                 setTemplates(prev => prev.map(t => t.id === payload.new.id ? fromSupabase(payload.new) : t));
             } else if (payload.eventType === 'DELETE') {
@@ -169,40 +447,73 @@ export const useStore = (user: User | undefined) => {
 
     const addNote = useCallback(async (parentId: string | null = null, title = "Untitled Note", content = "") => {
         if (!user) throw new Error("User must be logged in to create a note.");
-        const newNoteForDb = { 
-            title, 
-            content, 
-            is_favorite: false, 
-            tags: [], 
-            parent_id: parentId,
-            user_id: user.id,
+        const now = new Date().toISOString();
+        const newNote: Note = {
+            id: crypto.randomUUID(),
+            userId: user.id,
+            title,
+            content,
+            createdAt: now,
+            updatedAt: now,
+            isFavorite: false,
+            tags: [],
+            history: [],
+            parentId,
         };
-        const { data, error } = await supabase.from('notes').insert(newNoteForDb).select().single();
-        if (error) throw error;
-        return data.id;
-    }, [user]);
+        setNotes(prev => [...prev, newNote]);
+        try {
+            const { history, ...noteForDb } = newNote;
+            await commit({ op: 'insert', table: 'notes', payload: toSupabase(noteForDb) });
+        } catch (error) {
+            setNotes(prev => prev.filter(n => n.id !== newNote.id));
+            throw error;
+        }
+        return newNote.id;
+    }, [user, commit]);
 
     const addNoteFromFile = useCallback(async (title: string, content: string, parentId: string | null) => {
-        if (!user) throw new Error("User must be logged in to create a note.");
-        const newNoteForDb = { 
-            title: title.replace(/\.(md|txt)$/i, ''), 
-            content, 
-            is_favorite: false, 
-            tags: [], 
-            parent_id: parentId,
-            user_id: user.id,
-        };
-        const { data, error } = await supabase.from('notes').insert(newNoteForDb).select().single();
+        return addNote(parentId, title.replace(/\.(md|txt)$/i, ''), content);
+    }, [addNote]);
+
+    /**
+     * Compacts a note's stored history: old versions are thinned out by the retention rules
+     * and the rest re-encoded as one chain. Skipped while writes are waiting to be sent,
+     * since the versions among them aren't on the server to be accounted for.
+     */
+    const compactNoteHistory = useCallback(async (noteId: string) => {
+        if (!user || !navigator.onLine || pendingMutationCountRef.current > 0) return;
+        const { data, error } = await supabase.from('note_versions').select('*').eq('user_id', user.id).eq('note_id', noteId);
         if (error) throw error;
-        return data.id;
-    }, [user]);
+        const compacted = compactHistory((data || []).map(row => fromSupabase(row) as StoredVersion));
+        if (compacted.changed.length === 0 && compacted.removedIds.length === 0) return;
+
+        // Rewrite every row that moves to a new base before deleting any, so no delta is left pointing at a deleted row.
+        for (const row of compacted.changed) {
+            const { content, baseId, delta } = row;
+            await commit({ op: 'update', table: 'note_versions', payload: toSupabase({ content, baseId, delta }), match: { id: row.id, user_id: user.id, note_id: noteId } });
+        }
+        for (const versionId of compacted.removedIds) {
+            await commit({ op: 'delete', table: 'note_versions', match: { id: versionId, user_id: user.id, note_id: noteId } });
+        }
+
+        // The head's content is unchanged but its depth may not be. A version saved since then is left as the head.
+        if (compacted.head && versionHeadsRef.current.get(noteId)?.id === compacted.head.id) {
+            versionHeadsRef.current.set(noteId, compacted.head);
+        }
+        const removedIds = new Set(compacted.removedIds);
+        setNotes(prev => prev.map(n => n.id === noteId && n.history.some(v => v.id && removedIds.has(v.id))
+            ? { ...n, history: n.history.filter(v => !v.id || !removedIds.has(v.id)) }
+            : n));
+        await replaceReplicaRows<NoteVersion>('note_versions', user.id, [], v => !!v.id && removedIds.has(v.id));
+    }, [user, commit]);
 
     const updateNote = useCallback(async (id: string, updatedFields: Partial<Omit<Note, 'id' | 'createdAt'>>) => {
         if (!user) throw new Error("User must be logged in to update a note.");
         const noteToUpdate = notes.find(note => note.id === id);
         if (!noteToUpdate) return;
 
-        const newVersion: Omit<NoteVersion, 'id'> = {
+        const newVersion = {
+            id: crypto.randomUUID(),
             userId: user.id,
             noteId: id,
             savedAt: noteToUpdate.updatedAt,
@@ -210,76 +521,358 @@ export const useStore = (user: User | undefined) => {
             content: noteToUpdate.content,
             tags: noteToUpdate.tags
         };
-        
-        const { data: versionData, error: versionError } = await supabase.from('note_versions').insert(toSupabase(newVersion)).select('id').single();
-        
-        if (versionError) {
+        const fieldsForDb = { ...updatedFields, updatedAt: new Date().toISOString() };
+        delete fieldsForDb.history;
+
+        // Stored as a delta against the previous version when this session knows it; otherwise as a full snapshot.
+        const previousHead = versionHeadsRef.current.get(id) ?? null;
+        const encoded = encodeVersion(newVersion, previousHead);
+        versionHeadsRef.current.set(id, encoded.head);
+        const rollBackHead = () => {
+            if (versionHeadsRef.current.get(id)?.id !== newVersion.id) return;
+            if (previousHead) versionHeadsRef.current.set(id, previousHead);
+            else versionHeadsRef.current.delete(id);
+        };
+
+        // Apply locally first so the change survives going offline; roll back if the server rejects it.
+        setNotes(prev => prev.map(n => n.id === id ? { ...n, ...fieldsForDb, history: [newVersion, ...n.history] } : n));
+        const rollBack = () => {
+            setNotes(prev => prev.map(n => n.id === id ? noteToUpdate : n));
+            rollBackHead();
+        };
+
+        try {
+            await commit({ op: 'insert', table: 'note_versions', payload: toSupabase(encoded.row) });
+        } catch (versionError) {
             console.error("Failed to save note version:", versionError);
+            rollBack();
             throw new Error("Failed to save note history. Aborting update to maintain consistency.");
         }
 
-        const newVersionId = versionData?.id;
-
         try {
-            const { error: noteError } = await supabase.from('notes').update(toSupabase({ ...updatedFields, updatedAt: new Date().toISOString() })).eq('id', id).eq('user_id', user.id);
-            if (noteError) throw noteError;
+            await commit({ op: 'update', table: 'notes', payload: toSupabase(fieldsForDb), match: { id, user_id: user.id } });
         } catch (error) {
             // If the note update fails, attempt to roll back the version insert.
             console.error("Note update failed. Attempting to roll back version history.", error);
-            if (newVersionId) {
-                await supabase.from('note_versions').delete().eq('id', newVersionId);
-                console.log(`Rolled back orphaned note version: ${newVersionId}`);
-            }
+            rollBack();
+            await commit({ op: 'delete', table: 'note_versions', match: { id: newVersion.id!, note_id: id } }).catch(() => {});
+            console.log(`Rolled back orphaned note version: ${newVersion.id}`);
             // Re-throw the original error to notify the caller
             throw error;
         }
-    }, [notes, user]);
+        replaceReplicaRows('note_versions', user.id, [newVersion], v => v.id === newVersion.id).catch(error => {
+            console.warn("Failed to update local replica:", error);
+        });
+        // Each new snapshot starts a chain, which is when the history is compacted.
+        if (encoded.head.depth === 0) {
+            compactNoteHistory(id).catch(error => console.warn("Failed to compact note history:", error));
+        }
+    }, [notes, user, commit, compactNoteHistory]);
+
+    /**
+     * Fetches a note's version history, newest first, as the retention rules keep it.
+     * Offline, the versions in the local replica are returned instead. Nothing is written
+     * to the server; `compactNoteHistory` does that after saves.
+     */
+    const loadNoteHistory = useCallback(async (noteId: string): Promise<NoteVersion[]> => {
+        if (!user) throw new Error("User must be logged in to view note history.");
+        let versions: NoteVersion[];
+        try {
+            const { data, error } = await supabase.from('note_versions').select('*').eq('user_id', user.id).eq('note_id', noteId);
+            if (error) throw error;
+            const rows = (data || []).map(row => fromSupabase(row) as StoredVersion);
+            versions = applyRetention(decodeVersions(rows));
+            // With versions waiting to be sent, the server's newest isn't this note's newest, and
+            // the replica holds versions the server doesn't have yet.
+            if (pendingMutationCountRef.current === 0) {
+                // A head this session already has is newer than anything fetched, or as new.
+                const head = versionHeadsRef.current.has(noteId) ? null : getChainHead(rows);
+                if (head) versionHeadsRef.current.set(noteId, head);
+                replaceReplicaRows('note_versions', user.id, versions, v => v.noteId === noteId).catch(error => {
+                    console.warn("Failed to update local replica:", error);
+                });
+            }
+        } catch (error) {
+            if (!isNetworkError(error)) throw error;
+            versions = sortNewestFirst((await readReplica<NoteVersion>('note_versions', user.id)).filter(v => v.noteId === noteId));
+        }
+        setNotes(prev => prev.map(n => {
+            if (n.id !== noteId) return n;
+            // Versions saved while the fetch was in flight, or still queued offline, aren't in it yet.
+            const loadedIds = new Set(versions.map(v => v.id));
+            const unsent = n.history.filter(v => !loadedIds.has(v.id) && v.savedAt > (versions[0]?.savedAt ?? ''));
+            return { ...n, history: [...unsent, ...versions] };
+        }));
+        return versions;
+    }, [user]);
+
+    /**
+     * Fetches the version history of every note, e.g. for a full backup.
+     * @returns Each note's versions, newest first, by note id.
+     */
+    const loadAllNoteHistory = useCallback(async (): Promise<Map<string, NoteVersion[]>> => {
+        if (!user) throw new Error("User must be logged in to view note history.");
+        try {
+            const { data, error } = await supabase.from('note_versions').select('*').eq('user_id', user.id);
+            if (error) throw error;
+            return groupVersionsByNote(decodeVersions((data || []).map(row => fromSupabase(row) as StoredVersion)));
+        } catch (error) {
+            if (!isNetworkError(error)) throw error;
+            return groupVersionsByNote(sortNewestFirst(await readReplica<NoteVersion>('note_versions', user.id)));
+        }
+    }, [user]);
     
     const restoreNoteVersion = useCallback(async (noteId: string, version: NoteVersion) => {
         const { title, content, tags } = version;
         await updateNote(noteId, { title, content, tags });
     }, [updateNote]);
 
+    /**
+     * Moves notes and folders to the trash in one step. Each item remembers the folder path
+     * it was trashed from, so it can be put back even if those folders are gone by then.
+     */
+    const moveToTrash = useCallback(async (selection: TrashSelection) => {
+        if (!user) throw new Error("User must be logged in to delete items.");
+        const deletedAt = new Date().toISOString();
+        const collectionIds = new Set(selection.collectionIds);
+        const noteIds = new Set(selection.noteIds);
+        const deletedFrom: Record<string, string[]> = {};
+        collections.filter(c => collectionIds.has(c.id)).forEach(c => { deletedFrom[c.id] = getFolderPath(c.parentId, collections); });
+        notes.filter(n => noteIds.has(n.id)).forEach(n => { deletedFrom[n.id] = getFolderPath(n.parentId, collections); });
+
+        setCollections(prev => prev.map(c => collectionIds.has(c.id) ? { ...c, deletedAt, deletedFrom: deletedFrom[c.id] } : c));
+        setNotes(prev => prev.map(n => noteIds.has(n.id) ? { ...n, deletedAt, deletedFrom: deletedFrom[n.id] } : n));
+        try {
+            await commit({
+                op: 'rpc',
+                table: 'move_to_trash',
+                payload: { p_collection_ids: selection.collectionIds, p_note_ids: selection.noteIds, p_deleted_at: deletedAt, p_deleted_from: deletedFrom },
+            });
+        } catch (error) {
+            setCollections(prev => prev.map(c => collectionIds.has(c.id) ? { ...c, deletedAt: null, deletedFrom: null } : c));
+            setNotes(prev => prev.map(n => noteIds.has(n.id) ? { ...n, deletedAt: null, deletedFrom: null } : n));
+            throw error;
+        }
+    }, [notes, collections, user, commit]);
+
+    /**
+     * Takes a trashed note or folder out of the trash with everything that was trashed along
+     * with it, and puts it back in its original folder. Trashed folders above it are restored
+     * too; folders that have since been deleted for good are recreated from their names.
+     */
+    const restoreFromTrash = useCallback(async (itemId: string) => {
+        if (!user) throw new Error("User must be logged in to restore items.");
+        const plan = planRestore(itemId, notes, collections);
+        if (!plan) throw new Error("That item is not in the trash.");
+        const { restore, reattach } = plan;
+
+        // Reuse the folders of the original path that still exist and recreate the rest.
+        let reattachParentId: string | null = null;
+        const recreated: Collection[] = [];
+        for (const name of reattach?.path ?? []) {
+            const existing = collections.find(c => !c.deletedAt && c.parentId === reattachParentId && c.name === name);
+            if (existing) {
+                reattachParentId = existing.id;
+                continue;
+            }
+            const folder: Collection = { id: crypto.randomUUID(), name, parentId: reattachParentId, userId: user.id };
+            recreated.push(folder);
+            reattachParentId = folder.id;
+        }
+
+        const collectionIds = new Set(restore.collectionIds);
+        const noteIds = new Set(restore.noteIds);
+        const originalCollections = new Map(collections.filter(c => collectionIds.has(c.id)).map(c => [c.id, c]));
+        const originalNotes = new Map(notes.filter(n => noteIds.has(n.id)).map(n => [n.id, n]));
+        const restoreItem = <T extends Note | Collection>(item: T): T => ({
+            ...item,
+            deletedAt: null,
+            deletedFrom: null,
+            ...(reattach?.id === item.id ? { parentId: reattachParentId } : {}),
+        });
+        setCollections(prev => [...prev.map(c => collectionIds.has(c.id) ? restoreItem(c) : c), ...recreated]);
+        setNotes(prev => prev.map(n => noteIds.has(n.id) ? restoreItem(n) : n));
+
+        try {
+            for (const folder of recreated) {
+                await commit({ op: 'insert', table: 'collections', payload: toSupabase(folder) });
+            }
+            await commit({ op: 'rpc', table: 'restore_from_trash', payload: { p_collection_ids: restore.collectionIds, p_note_ids: restore.noteIds } });
+            if (reattach) {
+                await commit({
+                    op: 'update',
+                    table: reattach.type === 'note' ? 'notes' : 'collections',
+                    payload: { parent_id: reattachParentId },
+                    match: { id: reattach.id, user_id: user.id },
+                });
+            }
+        } catch (error) {
+            const recreatedIds = new Set(recreated.map(c => c.id));
+            setCollections(prev => prev.filter(c => !recreatedIds.has(c.id)).map(c => originalCollections.get(c.id) ?? c));
+            setNotes(prev => prev.map(n => originalNotes.get(n.id) ?? n));
+            throw error;
+        }
+    }, [notes, collections, user, commit]);
+
+    // Deletes trashed items for good; their version history goes with them.
+    const deleteTrashedItems = useCallback(async (selection: TrashSelection) => {
+        if (!user) throw new Error("User must be logged in to empty the trash.");
+        if (selection.collectionIds.length === 0 && selection.noteIds.length === 0) return;
+        const collectionIds = new Set(selection.collectionIds);
+        const noteIds = new Set(selection.noteIds);
+        const removedCollections = collections.filter(c => collectionIds.has(c.id));
+        const removedNotes = notes.filter(n => noteIds.has(n.id));
+        setCollections(prev => prev.filter(c => !collectionIds.has(c.id)));
+        setNotes(prev => prev.filter(n => !noteIds.has(n.id)));
+        try {
+            await commit({ op: 'rpc', table: 'delete_from_trash', payload: { p_collection_ids: selection.collectionIds, p_note_ids: selection.noteIds } });
+        } catch (error) {
+            setCollections(prev => [...prev, ...removedCollections]);
+            setNotes(prev => [...prev, ...removedNotes]);
+            throw error;
+        }
+    }, [notes, collections, user, commit]);
+
+    const trash = useMemo(() => getTrashEntries(notes, collections), [notes, collections]);
+
+    const deleteFromTrash = useCallback(async (itemId: string) => {
+        const entry = trash.find(e => e.id === itemId);
+        if (!entry) throw new Error("That item is not in the trash.");
+        await deleteTrashedItems(entry.contents);
+    }, [trash, deleteTrashedItems]);
+
+    const emptyTrash = useCallback(() => deleteTrashedItems(getAllTrash(notes, collections)), [notes, collections, deleteTrashedItems]);
+
+    // Deletes what has been in the trash longer than the retention period set in Settings.
+    const purgeExpiredTrash = useCallback(
+        () => deleteTrashedItems(getExpiredTrash(notes, collections, loadTrashRetentionDays())),
+        [notes, collections, deleteTrashedItems]
+    );
+
+    // Purge once per sign-in, as soon as the workspace has loaded.
+    const purgedForUserRef = useRef<string | null>(null);
+    useEffect(() => {
+        if (!user || loading || replicaOwnerId !== user.id || purgedForUserRef.current === user.id) return;
+        purgedForUserRef.current = user.id;
+        purgeExpiredTrash().catch(error => console.warn("Failed to purge expired trash:", error));
+    }, [user, loading, replicaOwnerId, purgeExpiredTrash]);
+
     const deleteNote = useCallback(async (id: string) => {
-        if (!user) throw new Error("User must be logged in to delete a note.");
-        const { error } = await supabase.from('notes').delete().eq('id', id).eq('user_id', user.id);
-        if (error) throw error;
-    }, [user]);
+        await moveToTrash({ collectionIds: [], noteIds: [id] });
+    }, [moveToTrash]);
+
+    /**
+     * Puts a deleted note back, e.g. when undoing a deletion: from the trash if it's there,
+     * otherwise by re-inserting it with its original id, without its version history.
+     */
+    const restoreDeletedNote = useCallback(async (note: Note) => {
+        if (!user) throw new Error("User must be logged in to restore a note.");
+        if (notes.some(n => n.id === note.id && n.deletedAt)) {
+            await restoreFromTrash(note.id);
+            return;
+        }
+        const restored: Note = { ...note, userId: user.id, history: [], deletedAt: null, deletedFrom: null };
+        setNotes(prev => prev.some(n => n.id === note.id) ? prev : [...prev, restored]);
+        try {
+            const { history, ...noteForDb } = restored;
+            await commit({ op: 'insert', table: 'notes', payload: toSupabase(noteForDb) });
+        } catch (error) {
+            setNotes(prev => prev.filter(n => n.id !== note.id));
+            throw error;
+        }
+    }, [notes, user, commit, restoreFromTrash]);
 
-    const getNoteById = useCallback((id: string) => notes.find(note => note.id === id), [notes]);
+    /**
+     * Puts a deleted folder back with the notes and folders that were inside it, e.g. when
+     * undoing a folder deletion: from the trash if it's there, otherwise by re-inserting them
+     * with their original ids. Folders must be ordered parents first.
+     */
+    const restoreDeletedCollection = useCallback(async (deletedCollections: Collection[], deletedNotes: Note[]) => {
+        if (!user) throw new Error("User must be logged in to restore a collection.");
+        const [root] = deletedCollections;
+        if (root && collections.some(c => c.id === root.id && c.deletedAt)) {
+            await restoreFromTrash(root.id);
+            return;
+        }
+        const restoredCollections = deletedCollections.map(c => ({ ...c, userId: user.id, deletedAt: null, deletedFrom: null }));
+        const restoredNotes: Note[] = deletedNotes.map(n => ({ ...n, userId: user.id, history: [], deletedAt: null, deletedFrom: null }));
+        const collectionIds = new Set(restoredCollections.map(c => c.id));
+        const noteIds = new Set(restoredNotes.map(n => n.id));
+        setCollections(prev => [...prev.filter(c => !collectionIds.has(c.id)), ...restoredCollections]);
+        setNotes(prev => [...prev.filter(n => !noteIds.has(n.id)), ...restoredNotes]);
+        try {
+            for (const collection of restoredCollections) {
+                await commit({ op: 'insert', table: 'collections', payload: toSupabase(collection) });
+            }
+            for (const { history, ...noteForDb } of restoredNotes) {
+                await commit({ op: 'insert', table: 'notes', payload: toSupabase(noteForDb) });
+            }
+        } catch (error) {
+            setCollections(prev => prev.filter(c => !collectionIds.has(c.id)));
+            setNotes(prev => prev.filter(n => !noteIds.has(n.id)));
+            throw error;
+        }
+    }, [collections, user, commit, restoreFromTrash]);
+
+    const getNoteById = useCallback((id: string) => notes.find(note => note.id === id && !note.deletedAt), [notes]);
 
     const toggleFavorite = useCallback(async (id: string) => {
         if (!user) throw new Error("User must be logged in to update a note.");
         const note = notes.find(n => n.id === id);
         if (!note) return;
-        const { error } = await supabase.from('notes').update({ is_favorite: !note.isFavorite }).eq('id', id).eq('user_id', user.id);
-        if (error) throw error;
-    }, [notes, user]);
+        setNotes(prev => prev.map(n => n.id === id ? { ...n, isFavorite: !note.isFavorite } : n));
+        try {
+            await commit({ op: 'update', table: 'notes', payload: { is_favorite: !note.isFavorite }, match: { id, user_id: user.id } });
+        } catch (error) {
+            setNotes(prev => prev.map(n => n.id === id ? { ...n, isFavorite: note.isFavorite } : n));
+            throw error;
+        }
+    }, [notes, user, commit]);
+
+    const setNoteAliases = useCallback(async (id: string, aliases: string[]) => {
+        if (!user) throw new Error("User must be logged in to update a note.");
+        const note = notes.find(n => n.id === id);
+        if (!note) return;
+        setNotes(prev => prev.map(n => n.id === id ? { ...n, aliases } : n));
+        try {
+            await commit({ op: 'update', table: 'notes', payload: { aliases }, match: { id, user_id: user.id } });
+        } catch (error) {
+            setNotes(prev => prev.map(n => n.id === id ? { ...n, aliases: note.aliases } : n));
+            throw error;
+        }
+    }, [notes, user, commit]);
 
     const addCollection = useCallback(async (name: string, parentId: string | null = null) => {
         if (!user) throw new Error("User must be logged in to create a collection.");
-        const newCollection = { name, parentId, userId: user.id };
-        const { data, error } = await supabase.from('collections').insert(toSupabase(newCollection)).select().single();
-        if (error) throw error;
-        return data.id;
-    }, [user]);
+        const newCollection: Collection = { id: crypto.randomUUID(), name, parentId, userId: user.id };
+        setCollections(prev => [...prev, newCollection]);
+        try {
+            await commit({ op: 'insert', table: 'collections', payload: toSupabase(newCollection) });
+        } catch (error) {
+            setCollections(prev => prev.filter(c => c.id !== newCollection.id));
+            throw error;
+        }
+        return newCollection.id;
+    }, [user, commit]);
 
     const updateCollection = useCallback(async (id: string, updatedFields: Partial<Omit<Collection, 'id'>>) => {
         if (!user) throw new Error("User must be logged in to update a collection.");
-        const { error } = await supabase.from('collections').update(toSupabase(updatedFields)).eq('id', id).eq('user_id', user.id);
-        if (error) throw error;
-    }, [user]);
+        const original = collections.find(c => c.id === id);
+        setCollections(prev => prev.map(c => c.id === id ? { ...c, ...updatedFields } : c));
+        try {
+            await commit({ op: 'update', table: 'collections', payload: toSupabase(updatedFields), match: { id, user_id: user.id } });
+        } catch (error) {
+            if (original) setCollections(prev => prev.map(c => c.id === id ? original : c));
+            throw error;
+        }
+    }, [collections, user, commit]);
 
+    // The folder goes to the trash with its sub-folders and every note inside them.
     const deleteCollection = useCallback(async (collectionId: string) => {
-        if (!user) throw new Error("User must be logged in to delete a collection.");
-        // The RPC returns the IDs of deleted notes, but we don't need them
-        // as our real-time subscription will update the UI automatically.
-        const { error } = await supabase.rpc('delete_collection_and_descendants', { p_collection_id: collectionId });
-        if (error) throw error;
-        // No return value is needed.
-    }, [user]);
+        await moveToTrash(selectFolderForTrash(collectionId, notes, collections));
+    }, [notes, collections, moveToTrash]);
 
-    const getCollectionById = useCallback((id: string) => collections.find(c => c.id === id), [collections]);
+    const getCollectionById = useCallback((id: string) => collections.find(c => c.id === id && !c.deletedAt), [collections]);
 
     const moveItem = useCallback(async (draggedItemId: string, targetItemId: string | null, position: 'top' | 'bottom' | 'inside') => {
         if (!user) throw new Error("User must be logged in to move items.");
@@ -310,59 +903,99 @@ export const useStore = (user: User | undefined) => {
         }
 
         const table = isNote ? 'notes' : 'collections';
-        const { error } = await supabase.from(table).update({ parent_id: newParentId }).eq('id', draggedItemId).eq('user_id', user.id);
-
-        if (error) {
+        try {
+            await commit({ op: 'update', table, payload: { parent_id: newParentId }, match: { id: draggedItemId, user_id: user.id } });
+        } catch (error) {
             setNotes(originalNotes);
             setCollections(originalCollections);
             throw error;
         }
-    }, [notes, collections, user]);
+    }, [notes, collections, user, commit]);
 
-    const addSmartCollection = useCallback(async (name: string, query: string) => {
+    const addSmartCollection = useCallback(async (name: string, query: string, type: SmartCollectionType = 'AI', rules: SmartRuleGroup | null = null) => {
         if (!user) throw new Error("User must be logged in to create a smart collection.");
-        const newSmartCollection = { name, query, userId: user.id };
-        const { error } = await supabase.from('smart_collections').insert(toSupabase(newSmartCollection));
-        if (error) throw error;
-    }, [user]);
+        const newSmartCollection: SmartCollection = { id: crypto.randomUUID(), name, query, type, rules, userId: user.id };
+        setSmartCollections(prev => [...prev, newSmartCollection]);
+        try {
+            await commit({ op: 'insert', table: 'smart_collections', payload: toSupabase(newSmartCollection) });
+        } catch (error) {
+            setSmartCollections(prev => prev.filter(sc => sc.id !== newSmartCollection.id));
+            throw error;
+        }
+        return newSmartCollection.id;
+    }, [user, commit]);
 
     const updateSmartCollection = useCallback(async (id: string, updatedFields: Partial<Omit<SmartCollection, 'id'>>) => {
         if (!user) throw new Error("User must be logged in to update a smart collection.");
-        const { error } = await supabase.from('smart_collections').update(toSupabase(updatedFields)).eq('id', id).eq('user_id', user.id);
-        if (error) throw error;
-    }, [user]);
+        const original = smartCollections.find(sc => sc.id === id);
+        setSmartCollections(prev => prev.map(sc => sc.id === id ? { ...sc, ...updatedFields } : sc));
+        try {
+            await commit({ op: 'update', table: 'smart_collections', payload: toSupabase(updatedFields), match: { id, user_id: user.id } });
+        } catch (error) {
+            if (original) setSmartCollections(prev => prev.map(sc => sc.id === id ? original : sc));
+            throw error;
+        }
+    }, [smartCollections, user, commit]);
 
     const deleteSmartCollection = useCallback(async (id: string) => {
         if (!user) throw new Error("User must be logged in to delete a smart collection.");
-        const { error } = await supabase.from('smart_collections').delete().eq('id', id).eq('user_id', user.id);
-        if (error) throw error;
-    }, [user]);
+        const original = smartCollections.find(sc => sc.id === id);
+        setSmartCollections(prev => prev.filter(sc => sc.id !== id));
+        try {
+            await commit({ op: 'delete', table: 'smart_collections', match: { id, user_id: user.id } });
+        } catch (error) {
+            if (original) setSmartCollections(prev => [...prev, original]);
+            throw error;
+        }
+    }, [smartCollections, user, commit]);
     
     const addTemplate = useCallback(async (title: string, content: string) => {
         if (!user) throw new Error("User must be logged in to create a template.");
-        const { error } = await supabase.from('templates').insert(toSupabase({ title, content, userId: user.id }));
-        if (error) throw error;
-    }, [user]);
+        const newTemplate = { id: crypto.randomUUID(), title, content, userId: user.id };
+        setTemplates(prev => [...prev, newTemplate]);
+        try {
+            await commit({ op: 'insert', table: 'templates', payload: toSupabase(newTemplate) });
+        } catch (error) {
+            setTemplates(prev => prev.filter(t => t.id !== newTemplate.id));
+            throw error;
+        }
+        return newTemplate.id;
+    }, [user, commit]);
 
     const updateTemplate = useCallback(async (id: string, updatedFields: Partial<Omit<Template, 'id'>>) => {
         if (!user) throw new Error("User must be logged in to update a template.");
-        const { error } = await supabase.from('templates').update(toSupabase(updatedFields)).eq('id', id).eq('user_id', user.id);
-        if (error) throw error;
-    }, [user]);
+        const original = templates.find(t => t.id === id);
+        setTemplates(prev => prev.map(t => t.id === id ? { ...t, ...updatedFields } : t));
+        try {
+            await commit({ op: 'update', table: 'templates', payload: toSupabase(updatedFields), match: { id, user_id: user.id } });
+        } catch (error) {
+            if (original) setTemplates(prev => prev.map(t => t.id === id ? original : t));
+            throw error;
+        }
+    }, [templates, user, commit]);
 
     const deleteTemplate = useCallback(async (id: string) => {
         if (!user) throw new Error("User must be logged in to delete a template.");
-        const { error } = await supabase.from('templates').delete().eq('id', id).eq('user_id', user.id);
-        if (error) throw error;
-    }, [user]);
+        const original = templates.find(t => t.id === id);
+        setTemplates(prev => prev.filter(t => t.id !== id));
+        try {
+            await commit({ op: 'delete', table: 'templates', match: { id, user_id: user.id } });
+        } catch (error) {
+            if (original) setTemplates(prev => [...prev, original]);
+            throw error;
+        }
+    }, [templates, user, commit]);
 
     const importData = useCallback(async (data: { notes: Note[], collections: Collection[], smartCollections: SmartCollection[], templates: Template[] }) => {
         if (!user) throw new Error("User must be logged in to import data.");
+        if (!navigator.onLine) throw new Error("Importing a backup requires an internet connection.");
     
         const { id: currentUserId } = user;
     
         try {
             await supabase.from('note_versions').delete().eq('user_id', currentUserId);
+            versionHeadsRef.current.clear();
+            await writeReplica('note_versions', currentUserId, []).catch(error => console.warn("Failed to clear local history replica:", error));
             await supabase.from('notes').delete().eq('user_id', currentUserId);
             await supabase.from('collections').delete().eq('user_id', currentUserId);
             await supabase.from('smart_collections').delete().eq('user_id', currentUserId);
@@ -384,6 +1017,7 @@ export const useStore = (user: User | undefined) => {
                     updated_at: note.updatedAt,
                     is_favorite: note.isFavorite,
                     tags: note.tags,
+                    aliases: note.aliases ?? [],
                     parent_id: note.parentId,
                 }));
 
@@ -432,22 +1066,30 @@ export const useStore = (user: User | undefined) => {
             throw new Error("Source note not found.");
         }
 
-        const newNoteData = {
-            user_id: user.id,
-            parent_id: sourceNote.parentId,
+        const now = new Date().toISOString();
+        const newNote: Note = {
+            id: crypto.randomUUID(),
+            userId: user.id,
+            parentId: sourceNote.parentId,
             title: `Copy of ${sourceNote.title}`,
             content: sourceNote.content,
             tags: sourceNote.tags,
-            is_favorite: false,
+            isFavorite: false,
+            createdAt: now,
+            updatedAt: now,
+            history: [],
         };
+        setNotes(prev => [...prev, newNote]);
 
-        const { data, error } = await supabase.from('notes').insert(newNoteData).select().single();
-
-        if (error) {
-            throw new Error(`Failed to copy note: ${error.message}`);
+        try {
+            const { history, ...noteForDb } = newNote;
+            await commit({ op: 'insert', table: 'notes', payload: toSupabase(noteForDb) });
+        } catch (error) {
+            setNotes(prev => prev.filter(n => n.id !== newNote.id));
+            throw new Error(`Failed to copy note: ${(error as Error).message}`);
         }
-        return data.id;
-    }, [user, notes]);
+        return newNote.id;
+    }, [user, notes, commit]);
 
     const renameNoteTitle = async (id: string, title: string) => await updateNote(id, { title });
 
@@ -520,11 +1162,16 @@ export const useStore = (user: User | undefined) => {
         };
     }, [user]);
 
+    // Trashed items stay in state for the Trash, but the rest of the app only sees live ones.
+    const liveNotes = useMemo(() => notes.filter(n => !n.deletedAt), [notes]);
+    const liveCollections = useMemo(() => collections.filter(c => !c.deletedAt), [collections]);
+
     return { 
-        loading,
-        notes, collections, smartCollections, templates,
-        addNote, addNoteFromFile, updateNote, deleteNote, getNoteById, toggleFavorite, restoreNoteVersion, copyNote, renameNoteTitle,
-        addCollection, updateCollection, deleteCollection, getCollectionById, moveItem,
+        loading, isOnline, pendingMutationCount, syncNow, rejectedMutationCount, dismissSyncRejections,
+        notes: liveNotes, collections: liveCollections, smartCollections, templates,
+        trash, restoreFromTrash, deleteFromTrash, emptyTrash, purgeExpiredTrash,
+        addNote, addNoteFromFile, updateNote, deleteNote, restoreDeletedNote, getNoteById, toggleFavorite, setNoteAliases, restoreNoteVersion, loadNoteHistory, loadAllNoteHistory, copyNote, renameNoteTitle,
+        addCollection, updateCollection, deleteCollection, restoreDeletedCollection, getCollectionById, moveItem,
         addSmartCollection, updateSmartCollection, deleteSmartCollection,
         addTemplate, updateTemplate, deleteTemplate,
         importData,
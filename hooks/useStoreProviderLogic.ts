@@ -1,13 +1,18 @@
 
-import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { Note, Collection, SmartCollection, SearchMode, TreeNode } from '../types';
 import { useStore as useSupabaseStore } from './useStore';
 import { useDebounce } from './useDebounce';
-import { semanticSearchNotes } from '../services/geminiService';
 import { useAuthContext, useUIContext } from '../context/AppContext';
 import { useToast } from '../context/ToastContext';
 import { useLocalNotes } from './useLocalNotes';
 import { useRecentQueries } from './useRecentQueries';
+import { useSemanticIndex } from './useSemanticIndex';
+import { parseSearchQuery, getQueryFreeText } from '../lib/searchQuery';
+import { filterNotesByRules, isRuleBasedCollection } from '../lib/smartFolderRules';
+import { buildSearchIndex, searchIndex as runKeywordSearch, matchesQueryFilters, fuseRankings, buildSnippet, SearchResult } from '../lib/searchIndex';
+import { buildLinkIndex, getLinkTarget, resolveLinkTarget, retargetLinks } from '../lib/wikiLinks';
+import { useLinkGraph } from './useLinkGraph';
 
 const buildTree = (notes: Note[], collections: Collection[]): TreeNode[] => {
     const noteMap = new Map(notes.map(note => [note.id, { ...note, children: [] as TreeNode[] }]));
@@ -43,24 +48,33 @@ const buildTree = (notes: Note[], collections: Collection[]): TreeNode[] => {
 
 export const useStoreProviderLogic = () => {
     const { session } = useAuthContext();
-    const { isDemoMode, setView, isMobileView, setIsSidebarOpen, hideConfirmation, isAiEnabled } = useUIContext();
+    const { isDemoMode, setView, isMobileView, setIsSidebarOpen, showConfirmation, hideConfirmation, isAiEnabled, isApiKeyMissing, isAiRateLimited, isAiBudgetExceeded } = useUIContext();
     const { showToast } = useToast();
     
     const supabaseStore = useSupabaseStore(session?.user);
     const localStore = useLocalNotes();
     const store = isDemoMode ? localStore : supabaseStore;
 
-    const { notes, collections, getNoteById, deleteCollection, deleteNote, deleteSmartCollection, addNote: createNote, addNoteFromFile } = store;
+    const { notes, collections, getNoteById, deleteCollection, deleteNote, deleteSmartCollection, addNote: createNote, addNoteFromFile, updateNote } = store;
+    // Read when a link update is confirmed, so edits made while the prompt was open are kept.
+    const notesRef = useRef(notes);
+    notesRef.current = notes;
 
     const [activeNoteId, setActiveNoteId] = useState<string | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
     const [searchMode, setSearchMode] = useState<SearchMode>('KEYWORD');
     const [isAiSearching, setIsAiSearching] = useState(false);
     const [aiSearchError, setAiSearchError] = useState<string | null>(null);
-    const [aiSearchResultIds, setAiSearchResultIds] = useState<string[] | null>(null);
+    const [aiSearchResults, setAiSearchResults] = useState<SearchResult[] | null>(null);
     const [activeSmartCollectionId, setActiveSmartCollectionId] = useState<string | null>(null);
     const debouncedSearchTerm = useDebounce(searchTerm, 1000);
     const { queries: recentQueries, addQuery: addRecentQuery } = useRecentQueries();
+    const { semanticSearch, isIndexing: isSemanticIndexing, indexedNoteCount } = useSemanticIndex(
+        notes,
+        isDemoMode ? 'demo' : session?.user.id ?? null,
+        isAiEnabled && !isApiKeyMissing && !isAiRateLimited && !isAiBudgetExceeded,
+        !store.loading,
+    );
 
 
     useEffect(() => {
@@ -76,46 +90,78 @@ export const useStoreProviderLogic = () => {
     }, [debouncedSearchTerm, addRecentQuery, activeSmartCollectionId]);
     
     useEffect(() => {
-        if (searchMode === 'AI' && debouncedSearchTerm.trim() && isAiEnabled) {
+        // An open AI smart folder owns the results; `handleActivateSmartCollection` fills them.
+        if (activeSmartCollectionId) return;
+        // Semantic search only sees the free text; filters are applied when the results are fused.
+        const freeText = getQueryFreeText(parseSearchQuery(debouncedSearchTerm));
+        let cancelled = false;
+        if (searchMode === 'AI' && freeText && isAiEnabled) {
             const performAiSearch = async () => {
                 setIsAiSearching(true);
                 setAiSearchError(null);
-                setAiSearchResultIds(null);
+                setAiSearchResults(null);
                 try {
-                    const resultIds = await semanticSearchNotes(debouncedSearchTerm, notes);
-                    setAiSearchResultIds(resultIds);
+                    const results = await semanticSearch(freeText, { limit: 20 });
+                    if (!cancelled) setAiSearchResults(results.map(r => ({ noteId: r.noteId, score: r.score, snippet: '' })));
                 } catch (error) {
+                    if (cancelled) return;
                     const message = error instanceof Error ? error.message : "An unknown AI search error occurred.";
                     showToast({ message, type: 'error' });
-                    setAiSearchResultIds([]); // Clear results on error
+                    setAiSearchResults([]); // Clear results on error
                 } finally {
-                    setIsAiSearching(false);
+                    if (!cancelled) setIsAiSearching(false);
                 }
             };
             performAiSearch();
         } else {
-            setAiSearchResultIds(null);
+            setAiSearchResults(null);
             setAiSearchError(null);
             setIsAiSearching(false);
         }
-    }, [debouncedSearchTerm, searchMode, notes, isAiEnabled, showToast]);
+        // A search that is superseded, or replaced by a smart folder, must not overwrite newer results.
+        return () => { cancelled = true; };
+    }, [debouncedSearchTerm, searchMode, notes, isAiEnabled, showToast, semanticSearch, activeSmartCollectionId]);
     
     const favoriteNotes = useMemo(() => notes.filter(n => n.isFavorite).sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()), [notes]);
 
     const fileTree = useMemo(() => buildTree(notes, collections), [notes, collections]);
 
+    const keywordIndex = useMemo(() => buildSearchIndex(notes), [notes]);
+
+    const linkGraph = useLinkGraph(notes);
+
     const searchData = useMemo(() => {
         const isSearching = !!searchTerm.trim() || !!activeSmartCollectionId;
-        if (!isSearching) return { isSearching: false, visibleIds: null, matchIds: null };
-        const query = activeSmartCollectionId ? store.smartCollections.find(sc => sc.id === activeSmartCollectionId)?.query || '' : searchTerm;
+        if (!isSearching) return { isSearching: false, visibleIds: null, matchIds: null, results: [] as SearchResult[], highlightTerms: [] as string[] };
+        const smartCollection = activeSmartCollectionId ? store.smartCollections.find(sc => sc.id === activeSmartCollectionId) : undefined;
+        if (smartCollection && isRuleBasedCollection(smartCollection)) {
+            const results = filterNotesByRules(notes, smartCollection.rules, { collections })
+                .map(note => ({ noteId: note.id, score: 0, snippet: buildSnippet(note.content, []) }));
+            const matchIds = new Set(results.map(r => r.noteId));
+            return { isSearching, visibleIds: new Set(matchIds), matchIds, results, highlightTerms: [] as string[] };
+        }
+        const query = smartCollection ? smartCollection.query : searchTerm;
         const currentSearchMode = activeSmartCollectionId ? 'AI' : searchMode;
-        const matchIds = new Set<string>();
-        if (currentSearchMode === 'KEYWORD') {
-            const lowercasedQuery = query.toLowerCase();
-            notes.forEach(note => { if (note.title.toLowerCase().includes(lowercasedQuery) || note.content.toLowerCase().includes(lowercasedQuery) || note.tags.some(tag => tag.toLowerCase().includes(lowercasedQuery))) matchIds.add(note.id); });
-            collections.forEach(collection => { if (collection.name.toLowerCase().includes(lowercasedQuery)) matchIds.add(collection.id); });
-        } else if (currentSearchMode === 'AI' && aiSearchResultIds) {
-            aiSearchResultIds.forEach(id => matchIds.add(id));
+        const parsedQuery = parseSearchQuery(query);
+        const highlightTerms = [...parsedQuery.phrases, ...parsedQuery.terms];
+
+        let results = runKeywordSearch(keywordIndex, notes, parsedQuery, collections);
+        if (currentSearchMode === 'AI' && aiSearchResults) {
+            // Hybrid ranking: semantic hits must still satisfy the query's filters.
+            const noteMap = new Map(notes.map(n => [n.id, n]));
+            const semanticResults = aiSearchResults
+                .filter(r => {
+                    const note = noteMap.get(r.noteId);
+                    return !!note && matchesQueryFilters(note, parsedQuery, collections);
+                })
+                .map(r => ({ ...r, snippet: buildSnippet(noteMap.get(r.noteId)!.content, highlightTerms) }));
+            results = fuseRankings([results, semanticResults]);
+        }
+
+        const matchIds = new Set<string>(results.map(r => r.noteId));
+        if (currentSearchMode === 'KEYWORD' && parsedQuery.terms.length > 0) {
+            const lowercasedText = parsedQuery.terms.join(' ');
+            collections.forEach(collection => { if (collection.name.toLowerCase().includes(lowercasedText)) matchIds.add(collection.id); });
         }
         const visibleIds = new Set<string>(matchIds);
         const itemMap = new Map([...notes, ...collections].map(item => [item.id, item]));
@@ -126,8 +172,8 @@ export const useStoreProviderLogic = () => {
                 current = itemMap.get(current.parentId);
             }
         });
-        return { isSearching, visibleIds, matchIds };
-    }, [searchTerm, searchMode, aiSearchResultIds, notes, collections, activeSmartCollectionId, store.smartCollections]);
+        return { isSearching, visibleIds, matchIds, results, highlightTerms };
+    }, [searchTerm, searchMode, aiSearchResults, notes, collections, keywordIndex, activeSmartCollectionId, store.smartCollections]);
 
     const activeNote = useMemo(() => activeNoteId ? getNoteById(activeNoteId) : null, [activeNoteId, getNoteById]);
     const activeSmartCollection = useMemo(() => activeSmartCollectionId ? store.smartCollections.find(sc => sc.id === activeSmartCollectionId) : null, [activeSmartCollectionId, store.smartCollections]);
@@ -195,7 +241,56 @@ export const useStoreProviderLogic = () => {
         }
     }, [deleteSmartCollection, hideConfirmation]);
 
+    /**
+     * After a note is renamed, offers to point the links that use its old title at the new one.
+     */
+    const handleNoteRenamed = useCallback((noteId: string, oldTitle: string, newTitle: string) => {
+        const renamedNote = notes.find(n => n.id === noteId);
+        if (!renamedNote || !oldTitle.trim() || oldTitle.trim().toLowerCase() === newTitle.trim().toLowerCase()) return;
+        const otherNotes = notes.filter(n => n.id !== noteId);
+        // Links by the old title now lead to another note with that title or alias; leave them.
+        if (resolveLinkTarget(buildLinkIndex(otherNotes), oldTitle)) return;
+
+        const newTarget = getLinkTarget({ id: noteId, title: newTitle }, buildLinkIndex([...otherNotes, { ...renamedNote, title: newTitle }]));
+        const updates = otherNotes.flatMap(note => {
+            const result = retargetLinks(note.content, oldTitle, newTarget);
+            return result.count > 0 ? [{ noteId: note.id, ...result }] : [];
+        });
+        if (updates.length === 0) return;
+        const linkCount = updates.reduce((sum, update) => sum + update.count, 0);
+
+        showConfirmation({
+            title: 'Update Links',
+            message: `${linkCount} ${linkCount === 1 ? 'link' : 'links'} in ${updates.length} ${updates.length === 1 ? 'note' : 'notes'} still point to "${oldTitle.trim()}". Update them to "${newTitle.trim()}"?`,
+            confirmText: 'Update Links',
+            confirmClass: 'bg-light-primary hover:bg-light-primary-hover dark:bg-dark-primary dark:hover:bg-dark-primary-hover',
+            onConfirm: async () => {
+                try {
+                    let updatedCount = 0;
+                    for (const { id } of notesRef.current) {
+                        const note = notesRef.current.find(n => n.id === id);
+                        if (!note || note.id === noteId) continue;
+                        const result = retargetLinks(note.content, oldTitle, newTarget);
+                        if (result.count === 0) continue;
+                        await updateNote(note.id, { content: result.content });
+                        updatedCount += result.count;
+                    }
+                    showToast({ message: `Updated ${updatedCount} ${updatedCount === 1 ? 'link' : 'links'}.`, type: 'success' });
+                } catch (error) {
+                    showToast({ message: error instanceof Error ? error.message : 'Failed to update links.', type: 'error' });
+                } finally {
+                    hideConfirmation();
+                }
+            },
+        });
+    }, [notes, updateNote, showConfirmation, hideConfirmation, showToast]);
+
     const handleActivateSmartCollection = useCallback((collection: SmartCollection) => {
+        // Rule-based folders are evaluated locally in `searchData`; no AI call needed.
+        if (isRuleBasedCollection(collection)) {
+            setActiveSmartCollectionId(collection.id);
+            return;
+        }
         if (!isAiEnabled) {
             showToast({ message: "AI features are disabled in settings.", type: "error" });
             return;
@@ -204,17 +299,17 @@ export const useStoreProviderLogic = () => {
         const performAiSearch = async () => {
             setIsAiSearching(true);
             setAiSearchError(null);
-            setAiSearchResultIds(null);
+            setAiSearchResults(null);
             try {
-                const resultIds = await semanticSearchNotes(collection.query, notes);
-                setAiSearchResultIds(resultIds);
+                const results = await semanticSearch(collection.query, { limit: 20, minScore: 0.35 });
+                setAiSearchResults(results.map(r => ({ noteId: r.noteId, score: r.score, snippet: '' })));
             } catch (error) {
                 const message = error instanceof Error ? error.message : "An unknown AI search error occurred.";
                 showToast({ message, type: 'error' });
             } finally { setIsAiSearching(false); }
         };
         performAiSearch();
-    }, [notes, isAiEnabled, showToast]);
+    }, [isAiEnabled, showToast, semanticSearch]);
     const handleSearchTermChange = useCallback((term: string) => { if (activeSmartCollectionId) setActiveSmartCollectionId(null); setSearchTerm(term); }, [activeSmartCollectionId]);
     const handleClearActiveSmartCollection = useCallback(() => { setActiveSmartCollectionId(null); setSearchTerm(''); }, []);
 
@@ -226,6 +321,8 @@ export const useStoreProviderLogic = () => {
         handleDeleteNoteConfirm, handleDeleteCollectionConfirm, handleDeleteSmartCollectionConfirm,
         recentQueries,
         activeNotePath,
+        semanticSearch, isSemanticIndexing, indexedNoteCount,
+        linkGraph, handleNoteRenamed,
     }), [
         store, onAddNote, onAddNoteFromFile, fileTree,
         activeNoteId, activeNote, favoriteNotes, searchData, searchTerm,
@@ -234,5 +331,7 @@ export const useStoreProviderLogic = () => {
         handleDeleteNoteConfirm, handleDeleteCollectionConfirm, handleDeleteSmartCollectionConfirm,
         recentQueries,
         activeNotePath,
+        semanticSearch, isSemanticIndexing, indexedNoteCount,
+        linkGraph, handleNoteRenamed,
     ]);
 };
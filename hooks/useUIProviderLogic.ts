@@ -2,6 +2,8 @@ import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { SmartCollection, ContextMenuItem, ViewState, ConfirmationState, ConfirmationOptions, SettingsTab } from '../types';
 import { useMobileView } from './useMobileView';
 import { useApiKey } from './useApiKey';
+import { loadAiSettings, AI_SETTINGS_EVENT } from '../lib/aiSettings';
+import { isOverBudget, AI_USAGE_EVENT } from '../lib/aiUsage';
 
 const initialConfirmationState: ConfirmationState = {
     isOpen: false,
@@ -31,6 +33,7 @@ export const useUIProviderLogic = () => {
         }
     });
     const [isAiRateLimited, setIsAiRateLimited] = useState(false);
+    const [isAiBudgetExceeded, setIsAiBudgetExceeded] = useState(() => isOverBudget(loadAiSettings().budgets));
     const rateLimitTimerRef = useRef<number | null>(null);
     const [renamingItemId, setRenamingItemId] = useState<string | null>(null);
     const [draggingItemId, setDraggingItemId] = useState<string | null>(null);
@@ -83,6 +86,20 @@ export const useUIProviderLogic = () => {
         };
     }, []);
     
+    // Background AI features pause while a token budget is used up; re-checked as usage
+    // is recorded, when budgets change, and each minute so a new day or month resumes them.
+    useEffect(() => {
+        const checkBudget = () => setIsAiBudgetExceeded(isOverBudget(loadAiSettings().budgets));
+        window.addEventListener(AI_USAGE_EVENT, checkBudget);
+        window.addEventListener(AI_SETTINGS_EVENT, checkBudget);
+        const interval = window.setInterval(checkBudget, 60000);
+        return () => {
+            window.removeEventListener(AI_USAGE_EVENT, checkBudget);
+            window.removeEventListener(AI_SETTINGS_EVENT, checkBudget);
+            clearInterval(interval);
+        };
+    }, []);
+
     useEffect(() => {
         const handleKeyDown = (event: KeyboardEvent) => {
             const isMac = navigator.platform.toUpperCase().includes('MAC');
@@ -144,7 +161,7 @@ export const useUIProviderLogic = () => {
     return useMemo(() => ({
         theme, toggleTheme, view, setView, isMobileView, isSidebarOpen, setIsSidebarOpen,
         onToggleSidebar, isSidebarCollapsed, toggleSidebarCollapsed,
-        isAiRateLimited, renamingItemId, setRenamingItemId, isSettingsOpen, setIsSettingsOpen,
+        isAiRateLimited, isAiBudgetExceeded, renamingItemId, setRenamingItemId, isSettingsOpen, setIsSettingsOpen,
         openSettings, initialSettingsTab, isCommandPaletteOpen, setIsCommandPaletteOpen, isSmartFolderModalOpen,
         setIsSmartFolderModalOpen, smartFolderToEdit, openSmartFolderModal, contextMenu,
         setContextMenu, onOpenContextMenu, isWelcomeModalOpen, closeWelcomeModal, 
@@ -159,7 +176,7 @@ export const useUIProviderLogic = () => {
     }), [
         theme, toggleTheme, view, isMobileView, isSidebarOpen,
         onToggleSidebar, isSidebarCollapsed, toggleSidebarCollapsed,
-        isAiRateLimited, renamingItemId, isSettingsOpen,
+        isAiRateLimited, isAiBudgetExceeded, renamingItemId, isSettingsOpen,
         openSettings, initialSettingsTab, isCommandPaletteOpen, isSmartFolderModalOpen,
         smartFolderToEdit, openSmartFolderModal, contextMenu,
         onOpenContextMenu, isWelcomeModalOpen, closeWelcomeModal, isApiKeyMissingValue,
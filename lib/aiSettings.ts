@@ -0,0 +1,151 @@
+import { MODEL_NAMES, AI_SETTINGS_STORAGE_KEY, DEFAULT_OPENAI_COMPATIBLE_BASE_URL } from './config';
+
+export type AiProviderId = 'gemini' | 'openai-compatible';
+
+/**
+ * A group of AI features that share a provider and model.
+ */
+export type AiFeature = 'chat' | 'copilot' | 'writing' | 'suggestions' | 'spellcheck';
+
+export const AI_PROVIDERS: { id: AiProviderId; name: string }[] = [
+    { id: 'gemini', name: 'Google Gemini' },
+    { id: 'openai-compatible', name: 'OpenAI-compatible (Ollama, llama.cpp...)' },
+];
+
+export const AI_FEATURES: { id: AiFeature; name: string; description: string }[] = [
+    { id: 'chat', name: 'Chat', description: 'Assistant, Responder and Amazon chat replies, follow-ups and chat titles.' },
+    { id: 'copilot', name: 'Co-pilot', description: 'The WesCore Co-pilot. The model must support tool calling.' },
+    { id: 'writing', name: 'Writing tools', description: 'Inline edits, tone changes, summaries and note consolidation.' },
+    { id: 'suggestions', name: 'Suggestions', description: 'Title and tag suggestions.' },
+    { id: 'spellcheck', name: 'Spellcheck', description: 'Finding misspelled words and suggesting fixes.' },
+];
+
+/**
+ * A specific job within a feature. Tasks use their feature's provider, but each is routed
+ * to its own chain of models.
+ */
+export type AiTask = 'chat' | 'amazonCopy' | 'chatUtility' | 'copilot' | 'inlineEdit' | 'summary' | 'consolidation' | 'suggestions' | 'spellcheck';
+
+export const AI_TASKS: { id: AiTask; feature: AiFeature; name: string }[] = [
+    { id: 'chat', feature: 'chat', name: 'Assistant and Responder replies' },
+    { id: 'amazonCopy', feature: 'chat', name: 'Amazon copy' },
+    { id: 'chatUtility', feature: 'chat', name: 'Chat titles, summaries and follow-ups' },
+    { id: 'copilot', feature: 'copilot', name: 'Co-pilot' },
+    { id: 'inlineEdit', feature: 'writing', name: 'Inline edits and tone changes' },
+    { id: 'summary', feature: 'writing', name: 'Summaries and action items' },
+    { id: 'consolidation', feature: 'writing', name: 'Note consolidation' },
+    { id: 'suggestions', feature: 'suggestions', name: 'Title and tag suggestions' },
+    { id: 'spellcheck', feature: 'spellcheck', name: 'Spellcheck' },
+];
+
+export interface AiFeatureSetting {
+    provider: AiProviderId;
+    model: string;
+    // Whether responses may be stored in the per-user cloud cache.
+    cloudCache: boolean;
+}
+
+export interface AiSettings {
+    openAiCompatible: {
+        baseUrl: string;
+        // Optional; local servers usually don't need one.
+        apiKey: string;
+    };
+    features: Record<AiFeature, AiFeatureSetting>;
+    // Per-task model chains that replace the default routing. Missing tasks use the default.
+    routing: Partial<Record<AiTask, string[]>>;
+    // Token budgets; once one is reached, background AI features pause. Null means no limit.
+    budgets: {
+        dailyTokens: number | null;
+        monthlyTokens: number | null;
+    };
+}
+
+export const DEFAULT_GEMINI_MODELS: Record<AiFeature, string> = {
+    chat: MODEL_NAMES.FLASH,
+    copilot: MODEL_NAMES.PRO,
+    writing: MODEL_NAMES.FLASH,
+    suggestions: MODEL_NAMES.FLASH,
+    spellcheck: MODEL_NAMES.FLASH,
+};
+
+/**
+ * The default routing rules, used while a task's feature runs on Gemini with its default
+ * model. The first model is tried first and the rest are fallbacks if it is overloaded or fails.
+ */
+export const DEFAULT_GEMINI_ROUTES: Record<AiTask, string[]> = {
+    chat: [MODEL_NAMES.FLASH, MODEL_NAMES.PRO],
+    amazonCopy: [MODEL_NAMES.PRO, MODEL_NAMES.FLASH],
+    chatUtility: [MODEL_NAMES.FLASH],
+    copilot: [MODEL_NAMES.PRO, MODEL_NAMES.FLASH],
+    inlineEdit: [MODEL_NAMES.FLASH, MODEL_NAMES.PRO],
+    summary: [MODEL_NAMES.FLASH, MODEL_NAMES.PRO],
+    consolidation: [MODEL_NAMES.PRO, MODEL_NAMES.FLASH],
+    suggestions: [MODEL_NAMES.FLASH],
+    spellcheck: [MODEL_NAMES.FLASH],
+};
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+    openAiCompatible: { baseUrl: DEFAULT_OPENAI_COMPATIBLE_BASE_URL, apiKey: '' },
+    features: {
+        chat: { provider: 'gemini', model: DEFAULT_GEMINI_MODELS.chat, cloudCache: true },
+        copilot: { provider: 'gemini', model: DEFAULT_GEMINI_MODELS.copilot, cloudCache: true },
+        writing: { provider: 'gemini', model: DEFAULT_GEMINI_MODELS.writing, cloudCache: true },
+        suggestions: { provider: 'gemini', model: DEFAULT_GEMINI_MODELS.suggestions, cloudCache: true },
+        spellcheck: { provider: 'gemini', model: DEFAULT_GEMINI_MODELS.spellcheck, cloudCache: true },
+    },
+    routing: {},
+    budgets: { dailyTokens: null, monthlyTokens: null },
+};
+
+// Fired on window when settings are saved, for state derived from them outside React.
+export const AI_SETTINGS_EVENT = 'ai-settings-change';
+
+// Fills in anything missing from older or partial saved settings.
+const withDefaults = (saved: Partial<AiSettings>): AiSettings => ({
+    openAiCompatible: { ...DEFAULT_AI_SETTINGS.openAiCompatible, ...saved.openAiCompatible },
+    features: AI_FEATURES.reduce((features, { id }) => {
+        const setting = saved.features?.[id];
+        features[id] = setting?.provider && setting.model
+            ? { ...DEFAULT_AI_SETTINGS.features[id], ...setting }
+            : DEFAULT_AI_SETTINGS.features[id];
+        return features;
+    }, {} as Record<AiFeature, AiFeatureSetting>),
+    routing: AI_TASKS.reduce((routing, { id }) => {
+        const models = saved.routing?.[id];
+        if (Array.isArray(models) && models.length > 0) routing[id] = models;
+        return routing;
+    }, {} as AiSettings['routing']),
+    budgets: { ...DEFAULT_AI_SETTINGS.budgets, ...saved.budgets },
+});
+
+/**
+ * The models to try for a task, in order. A user override wins; otherwise the default
+ * routing applies while the feature uses Gemini with its default model, and choosing any
+ * other model for the feature sends all of its tasks to that model.
+ */
+export const getModelChain = (settings: AiSettings, task: AiTask): string[] => {
+    const override = settings.routing[task];
+    if (override && override.length > 0) return override;
+    const feature = AI_TASKS.find(t => t.id === task)!.feature;
+    const { provider, model } = settings.features[feature];
+    return provider === 'gemini' && model === DEFAULT_GEMINI_MODELS[feature] ? DEFAULT_GEMINI_ROUTES[task] : [model];
+};
+
+export const loadAiSettings = (): AiSettings => {
+    try {
+        const saved = localStorage.getItem(AI_SETTINGS_STORAGE_KEY);
+        return saved ? withDefaults(JSON.parse(saved)) : DEFAULT_AI_SETTINGS;
+    } catch {
+        return DEFAULT_AI_SETTINGS;
+    }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+    try {
+        localStorage.setItem(AI_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error("Error saving AI settings to localStorage", error);
+    }
+    window.dispatchEvent(new CustomEvent(AI_SETTINGS_EVENT));
+};
@@ -0,0 +1,96 @@
+import { AI_USAGE_STORAGE_KEY } from './config';
+import { AiFeature, AiSettings } from './aiSettings';
+
+// Embeddings aren't a selectable feature, but they cost tokens too.
+export type UsageFeature = AiFeature | 'embeddings';
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * Token usage for one feature and model on one local calendar day.
+ */
+export interface UsageRecord extends TokenUsage {
+    day: string;
+    feature: UsageFeature;
+    model: string;
+    requests: number;
+}
+
+export interface UsageTotals {
+    today: number;
+    thisMonth: number;
+}
+
+// Fired on window whenever usage is recorded or cleared.
+export const AI_USAGE_EVENT = 'ai-usage-change';
+
+// Enough history for this month and last month's comparison.
+const RETENTION_DAYS = 62;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * The local calendar day as YYYY-MM-DD, so budgets reset at the user's midnight.
+ */
+export const toDayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const getUsageRecords = (): UsageRecord[] => {
+    try {
+        const saved = localStorage.getItem(AI_USAGE_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+const saveUsageRecords = (records: UsageRecord[]) => {
+    try {
+        localStorage.setItem(AI_USAGE_STORAGE_KEY, JSON.stringify(records));
+    } catch (e) {
+        console.error("Failed to save AI usage", e);
+    }
+    window.dispatchEvent(new CustomEvent(AI_USAGE_EVENT));
+};
+
+/**
+ * Adds one request's token usage to today's totals for the feature and model.
+ */
+export const recordUsage = (feature: UsageFeature, model: string, usage: TokenUsage) => {
+    const now = new Date();
+    const day = toDayKey(now);
+    const oldestDay = toDayKey(new Date(now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    const records = getUsageRecords().filter(r => r.day >= oldestDay);
+
+    const existing = records.find(r => r.day === day && r.feature === feature && r.model === model);
+    if (existing) {
+        existing.requests++;
+        existing.inputTokens += usage.inputTokens;
+        existing.outputTokens += usage.outputTokens;
+    } else {
+        records.push({ day, feature, model, requests: 1, ...usage });
+    }
+    saveUsageRecords(records);
+};
+
+export const clearUsage = () => saveUsageRecords([]);
+
+export const getUsageTotals = (records: UsageRecord[] = getUsageRecords()): UsageTotals => {
+    const today = toDayKey(new Date());
+    const month = today.slice(0, 7);
+    return records.reduce((totals, r) => {
+        const tokens = r.inputTokens + r.outputTokens;
+        if (r.day === today) totals.today += tokens;
+        if (r.day.startsWith(month)) totals.thisMonth += tokens;
+        return totals;
+    }, { today: 0, thisMonth: 0 });
+};
+
+/**
+ * Whether today's or this month's token usage has reached the user's budget.
+ */
+export const isOverBudget = (budgets: AiSettings['budgets'], totals: UsageTotals = getUsageTotals()) =>
+    (budgets.dailyTokens !== null && totals.today >= budgets.dailyTokens) ||
+    (budgets.monthlyTokens !== null && totals.thisMonth >= budgets.monthlyTokens);
@@ -1,5 +1,8 @@
+import { AI_CACHE_STATS_STORAGE_KEY, AI_CACHE_L1_BYTE_BUDGET, AI_CACHE_L1_LARGE_ENTRY_BYTES } from './config';
+import { withL1CacheStore, promisifyRequest } from './offlineDb';
 
 const CACHE_STALE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
 
 /**
  * Generates a SHA-256 hash from a string.
@@ -14,40 +17,277 @@ export async function sha256(message: string): Promise<string> {
     return hashHex;
 }
 
+export interface L1CacheOptions {
+    /** Prefix for every key this cache writes, in localStorage and IndexedDB. */
+    namespace: string;
+    /** The most the cache may hold across both storage tiers. */
+    byteBudget: number;
+    /** Entries at least this large are kept in IndexedDB instead of localStorage. */
+    largeEntryBytes: number;
+    staleMs: number;
+    sweepIntervalMs: number;
+    /** Matches keys left behind by an older cache format, which the sweep removes. */
+    isLegacyKey?: (key: string) => boolean;
+}
+
+export interface L1CacheStats {
+    entries: number;
+    bytes: number;
+    hits: number;
+    misses: number;
+}
+
+export interface L1Cache {
+    get: <T>(key: string) => Promise<T | null>;
+    set: (key: string, data: unknown) => Promise<void>;
+    clear: () => Promise<void>;
+    getStats: () => L1CacheStats;
+}
+
+interface EntryMeta {
+    size: number;
+    savedAt: number;
+    lastUsedAt: number;
+    location: 'local' | 'idb';
+}
+
+interface CacheIndex {
+    entries: Record<string, EntryMeta>;
+    hits: number;
+    misses: number;
+}
+
 /**
- * Retrieves and validates a cache entry from localStorage.
- * @param key The cache key (hash).
- * @returns The cached data if it's not stale, otherwise null.
+ * Creates a size-bounded cache with least-recently-used eviction. Small entries are
+ * stored in localStorage and large ones in IndexedDB; an index in localStorage tracks
+ * sizes and access times for both. Stale entries are swept in the background.
  */
-export const getLocalCache = (key: string) => {
-  try {
-    const item = localStorage.getItem(key);
-    if (!item) return null;
-
-    const cache = JSON.parse(item);
-    if (Date.now() - cache.timestamp > CACHE_STALE_MS) {
-      localStorage.removeItem(key);
-      return null;
+export const createL1Cache = (options: L1CacheOptions): L1Cache => {
+    const { namespace, byteBudget, largeEntryBytes, staleMs, sweepIntervalMs, isLegacyKey } = options;
+    const indexKey = `${namespace}:index`;
+    const entryKey = (key: string) => `${namespace}:${key}`;
+
+    let index: CacheIndex | null = null;
+    let sweepTimer: ReturnType<typeof setInterval> | null = null;
+    let lastAccessAt = 0;
+
+    // Access times must be strictly increasing so eviction order survives same-millisecond reads.
+    const nextAccessTime = () => (lastAccessAt = Math.max(Date.now(), lastAccessAt + 1));
+
+    const getIndex = (): CacheIndex => {
+        if (index) return index;
+        try {
+            const saved = localStorage.getItem(indexKey);
+            index = saved ? JSON.parse(saved) : null;
+        } catch (e) {
+            index = null;
+        }
+        index = index ?? { entries: {}, hits: 0, misses: 0 };
+        return index;
+    };
+
+    const saveIndex = () => {
+        try {
+            localStorage.setItem(indexKey, JSON.stringify(getIndex()));
+        } catch (e) {
+            console.error("Failed to save cache index", e);
+        }
+    };
+
+    const totalBytes = () => Object.values(getIndex().entries).reduce((sum, meta) => sum + meta.size, 0);
+
+    const removeEntry = async (key: string) => {
+        const meta = getIndex().entries[key];
+        if (!meta) return;
+        delete getIndex().entries[key];
+        if (meta.location === 'local') {
+            localStorage.removeItem(entryKey(key));
+        } else {
+            await withL1CacheStore('readwrite', async (store) => { store.delete(entryKey(key)); })
+                .catch(e => console.warn("Failed to delete cache entry from IndexedDB", e));
+        }
+    };
+
+    const evictLeastRecentlyUsed = async (bytesNeeded: number) => {
+        const byLastUse = Object.entries(getIndex().entries).sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt);
+        let bytes = totalBytes();
+        for (const [key, meta] of byLastUse) {
+            if (bytes + bytesNeeded <= byteBudget) break;
+            await removeEntry(key);
+            bytes -= meta.size;
+        }
+    };
+
+    const sweep = async () => {
+        const now = Date.now();
+        const entries = getIndex().entries;
+        for (const [key, meta] of Object.entries(entries)) {
+            if (now - meta.savedAt > staleMs) await removeEntry(key);
+        }
+        // Drop values that no longer have an index entry, e.g. after another tab rewrote the index.
+        const prefix = `${namespace}:`;
+        Object.keys(localStorage).forEach(storageKey => {
+            if (storageKey.startsWith(prefix) && storageKey !== indexKey && !entries[storageKey.slice(prefix.length)]) {
+                localStorage.removeItem(storageKey);
+            } else if (isLegacyKey?.(storageKey)) {
+                localStorage.removeItem(storageKey);
+            }
+        });
+        await withL1CacheStore('readwrite', async (store) => {
+            const keys = await promisifyRequest(store.getAllKeys()) as string[];
+            keys.forEach(storageKey => {
+                const meta = entries[storageKey.slice(prefix.length)];
+                if (storageKey.startsWith(prefix) && meta?.location !== 'idb') store.delete(storageKey);
+            });
+        }).catch(e => console.warn("Failed to sweep IndexedDB cache entries", e));
+        saveIndex();
+    };
+
+    const startSweeping = () => {
+        if (sweepTimer || typeof window === 'undefined') return;
+        sweepTimer = setInterval(() => { sweep(); }, sweepIntervalMs);
+        sweep();
+    };
+
+    const recordMiss = () => {
+        getIndex().misses++;
+        saveIndex();
+        return null;
+    };
+
+    const get = async <T>(key: string): Promise<T | null> => {
+        startSweeping();
+        const meta = getIndex().entries[key];
+        if (!meta) return recordMiss();
+        if (Date.now() - meta.savedAt > staleMs) {
+            await removeEntry(key);
+            return recordMiss();
+        }
+
+        let data: T | undefined;
+        try {
+            if (meta.location === 'local') {
+                const item = localStorage.getItem(entryKey(key));
+                if (item !== null) data = JSON.parse(item);
+            } else {
+                const row = await withL1CacheStore('readonly', (store) => promisifyRequest(store.get(entryKey(key))));
+                data = row?.data;
+            }
+        } catch (e) {
+            // If reading or parsing fails, treat it as a cache miss.
+        }
+        if (data === undefined) {
+            await removeEntry(key);
+            return recordMiss();
+        }
+
+        meta.lastUsedAt = nextAccessTime();
+        getIndex().hits++;
+        saveIndex();
+        return data;
+    };
+
+    const set = async (key: string, data: unknown) => {
+        startSweeping();
+        const serialized = JSON.stringify(data);
+        // localStorage stores UTF-16, so every character costs two bytes.
+        const size = serialized.length * 2;
+        if (size > byteBudget) return;
+
+        await removeEntry(key);
+        await evictLeastRecentlyUsed(size);
+
+        let location: EntryMeta['location'] = size >= largeEntryBytes ? 'idb' : 'local';
+        if (location === 'local') {
+            try {
+                localStorage.setItem(entryKey(key), serialized);
+            } catch (e) {
+                // The quota is shared with the rest of the app; fall back rather than fail.
+                location = 'idb';
+            }
+        }
+        if (location === 'idb') {
+            try {
+                await withL1CacheStore('readwrite', async (store) => { store.put({ key: entryKey(key), data }); });
+            } catch (e) {
+                console.error("Failed to set local cache", e);
+                saveIndex();
+                return;
+            }
+        }
+
+        getIndex().entries[key] = { size, savedAt: Date.now(), lastUsedAt: nextAccessTime(), location };
+        saveIndex();
+    };
+
+    const clear = async () => {
+        for (const key of Object.keys(getIndex().entries)) {
+            await removeEntry(key);
+        }
+        index = { entries: {}, hits: 0, misses: 0 };
+        saveIndex();
+    };
+
+    const getStats = (): L1CacheStats => {
+        const { entries, hits, misses } = getIndex();
+        return { entries: Object.keys(entries).length, bytes: totalBytes(), hits, misses };
+    };
+
+    return { get, set, clear, getStats };
+};
+
+/**
+ * This browser's cache of AI responses.
+ */
+export const aiResponseCache = createL1Cache({
+    namespace: 'wesai-ai-cache',
+    byteBudget: AI_CACHE_L1_BYTE_BUDGET,
+    largeEntryBytes: AI_CACHE_L1_LARGE_ENTRY_BYTES,
+    staleMs: CACHE_STALE_MS,
+    sweepIntervalMs: SWEEP_INTERVAL_MS,
+    // Responses used to be stored under bare SHA-256 keys.
+    isLegacyKey: (key) => /^[0-9a-f]{64}$/.test(key),
+});
+
+export type CacheLookupResult = 'local' | 'cloud' | 'miss';
+
+export interface CacheCounters {
+    localHits: number;
+    cloudHits: number;
+    misses: number;
+}
+
+const EMPTY_COUNTERS: CacheCounters = { localHits: 0, cloudHits: 0, misses: 0 };
+
+export const getCacheCounters = (): CacheCounters => {
+    try {
+        const saved = localStorage.getItem(AI_CACHE_STATS_STORAGE_KEY);
+        return saved ? { ...EMPTY_COUNTERS, ...JSON.parse(saved) } : EMPTY_COUNTERS;
+    } catch (e) {
+        return EMPTY_COUNTERS;
     }
-    return cache.data;
-  } catch (e) {
-    // If parsing fails, treat it as a cache miss.
-    return null;
-  }
 };
 
 /**
- * Saves data to localStorage with a timestamp.
- * @param key The cache key (hash).
- * @param data The data to store.
+ * Counts where a cached AI request was answered from, for the hit rate shown in Settings.
+ * @param result The cache level that answered, or 'miss' if the provider had to be called.
  */
-export const setLocalCache = (key: string, data: any) => {
-  try {
-    localStorage.setItem(key, JSON.stringify({
-      data,
-      timestamp: Date.now(),
-    }));
-  } catch (e) {
-    console.error("Failed to set local cache", e);
-  }
-};
\ No newline at end of file
+export const recordCacheLookup = (result: CacheLookupResult) => {
+    const counters = { ...getCacheCounters() };
+    if (result === 'local') counters.localHits++;
+    else if (result === 'cloud') counters.cloudHits++;
+    else counters.misses++;
+    try {
+        localStorage.setItem(AI_CACHE_STATS_STORAGE_KEY, JSON.stringify(counters));
+    } catch (e) {
+        // Losing a count is harmless.
+    }
+};
+
+/**
+ * Removes every locally cached AI response and resets the hit counters.
+ */
+export const clearLocalCache = async () => {
+    await aiResponseCache.clear();
+    localStorage.removeItem(AI_CACHE_STATS_STORAGE_KEY);
+};
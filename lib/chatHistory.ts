@@ -0,0 +1,92 @@
+import { ChatMessage, ChatSessionSummary } from '../types';
+
+/**
+ * Token budget for the verbatim part of a conversation sent with each turn.
+ * Once exceeded, older turns are folded into the session's rolling summary.
+ */
+export const CHAT_HISTORY_TOKEN_BUDGET = 4000;
+
+// Summaries kept per session; older ones are only useful to branches left long ago.
+const MAX_STORED_SUMMARIES = 10;
+
+/**
+ * A prior text turn of a conversation, in the shape the model expects.
+ */
+export interface ChatTurn {
+    id: string;
+    role: 'user' | 'model';
+    text: string;
+}
+
+// A rough, provider-agnostic estimate; about four characters per token for English prose.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const countTokens = (turns: ChatTurn[]) => turns.reduce((sum, turn) => sum + estimateTokens(turn.text), 0);
+
+/**
+ * Extracts the text turns from a chat transcript. Tool calls and empty messages are skipped.
+ */
+export const toChatTurns = (messages: ChatMessage[]): ChatTurn[] =>
+    messages
+        .filter(m => m.role !== 'tool' && typeof m.content === 'string' && m.content.trim())
+        .map(m => ({ id: m.id, role: m.role === 'user' ? 'user' : 'model', text: m.content as string }));
+
+/**
+ * What to send as conversation history for the next turn.
+ */
+export interface ChatHistoryPlan {
+    // The existing summary, if it still matches the transcript.
+    summary: ChatSessionSummary | null;
+    // Turns that must be folded into the summary before sending.
+    toSummarize: ChatTurn[];
+    // Turns sent verbatim, oldest first.
+    recent: ChatTurn[];
+}
+
+/**
+ * Adds a summary to a session's summaries, replacing any with the same boundary.
+ */
+export const addSummary = (summaries: ChatSessionSummary[] | undefined, summary: ChatSessionSummary): ChatSessionSummary[] =>
+    [...(summaries ?? []).filter(s => s.throughMessageId !== summary.throughMessageId), summary].slice(-MAX_STORED_SUMMARIES);
+
+/**
+ * Splits a conversation into summarized and verbatim parts. When the unsummarized
+ * turns exceed the budget, the oldest are folded until half the budget remains,
+ * so the summary is refreshed occasionally rather than on every turn.
+ * @param turns The prior turns of the conversation, oldest first.
+ * @param summaries The session's summaries. The one reaching furthest along `turns` is
+ * used; summaries made on other branches don't match any turn and are ignored.
+ * @param budget The token budget for verbatim turns.
+ */
+export const planChatHistory = (turns: ChatTurn[], summaries: ChatSessionSummary[] | undefined, budget = CHAT_HISTORY_TOKEN_BUDGET): ChatHistoryPlan => {
+    const turnIndexById = new Map(turns.map((turn, index) => [turn.id, index]));
+    let validSummary: ChatSessionSummary | null = null;
+    let summaryIndex = -1;
+    (summaries ?? []).forEach(summary => {
+        const index = turnIndexById.get(summary.throughMessageId) ?? -1;
+        if (index > summaryIndex) {
+            validSummary = summary;
+            summaryIndex = index;
+        }
+    });
+    const unsummarized = turns.slice(summaryIndex + 1);
+
+    if (countTokens(unsummarized) <= budget) {
+        return { summary: validSummary, toSummarize: [], recent: unsummarized };
+    }
+
+    let split = unsummarized.length;
+    let kept = 0;
+    while (split > 0 && kept + estimateTokens(unsummarized[split - 1].text) <= budget / 2) {
+        kept += estimateTokens(unsummarized[--split].text);
+    }
+    // Always keep the latest exchange, and start the verbatim part on a user turn.
+    split = Math.min(split, Math.max(0, unsummarized.length - 2));
+    while (split < unsummarized.length && unsummarized[split].role !== 'user') split++;
+
+    return {
+        summary: validSummary,
+        toSummarize: unsummarized.slice(0, split),
+        recent: unsummarized.slice(split),
+    };
+};
@@ -0,0 +1,110 @@
+import { ChatMessage } from '../types';
+
+/**
+ * Resolves every message's parent. Messages saved before branching existed have no
+ * `parentId` and follow the message before them; a parent that is no longer in the
+ * transcript (e.g. trimmed from storage) makes the message a root.
+ */
+export const resolveParents = (messages: ChatMessage[]): Map<string, string | null> => {
+    const ids = new Set(messages.map(m => m.id));
+    const parents = new Map<string, string | null>();
+    messages.forEach((message, index) => {
+        const parentId = message.parentId !== undefined ? message.parentId : messages[index - 1]?.id ?? null;
+        parents.set(message.id, parentId && ids.has(parentId) ? parentId : null);
+    });
+    return parents;
+};
+
+const getChildren = (messages: ChatMessage[], parents: Map<string, string | null>, parentId: string | null) =>
+    messages.filter(m => parents.get(m.id) === parentId);
+
+const getAncestry = (messages: ChatMessage[], parents: Map<string, string | null>, messageId: string | null | undefined) => {
+    const byId = new Map(messages.map(m => [m.id, m]));
+    const path: ChatMessage[] = [];
+    for (let id = messageId && byId.has(messageId) ? messageId : null; id; id = parents.get(id) ?? null) {
+        path.unshift(byId.get(id)!);
+    }
+    return path;
+};
+
+/**
+ * The conversation leading up to and including a message.
+ */
+export const getPathTo = (messages: ChatMessage[], messageId: string | null): ChatMessage[] =>
+    getAncestry(messages, resolveParents(messages), messageId);
+
+/**
+ * The branch of the conversation on screen: the selected message's ancestors, then
+ * down through the newest reply at each step. Without a selection the newest branch is shown.
+ */
+export const getActivePath = (messages: ChatMessage[], activeLeafId: string | null | undefined): ChatMessage[] => {
+    const parents = resolveParents(messages);
+    const path = getAncestry(messages, parents, activeLeafId);
+
+    let current = path[path.length - 1];
+    if (!current) {
+        const roots = getChildren(messages, parents, null);
+        current = roots[roots.length - 1];
+        if (!current) return [];
+        path.push(current);
+    }
+    for (let children = getChildren(messages, parents, current.id); children.length > 0; children = getChildren(messages, parents, current.id)) {
+        current = children[children.length - 1];
+        path.push(current);
+    }
+    return path;
+};
+
+/**
+ * The alternatives to a message: the messages sharing its parent, itself included, oldest first.
+ */
+export const getSiblings = (messages: ChatMessage[], messageId: string): ChatMessage[] => {
+    const parents = resolveParents(messages);
+    if (!parents.has(messageId)) return [];
+    return getChildren(messages, parents, parents.get(messageId)!);
+};
+
+/**
+ * The parent of a message, or null for the first message of a conversation.
+ */
+export const getParentId = (messages: ChatMessage[], messageId: string): string | null =>
+    resolveParents(messages).get(messageId) ?? null;
+
+/**
+ * Removes a message from the tree. Its replies move up to its parent, so deleting one
+ * message never takes the rest of the conversation with it.
+ */
+export const removeMessage = (messages: ChatMessage[], messageId: string): ChatMessage[] => {
+    const parents = resolveParents(messages);
+    const parentId = parents.get(messageId) ?? null;
+    return messages
+        .filter(m => m.id !== messageId)
+        // Every parent is made explicit, since the message legacy ones followed may be gone.
+        .map(m => {
+            const resolved = parents.get(m.id)!;
+            return { ...m, parentId: resolved === messageId ? parentId : resolved };
+        });
+};
+
+/**
+ * Cuts a conversation down to at most `max` messages. The newest part of the branch on
+ * screen is kept first, then other branches, newest first, each only if the messages
+ * above it fit too so it stays attached where it was. Parents are made explicit, since
+ * the message a legacy one followed may be gone.
+ */
+export const trimMessageTree = (messages: ChatMessage[], activeLeafId: string | null | undefined, max: number): ChatMessage[] => {
+    if (messages.length <= max) return messages;
+    const parents = resolveParents(messages);
+    const kept = new Set(getActivePath(messages, activeLeafId).slice(-max).map(m => m.id));
+    for (let i = messages.length - 1; i >= 0 && kept.size < max; i--) {
+        const chain: string[] = [];
+        for (let id: string | null = messages[i].id; id && !kept.has(id); id = parents.get(id) ?? null) chain.push(id);
+        if (kept.size + chain.length <= max) chain.forEach(id => kept.add(id));
+    }
+    return messages
+        .filter(m => kept.has(m.id))
+        .map(m => {
+            const parentId = parents.get(m.id) ?? null;
+            return { ...m, parentId: parentId && kept.has(parentId) ? parentId : null };
+        });
+};
@@ -1,6 +1,27 @@
 export const MODEL_NAMES = {
     FLASH: 'gemini-2.5-flash',
     PRO: 'gemini-2.5-pro',
+    EMBEDDING: 'text-embedding-004',
 };
 
 export const API_KEY_STORAGE_KEY = 'wesai-api-key';
+export const AI_SETTINGS_STORAGE_KEY = 'wesai-ai-settings';
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server listens on http://localhost:8080/v1.
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+export const AI_CACHE_STATS_STORAGE_KEY = 'wesai-ai-cache-stats';
+// Cloud cache rows expire after this long and are then purged by the server.
+export const AI_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Total size of AI responses kept in this browser; entries over the threshold live in IndexedDB.
+export const AI_CACHE_L1_BYTE_BUDGET = 4 * 1024 * 1024;
+export const AI_CACHE_L1_LARGE_ENTRY_BYTES = 16 * 1024;
+
+export const AI_USAGE_STORAGE_KEY = 'wesai-ai-usage';
+
+export const GRAPH_SETTINGS_STORAGE_KEY = 'wesai-graph-settings';
+
+export const TRASH_RETENTION_STORAGE_KEY = 'wesai-trash-retention-days';
+// Items stay in the trash this long before they're deleted for good, unless the user changes it.
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
@@ -0,0 +1,135 @@
+import { Collection, CopilotChange, Note, NoteChangePreview, NoteVersion, Template } from '../types';
+
+/**
+ * The part of the workspace a tool preview is computed from.
+ */
+export interface PreviewWorkspace {
+    notes: Note[];
+    collections: Collection[];
+    templates: Template[];
+}
+
+const snapshot = (note: Note) => ({ title: note.title, content: note.content });
+
+const findNoteOrThrow = (notes: Note[], noteId: string) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note) throw new Error("Note not found.");
+    return note;
+};
+
+// Versions loaded before ids were stored are identified by their save time.
+export const getVersionId = (version: NoteVersion) => version.id ?? version.savedAt;
+
+/**
+ * Collects a folder, its sub-folders (parents first) and every note inside them.
+ */
+export const getCollectionContents = (collectionId: string, collections: Collection[], notes: Note[]) => {
+    const root = collections.find(c => c.id === collectionId);
+    if (!root) return { collections: [], notes: [] };
+    const contents: Collection[] = [root];
+    const ids = new Set([root.id]);
+    for (let i = 0; i < contents.length; i++) {
+        collections.forEach(c => {
+            if (c.parentId === contents[i].id && !ids.has(c.id)) {
+                ids.add(c.id);
+                contents.push(c);
+            }
+        });
+    }
+    return { collections: contents, notes: notes.filter(n => n.parentId !== null && ids.has(n.parentId)) };
+};
+
+/**
+ * Applies a find-and-replace to every note without saving anything.
+ * Only notes whose content would actually change are returned.
+ * @param notes The notes to search.
+ * @param searchQuery A regular expression source.
+ * @param newText The replacement, which may use `$1`-style group references.
+ * @param caseSensitive Whether matching is case-sensitive.
+ */
+export const previewFindAndReplace = (notes: Note[], searchQuery: string, newText: string, caseSensitive: boolean): NoteChangePreview[] => {
+    const pattern = new RegExp(searchQuery, caseSensitive ? 'g' : 'gi');
+    return notes.flatMap(note => {
+        const content = note.content.replace(pattern, newText);
+        if (content === note.content) return [];
+        return [{ noteId: note.id, before: snapshot(note), after: { title: note.title, content } }];
+    });
+};
+
+/**
+ * Computes what a destructive or bulk Co-pilot tool would change, so it can be approved first.
+ * Returns null for tools that run without approval, and throws the same errors the
+ * tool itself would for invalid arguments.
+ * @param name The tool name.
+ * @param args The arguments the model called it with.
+ * @param workspace The current notes and templates.
+ */
+export const previewToolCall = (name: string, args: any, workspace: PreviewWorkspace): NoteChangePreview[] | null => {
+    switch (name) {
+        case 'updateNote': {
+            const note = findNoteOrThrow(workspace.notes, String(args.noteId || ''));
+            if (!args.title && !args.content) throw new Error("No fields to update were provided.");
+            const after = {
+                title: args.title ? String(args.title) : note.title,
+                content: args.content ? String(args.content) : note.content,
+            };
+            return [{ noteId: note.id, before: snapshot(note), after }];
+        }
+        case 'deleteNote': {
+            const note = findNoteOrThrow(workspace.notes, String(args.noteId || ''));
+            return [{ noteId: note.id, before: snapshot(note), after: null }];
+        }
+        case 'applyTemplateToNote': {
+            const template = workspace.templates.find(t => t.id === String(args.templateId || ''));
+            if (!template) throw new Error("Template not found.");
+            const note = findNoteOrThrow(workspace.notes, String(args.noteId || ''));
+            return [{ noteId: note.id, before: snapshot(note), after: { title: template.title, content: template.content } }];
+        }
+        case 'restoreNoteVersion': {
+            const note = findNoteOrThrow(workspace.notes, String(args.noteId || ''));
+            const version = note.history.find(v => getVersionId(v) === String(args.versionId || ''));
+            if (!version) throw new Error("Version not found.");
+            // Restoring also brings back the version's tags, so they're part of what's approved and undone.
+            return [{
+                noteId: note.id,
+                before: { ...snapshot(note), tags: note.tags },
+                after: { title: version.title, content: version.content, tags: version.tags },
+            }];
+        }
+        case 'deleteCollection': {
+            const collectionId = String(args.collectionId || '');
+            if (!workspace.collections.some(c => c.id === collectionId)) throw new Error("Folder not found.");
+            // Only the notes are previewed; an empty folder is deleted without asking.
+            return getCollectionContents(collectionId, workspace.collections, workspace.notes).notes
+                .map(note => ({ noteId: note.id, before: snapshot(note), after: null }));
+        }
+        case 'findAndReplaceInNotes': {
+            const { searchQuery, newText, caseSensitive = false } = args;
+            if (typeof searchQuery !== 'string' || typeof newText !== 'string') {
+                throw new Error("searchQuery and newText must be provided as strings.");
+            }
+            return previewFindAndReplace(workspace.notes, searchQuery, newText, !!caseSensitive);
+        }
+        default:
+            return null;
+    }
+};
+
+/**
+ * A one-line, past-tense description of a change for the turn's audit list.
+ */
+export const describeChange = (change: CopilotChange): string => {
+    switch (change.kind) {
+        case 'createNote': return `Created note "${change.title}"`;
+        case 'updateNote': return `Edited note "${change.title}"`;
+        case 'deleteNote': return `Deleted note "${change.title}"`;
+        case 'updateNoteTags': return `Changed tags on "${change.title}"`;
+        case 'setFavorite': return change.after ? `Added "${change.title}" to favorites` : `Removed "${change.title}" from favorites`;
+        case 'moveNote': return `Moved note "${change.title}"`;
+        case 'createCollection': return `Created folder "${change.title}"`;
+        case 'renameCollection': return `Renamed folder "${change.fromName}" to "${change.title}"`;
+        case 'deleteCollection': return `Deleted folder "${change.title}"`;
+        case 'createSmartCollection': return `Created smart folder "${change.title}"`;
+        case 'createTemplate': return `Created template "${change.title}"`;
+    }
+};
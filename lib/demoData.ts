@@ -18,7 +18,7 @@ This is a **live, interactive demo** of WesCore. You can write, edit, create new
 - Create a new note using the "New Note" button.
 - Edit this note! Your changes will be reflected locally.
 - Use the slash command menu by typing \`/\`.
-- Link to another note by typing \`[[...]]\`. Here's a link to the marketing plan: [[demo-note-2|Q3 Marketing Plan]].
+- Link to another note by typing \`[[...]]\`. Here's a link to the marketing plan: [[Q3 Marketing Plan]], and one to its [[Q3 Marketing Plan#Key Pillars|key pillars]].
 - Explore the **Graph View** and other dashboards using the icons in the bottom-left.
 
 > [!NOTE]
@@ -39,7 +39,7 @@ This is a **live, interactive demo** of WesCore. You can write, edit, create new
 
 Our focus for Q3 is on organic growth and content marketing.
 
-**Key Pillars:**
+#### Key Pillars
 1.  **Blog Content:** Publish two high-quality articles per week.
     - Focus on SEO keywords related to "AI productivity" and "workflow automation".
 2.  **Social Media:** Increase engagement on Twitter and LinkedIn.
@@ -48,7 +48,7 @@ Our focus for Q3 is on organic growth and content marketing.
 3.  **Newsletter:** Grow our subscriber list by 20%.
     - Offer a free e-book as a lead magnet.
 
-See the [[demo-note-3]] for a list of potential blog topics.
+See the [[Blog Ideas|blog ideas]] for a list of potential topics.
 `,
     createdAt: yesterday.toISOString(),
     updatedAt: now.toISOString(),
@@ -68,6 +68,7 @@ See the [[demo-note-3]] for a list of potential blog topics.
     updatedAt: yesterday.toISOString(),
     isFavorite: false,
     tags: ['content', 'ideas', 'blogging'],
+    aliases: ['Blog Ideas'],
     history: [],
     parentId: 'demo-collection-1',
   },
@@ -97,7 +98,16 @@ export const demoCollections: Collection[] = [
 ];
 
 export const demoSmartCollections: SmartCollection[] = [
-    { id: 'demo-sc-1', name: 'Marketing Notes', userId: 'demo-user', query: 'all notes related to marketing strategy' },
+    { id: 'demo-sc-1', name: 'Marketing Notes', userId: 'demo-user', query: 'all notes related to marketing strategy', type: 'AI' },
+    {
+        id: 'demo-sc-2', name: 'Recently Edited Favorites', userId: 'demo-user', query: '', type: 'RULES',
+        rules: {
+            id: 'demo-sc-2-root', combinator: 'AND', rules: [
+                { id: 'demo-sc-2-r1', field: 'isFavorite', operator: 'is', value: 'true' },
+                { id: 'demo-sc-2-r2', field: 'updatedAt', operator: 'withinDays', value: '30' },
+            ],
+        },
+    },
 ];
 
 export const demoTemplates: Template[] = [
@@ -0,0 +1,89 @@
+// Above this many DP cells the changed middle is treated as a single replacement.
+const MAX_LCS_CELLS = 4_000_000;
+
+export type DiffOp<T> =
+    | { type: 'equal'; items: T[] }
+    | { type: 'insert'; items: T[] }
+    | { type: 'delete'; items: T[] };
+
+/**
+ * Computes, for every item in `a`, the index of the item it is matched to in `b`
+ * along a longest common subsequence, or -1 if it has no match.
+ * Common prefixes and suffixes are matched up front to keep the DP table small.
+ * @param a The original sequence.
+ * @param b The changed sequence.
+ * @param isEqual Optional equality comparator.
+ */
+export function matchSequences<T>(a: T[], b: T[], isEqual: (x: T, y: T) => boolean = (x, y) => x === y): number[] {
+    const matches = new Array<number>(a.length).fill(-1);
+
+    let start = 0;
+    while (start < a.length && start < b.length && isEqual(a[start], b[start])) {
+        matches[start] = start;
+        start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && isEqual(a[endA - 1], b[endB - 1])) {
+        endA--;
+        endB--;
+        matches[endA] = endB;
+    }
+
+    const n = endA - start;
+    const m = endB - start;
+    if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) return matches;
+
+    // lengths[i][j] = LCS length of a[start+i..endA) and b[start+j..endB)
+    const lengths: Uint32Array[] = [];
+    for (let i = 0; i <= n; i++) lengths.push(new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i][j] = isEqual(a[start + i], b[start + j])
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (isEqual(a[start + i], b[start + j])) {
+            matches[start + i] = start + j;
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return matches;
+}
+
+/**
+ * Produces a minimal edit script that turns `a` into `b`.
+ * Adjacent operations of the same type are coalesced.
+ */
+export function diffSequences<T>(a: T[], b: T[], isEqual?: (x: T, y: T) => boolean): DiffOp<T>[] {
+    const matches = matchSequences(a, b, isEqual);
+    const ops: DiffOp<T>[] = [];
+    const push = (type: DiffOp<T>['type'], item: T) => {
+        const last = ops[ops.length - 1];
+        if (last && last.type === type) last.items.push(item);
+        else ops.push({ type, items: [item] });
+    };
+
+    let j = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (matches[i] === -1) {
+            push('delete', a[i]);
+            continue;
+        }
+        while (j < matches[i]) push('insert', b[j++]);
+        push('equal', a[i]);
+        j++;
+    }
+    while (j < b.length) push('insert', b[j++]);
+    return ops;
+}
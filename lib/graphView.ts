@@ -0,0 +1,266 @@
+import { Collection, Note } from '../types';
+import { GRAPH_SETTINGS_STORAGE_KEY } from './config';
+import { LinkGraph } from './linkGraph';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Label propagation usually settles in a handful of rounds; this caps the rare graphs where it doesn't.
+const MAX_PROPAGATION_ROUNDS = 20;
+const TAG_NODE_PREFIX = 'tag:';
+
+export const MAX_LOCAL_DEPTH = 5;
+
+export type GraphDateRange = 'all' | 'week' | 'month' | 'quarter' | 'year';
+
+export const GRAPH_DATE_RANGES: { id: GraphDateRange; name: string; days: number | null }[] = [
+    { id: 'all', name: 'Updated any time', days: null },
+    { id: 'week', name: 'Updated in the past week', days: 7 },
+    { id: 'month', name: 'Updated in the past month', days: 30 },
+    { id: 'quarter', name: 'Updated in the past 3 months', days: 90 },
+    { id: 'year', name: 'Updated in the past year', days: 365 },
+];
+
+/**
+ * Which notes the graph view shows and how it draws them.
+ */
+export interface GraphSettings {
+    tag: string | null;
+    // Includes the notes in its sub-folders.
+    folderId: string | null;
+    // Compared with when each note was last updated.
+    dateRange: GraphDateRange;
+    hideOrphans: boolean;
+    // Only show the notes within `localDepth` links of the active note.
+    isLocal: boolean;
+    localDepth: number;
+    // Add a node for each tag, linked to the notes that have it.
+    showTags: boolean;
+    colorByCommunity: boolean;
+}
+
+export const DEFAULT_GRAPH_SETTINGS: GraphSettings = {
+    tag: null,
+    folderId: null,
+    dateRange: 'all',
+    hideOrphans: false,
+    isLocal: false,
+    localDepth: 1,
+    showTags: false,
+    colorByCommunity: false,
+};
+
+export interface GraphNodeData {
+    id: string;
+    type: 'note' | 'tag';
+    name: string;
+    // How many links the node has in the graph shown.
+    degree: number;
+    // Null for notes in no community (such as notes without links) and for tags.
+    community: number | null;
+}
+
+export interface GraphLinkData {
+    source: string;
+    target: string;
+}
+
+export interface GraphData {
+    nodes: GraphNodeData[];
+    links: GraphLinkData[];
+    // The node to center the view on: the active note in a local graph, otherwise the most linked note.
+    centerId: string | null;
+    communityCount: number;
+}
+
+export const loadGraphSettings = (): GraphSettings => {
+    try {
+        const saved = localStorage.getItem(GRAPH_SETTINGS_STORAGE_KEY);
+        return saved ? { ...DEFAULT_GRAPH_SETTINGS, ...JSON.parse(saved) } : DEFAULT_GRAPH_SETTINGS;
+    } catch {
+        return DEFAULT_GRAPH_SETTINGS;
+    }
+};
+
+export const saveGraphSettings = (settings: GraphSettings) => {
+    try {
+        localStorage.setItem(GRAPH_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error("Error saving graph settings to localStorage", error);
+    }
+};
+
+export const getTagNodeId = (tag: string) => `${TAG_NODE_PREFIX}${tag.toLowerCase()}`;
+
+export const getTagFromNodeId = (nodeId: string): string | null =>
+    nodeId.startsWith(TAG_NODE_PREFIX) ? nodeId.slice(TAG_NODE_PREFIX.length) : null;
+
+const getFolderAndDescendantIds = (folderId: string, collections: Collection[]): Set<string> => {
+    const ids = new Set([folderId]);
+    let added = true;
+    while (added) {
+        added = false;
+        collections.forEach(c => {
+            if (c.parentId && ids.has(c.parentId) && !ids.has(c.id)) {
+                ids.add(c.id);
+                added = true;
+            }
+        });
+    }
+    return ids;
+};
+
+// The notes each note links to or is linked from, other than itself.
+const getNoteNeighbors = (notes: Note[], linkGraph: LinkGraph): Map<string, Set<string>> => {
+    const neighbors = new Map(notes.map(n => [n.id, new Set<string>()]));
+    notes.forEach(note => (linkGraph.outbound.get(note.id) ?? []).forEach(({ targetId }) => {
+        if (!targetId || targetId === note.id || !neighbors.has(targetId)) return;
+        neighbors.get(note.id)!.add(targetId);
+        neighbors.get(targetId)!.add(note.id);
+    }));
+    return neighbors;
+};
+
+/**
+ * The notes at most `depth` links away from a note, following links in both directions.
+ */
+export const getLocalNoteIds = (centerId: string, neighbors: Map<string, Set<string>>, depth: number): Set<string> => {
+    const found = new Set([centerId]);
+    let frontier = [centerId];
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+        const next: string[] = [];
+        frontier.forEach(id => neighbors.get(id)?.forEach(neighborId => {
+            if (found.has(neighborId)) return;
+            found.add(neighborId);
+            next.push(neighborId);
+        }));
+        frontier = next;
+    }
+    return found;
+};
+
+/**
+ * Groups nodes into communities by label propagation: every node starts in its own
+ * community and repeatedly joins the one most of its neighbors are in, until none move.
+ * Ties go to the lower-numbered community so the result is the same on every run.
+ * @returns Each node's community, numbered from the largest. Nodes left on their own
+ * have none.
+ */
+export const detectCommunities = (nodeIds: string[], edges: [string, string][]): Map<string, number> => {
+    const neighbors = new Map(nodeIds.map(id => [id, [] as string[]]));
+    edges.forEach(([a, b]) => {
+        if (a === b || !neighbors.has(a) || !neighbors.has(b)) return;
+        neighbors.get(a)!.push(b);
+        neighbors.get(b)!.push(a);
+    });
+
+    const labels = new Map(nodeIds.map((id, i) => [id, i]));
+    for (let round = 0; round < MAX_PROPAGATION_ROUNDS; round++) {
+        let changed = false;
+        nodeIds.forEach(id => {
+            const counts = new Map<number, number>();
+            neighbors.get(id)!.forEach(neighborId => {
+                const label = labels.get(neighborId)!;
+                counts.set(label, (counts.get(label) ?? 0) + 1);
+            });
+            let best = labels.get(id)!;
+            let bestCount = counts.get(best) ?? 0;
+            counts.forEach((count, label) => {
+                if (count > bestCount || (count === bestCount && label < best)) {
+                    best = label;
+                    bestCount = count;
+                }
+            });
+            if (best !== labels.get(id)) {
+                labels.set(id, best);
+                changed = true;
+            }
+        });
+        if (!changed) break;
+    }
+
+    const members = new Map<number, string[]>();
+    labels.forEach((label, id) => members.set(label, [...(members.get(label) ?? []), id]));
+    const communities = new Map<string, number>();
+    [...members.values()]
+        .filter(ids => ids.length > 1)
+        .sort((a, b) => b.length - a.length)
+        .forEach((ids, community) => ids.forEach(id => communities.set(id, community)));
+    return communities;
+};
+
+/**
+ * Builds the graph shown for the notes: filtered by the settings, narrowed to the active
+ * note's neighborhood in a local graph, with tag nodes and communities when turned on.
+ */
+export const buildGraphData = (
+    notes: Note[],
+    collections: Collection[],
+    linkGraph: LinkGraph,
+    settings: GraphSettings,
+    activeNoteId: string | null,
+    now = Date.now(),
+): GraphData => {
+    const neighbors = getNoteNeighbors(notes, linkGraph);
+    const folderIds = settings.folderId ? getFolderAndDescendantIds(settings.folderId, collections) : null;
+    const days = GRAPH_DATE_RANGES.find(range => range.id === settings.dateRange)?.days ?? null;
+    const cutoff = days === null ? null : now - days * DAY_MS;
+    const tag = settings.tag?.toLowerCase() ?? null;
+    const centerId = settings.isLocal && activeNoteId && neighbors.has(activeNoteId) ? activeNoteId : null;
+    const localIds = centerId ? getLocalNoteIds(centerId, neighbors, settings.localDepth) : null;
+
+    let visibleNotes = notes.filter(note =>
+        note.id === centerId || (
+            (!localIds || localIds.has(note.id)) &&
+            (!tag || note.tags.some(t => t.toLowerCase() === tag)) &&
+            (!folderIds || (note.parentId !== null && folderIds.has(note.parentId))) &&
+            (cutoff === null || new Date(note.updatedAt).getTime() >= cutoff)
+        ));
+    const visibleIds = new Set(visibleNotes.map(n => n.id));
+
+    const links: GraphLinkData[] = visibleNotes.flatMap(note => [
+        ...[...new Set((linkGraph.outbound.get(note.id) ?? []).map(link => link.targetId))]
+            .filter((targetId): targetId is string => !!targetId && targetId !== note.id && visibleIds.has(targetId))
+            .map(target => ({ source: note.id, target })),
+        ...(settings.showTags ? [...new Set(note.tags.map(getTagNodeId))].map(target => ({ source: note.id, target })) : []),
+    ]);
+    if (settings.hideOrphans) {
+        const linkedIds = new Set(links.flatMap(link => [link.source, link.target]));
+        visibleNotes = visibleNotes.filter(note => note.id === centerId || linkedIds.has(note.id));
+    }
+
+    const degrees = new Map<string, number>();
+    links.forEach(({ source, target }) => {
+        degrees.set(source, (degrees.get(source) ?? 0) + 1);
+        degrees.set(target, (degrees.get(target) ?? 0) + 1);
+    });
+
+    const communities = settings.colorByCommunity
+        ? detectCommunities(visibleNotes.map(n => n.id), links.filter(link => visibleIds.has(link.target)).map(link => [link.source, link.target]))
+        : new Map<string, number>();
+
+    const tagNames = new Map<string, string>();
+    if (settings.showTags) visibleNotes.forEach(note => note.tags.forEach(t => {
+        if (!tagNames.has(getTagNodeId(t))) tagNames.set(getTagNodeId(t), t);
+    }));
+
+    const nodes: GraphNodeData[] = [
+        ...visibleNotes.map(note => ({
+            id: note.id,
+            type: 'note' as const,
+            name: note.title || 'Untitled Note',
+            degree: degrees.get(note.id) ?? 0,
+            community: communities.get(note.id) ?? null,
+        })),
+        ...[...tagNames].map(([id, name]) => ({ id, type: 'tag' as const, name: `#${name}`, degree: degrees.get(id) ?? 0, community: null })),
+    ];
+
+    let hotNodeId: string | null = null;
+    let maxDegree = 0;
+    nodes.forEach(node => {
+        if (node.type === 'note' && node.degree > maxDegree) {
+            maxDegree = node.degree;
+            hotNodeId = node.id;
+        }
+    });
+
+    return { nodes, links, centerId: centerId ?? hotNodeId, communityCount: new Set(communities.values()).size };
+};
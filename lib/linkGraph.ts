@@ -0,0 +1,178 @@
+import { Note } from '../types';
+import { LinkIndex, WikiLink, buildLinkIndex, createWikiLinkRegex, parseWikiLinks, resolveLinkTarget } from './wikiLinks';
+
+// How much of the source note is shown on each side of a link in its context.
+const CONTEXT_RADIUS = 80;
+
+/**
+ * The text around a link, as shown under a backlink. Link syntax is reduced to its
+ * display text.
+ */
+export interface LinkContext {
+    before: string;
+    text: string;
+    after: string;
+}
+
+/**
+ * A link in a note and the note it leads to, or null when no note matches its target.
+ */
+export interface NoteLink extends WikiLink {
+    targetId: string | null;
+    context: LinkContext;
+}
+
+export interface Backlink {
+    sourceNoteId: string;
+    sourceNoteTitle: string;
+    contexts: LinkContext[];
+}
+
+export interface BrokenLink {
+    sourceNoteId: string;
+    sourceNoteTitle: string;
+    target: string;
+}
+
+/**
+ * The links between notes in both directions. Each update reuses what it can from the
+ * previous graph: a note is only parsed again when its content changes, and links are
+ * only resolved again when that note or the set of note names changes.
+ */
+export interface LinkGraph {
+    names: LinkIndex;
+    notesById: Map<string, Note>;
+    outbound: Map<string, NoteLink[]>;
+    // Ids of the notes that link to each note.
+    inbound: Map<string, string[]>;
+    // Keyed on each note's content, so unchanged notes aren't parsed again.
+    parsed: Map<string, { content: string; links: Omit<NoteLink, 'targetId'>[] }>;
+    // Changes whenever an id, title or alias does.
+    namesKey: string;
+}
+
+const getLinkText = (link: WikiLink) => link.alias ?? (link.heading ? `${link.target} › ${link.heading}` : link.target);
+
+const toPlainText = (text: string) =>
+    text.replace(createWikiLinkRegex(), (_match, target: string, heading?: string, alias?: string) =>
+        alias?.trim() || (heading?.trim() ? `${target.trim()} › ${heading.trim()}` : target.trim()));
+
+/**
+ * The text on the same line around `content[index, index + length)`, which is shown as `text`.
+ */
+export const getTextContext = (content: string, index: number, length: number, text: string): LinkContext => {
+    const lineStart = content.lastIndexOf('\n', index - 1) + 1;
+    const nextBreak = content.indexOf('\n', index + length);
+    const lineEnd = nextBreak === -1 ? content.length : nextBreak;
+    const end = index + length;
+
+    let before = content.slice(Math.max(lineStart, index - CONTEXT_RADIUS), index);
+    if (index - CONTEXT_RADIUS > lineStart) before = `…${before.replace(/^\S*\s/, '')}`;
+    else before = before.replace(/^\s*(#{1,6}|>|[-*+]\s+\[[ xX]\]|[-*+]|\d+\.)\s+/, '');
+    let after = content.slice(end, Math.min(lineEnd, end + CONTEXT_RADIUS));
+    if (end + CONTEXT_RADIUS < lineEnd) after = `${after.replace(/\s\S*$/, '')}…`;
+
+    return { before: toPlainText(before), text, after: toPlainText(after) };
+};
+
+const getNamesKey = (notes: Note[]) =>
+    notes.map(n => `${n.id}\u0000${n.title}\u0000${(n.aliases ?? []).join('\u0001')}`).join('\u0002');
+
+// The notes a note links to, other than itself, each listed once.
+const getTargets = (sourceId: string, links: NoteLink[] | undefined) =>
+    [...new Set((links ?? []).flatMap(link => link.targetId && link.targetId !== sourceId ? [link.targetId] : []))];
+
+/**
+ * Brings a link graph up to date with the notes.
+ * @param previous The graph for the previous notes, or null to build one from scratch.
+ */
+export const updateLinkGraph = (previous: LinkGraph | null, notes: Note[]): LinkGraph => {
+    const namesKey = getNamesKey(notes);
+    const namesChanged = !previous || previous.namesKey !== namesKey;
+    const names = namesChanged ? buildLinkIndex(notes) : previous.names;
+
+    const parsed: LinkGraph['parsed'] = new Map();
+    const outbound = new Map<string, NoteLink[]>();
+    const changedIds = new Set<string>();
+    for (const note of notes) {
+        const previousParse = previous?.parsed.get(note.id);
+        const isUnchanged = previousParse?.content === note.content;
+        const parse = isUnchanged ? previousParse! : {
+            content: note.content,
+            links: parseWikiLinks(note.content).map(link => ({ ...link, context: getTextContext(note.content, link.index, link.length, getLinkText(link)) })),
+        };
+        parsed.set(note.id, parse);
+
+        const previousLinks = previous?.outbound.get(note.id);
+        if (isUnchanged && !namesChanged && previousLinks) {
+            outbound.set(note.id, previousLinks);
+        } else {
+            outbound.set(note.id, parse.links.map(link => ({ ...link, targetId: resolveLinkTarget(names, link.target)?.id ?? null })));
+            changedIds.add(note.id);
+        }
+    }
+    previous?.outbound.forEach((_links, id) => {
+        if (!outbound.has(id)) changedIds.add(id);
+    });
+
+    let inbound: Map<string, string[]>;
+    if (namesChanged) {
+        inbound = new Map();
+        outbound.forEach((links, sourceId) => getTargets(sourceId, links).forEach(targetId => {
+            const sources = inbound.get(targetId);
+            if (sources) sources.push(sourceId);
+            else inbound.set(targetId, [sourceId]);
+        }));
+    } else {
+        // Only the entries of notes whose links changed are replaced.
+        inbound = new Map(previous.inbound);
+        changedIds.forEach(sourceId => {
+            getTargets(sourceId, previous.outbound.get(sourceId)).forEach(targetId => {
+                const sources = (inbound.get(targetId) ?? []).filter(id => id !== sourceId);
+                if (sources.length > 0) inbound.set(targetId, sources);
+                else inbound.delete(targetId);
+            });
+            getTargets(sourceId, outbound.get(sourceId)).forEach(targetId => {
+                inbound.set(targetId, [...(inbound.get(targetId) ?? []), sourceId]);
+            });
+        });
+    }
+
+    return { names, notesById: new Map(notes.map(n => [n.id, n])), outbound, inbound, parsed, namesKey };
+};
+
+/**
+ * The notes that link to a note, most recently updated first, with the text around each link.
+ */
+export const getBacklinks = (graph: LinkGraph, noteId: string): Backlink[] => {
+    const target = graph.notesById.get(noteId);
+    return (graph.inbound.get(noteId) ?? [])
+        .flatMap(sourceId => {
+            const source = graph.notesById.get(sourceId);
+            if (!source) return [];
+            const contexts = (graph.outbound.get(sourceId) ?? [])
+                .filter(link => link.targetId === noteId)
+                // Links by id would otherwise show the id.
+                .map(link => link.target === noteId && !link.alias && target ? { ...link.context, text: target.title } : link.context);
+            return [{ note: source, backlink: { sourceNoteId: source.id, sourceNoteTitle: source.title, contexts } }];
+        })
+        .sort((a, b) => b.note.updatedAt.localeCompare(a.note.updatedAt))
+        .map(({ backlink }) => backlink);
+};
+
+/**
+ * Links whose target matches no note, in one note or, without `noteId`, in every note.
+ * Each target is listed once per note.
+ */
+export const getBrokenLinks = (graph: LinkGraph, noteId?: string): BrokenLink[] => {
+    const sourceIds = noteId ? [noteId] : [...graph.outbound.keys()];
+    return sourceIds.flatMap(sourceId => {
+        const source = graph.notesById.get(sourceId);
+        if (!source) return [];
+        const targets = new Map<string, string>();
+        (graph.outbound.get(sourceId) ?? []).forEach(link => {
+            if (!link.targetId && !targets.has(link.target.toLowerCase())) targets.set(link.target.toLowerCase(), link.target);
+        });
+        return [...targets.values()].map(target => ({ sourceNoteId: source.id, sourceNoteTitle: source.title, target }));
+    });
+};
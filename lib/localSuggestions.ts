@@ -0,0 +1,148 @@
+import { Note } from '../types';
+
+/**
+ * The workspace the local tag heuristic learns its vocabulary from.
+ */
+export interface LocalSuggestionContext {
+    notes: Pick<Note, 'content' | 'tags'>[];
+}
+
+const MAX_TAGS = 5;
+const MAX_TITLE_WORDS = 8;
+const MAX_SUMMARY_SENTENCES = 3;
+// An existing tag that fits the note beats a new keyword of the same weight.
+const EXISTING_TAG_BOOST = 3;
+
+const STOP_WORDS = new Set([
+    'about', 'above', 'after', 'again', 'against', 'all', 'also', 'and', 'any', 'are', 'because', 'been', 'before',
+    'being', 'below', 'between', 'both', 'but', 'can', 'could', 'did', 'does', 'doing', 'done', 'down', 'during', 'each',
+    'even', 'few', 'for', 'from', 'further', 'get', 'gets', 'got', 'had', 'has', 'have', 'having', 'her', 'here', 'hers',
+    'him', 'his', 'how', 'into', 'its', 'itself', 'just', 'like', 'make', 'made', 'many', 'may', 'might', 'more', 'most',
+    'much', 'must', 'need', 'needs', 'not', 'now', 'off', 'once', 'one', 'only', 'other', 'our', 'ours', 'out', 'over',
+    'own', 'same', 'she', 'should', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'then', 'there',
+    'these', 'they', 'this', 'those', 'through', 'too', 'under', 'until', 'use', 'used', 'using', 'very', 'was', 'way',
+    'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'yes', 'yet',
+    'you', 'your', 'yours', 'let', 'lets', 'new', 'note', 'notes', 'thing', 'things', 'well', 'want', 'know', 'see', 'untitled',
+]);
+
+/**
+ * Reduces markdown to its readable text: code, URLs and formatting are removed and
+ * note links keep only their display text.
+ */
+const stripMarkdown = (markdown: string) => markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/`[^`]*`/g, ' ')
+    .replace(/\[\[[^\]|]*\|([^\]]*)\]\]/g, '$1')
+    .replace(/\[\[([^\]#|]*)[^\]]*\]\]/g, '$1')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/^\s*(#{1,6}|>|[-*+]\s+\[[ xX]\]|[-*+]|\d+\.)\s*/gm, '')
+    .replace(/[*_~]/g, '');
+
+const tokenize = (text: string): string[] =>
+    (text.toLowerCase().match(/[a-z][a-z0-9'-]*[a-z0-9]/g) ?? [] as string[])
+        .filter(word => word.length >= 3 && !STOP_WORDS.has(word));
+
+const countTerms = (words: string[]) => {
+    const counts = new Map<string, number>();
+    words.forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1));
+    return counts;
+};
+
+// Document frequencies are reused for as long as the workspace's notes array is unchanged.
+const documentFrequencies = new WeakMap<object, Map<string, number>>();
+
+const getDocumentFrequencies = (notes: LocalSuggestionContext['notes']) => {
+    let frequencies = documentFrequencies.get(notes);
+    if (!frequencies) {
+        frequencies = new Map();
+        for (const note of notes) {
+            new Set(tokenize(stripMarkdown(note.content))).forEach(word => frequencies!.set(word, (frequencies!.get(word) ?? 0) + 1));
+        }
+        documentFrequencies.set(notes, frequencies);
+    }
+    return frequencies;
+};
+
+/**
+ * Suggests tags for a note by TF-IDF against the rest of the workspace. Tags the workspace
+ * already uses are preferred when their words appear in the note, so suggestions converge
+ * on the user's own vocabulary.
+ */
+export const suggestLocalTags = (title: string, content: string, context: LocalSuggestionContext, limit = MAX_TAGS): string[] => {
+    // The title and headings say what the note is about, so their words count double.
+    const headings = content.match(/^\s*#{1,6}\s+.+$/gm) ?? [];
+    const emphasized = tokenize(stripMarkdown([title, ...headings].join('\n')));
+    const words = [...emphasized, ...tokenize(stripMarkdown(content))];
+    if (words.length === 0) return [];
+    const termCounts = countTerms(words);
+    const frequencies = getDocumentFrequencies(context.notes);
+    const idf = (word: string) => Math.log((context.notes.length + 1) / ((frequencies.get(word) ?? 0) + 1)) + 1;
+    const tfIdf = (word: string) => ((termCounts.get(word) ?? 0) / words.length) * idf(word);
+
+    const scores = new Map<string, number>();
+    const existingTags = new Map<string, string>();
+    context.notes.forEach(note => note.tags.forEach(tag => existingTags.set(tag.toLowerCase(), tag)));
+    existingTags.forEach((tag, key) => {
+        const tagWords = tokenize(key);
+        if (tagWords.length === 0 || !tagWords.every(word => termCounts.has(word))) return;
+        const score = tagWords.reduce((sum, word) => sum + tfIdf(word), 0) / tagWords.length;
+        scores.set(tag, score * EXISTING_TAG_BOOST);
+    });
+    termCounts.forEach((_, word) => {
+        if (!existingTags.has(word)) scores.set(word, tfIdf(word));
+    });
+
+    return [...scores.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, limit)
+        .map(([tag]) => tag);
+};
+
+const splitSentences = (text: string) =>
+    (text.match(/[^.!?\n]+[.!?]*/g) ?? []).map(sentence => sentence.trim()).filter(Boolean);
+
+/**
+ * Suggests a title from the note's first heading, or failing that its opening phrase.
+ */
+export const suggestLocalTitle = (content: string): string => {
+    const heading = content.match(/^\s*#{1,6}\s+(.+)$/m)?.[1];
+    const source = heading ?? splitSentences(stripMarkdown(content))[0] ?? '';
+    const words = stripMarkdown(source).replace(/["\.]/g, '').split(/\s+/).filter(Boolean).slice(0, MAX_TITLE_WORDS);
+    const title = words.join(' ').replace(/[,;:!?-]+$/, '');
+    return title.charAt(0).toUpperCase() + title.slice(1);
+};
+
+/**
+ * Summarizes a note by extracting its most representative sentences: each sentence is
+ * scored by how frequent its words are across the note, with a small bonus for the opening.
+ * Action items are the note's open tasks and lines marked TODO or Action.
+ */
+export const summarizeLocally = (content: string, maxSentences = MAX_SUMMARY_SENTENCES): { summary: string; actionItems: string[] } => {
+    const actionItems = [...content.matchAll(/^\s*(?:[-*+]\s+\[ \]|(?:TODO|Action(?: item)?)\s*:)\s*(.+)$/gim)]
+        .map(match => stripMarkdown(match[1]).trim())
+        .filter(Boolean);
+
+    const prose = content
+        .split('\n')
+        .filter(line => !/^\s*(#{1,6}\s|[-*+]\s+\[[ xX]\]|TODO\s*:|Action(?: item)?\s*:)/i.test(line))
+        .join('\n');
+    const sentences = splitSentences(stripMarkdown(prose)).filter(sentence => tokenize(sentence).length >= 3);
+    if (sentences.length === 0) return { summary: '', actionItems };
+
+    const termCounts = countTerms(tokenize(sentences.join(' ')));
+    const maxCount = Math.max(...termCounts.values());
+    const ranked = sentences.map((sentence, index) => {
+        const words = tokenize(sentence);
+        const weight = words.reduce((sum, word) => sum + termCounts.get(word)! / maxCount, 0) / Math.sqrt(words.length);
+        return { sentence, index, score: index === 0 ? weight * 1.2 : weight };
+    });
+    const summary = ranked
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxSentences)
+        .sort((a, b) => a.index - b.index)
+        .map(({ sentence }) => /[.!?]$/.test(sentence) ? sentence : `${sentence}.`)
+        .join(' ');
+    return { summary, actionItems };
+};
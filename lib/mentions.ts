@@ -0,0 +1,114 @@
+import { Note } from '../types';
+import { LinkContext, LinkGraph, getTextContext } from './linkGraph';
+import { LinkIndex, formatWikiLink } from './wikiLinks';
+
+// Shorter names match too much ordinary text to be worth suggesting as links.
+const MIN_NAME_LENGTH = 3;
+// New notes all start with this title, so it says nothing about which note is meant.
+const DEFAULT_TITLE = 'untitled note';
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+/**
+ * A note's title or alias, lowercased for matching.
+ */
+export interface NoteName {
+    name: string;
+    note: Note;
+}
+
+/**
+ * A plain-text occurrence of a note's title or alias that isn't a link.
+ */
+export interface UnlinkedMention {
+    index: number;
+    text: string;
+    context: LinkContext;
+}
+
+export interface UnlinkedMentionGroup {
+    sourceNoteId: string;
+    sourceNoteTitle: string;
+    mentions: UnlinkedMention[];
+}
+
+const isMentionableName = (name: string) => name.length >= MIN_NAME_LENGTH && name !== DEFAULT_TITLE;
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Every title and alias that can be suggested as a link, longest first so the most
+ * specific name wins.
+ */
+export const getMentionableNames = (index: LinkIndex): NoteName[] =>
+    [...index.byTitle, ...index.byAlias]
+        .filter(([name]) => isMentionableName(name))
+        .map(([name, note]) => ({ name, note }))
+        .sort((a, b) => b.name.length - a.name.length);
+
+// Code, links and URLs, where a note's name isn't a mention.
+const getIgnoredRanges = (content: string): [number, number][] =>
+    [...content.matchAll(/```[\s\S]*?(?:```|$)|`[^`\n]*`|\[\[[^\]\n]*\]\]|\[[^\]\n]*\]\([^)\n]*\)|https?:\/\/\S+/g)]
+        .map(match => [match.index!, match.index! + match[0].length]);
+
+/**
+ * Finds the places other notes mention a note by title or alias without linking to it,
+ * most recently updated notes first.
+ */
+export const findUnlinkedMentions = (graph: LinkGraph, noteId: string): UnlinkedMentionGroup[] => {
+    const target = graph.notesById.get(noteId);
+    if (!target) return [];
+    const names = [...new Set([target.title, ...(target.aliases ?? [])].map(name => name.trim().toLowerCase()))]
+        .filter(isMentionableName)
+        .sort((a, b) => b.length - a.length);
+    if (names.length === 0) return [];
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${names.map(escapeRegex).join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+
+    const groups: (UnlinkedMentionGroup & { updatedAt: string })[] = [];
+    graph.notesById.forEach(source => {
+        if (source.id === noteId) return;
+        const matches = [...source.content.matchAll(pattern)];
+        if (matches.length === 0) return;
+        const ignored = getIgnoredRanges(source.content);
+        const mentions = matches
+            .filter(match => !ignored.some(([start, end]) => match.index! < end && match.index! + match[0].length > start))
+            .map(match => ({ index: match.index!, text: match[0], context: getTextContext(source.content, match.index!, match[0].length, match[0]) }));
+        if (mentions.length > 0) {
+            groups.push({ sourceNoteId: source.id, sourceNoteTitle: source.title, mentions, updatedAt: source.updatedAt });
+        }
+    });
+    return groups
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(({ updatedAt, ...group }) => group);
+};
+
+/**
+ * Turns a mention into a link to the note, keeping the mention's text as it was written.
+ * @returns The updated content, or null if the content no longer has the mention there.
+ */
+export const linkMention = (content: string, mention: Pick<UnlinkedMention, 'index' | 'text'>, note: Pick<Note, 'id' | 'title'>, index: LinkIndex): string | null => {
+    if (content.substring(mention.index, mention.index + mention.text.length) !== mention.text) return null;
+    const link = formatWikiLink(note, mention.text, index);
+    return `${content.substring(0, mention.index)}${link}${content.substring(mention.index + mention.text.length)}`;
+};
+
+/**
+ * Finds a note name that the text just before the cursor ends with, for suggesting a
+ * link while typing. Names inside links and code are ignored.
+ * @returns Where the name starts, and the note it names.
+ */
+export const findNameBeforeCursor = (textBeforeCursor: string, names: NoteName[]): { start: number; note: Note } | null => {
+    const line = textBeforeCursor.slice(textBeforeCursor.lastIndexOf('\n') + 1);
+    const isInCodeBlock = (textBeforeCursor.match(/^```/gm) ?? []).length % 2 === 1;
+    const isInInlineCode = (line.match(/`/g) ?? []).length % 2 === 1;
+    if (isInCodeBlock || isInInlineCode || /\[\[[^\]]*$/.test(line)) return null;
+
+    const lowerLine = line.toLowerCase();
+    for (const { name, note } of names) {
+        if (!lowerLine.endsWith(name)) continue;
+        const charBefore = line[line.length - name.length - 1];
+        if (charBefore && WORD_CHAR.test(charBefore)) continue;
+        return { start: textBeforeCursor.length - name.length, note };
+    }
+    return null;
+};
@@ -0,0 +1,129 @@
+import { Note } from '../types';
+import { matchSequences } from './diff';
+
+export type MergeableNote = Pick<Note, 'title' | 'content' | 'tags'>;
+
+export type MergeHunk =
+    | { type: 'resolved'; lines: string[] }
+    | { type: 'conflict'; base: string[]; local: string[]; remote: string[] };
+
+export interface ScalarConflict<T> {
+    base: T;
+    local: T;
+    remote: T;
+}
+
+export interface NoteMergeResult {
+    /** The merged note, with local changes winning wherever there's a conflict. */
+    merged: MergeableNote;
+    /** The merged content broken into hunks; conflicting hunks need the user's decision. */
+    contentHunks: MergeHunk[];
+    titleConflict: ScalarConflict<string> | null;
+    hasConflicts: boolean;
+}
+
+const arraysEqual = (a: string[], b: string[]) => a.length === b.length && a.every((item, i) => item === b[i]);
+
+/**
+ * Performs a line-based three-way merge (diff3). Regions changed on only one
+ * side, or changed identically on both, are merged automatically; regions
+ * changed differently on both sides are returned as conflicts.
+ * @param base The common ancestor.
+ * @param local The version being edited here.
+ * @param remote The version that arrived from elsewhere.
+ */
+export function mergeLines(base: string[], local: string[], remote: string[]): MergeHunk[] {
+    const localMatches = matchSequences(base, local);
+    const remoteMatches = matchSequences(base, remote);
+    const hunks: MergeHunk[] = [];
+
+    const pushResolved = (lines: string[]) => {
+        if (lines.length === 0) return;
+        const last = hunks[hunks.length - 1];
+        if (last && last.type === 'resolved') last.lines.push(...lines);
+        else hunks.push({ type: 'resolved', lines: [...lines] });
+    };
+
+    let b = 0;
+    let l = 0;
+    let r = 0;
+    while (true) {
+        // Find the next base line that both sides kept unchanged.
+        let anchor = b;
+        while (anchor < base.length && (localMatches[anchor] === -1 || remoteMatches[anchor] === -1)) anchor++;
+
+        const localEnd = anchor < base.length ? localMatches[anchor] : local.length;
+        const remoteEnd = anchor < base.length ? remoteMatches[anchor] : remote.length;
+        const baseChunk = base.slice(b, anchor);
+        const localChunk = local.slice(l, localEnd);
+        const remoteChunk = remote.slice(r, remoteEnd);
+
+        if (arraysEqual(localChunk, baseChunk)) pushResolved(remoteChunk);
+        else if (arraysEqual(remoteChunk, baseChunk) || arraysEqual(localChunk, remoteChunk)) pushResolved(localChunk);
+        else hunks.push({ type: 'conflict', base: baseChunk, local: localChunk, remote: remoteChunk });
+
+        if (anchor >= base.length) break;
+        pushResolved([base[anchor]]);
+        b = anchor + 1;
+        l = localEnd + 1;
+        r = remoteEnd + 1;
+    }
+
+    return hunks;
+}
+
+/**
+ * Three-way merges a set of tags. Additions and removals from both sides are
+ * applied, so tag merges never conflict. Local ordering is preserved.
+ */
+export function mergeTags(base: string[], local: string[], remote: string[]): string[] {
+    const baseSet = new Set(base);
+    const localSet = new Set(local);
+    const remoteSet = new Set(remote);
+    const removedRemotely = base.filter(tag => !remoteSet.has(tag));
+    const addedRemotely = remote.filter(tag => !baseSet.has(tag) && !localSet.has(tag));
+    return [...local.filter(tag => !removedRemotely.includes(tag)), ...addedRemotely];
+}
+
+/**
+ * Three-way merges a single value: whichever side changed it wins, and a
+ * conflict is reported only when both sides changed it differently.
+ */
+function mergeScalar<T>(base: T, local: T, remote: T): { value: T; conflict: ScalarConflict<T> | null } {
+    if (local === base || local === remote) return { value: remote, conflict: null };
+    if (remote === base) return { value: local, conflict: null };
+    return { value: local, conflict: { base, local, remote } };
+}
+
+/**
+ * Joins merged hunks back into text, using the given choice for each conflict.
+ * @param hunks The hunks produced by `mergeLines`.
+ * @param resolveConflict Returns the lines to use for a conflicting hunk.
+ */
+export function joinHunks(hunks: MergeHunk[], resolveConflict: (hunk: Extract<MergeHunk, { type: 'conflict' }>, index: number) => string[]): string {
+    let conflictIndex = 0;
+    return hunks.flatMap(hunk => hunk.type === 'resolved' ? hunk.lines : resolveConflict(hunk, conflictIndex++)).join('\n');
+}
+
+/**
+ * Three-way merges the editable fields of a note.
+ * @param base The last state both sides agreed on.
+ * @param local The unsaved draft in this editor.
+ * @param remote The version that arrived via realtime sync.
+ */
+export function mergeNotes(base: MergeableNote, local: MergeableNote, remote: MergeableNote): NoteMergeResult {
+    const title = mergeScalar(base.title, local.title, remote.title);
+    const contentHunks = mergeLines(base.content.split('\n'), local.content.split('\n'), remote.content.split('\n'));
+    const hasContentConflicts = contentHunks.some(hunk => hunk.type === 'conflict');
+
+    return {
+        merged: {
+            title: title.value,
+            content: joinHunks(contentHunks, hunk => hunk.local),
+            tags: mergeTags(base.tags, local.tags, remote.tags),
+        },
+        contentHunks,
+        titleConflict: title.conflict,
+        hasConflicts: !!title.conflict || hasContentConflicts,
+    };
+}
@@ -0,0 +1,182 @@
+import { NoteVersion } from '../types';
+import { diffSequences } from './diff';
+
+// A full copy of the content is stored at least this often, so reading a version replays a bounded number of deltas.
+export const SNAPSHOT_INTERVAL = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Every version from the last week is kept, then the last one of each day for the rest
+// of the month, then the last one of each week.
+const KEEP_ALL_DAYS = 7;
+const KEEP_DAILY_DAYS = 30;
+
+/**
+ * A line-level edit script: a positive number copies that many lines from the base,
+ * a negative number skips that many, and an array inserts its lines.
+ */
+export type ContentDelta = (number | string[])[];
+
+/**
+ * A `note_versions` row as stored. A row without `baseId` is a full snapshot; otherwise
+ * its content is `delta` applied to the content of the version `baseId` points to.
+ * Titles and tags are small and always stored in full.
+ */
+export interface StoredVersion {
+    id: string;
+    noteId: string;
+    userId?: string;
+    savedAt: string;
+    title: string;
+    tags: string[];
+    content: string | null;
+    baseId: string | null;
+    delta: ContentDelta | null;
+}
+
+/**
+ * The newest version of a note's chain, which the next saved version is encoded against.
+ */
+export interface ChainHead {
+    id: string;
+    content: string;
+    // Deltas since the last full snapshot.
+    depth: number;
+}
+
+export type KeyedVersion = NoteVersion & { id: string; noteId: string };
+
+export const encodeDelta = (base: string, content: string): ContentDelta =>
+    diffSequences(base.split('\n'), content.split('\n'))
+        .map(op => op.type === 'equal' ? op.items.length : op.type === 'delete' ? -op.items.length : op.items);
+
+export const applyDelta = (base: string, delta: ContentDelta): string => {
+    const lines = base.split('\n');
+    const result: string[] = [];
+    let position = 0;
+    for (const op of delta) {
+        if (Array.isArray(op)) {
+            result.push(...op);
+        } else if (op > 0) {
+            result.push(...lines.slice(position, position + op));
+            position += op;
+        } else {
+            position -= op;
+        }
+    }
+    return result.join('\n');
+};
+
+/**
+ * Encodes a version as the next link in a chain: a delta against the head, or a full
+ * snapshot when there is no head or the chain is due one.
+ * @returns The row to store and the chain's new head.
+ */
+export const encodeVersion = (version: KeyedVersion, head: ChainHead | null): { row: StoredVersion; head: ChainHead } => {
+    const base = head && head.depth + 1 < SNAPSHOT_INTERVAL ? head : null;
+    const row: StoredVersion = {
+        id: version.id,
+        noteId: version.noteId,
+        userId: version.userId,
+        savedAt: version.savedAt,
+        title: version.title,
+        tags: version.tags,
+        content: base ? null : version.content,
+        baseId: base?.id ?? null,
+        delta: base ? encodeDelta(base.content, version.content) : null,
+    };
+    return { row, head: { id: version.id, content: version.content, depth: base ? base.depth + 1 : 0 } };
+};
+
+const sortNewestFirst = <T extends Pick<NoteVersion, 'savedAt'>>(versions: T[]) =>
+    [...versions].sort((a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime());
+
+/**
+ * Rebuilds the full versions from stored rows, newest first. A row whose chain doesn't
+ * reach a snapshot (its base was deleted elsewhere) can't be read and is left out.
+ */
+export const decodeVersions = (rows: StoredVersion[]): KeyedVersion[] => {
+    const byId = new Map(rows.map(row => [row.id, row]));
+    // Null marks a row that is being resolved or can't be.
+    const contents = new Map<string, string | null>();
+
+    const resolve = (row: StoredVersion): string | null => {
+        const chain: StoredVersion[] = [];
+        let content: string | null = null;
+        for (let current: StoredVersion | undefined = row; current; current = current.baseId ? byId.get(current.baseId) : undefined) {
+            if (contents.has(current.id)) {
+                content = contents.get(current.id)!;
+                break;
+            }
+            contents.set(current.id, null);
+            if (!current.baseId) {
+                content = current.content ?? '';
+                contents.set(current.id, content);
+                break;
+            }
+            chain.push(current);
+        }
+        for (const link of chain.reverse()) {
+            content = content === null || !link.delta ? null : applyDelta(content, link.delta);
+            contents.set(link.id, content);
+        }
+        return content;
+    };
+
+    return sortNewestFirst(rows).flatMap(row => {
+        const content = resolve(row);
+        return content === null ? [] : [{ id: row.id, noteId: row.noteId, userId: row.userId, savedAt: row.savedAt, title: row.title, tags: row.tags, content }];
+    });
+};
+
+/**
+ * The head of a note's stored chain: its newest readable version, and how many deltas
+ * it is from a snapshot.
+ */
+export const getChainHead = (rows: StoredVersion[]): ChainHead | null => {
+    const [newest] = decodeVersions(rows);
+    if (!newest) return null;
+    const byId = new Map(rows.map(row => [row.id, row]));
+    let depth = 0;
+    for (let row = byId.get(newest.id); row?.baseId; row = byId.get(row.baseId)) depth++;
+    return { id: newest.id, content: newest.content, depth };
+};
+
+/**
+ * Thins out old history: everything from the last week, the newest version of each
+ * day in the last month, and the newest version of each week before that.
+ * @returns The versions to keep, newest first.
+ */
+export const applyRetention = <T extends Pick<NoteVersion, 'savedAt'>>(versions: T[], now = Date.now()): T[] => {
+    const seenPeriods = new Set<string>();
+    return sortNewestFirst(versions).filter(version => {
+        const savedAt = new Date(version.savedAt).getTime();
+        const age = now - savedAt;
+        if (age < KEEP_ALL_DAYS * DAY_MS) return true;
+        const period = age < KEEP_DAILY_DAYS * DAY_MS ? `day-${Math.floor(savedAt / DAY_MS)}` : `week-${Math.floor(savedAt / (7 * DAY_MS))}`;
+        if (seenPeriods.has(period)) return false;
+        seenPeriods.add(period);
+        return true;
+    });
+};
+
+/**
+ * Applies the retention rules to a note's stored history and re-encodes what is left
+ * as a single chain, so deltas never point at a deleted version.
+ * @returns The readable history, the rows whose encoding changed, the ids of the rows
+ * to delete, and the head for the next saved version.
+ */
+export const compactHistory = (rows: StoredVersion[], now = Date.now()) => {
+    const versions = applyRetention(decodeVersions(rows), now);
+    const storedById = new Map(rows.map(row => [row.id, row]));
+    const changed: StoredVersion[] = [];
+    let head: ChainHead | null = null;
+    for (const version of [...versions].reverse()) {
+        const encoded = encodeVersion(version, head);
+        head = encoded.head;
+        // Rows on the same base encode the same delta, so only a new base needs a write.
+        if (storedById.get(version.id)?.baseId !== encoded.row.baseId) changed.push(encoded.row);
+    }
+    const keptIds = new Set(versions.map(v => v.id));
+    const removedIds = rows.filter(row => !keptIds.has(row.id)).map(row => row.id);
+    return { versions, changed, removedIds, head };
+};
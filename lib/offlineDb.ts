@@ -0,0 +1,167 @@
+const DB_NAME = 'wescore-offline';
+const DB_VERSION = 3;
+
+// Local replicas of the Supabase tables, stored in the app's camelCase shape.
+export const REPLICA_STORES = ['notes', 'collections', 'smart_collections', 'templates', 'note_versions'] as const;
+export type ReplicaStore = typeof REPLICA_STORES[number];
+
+export const MUTATION_QUEUE_STORE = 'mutation_queue';
+
+// Chunk embeddings for the semantic index, one row per note and embedding provider.
+export const EMBEDDINGS_STORE = 'embeddings';
+
+// Large L1 cache entries that would crowd localStorage.
+export const L1_CACHE_STORE = 'l1_cache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IDBRequest in a promise.
+ * @param request The request to wait for.
+ * @returns The request's result.
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Resolves once a transaction has committed, or rejects if it was aborted.
+ */
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+/**
+ * Opens (and lazily upgrades) the offline database. The connection is shared
+ * for the lifetime of the page.
+ */
+export const openOfflineDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser.'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            REPLICA_STORES.forEach(name => {
+                if (!db.objectStoreNames.contains(name)) {
+                    const store = db.createObjectStore(name, { keyPath: 'id' });
+                    store.createIndex('userId', 'userId', { unique: false });
+                }
+            });
+            if (!db.objectStoreNames.contains(MUTATION_QUEUE_STORE)) {
+                const queue = db.createObjectStore(MUTATION_QUEUE_STORE, { keyPath: 'seq', autoIncrement: true });
+                queue.createIndex('userId', 'userId', { unique: false });
+            }
+            if (!db.objectStoreNames.contains(EMBEDDINGS_STORE)) {
+                const embeddings = db.createObjectStore(EMBEDDINGS_STORE, { keyPath: 'id' });
+                embeddings.createIndex('userId', 'userId', { unique: false });
+            }
+            if (!db.objectStoreNames.contains(L1_CACHE_STORE)) {
+                db.createObjectStore(L1_CACHE_STORE, { keyPath: 'key' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry if opening failed (e.g. private browsing).
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+/**
+ * Reads every row a user owns from a replica store.
+ * @param storeName The replica store to read.
+ * @param userId The owner of the rows.
+ */
+export const readReplica = async <T>(storeName: ReplicaStore, userId: string): Promise<T[]> => {
+    const db = await openOfflineDb();
+    const tx = db.transaction(storeName, 'readonly');
+    const rows = await promisifyRequest(tx.objectStore(storeName).index('userId').getAll(userId));
+    return rows as T[];
+};
+
+/**
+ * Replaces a user's rows in a replica store with a fresh snapshot.
+ * @param storeName The replica store to write.
+ * @param userId The owner of the rows.
+ * @param rows The complete set of rows the user should have.
+ */
+export const writeReplica = async <T extends { id?: string }>(storeName: ReplicaStore, userId: string, rows: T[]): Promise<void> => {
+    const db = await openOfflineDb();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    const existingKeys = await promisifyRequest(store.index('userId').getAllKeys(userId));
+    const nextIds = new Set(rows.map(row => row.id));
+    existingKeys.forEach(key => {
+        if (!nextIds.has(key as string)) store.delete(key);
+    });
+    rows.forEach(row => {
+        if (row.id) store.put({ ...row, userId });
+    });
+    await transactionDone(tx);
+};
+
+/**
+ * Replaces part of a user's rows in a replica store, leaving the rest untouched.
+ * @param storeName The replica store to write.
+ * @param userId The owner of the rows.
+ * @param rows The rows the selected part should consist of.
+ * @param isReplaced Selects the existing rows that `rows` replaces.
+ */
+export const replaceReplicaRows = async <T extends { id?: string }>(storeName: ReplicaStore, userId: string, rows: T[], isReplaced: (row: T) => boolean): Promise<void> => {
+    const db = await openOfflineDb();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    const existingRows = await promisifyRequest(store.index('userId').getAll(userId)) as T[];
+    const nextIds = new Set(rows.map(row => row.id));
+    existingRows.forEach(row => {
+        if (row.id && isReplaced(row) && !nextIds.has(row.id)) store.delete(row.id);
+    });
+    rows.forEach(row => {
+        if (row.id) store.put({ ...row, userId });
+    });
+    await transactionDone(tx);
+};
+
+/**
+ * Runs a read-write transaction against the mutation queue store.
+ */
+export const withMutationQueue = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+    const db = await openOfflineDb();
+    const tx = db.transaction(MUTATION_QUEUE_STORE, mode);
+    const result = await fn(tx.objectStore(MUTATION_QUEUE_STORE));
+    await transactionDone(tx);
+    return result;
+};
+
+/**
+ * Runs a transaction against the embeddings store.
+ */
+export const withEmbeddingsStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+    const db = await openOfflineDb();
+    const tx = db.transaction(EMBEDDINGS_STORE, mode);
+    const result = await fn(tx.objectStore(EMBEDDINGS_STORE));
+    await transactionDone(tx);
+    return result;
+};
+
+/**
+ * Runs a transaction against the L1 cache store.
+ */
+export const withL1CacheStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+    const db = await openOfflineDb();
+    const tx = db.transaction(L1_CACHE_STORE, mode);
+    const result = await fn(tx.objectStore(L1_CACHE_STORE));
+    await transactionDone(tx);
+    return result;
+};
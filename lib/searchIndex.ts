@@ -0,0 +1,227 @@
+import { Note, Collection } from '../types';
+import { ParsedSearchQuery, DateFilter, tokenize } from './searchQuery';
+import { generatePreviewFromMarkdown } from './markdownUtils';
+
+type SearchField = 'title' | 'tags' | 'content';
+
+const FIELDS: SearchField[] = ['title', 'tags', 'content'];
+const FIELD_BOOSTS: Record<SearchField, number> = { title: 3, tags: 2, content: 1 };
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Tokens that merely start with a query term score at this fraction of an exact match.
+const PREFIX_MATCH_WEIGHT = 0.5;
+// Reciprocal rank fusion constant; larger values flatten the influence of top ranks.
+const RRF_K = 60;
+const SNIPPET_LENGTH = 160;
+
+interface FieldIndex {
+    postings: Map<string, Map<string, number>>;
+    lengths: Map<string, number>;
+    averageLength: number;
+}
+
+export interface SearchIndex {
+    docCount: number;
+    fields: Record<SearchField, FieldIndex>;
+}
+
+export interface SearchResult {
+    noteId: string;
+    score: number;
+    snippet: string;
+}
+
+const fieldText = (note: Note, field: SearchField) =>
+    field === 'title' ? note.title : field === 'tags' ? note.tags.join(' ') : note.content;
+
+/**
+ * Builds an inverted index over note titles, tags and content for BM25 scoring.
+ */
+export const buildSearchIndex = (notes: Note[]): SearchIndex => {
+    const fields = {} as Record<SearchField, FieldIndex>;
+
+    FIELDS.forEach(field => {
+        const postings = new Map<string, Map<string, number>>();
+        const lengths = new Map<string, number>();
+        let totalLength = 0;
+
+        notes.forEach(note => {
+            const tokens = tokenize(fieldText(note, field));
+            lengths.set(note.id, tokens.length);
+            totalLength += tokens.length;
+            tokens.forEach(token => {
+                let docs = postings.get(token);
+                if (!docs) {
+                    docs = new Map();
+                    postings.set(token, docs);
+                }
+                docs.set(note.id, (docs.get(note.id) || 0) + 1);
+            });
+        });
+
+        fields[field] = { postings, lengths, averageLength: notes.length > 0 ? totalLength / notes.length : 0 };
+    });
+
+    return { docCount: notes.length, fields };
+};
+
+/**
+ * Scores every document containing `term` (or a token starting with it) with
+ * field-boosted BM25, adding the scores into `scores`.
+ */
+const scoreTerm = (index: SearchIndex, term: string, scores: Map<string, number>) => {
+    FIELDS.forEach(field => {
+        const { postings, lengths, averageLength } = index.fields[field];
+        postings.forEach((docs, token) => {
+            const weight = token === term ? 1 : token.startsWith(term) ? PREFIX_MATCH_WEIGHT : 0;
+            if (weight === 0) return;
+            const idf = Math.log(1 + (index.docCount - docs.size + 0.5) / (docs.size + 0.5));
+            docs.forEach((tf, noteId) => {
+                const lengthNorm = averageLength > 0 ? (lengths.get(noteId) || 0) / averageLength : 0;
+                const termScore = idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * lengthNorm));
+                scores.set(noteId, (scores.get(noteId) || 0) + FIELD_BOOSTS[field] * weight * termScore);
+            });
+        });
+    });
+};
+
+const containsToken = (index: SearchIndex, noteId: string, term: string) =>
+    FIELDS.some(field => index.fields[field].postings.get(term)?.has(noteId));
+
+const compareDate = (isoDate: string, filter: DateFilter): boolean => {
+    // Compare local calendar dates at the precision the user typed (year, month or day).
+    const date = new Date(isoDate);
+    const local = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    const actual = local.slice(0, filter.value.length);
+    switch (filter.op) {
+        case '>': return actual > filter.value;
+        case '>=': return actual >= filter.value;
+        case '<': return actual < filter.value;
+        case '<=': return actual <= filter.value;
+        default: return actual === filter.value;
+    }
+};
+
+/**
+ * Checks a note against the structured (non-text) parts of a query:
+ * tags, folders, favorite status, dates and exclusions.
+ */
+export const matchesQueryFilters = (note: Note, parsed: ParsedSearchQuery, collections: Collection[]): boolean => {
+    const noteTags = note.tags.map(t => t.toLowerCase());
+    if (!parsed.tags.every(tag => noteTags.includes(tag))) return false;
+    if (parsed.excludedTags.some(tag => noteTags.includes(tag))) return false;
+    if (parsed.isFavorite !== null && note.isFavorite !== parsed.isFavorite) return false;
+    if (!parsed.dates.every(filter => compareDate(note[filter.field], filter))) return false;
+
+    if (parsed.folders.length > 0 || parsed.excludedFolders.length > 0) {
+        const collectionMap = new Map(collections.map(c => [c.id, c]));
+        const folderNames: string[] = [];
+        let parentId = note.parentId;
+        while (parentId) {
+            const collection = collectionMap.get(parentId);
+            if (!collection) break;
+            folderNames.push(collection.name.toLowerCase());
+            parentId = collection.parentId;
+        }
+        if (!parsed.folders.every(folder => folderNames.includes(folder))) return false;
+        if (parsed.excludedFolders.some(folder => folderNames.includes(folder))) return false;
+    }
+
+    const haystack = `${note.title}\n${note.content}`.toLowerCase();
+    if (parsed.excludedPhrases.some(phrase => haystack.includes(phrase))) return false;
+    if (parsed.excludedTerms.length > 0) {
+        const tokens = new Set(tokenize(`${haystack} ${note.tags.join(' ')}`));
+        if (parsed.excludedTerms.some(term => tokens.has(term))) return false;
+    }
+    return true;
+};
+
+/**
+ * Returns a short plain-text excerpt of the note centred on the first query match.
+ * @param highlightTerms Lowercase terms and phrases to look for.
+ */
+export const buildSnippet = (content: string, highlightTerms: string[]): string => {
+    const plain = generatePreviewFromMarkdown(content, Number.MAX_SAFE_INTEGER);
+    const lower = plain.toLowerCase();
+    const firstHit = highlightTerms
+        .map(term => lower.indexOf(term))
+        .filter(i => i >= 0)
+        .sort((a, b) => a - b)[0];
+
+    if (firstHit === undefined || plain.length <= SNIPPET_LENGTH) {
+        return plain.length > SNIPPET_LENGTH ? `${plain.substring(0, SNIPPET_LENGTH).trim()}...` : plain;
+    }
+
+    let start = Math.max(0, firstHit - Math.floor(SNIPPET_LENGTH / 4));
+    if (start > 0) {
+        const wordStart = plain.lastIndexOf(' ', start);
+        start = wordStart >= 0 ? wordStart + 1 : start;
+    }
+    const end = Math.min(plain.length, start + SNIPPET_LENGTH);
+    return `${start > 0 ? '...' : ''}${plain.substring(start, end).trim()}${end < plain.length ? '...' : ''}`;
+};
+
+/**
+ * Runs a parsed query against the index. Every term and phrase must match;
+ * results are ranked by field-boosted BM25. A query with only filters returns
+ * every matching note, most recently updated first.
+ */
+export const searchIndex = (
+    index: SearchIndex,
+    notes: Note[],
+    parsed: ParsedSearchQuery,
+    collections: Collection[]
+): SearchResult[] => {
+    const phraseTokens = parsed.phrases.flatMap(tokenize);
+    const scoringTerms = [...new Set([...parsed.terms, ...phraseTokens])];
+    const highlightTerms = [...parsed.phrases, ...parsed.terms];
+
+    const candidates = notes.filter(note => matchesQueryFilters(note, parsed, collections));
+
+    if (scoringTerms.length === 0) {
+        return candidates
+            .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+            .map(note => ({ noteId: note.id, score: 0, snippet: buildSnippet(note.content, highlightTerms) }));
+    }
+
+    const totals = new Map<string, number>();
+    const matchedTermCounts = new Map<string, number>();
+    scoringTerms.forEach(term => {
+        const termScores = new Map<string, number>();
+        scoreTerm(index, term, termScores);
+        termScores.forEach((score, noteId) => {
+            totals.set(noteId, (totals.get(noteId) || 0) + score);
+            matchedTermCounts.set(noteId, (matchedTermCounts.get(noteId) || 0) + 1);
+        });
+    });
+
+    const results: SearchResult[] = [];
+    candidates.forEach(note => {
+        if (matchedTermCounts.get(note.id) !== scoringTerms.length) return;
+        const haystack = `${note.title}\n${note.content}`.toLowerCase();
+        if (!parsed.phrases.every(phrase => haystack.includes(phrase))) return;
+        // Exact (non-prefix) hits on every term get a small bonus over partial-word matches.
+        const exactBonus = scoringTerms.every(term => containsToken(index, note.id, term)) ? 1.1 : 1;
+        results.push({ noteId: note.id, score: (totals.get(note.id) || 0) * exactBonus, snippet: buildSnippet(note.content, highlightTerms) });
+    });
+
+    return results.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Merges several ranked lists with reciprocal rank fusion. Scores from
+ * different rankers aren't comparable, so only each result's rank is used.
+ * The first list's snippet wins when a note appears in several lists.
+ */
+export const fuseRankings = (rankings: SearchResult[][]): SearchResult[] => {
+    const fused = new Map<string, SearchResult>();
+    rankings.forEach(ranking => {
+        ranking.forEach((result, rank) => {
+            const contribution = 1 / (RRF_K + rank + 1);
+            const existing = fused.get(result.noteId);
+            if (existing) existing.score += contribution;
+            else fused.set(result.noteId, { ...result, score: contribution });
+        });
+    });
+    return [...fused.values()].sort((a, b) => b.score - a.score);
+};
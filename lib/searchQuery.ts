@@ -0,0 +1,97 @@
+export type DateComparison = '>' | '>=' | '<' | '<=' | '=';
+
+export interface DateFilter {
+    field: 'createdAt' | 'updatedAt';
+    op: DateComparison;
+    /** A date prefix such as `2026`, `2026-01` or `2026-01-15`. */
+    value: string;
+}
+
+export interface ParsedSearchQuery {
+    terms: string[];
+    phrases: string[];
+    excludedTerms: string[];
+    excludedPhrases: string[];
+    tags: string[];
+    excludedTags: string[];
+    folders: string[];
+    excludedFolders: string[];
+    isFavorite: boolean | null;
+    dates: DateFilter[];
+}
+
+// Matches an optional `-`, an optional `key:` and either a quoted or bare value.
+const QUERY_PART_REGEX = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+const DATE_VALUE_REGEX = /^(>=|<=|>|<|=)?(\d{4}(?:-\d{2}(?:-\d{2})?)?)$/;
+
+/**
+ * Splits text into lowercase word tokens. Shared by the query parser and the
+ * search index so both sides agree on what a "word" is.
+ */
+export const tokenize = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+/**
+ * Parses a search box query. Supported syntax:
+ * - `tag:work`, `in:"Project Notes"`, `is:favorite`
+ * - `created:>2026-01-01`, `updated:<=2026-02` (also `>=`, `<`, `=`)
+ * - `"exact phrase"`
+ * - a leading `-` to exclude any term, phrase or filter
+ * Unrecognized `key:value` pairs are treated as plain text.
+ */
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+    const parsed: ParsedSearchQuery = {
+        terms: [], phrases: [], excludedTerms: [], excludedPhrases: [],
+        tags: [], excludedTags: [], folders: [], excludedFolders: [],
+        isFavorite: null, dates: [],
+    };
+
+    for (const match of query.matchAll(QUERY_PART_REGEX)) {
+        const [raw, negation, rawKey, quoted, bare] = match;
+        const isExcluded = negation === '-';
+        const key = rawKey?.toLowerCase();
+        const value = (quoted ?? bare ?? '').trim();
+
+        if (key === 'tag' && value) {
+            (isExcluded ? parsed.excludedTags : parsed.tags).push(value.replace(/^#/, '').toLowerCase());
+            continue;
+        }
+        if (key === 'in' && value) {
+            (isExcluded ? parsed.excludedFolders : parsed.folders).push(value.toLowerCase());
+            continue;
+        }
+        if (key === 'is' && ['favorite', 'favourite', 'starred'].includes(value.toLowerCase())) {
+            parsed.isFavorite = !isExcluded;
+            continue;
+        }
+        if ((key === 'created' || key === 'updated') && DATE_VALUE_REGEX.test(value)) {
+            const [, op = '=', date] = value.match(DATE_VALUE_REGEX)!;
+            parsed.dates.push({ field: key === 'created' ? 'createdAt' : 'updatedAt', op: op as DateComparison, value: date });
+            continue;
+        }
+
+        if (quoted !== undefined && !key) {
+            const phrase = quoted.trim().toLowerCase();
+            if (phrase) (isExcluded ? parsed.excludedPhrases : parsed.phrases).push(phrase);
+            continue;
+        }
+
+        // Plain words, including unrecognized `key:value` pairs.
+        const tokens = tokenize(isExcluded ? raw.slice(1) : raw);
+        (isExcluded ? parsed.excludedTerms : parsed.terms).push(...tokens);
+    }
+
+    return parsed;
+};
+
+/**
+ * Returns the free-text part of a query (terms and phrases), which is what
+ * semantic search should see.
+ */
+export const getQueryFreeText = (parsed: ParsedSearchQuery): string =>
+    [...parsed.phrases, ...parsed.terms].join(' ');
+
+export const hasStructuredFilters = (parsed: ParsedSearchQuery): boolean =>
+    parsed.tags.length > 0 || parsed.excludedTags.length > 0
+    || parsed.folders.length > 0 || parsed.excludedFolders.length > 0
+    || parsed.isFavorite !== null || parsed.dates.length > 0
+    || parsed.excludedTerms.length > 0 || parsed.excludedPhrases.length > 0;
@@ -0,0 +1,263 @@
+import { Note } from '../types';
+import { sha256 } from './cache';
+import { withEmbeddingsStore, promisifyRequest } from './offlineDb';
+
+// Chunks are built from whole paragraphs up to roughly this many characters.
+const CHUNK_TARGET_CHARS = 1200;
+
+export type EmbeddingPurpose = 'document' | 'query';
+
+/**
+ * Turns text into vectors for the semantic index. Implementations must return
+ * one vector per input, in order, with a fixed dimensionality.
+ */
+export interface EmbeddingProvider {
+    /** Stable identifier. Embeddings from different providers are never compared. */
+    id: string;
+    /** The most texts a single `embed` call may receive. */
+    maxBatchSize: number;
+    embed: (texts: string[], purpose: EmbeddingPurpose, signal?: AbortSignal) => Promise<number[][]>;
+}
+
+export interface SemanticSearchOptions {
+    limit?: number;
+    excludeIds?: string[];
+    minScore?: number;
+    signal?: AbortSignal;
+}
+
+export interface SemanticSearchResult {
+    noteId: string;
+    /** Cosine similarity of the best-matching chunk, from -1 to 1. */
+    score: number;
+    /** The text of the best-matching chunk. */
+    snippet: string;
+}
+
+interface IndexedChunk {
+    text: string;
+    vector: Float32Array;
+}
+
+interface IndexedNoteRecord {
+    id: string;
+    userId: string;
+    providerId: string;
+    noteId: string;
+    hash: string;
+    chunks: IndexedChunk[];
+}
+
+export interface SemanticIndex {
+    /** Brings the index up to date with the given notes, embedding only what changed. */
+    sync: (notes: Note[]) => Promise<void>;
+    /** Searches the notes indexed so far; changed notes match on their previous content until re-embedded. */
+    search: (query: string, options?: SemanticSearchOptions) => Promise<SemanticSearchResult[]>;
+    getIndexedNoteCount: () => number;
+}
+
+/**
+ * Splits a long paragraph on sentence boundaries, hard-wrapping anything that
+ * still exceeds the chunk size.
+ */
+const splitLongParagraph = (paragraph: string): string[] => {
+    const pieces: string[] = [];
+    let current = '';
+    for (const sentence of paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph]) {
+        if (current && current.length + sentence.length > CHUNK_TARGET_CHARS) {
+            pieces.push(current.trim());
+            current = '';
+        }
+        current += sentence;
+        while (current.length > CHUNK_TARGET_CHARS) {
+            pieces.push(current.slice(0, CHUNK_TARGET_CHARS).trim());
+            current = current.slice(CHUNK_TARGET_CHARS);
+        }
+    }
+    if (current.trim()) pieces.push(current.trim());
+    return pieces;
+};
+
+/**
+ * Splits a note into paragraph-aligned chunks for embedding. Each chunk is
+ * prefixed with the note's title and tags so it carries its own context.
+ * @param note The note to split.
+ * @returns At least one chunk, even for empty notes.
+ */
+export const chunkNote = (note: Pick<Note, 'title' | 'content' | 'tags'>): string[] => {
+    const header = note.tags.length > 0 ? `${note.title}\nTags: ${note.tags.join(', ')}` : note.title;
+    const paragraphs = note.content
+        .split(/\n\s*\n/)
+        .map(p => p.trim())
+        .filter(Boolean)
+        .flatMap(p => (p.length > CHUNK_TARGET_CHARS ? splitLongParagraph(p) : [p]));
+
+    const bodies: string[] = [];
+    let current = '';
+    paragraphs.forEach(paragraph => {
+        if (current && current.length + paragraph.length > CHUNK_TARGET_CHARS) {
+            bodies.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+    });
+    if (current) bodies.push(current);
+
+    if (bodies.length === 0) return [header];
+    return bodies.map(body => `${header}\n\n${body}`);
+};
+
+/**
+ * Scales a vector to unit length so cosine similarity reduces to a dot product.
+ */
+const normalize = (values: number[]): Float32Array => {
+    const vector = Float32Array.from(values);
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+        for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+    }
+    return vector;
+};
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+    const length = Math.min(a.length, b.length);
+    let sum = 0;
+    for (let i = 0; i < length; i++) sum += a[i] * b[i];
+    return sum;
+};
+
+// Stops waiting on `promise`, though not the work behind it, once the signal aborts.
+const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(signal.reason);
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+const hashNote = (note: Note) => sha256(JSON.stringify([note.title, note.tags, note.content]));
+
+/**
+ * Creates a chunked embedding index over one user's notes. Embeddings are
+ * persisted in IndexedDB so only new or changed notes are embedded after a reload.
+ * @param provider The embedding provider to use.
+ * @param userId The owner of the indexed notes ('demo' for the local demo workspace).
+ */
+export const createSemanticIndex = (provider: EmbeddingProvider, userId: string): SemanticIndex => {
+    const records = new Map<string, IndexedNoteRecord>();
+    const recordId = (noteId: string) => `${userId}:${provider.id}:${noteId}`;
+
+    const hydrated = withEmbeddingsStore('readonly', async (store) => {
+        const rows = await promisifyRequest(store.index('userId').getAll(userId)) as IndexedNoteRecord[];
+        rows.filter(row => row.providerId === provider.id).forEach(row => records.set(row.noteId, row));
+    }).catch(error => {
+        console.warn("Semantic index could not be loaded from IndexedDB; rebuilding in memory.", error);
+    });
+
+    const persist = (puts: IndexedNoteRecord[], deletes: string[]) =>
+        withEmbeddingsStore('readwrite', async (store) => {
+            puts.forEach(record => store.put(record));
+            deletes.forEach(id => store.delete(id));
+        }).catch(error => {
+            console.warn("Failed to persist semantic index:", error);
+        });
+
+    const runSync = async (notes: Note[]) => {
+        await hydrated;
+
+        const liveIds = new Set(notes.map(n => n.id));
+        const removed = [...records.keys()].filter(noteId => !liveIds.has(noteId));
+        removed.forEach(noteId => records.delete(noteId));
+        if (removed.length > 0) await persist([], removed.map(recordId));
+
+        const stale: { note: Note; hash: string; chunks: string[] }[] = [];
+        for (const note of notes) {
+            const hash = await hashNote(note);
+            if (records.get(note.id)?.hash !== hash) {
+                stale.push({ note, hash, chunks: chunkNote(note) });
+            }
+        }
+
+        // Embed in provider-sized batches, saving after each so progress survives failures.
+        let batch: typeof stale = [];
+        let batchChunkCount = 0;
+        const flush = async () => {
+            if (batch.length === 0) return;
+            const texts = batch.flatMap(item => item.chunks);
+            const vectors = await provider.embed(texts, 'document');
+            let offset = 0;
+            const updated = batch.map(({ note, hash, chunks }) => {
+                const record: IndexedNoteRecord = {
+                    id: recordId(note.id),
+                    userId,
+                    providerId: provider.id,
+                    noteId: note.id,
+                    hash,
+                    chunks: chunks.map((text, i) => ({ text, vector: normalize(vectors[offset + i]) })),
+                };
+                offset += chunks.length;
+                records.set(note.id, record);
+                return record;
+            });
+            await persist(updated, []);
+            batch = [];
+            batchChunkCount = 0;
+        };
+
+        for (const item of stale) {
+            // Notes with more chunks than a batch allows are capped rather than split across calls.
+            const chunks = item.chunks.slice(0, provider.maxBatchSize);
+            if (batchChunkCount + chunks.length > provider.maxBatchSize) await flush();
+            batch.push({ ...item, chunks });
+            batchChunkCount += chunks.length;
+        }
+        await flush();
+    };
+
+    // Syncs run one at a time, in the order they were requested.
+    let syncQueue: Promise<void> = Promise.resolve();
+
+    const sync = (notes: Note[]): Promise<void> => {
+        const next = syncQueue.then(() => runSync(notes));
+        syncQueue = next.catch(() => {});
+        return next;
+    };
+
+    const search = async (query: string, options: SemanticSearchOptions = {}): Promise<SemanticSearchResult[]> => {
+        const { limit = 5, excludeIds = [], minScore = 0, signal } = options;
+        if (!query.trim()) return [];
+
+        await hydrated;
+        // Search what's indexed so far rather than waiting for a sync to finish, unless
+        // nothing is: then the first sync is the only way to get any results.
+        if (records.size === 0) await untilAborted(syncQueue, signal);
+        if (records.size === 0) return [];
+
+        const [queryValues] = await provider.embed([query], 'query', signal);
+        const queryVector = normalize(queryValues);
+        const excluded = new Set(excludeIds);
+
+        const results: SemanticSearchResult[] = [];
+        for (const record of records.values()) {
+            if (excluded.has(record.noteId)) continue;
+            let best: SemanticSearchResult | null = null;
+            for (const chunk of record.chunks) {
+                const score = dot(queryVector, chunk.vector);
+                if (!best || score > best.score) best = { noteId: record.noteId, score, snippet: chunk.text };
+            }
+            if (best && best.score >= minScore) results.push(best);
+        }
+
+        return results.sort((a, b) => b.score - a.score).slice(0, limit);
+    };
+
+    return {
+        sync,
+        search,
+        getIndexedNoteCount: () => records.size,
+    };
+};
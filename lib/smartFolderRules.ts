@@ -0,0 +1,206 @@
+import { Note, Collection, SmartCollection, SmartRule, SmartRuleGroup, SmartRuleField, SmartRuleOperator } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RULE_FIELD_LABELS: Record<SmartRuleField, string> = {
+    tag: 'Tag',
+    folder: 'Folder',
+    createdAt: 'Created',
+    updatedAt: 'Updated',
+    isFavorite: 'Favorite',
+    wordCount: 'Word count',
+    content: 'Content',
+};
+
+export const RULE_OPERATORS: Record<SmartRuleField, { value: SmartRuleOperator; label: string }[]> = {
+    tag: [{ value: 'has', label: 'is' }, { value: 'lacks', label: 'is not' }],
+    folder: [{ value: 'in', label: 'is inside' }, { value: 'notIn', label: 'is not inside' }],
+    createdAt: [{ value: 'after', label: 'after' }, { value: 'before', label: 'before' }, { value: 'on', label: 'on' }, { value: 'withinDays', label: 'in the last (days)' }],
+    updatedAt: [{ value: 'after', label: 'after' }, { value: 'before', label: 'before' }, { value: 'on', label: 'on' }, { value: 'withinDays', label: 'in the last (days)' }],
+    isFavorite: [{ value: 'is', label: 'is' }],
+    wordCount: [{ value: 'atLeast', label: 'at least' }, { value: 'atMost', label: 'at most' }],
+    content: [{ value: 'matches', label: 'matches regex' }, { value: 'notMatches', label: 'does not match regex' }],
+};
+
+export const isRuleGroup = (item: SmartRule | SmartRuleGroup): item is SmartRuleGroup => 'combinator' in item;
+
+export const isRuleBasedCollection = (collection: SmartCollection): collection is SmartCollection & { rules: SmartRuleGroup } =>
+    collection.type === 'RULES' && !!collection.rules;
+
+export const createRule = (field: SmartRuleField = 'tag'): SmartRule => ({
+    id: crypto.randomUUID(),
+    field,
+    operator: RULE_OPERATORS[field][0].value,
+    value: field === 'isFavorite' ? 'true' : '',
+});
+
+export const createRuleGroup = (combinator: 'AND' | 'OR' = 'AND'): SmartRuleGroup => ({
+    id: crypto.randomUUID(),
+    combinator,
+    rules: [createRule()],
+});
+
+export const countWords = (content: string): number => content.trim().split(/\s+/).filter(Boolean).length;
+
+const toLocalDateString = (iso: string) => {
+    const date = new Date(iso);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Returns a human-readable problem with a rule's value, or null if it's valid.
+ */
+export const validateRule = (rule: SmartRule): string | null => {
+    const value = rule.value.trim();
+    switch (rule.field) {
+        case 'tag':
+        case 'folder':
+            return value ? null : `${RULE_FIELD_LABELS[rule.field]} is required.`;
+        case 'createdAt':
+        case 'updatedAt':
+            if (rule.operator === 'withinDays') return /^\d+$/.test(value) ? null : 'Enter a number of days.';
+            return /^\d{4}-\d{2}-\d{2}$/.test(value) ? null : 'Enter a date.';
+        case 'wordCount':
+            return /^\d+$/.test(value) ? null : 'Enter a number of words.';
+        case 'content':
+            if (!value) return 'A pattern is required.';
+            try {
+                new RegExp(value, 'i');
+                return null;
+            } catch {
+                return 'Invalid regular expression.';
+            }
+        default:
+            return null;
+    }
+};
+
+/**
+ * Collects every validation problem in a rule group, recursively.
+ */
+export const validateRuleGroup = (group: SmartRuleGroup): string[] => {
+    if (group.rules.length === 0) return ['Each group needs at least one rule.'];
+    return group.rules.flatMap(item => {
+        if (isRuleGroup(item)) return validateRuleGroup(item);
+        const error = validateRule(item);
+        return error ? [error] : [];
+    });
+};
+
+/**
+ * Builds a flat rule group from loosely typed input, such as a Co-pilot tool call.
+ * Throws with the first problem found.
+ */
+export const parseRuleGroup = (combinator: unknown, rules: unknown): SmartRuleGroup => {
+    if (!Array.isArray(rules) || rules.length === 0) throw new Error("At least one rule is required.");
+    const parsed = rules.map((raw: any): SmartRule => {
+        const field = String(raw?.field) as SmartRuleField;
+        if (!Object.hasOwn(RULE_OPERATORS, field)) throw new Error(`Unknown rule field: ${field}.`);
+        const operator = String(raw?.operator) as SmartRuleOperator;
+        if (!RULE_OPERATORS[field].some(op => op.value === operator)) {
+            throw new Error(`"${operator}" is not a valid operator for the ${field} field.`);
+        }
+        return { id: crypto.randomUUID(), field, operator, value: String(raw?.value ?? '').trim() };
+    });
+    const group: SmartRuleGroup = { id: crypto.randomUUID(), combinator: combinator === 'OR' ? 'OR' : 'AND', rules: parsed };
+    const [error] = validateRuleGroup(group);
+    if (error) throw new Error(error);
+    return group;
+};
+
+/**
+ * Workspace data that rules are evaluated against.
+ */
+export interface RuleContext {
+    collections: Collection[];
+    now?: Date;
+}
+
+// Lookups computed once and shared by every rule evaluation in a single pass.
+interface PreparedContext {
+    ancestorsByCollectionId: Map<string | null, Set<string>>;
+    regexCache: Map<string, RegExp | null>;
+    now: number;
+}
+
+const prepareContext = ({ collections, now = new Date() }: RuleContext): PreparedContext => {
+    const collectionMap = new Map(collections.map(c => [c.id, c]));
+    const ancestorsByCollectionId = new Map<string | null, Set<string>>();
+    collections.forEach(collection => {
+        const ancestors = new Set<string>();
+        let current: Collection | undefined = collection;
+        while (current && !ancestors.has(current.id)) {
+            ancestors.add(current.id);
+            current = current.parentId ? collectionMap.get(current.parentId) : undefined;
+        }
+        ancestorsByCollectionId.set(collection.id, ancestors);
+    });
+    return { ancestorsByCollectionId, regexCache: new Map(), now: now.getTime() };
+};
+
+const getRegex = (pattern: string, context: PreparedContext): RegExp | null => {
+    if (!context.regexCache.has(pattern)) {
+        try {
+            context.regexCache.set(pattern, new RegExp(pattern, 'i'));
+        } catch {
+            context.regexCache.set(pattern, null);
+        }
+    }
+    return context.regexCache.get(pattern)!;
+};
+
+const evaluateRule = (note: Note, rule: SmartRule, context: PreparedContext): boolean => {
+    const value = rule.value.trim();
+    switch (rule.field) {
+        case 'tag': {
+            const hasTag = note.tags.some(tag => tag.toLowerCase() === value.replace(/^#/, '').toLowerCase());
+            return rule.operator === 'lacks' ? !hasTag : hasTag;
+        }
+        case 'folder': {
+            const isInside = !!context.ancestorsByCollectionId.get(note.parentId)?.has(value);
+            return rule.operator === 'notIn' ? !isInside : isInside;
+        }
+        case 'createdAt':
+        case 'updatedAt': {
+            const timestamp = note[rule.field];
+            if (rule.operator === 'withinDays') {
+                return context.now - new Date(timestamp).getTime() <= Number(value) * DAY_MS;
+            }
+            const day = toLocalDateString(timestamp);
+            if (rule.operator === 'before') return day < value;
+            if (rule.operator === 'after') return day > value;
+            return day === value;
+        }
+        case 'isFavorite':
+            return note.isFavorite === (value === 'true');
+        case 'wordCount': {
+            const words = countWords(note.content);
+            return rule.operator === 'atMost' ? words <= Number(value) : words >= Number(value);
+        }
+        case 'content': {
+            const regex = getRegex(value, context);
+            if (!regex) return false;
+            const isMatch = regex.test(`${note.title}\n${note.content}`);
+            return rule.operator === 'notMatches' ? !isMatch : isMatch;
+        }
+        default:
+            return false;
+    }
+};
+
+const evaluateGroup = (note: Note, group: SmartRuleGroup, context: PreparedContext): boolean => {
+    if (group.rules.length === 0) return false;
+    const test = (item: SmartRule | SmartRuleGroup) =>
+        isRuleGroup(item) ? evaluateGroup(note, item, context) : evaluateRule(note, item, context);
+    return group.combinator === 'OR' ? group.rules.some(test) : group.rules.every(test);
+};
+
+/**
+ * Returns the notes that satisfy a smart folder's rules, most recently updated first.
+ */
+export const filterNotesByRules = (notes: Note[], group: SmartRuleGroup, context: RuleContext): Note[] => {
+    const prepared = prepareContext(context);
+    return notes
+        .filter(note => evaluateGroup(note, group, prepared))
+        .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+};
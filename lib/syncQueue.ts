@@ -0,0 +1,167 @@
+import { supabase } from './supabaseClient';
+import { withMutationQueue, promisifyRequest } from './offlineDb';
+
+export type MutationOp = 'insert' | 'update' | 'delete' | 'rpc';
+
+/**
+ * A single outbound write, recorded in Supabase's snake_case shape so it can be
+ * replayed verbatim once connectivity returns.
+ */
+export interface QueuedMutation {
+    seq?: number;
+    userId: string;
+    op: MutationOp;
+    table: string;
+    payload?: Record<string, any>;
+    match?: Record<string, string>;
+    createdAt: string;
+}
+
+export type MutationInput = Omit<QueuedMutation, 'seq' | 'userId' | 'createdAt'>;
+
+export interface ReplayResult {
+    // How many mutations reached the server.
+    replayed: number;
+    // Mutations the server refused, and the later ones that depended on them, which have been taken off the queue.
+    rejected: QueuedMutation[];
+    // Whether replay stopped at a network failure with mutations still queued.
+    interrupted: boolean;
+}
+
+/**
+ * Heuristically determines whether an error was caused by the network rather
+ * than by the server rejecting the request.
+ */
+export const isNetworkError = (error: any): boolean => {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+    const message = String(error?.message || error || '').toLowerCase();
+    return error instanceof TypeError
+        || message.includes('failed to fetch')
+        || message.includes('networkerror')
+        || message.includes('network request failed')
+        || message.includes('load failed');
+};
+
+/**
+ * Sends a mutation to Supabase. Throws the Supabase error on failure.
+ * @param mutation The mutation to execute.
+ */
+export const executeMutation = async (mutation: QueuedMutation): Promise<void> => {
+    const { op, table, payload = {}, match = {} } = mutation;
+    let error: any = null;
+
+    switch (op) {
+        case 'insert':
+            // Upsert keeps replays idempotent if a previous attempt reached the server.
+            ({ error } = await supabase.from(table).upsert(payload));
+            break;
+        case 'update': {
+            let query = supabase.from(table).update(payload);
+            for (const [column, value] of Object.entries(match)) query = query.eq(column, value);
+            ({ error } = await query);
+            break;
+        }
+        case 'delete': {
+            let query = supabase.from(table).delete();
+            for (const [column, value] of Object.entries(match)) query = query.eq(column, value);
+            ({ error } = await query);
+            break;
+        }
+        case 'rpc':
+            ({ error } = await supabase.rpc(table, payload));
+            break;
+    }
+
+    if (error) throw error;
+};
+
+/**
+ * Appends a mutation to the durable outbound queue.
+ */
+export const enqueueMutation = (mutation: QueuedMutation): Promise<void> =>
+    withMutationQueue('readwrite', async (store) => {
+        await promisifyRequest(store.add(mutation));
+    });
+
+/**
+ * Returns a user's queued mutations in the order they were made.
+ */
+export const getQueuedMutations = (userId: string): Promise<QueuedMutation[]> =>
+    withMutationQueue('readonly', async (store) => {
+        const rows = await promisifyRequest(store.index('userId').getAll(userId)) as QueuedMutation[];
+        return rows.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+    });
+
+const removeQueuedMutation = (seq: number): Promise<void> =>
+    withMutationQueue('readwrite', async (store) => {
+        await promisifyRequest(store.delete(seq));
+    });
+
+/**
+ * The rows a mutation writes, by table and id, so they can be reloaded from the server
+ * if it's rejected. The trash functions take the ids of the notes and folders they move.
+ */
+export const getAffectedRowIds = (mutation: QueuedMutation): { table: string; ids: string[] }[] => {
+    const { op, table, payload = {}, match = {} } = mutation;
+    if (op === 'rpc') {
+        return [
+            { table: 'notes', ids: (payload.p_note_ids ?? []) as string[] },
+            { table: 'collections', ids: (payload.p_collection_ids ?? []) as string[] },
+        ].filter(rows => rows.ids.length > 0);
+    }
+    const id = match.id ?? payload.id;
+    return id ? [{ table, ids: [id] }] : [];
+};
+
+/**
+ * Keys for the rows a mutation writes, and for the rows it needs to be intact. Versions are
+ * stored as deltas against each other, so a version write needs the note's whole history chain
+ * and the note itself.
+ */
+const getDependencyKeys = (mutation: QueuedMutation): { writes: string[]; needs: string[] } => {
+    const writes = getAffectedRowIds(mutation).flatMap(({ table, ids }) => ids.map(id => `${table}:${id}`));
+    if (mutation.table !== 'note_versions') return { writes, needs: writes };
+    const noteId = mutation.payload?.note_id ?? mutation.match?.note_id;
+    if (!noteId) return { writes, needs: writes };
+    const chain = [...writes, `history:${noteId}`];
+    return { writes: chain, needs: [...chain, `notes:${noteId}`] };
+};
+
+/**
+ * Replays a user's queued mutations against Supabase, oldest first.
+ * Replay stops at the first network failure so ordering is preserved; a
+ * mutation the server rejects outright is taken off the queue so it cannot block
+ * it, and returned so the caller can undo it locally. Later mutations that need the
+ * rows it wrote, such as the rest of a note's version chain, are dropped and returned with it.
+ */
+export const replayMutationQueue = async (userId: string): Promise<ReplayResult> => {
+    const queued = await getQueuedMutations(userId);
+    const result: ReplayResult = { replayed: 0, rejected: [], interrupted: false };
+    const brokenKeys = new Set<string>();
+
+    for (const mutation of queued) {
+        const { writes, needs } = getDependencyKeys(mutation);
+        if (needs.some(key => brokenKeys.has(key))) {
+            console.warn(`Dropped queued ${mutation.op} on "${mutation.table}" because an earlier change it depends on was rejected.`);
+            writes.forEach(key => brokenKeys.add(key));
+            result.rejected.push(mutation);
+            await removeQueuedMutation(mutation.seq!);
+            continue;
+        }
+        try {
+            await executeMutation(mutation);
+            result.replayed++;
+        } catch (error) {
+            if (isNetworkError(error)) {
+                result.interrupted = true;
+                break;
+            }
+            console.error(`Queued ${mutation.op} on "${mutation.table}" was rejected by the server:`, error);
+            writes.forEach(key => brokenKeys.add(key));
+            result.rejected.push(mutation);
+        }
+        await removeQueuedMutation(mutation.seq!);
+    }
+
+    return result;
+};
@@ -0,0 +1,156 @@
+import { Collection, Note } from '../types';
+import { DEFAULT_TRASH_RETENTION_DAYS, TRASH_RETENTION_STORAGE_KEY } from './config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A set of notes and folders that go into or come out of the trash together.
+ */
+export interface TrashSelection {
+    collectionIds: string[];
+    noteIds: string[];
+}
+
+/**
+ * An item in the Trash: a note or folder the user deleted, with everything that was
+ * trashed along with it (itself included).
+ */
+export interface TrashEntry {
+    type: 'note' | 'collection';
+    id: string;
+    title: string;
+    deletedAt: string;
+    deletedFrom: string[];
+    contents: TrashSelection;
+}
+
+/**
+ * How to take an item out of the trash: what to restore, and, when a folder above it no
+ * longer exists, which item to move under its recreated folder path.
+ */
+export interface RestorePlan {
+    restore: TrashSelection;
+    reattach: { type: 'note' | 'collection'; id: string; path: string[] } | null;
+}
+
+export const loadTrashRetentionDays = (): number => {
+    try {
+        const saved = Number(localStorage.getItem(TRASH_RETENTION_STORAGE_KEY));
+        return Number.isInteger(saved) && saved > 0 ? saved : DEFAULT_TRASH_RETENTION_DAYS;
+    } catch {
+        return DEFAULT_TRASH_RETENTION_DAYS;
+    }
+};
+
+export const saveTrashRetentionDays = (days: number) => {
+    try {
+        localStorage.setItem(TRASH_RETENTION_STORAGE_KEY, String(days));
+    } catch (error) {
+        console.error("Error saving trash retention to localStorage", error);
+    }
+};
+
+/**
+ * The names of the folders from the top level down to `parentId`, inclusive.
+ */
+export const getFolderPath = (parentId: string | null, collections: Collection[]): string[] => {
+    const byId = new Map(collections.map(c => [c.id, c]));
+    const path: string[] = [];
+    const seen = new Set<string>();
+    for (let id = parentId; id && byId.has(id) && !seen.has(id); id = byId.get(id)!.parentId) {
+        seen.add(id);
+        path.unshift(byId.get(id)!.name);
+    }
+    return path;
+};
+
+const collectDescendants = (rootId: string, notes: Note[], collections: Collection[], include: (item: Note | Collection) => boolean): TrashSelection => {
+    const collectionIds = [rootId];
+    for (let i = 0; i < collectionIds.length; i++) {
+        collections.forEach(c => {
+            if (c.parentId === collectionIds[i] && include(c) && !collectionIds.includes(c.id)) collectionIds.push(c.id);
+        });
+    }
+    const ids = new Set(collectionIds);
+    return { collectionIds, noteIds: notes.filter(n => n.parentId !== null && ids.has(n.parentId) && include(n)).map(n => n.id) };
+};
+
+/**
+ * Everything that goes to the trash with a folder: the folder and the sub-folders and
+ * notes inside it that aren't already in the trash.
+ */
+export const selectFolderForTrash = (collectionId: string, notes: Note[], collections: Collection[]): TrashSelection =>
+    collectDescendants(collectionId, notes, collections, item => !item.deletedAt);
+
+// Items trashed in the same action share a deletion time.
+const selectTrashedWith = (collection: Collection, notes: Note[], collections: Collection[]): TrashSelection =>
+    collectDescendants(collection.id, notes, collections, item => item.deletedAt === collection.deletedAt);
+
+/**
+ * Lists the trash, newest first. Items trashed along with their folder are listed under
+ * it rather than on their own.
+ */
+export const getTrashEntries = (notes: Note[], collections: Collection[]): TrashEntry[] => {
+    const trashedCollections = new Map(collections.filter(c => c.deletedAt).map(c => [c.id, c]));
+    const isTrashedWithParent = (item: Note | Collection) => {
+        const parent = item.parentId ? trashedCollections.get(item.parentId) : undefined;
+        return !!parent && parent.deletedAt === item.deletedAt;
+    };
+    const entries: TrashEntry[] = [
+        ...[...trashedCollections.values()].filter(c => !isTrashedWithParent(c)).map(c => ({
+            type: 'collection' as const, id: c.id, title: c.name, deletedAt: c.deletedAt!, deletedFrom: c.deletedFrom ?? [],
+            contents: selectTrashedWith(c, notes, collections),
+        })),
+        ...notes.filter(n => n.deletedAt && !isTrashedWithParent(n)).map(n => ({
+            type: 'note' as const, id: n.id, title: n.title, deletedAt: n.deletedAt!, deletedFrom: n.deletedFrom ?? [],
+            contents: { collectionIds: [], noteIds: [n.id] },
+        })),
+    ];
+    return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+};
+
+/**
+ * Works out how to put a trashed note or folder back where it was. Everything trashed
+ * along with it comes back too, as do the folders above it that are in the trash. If a
+ * folder above it has since been deleted for good, the item is reattached under its
+ * original folder path, which the caller recreates from the names.
+ * @returns Null if the item isn't in the trash.
+ */
+export const planRestore = (itemId: string, notes: Note[], collections: Collection[]): RestorePlan | null => {
+    const note = notes.find(n => n.id === itemId && n.deletedAt);
+    const collection = note ? undefined : collections.find(c => c.id === itemId && c.deletedAt);
+    if (!note && !collection) return null;
+    const restore = collection ? selectTrashedWith(collection, notes, collections) : { collectionIds: [], noteIds: [note!.id] };
+
+    const byId = new Map(collections.map(c => [c.id, c]));
+    let current: { type: 'note' | 'collection'; item: Note | Collection } = note ? { type: 'note', item: note } : { type: 'collection', item: collection! };
+    const seen = new Set([itemId]);
+    while (current.item.parentId && !seen.has(current.item.parentId)) {
+        const parent = byId.get(current.item.parentId);
+        if (!parent) {
+            return { restore, reattach: { type: current.type, id: current.item.id, path: current.item.deletedFrom ?? [] } };
+        }
+        if (!parent.deletedAt) break;
+        seen.add(parent.id);
+        restore.collectionIds.push(parent.id);
+        current = { type: 'collection', item: parent };
+    }
+    return { restore, reattach: null };
+};
+
+/**
+ * The trashed items that have been in the trash longer than the retention period.
+ */
+export const getExpiredTrash = (notes: Note[], collections: Collection[], retentionDays: number, now = Date.now()): TrashSelection => {
+    const cutoff = now - retentionDays * DAY_MS;
+    const isExpired = (item: Note | Collection) => !!item.deletedAt && new Date(item.deletedAt).getTime() < cutoff;
+    return { collectionIds: collections.filter(isExpired).map(c => c.id), noteIds: notes.filter(isExpired).map(n => n.id) };
+};
+
+/**
+ * Every trashed note and folder, for emptying the trash.
+ */
+export const getAllTrash = (notes: Note[], collections: Collection[]): TrashSelection => ({
+    collectionIds: collections.filter(c => c.deletedAt).map(c => c.id),
+    noteIds: notes.filter(n => n.deletedAt).map(n => n.id),
+});
@@ -0,0 +1,80 @@
+import { NoteVersion } from '../types';
+import { DiffOp, diffSequences } from './diff';
+
+export type NoteSnapshot = Pick<NoteVersion, 'title' | 'content' | 'tags'>;
+
+/**
+ * A run of content lines: unchanged, or one region that differs between the two sides.
+ */
+export type ContentHunk =
+    | { type: 'equal'; lines: string[] }
+    | { type: 'change'; before: string[]; after: string[] };
+
+export interface TagDiff {
+    added: string[];
+    removed: string[];
+}
+
+export interface VersionDiff {
+    title: { before: string; after: string } | null;
+    tags: TagDiff;
+    hunks: ContentHunk[];
+}
+
+/**
+ * Splits text into words, runs of whitespace and single punctuation marks, so that
+ * joining the tokens gives back the original text.
+ */
+const tokenizeWords = (text: string): string[] => text.match(/\s+|[\p{L}\p{N}_']+|[^\s\p{L}\p{N}_']/gu) ?? [];
+
+/**
+ * A word-level edit script between two pieces of text.
+ */
+export const diffWords = (before: string, after: string): DiffOp<string>[] =>
+    diffSequences(tokenizeWords(before), tokenizeWords(after));
+
+/**
+ * A line-level diff grouped into hunks. A deletion directly followed by an insertion is
+ * one change hunk, so a rewritten paragraph reads as a replacement rather than two edits.
+ */
+export const diffContentLines = (before: string, after: string): ContentHunk[] => {
+    const hunks: ContentHunk[] = [];
+    for (const op of diffSequences(before.split('\n'), after.split('\n'))) {
+        if (op.type === 'equal') {
+            hunks.push({ type: 'equal', lines: op.items });
+            continue;
+        }
+        let last = hunks[hunks.length - 1];
+        if (!last || last.type !== 'change') {
+            last = { type: 'change', before: [], after: [] };
+            hunks.push(last);
+        }
+        (op.type === 'delete' ? last.before : last.after).push(...op.items);
+    }
+    return hunks;
+};
+
+export const diffTags = (before: string[], after: string[]): TagDiff => ({
+    added: after.filter(tag => !before.includes(tag)),
+    removed: before.filter(tag => !after.includes(tag)),
+});
+
+/**
+ * Everything that changed between two snapshots of a note.
+ */
+export const diffVersions = (before: NoteSnapshot, after: NoteSnapshot): VersionDiff => ({
+    title: before.title !== after.title ? { before: before.title, after: after.title } : null,
+    tags: diffTags(before.tags, after.tags),
+    hunks: diffContentLines(before.content, after.content),
+});
+
+/**
+ * Rebuilds the `after` side of a diff with the chosen change hunks put back the way
+ * they were on the `before` side.
+ * @param hunks The hunks from `diffContentLines`.
+ * @param revertedIndexes Indexes into `hunks` of the change hunks to revert.
+ */
+export const revertHunks = (hunks: ContentHunk[], revertedIndexes: ReadonlySet<number>): string =>
+    hunks
+        .flatMap((hunk, index) => hunk.type === 'equal' ? hunk.lines : revertedIndexes.has(index) ? hunk.before : hunk.after)
+        .join('\n');
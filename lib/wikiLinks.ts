@@ -0,0 +1,118 @@
+import { Note } from '../types';
+
+/**
+ * A `[[target#heading|alias]]` link in a note. The target is a note's title, one of its
+ * aliases, or (in links made before titles were supported) its id.
+ */
+export interface WikiLink {
+    target: string;
+    heading: string | null;
+    alias: string | null;
+    index: number;
+    length: number;
+}
+
+/**
+ * Looks up the notes a link target can refer to.
+ */
+export interface LinkIndex {
+    byId: Map<string, Note>;
+    byTitle: Map<string, Note>;
+    byAlias: Map<string, Note>;
+}
+
+// `[[sync:...]]` is a synced template block, not a note link.
+const WIKI_LINK_PATTERN = '\\[\\[(?!sync:)([^\\[\\]|#\\n]+)(?:#([^\\[\\]|\\n]*))?(?:\\|([^\\[\\]\\n]*))?\\]\\]';
+
+// Characters a title can't contain and still be written as a link target.
+const RESERVED_TARGET_CHARS = /[\[\]|#\n]/;
+
+/**
+ * A fresh global regex for wiki links: group 1 is the target, 2 the heading, 3 the alias.
+ */
+export const createWikiLinkRegex = () => new RegExp(WIKI_LINK_PATTERN, 'g');
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const parseWikiLinks = (content: string): WikiLink[] =>
+    [...content.matchAll(createWikiLinkRegex())].map(match => ({
+        target: match[1].trim(),
+        heading: match[2]?.trim() || null,
+        alias: match[3]?.trim() || null,
+        index: match.index!,
+        length: match[0].length,
+    }));
+
+/**
+ * Indexes notes by id, title and alias. When notes share a title or alias, links go to
+ * the oldest of them.
+ */
+export const buildLinkIndex = (notes: Note[]): LinkIndex => {
+    const index: LinkIndex = { byId: new Map(), byTitle: new Map(), byAlias: new Map() };
+    const oldestFirst = [...notes].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const note of oldestFirst) {
+        index.byId.set(note.id, note);
+        const title = normalizeName(note.title);
+        if (title && !index.byTitle.has(title)) index.byTitle.set(title, note);
+        (note.aliases ?? []).forEach(alias => {
+            const name = normalizeName(alias);
+            if (name && !index.byAlias.has(name)) index.byAlias.set(name, note);
+        });
+    }
+    return index;
+};
+
+/**
+ * Finds the note a link target refers to: by id, then title, then alias, ignoring case.
+ */
+export const resolveLinkTarget = (index: LinkIndex, target: string): Note | undefined => {
+    const name = normalizeName(target);
+    return index.byId.get(target.trim()) ?? index.byTitle.get(name) ?? index.byAlias.get(name);
+};
+
+/**
+ * What to write as the target of a link to a note: its title, unless the title can't be
+ * written in a link or (given an index) already leads to another note, in which case its id.
+ */
+export const getLinkTarget = (note: Pick<Note, 'id' | 'title'>, index?: LinkIndex): string => {
+    const title = note.title.trim();
+    if (!title || RESERVED_TARGET_CHARS.test(title)) return note.id;
+    if (index && resolveLinkTarget(index, title)?.id !== note.id) return note.id;
+    return title;
+};
+
+/**
+ * Cleans up a name (such as an alias) so it can be written as a link target.
+ */
+export const toLinkName = (name: string) => name.replace(/[\[\]|#\n]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Writes a link to a note, with display text when it differs from the target.
+ */
+export const formatWikiLink = (note: Pick<Note, 'id' | 'title'>, alias?: string, index?: LinkIndex): string => {
+    const target = getLinkTarget(note, index);
+    const text = alias?.replace(/[\[\]|\n]/g, ' ').trim();
+    return text && text !== target ? `[[${target}|${text}]]` : `[[${target}]]`;
+};
+
+/**
+ * Points every link whose target is `oldTarget` at `newTarget`, keeping its heading and
+ * display text.
+ * @returns The updated content and how many links were changed.
+ */
+export const retargetLinks = (content: string, oldTarget: string, newTarget: string): { content: string; count: number } => {
+    const name = normalizeName(oldTarget);
+    let count = 0;
+    const updated = content.replace(createWikiLinkRegex(), (match, target: string, heading?: string, alias?: string) => {
+        if (normalizeName(target) !== name) return match;
+        count++;
+        return `[[${newTarget}${heading !== undefined ? `#${heading}` : ''}${alias !== undefined ? `|${alias}` : ''}]]`;
+    });
+    return { content: updated, count };
+};
+
+/**
+ * The anchor id of a heading, for `[[Note#Heading]]` links.
+ */
+export const getHeadingAnchorId = (heading: string) =>
+    `heading-${heading.trim().toLowerCase().replace(/[^\p{L}\p{N}\s-]/gu, '').replace(/\s+/g, '-')}`;
@@ -3,42 +3,34 @@
 
 
 
-import { GoogleGenAI, HarmCategory, HarmBlockThreshold, Type, FunctionDeclaration, Content, GenerateContentResponse, Chat, Part, GenerationConfig } from "@google/genai";
 import { Note, ChatMessage, InlineAction, SpellingError } from '../types';
-import { MODEL_NAMES, API_KEY_STORAGE_KEY } from '../lib/config';
-import { sha256, getLocalCache, setLocalCache } from '../lib/cache';
+import { MODEL_NAMES, AI_CACHE_TTL_MS } from '../lib/config';
+import { AiFeature, AiTask, loadAiSettings } from '../lib/aiSettings';
+import { sha256, aiResponseCache, recordCacheLookup, clearLocalCache } from '../lib/cache';
 import { supabase } from '../lib/supabaseClient';
-
-// Cache for the GenAI instance to avoid re-creating it on every call.
-let genAI: GoogleGenAI | null = null;
-let cachedApiKey: string | null = null;
+import { EmbeddingProvider } from '../lib/semanticIndex';
+import { ChatTurn } from '../lib/chatHistory';
+import { recordUsage } from '../lib/aiUsage';
+import { LocalSuggestionContext, suggestLocalTags, suggestLocalTitle, summarizeLocally } from '../lib/localSuggestions';
+import {
+    getGenAI, getRouteForTask, withRequestErrors, createAiScheduler, isAbortError, withModelFallback,
+    AiPriority, LlmRequest, LlmRequestError, LlmTurn, ToolChatReply, ToolChatSession, ToolDeclaration, ToolResponse,
+    Schema, SchemaValidationError, parseStructuredReply,
+} from './llm';
+import * as s from './llm/schema';
+
+// A request before the task's provider and model are filled in.
+type AiPayload = Omit<LlmRequest, 'model'>;
 
 /**
- * Normalizes the 'contents' part of a Gemini request by trimming whitespace 
- * from any text parts. This increases cache hits for semantically identical prompts.
+ * Normalizes the contents of a request by trimming whitespace from every text part.
+ * This increases cache hits for semantically identical prompts.
  */
-function normalizeContents(contents: string | Part | (string | Part)[]): string | Part | (string | Part)[] {
+function normalizeContents(contents: AiPayload['contents']): AiPayload['contents'] {
     if (typeof contents === 'string') {
         return contents.trim();
     }
-
-    if (Array.isArray(contents)) {
-        return contents.map(part => {
-            if (typeof part === 'string') {
-                return part.trim();
-            }
-            if (part.text) {
-                return { ...part, text: part.text.trim() };
-            }
-            return part;
-        });
-    }
-
-    if (typeof contents === 'object' && 'text' in contents && typeof contents.text === 'string') {
-         return { ...contents, text: contents.text.trim() };
-    }
-
-    return contents;
+    return contents.map(turn => ({ ...turn, text: turn.text.trim() }));
 }
 
 /**
@@ -61,261 +53,358 @@ function sortObjectKeys(obj: any): any {
     return result;
 }
 
-
-const getGenAI = (): GoogleGenAI => {
-    let apiKey: string | null = null;
-    try {
-        apiKey = localStorage.getItem(API_KEY_STORAGE_KEY);
-    } catch (e) {
-        console.error("Could not access localStorage for API key.", e);
-    }
-    
-    if (!apiKey) {
-        // Clear cached instance if API key is removed
-        genAI = null;
-        cachedApiKey = null;
+const fireRateLimitEvent = (error: any) => {
+    const isRateLimited = error instanceof LlmRequestError && error.status === 429;
+    if (isRateLimited || (error instanceof Error && (error.message.includes('429') || error.message.includes('API key not valid')))) {
         window.dispatchEvent(new CustomEvent('ai-rate-limit'));
-        throw new Error("Gemini API key not found. Please set it in the settings.");
-    }
-
-    // If we have a cached instance and the key hasn't changed, return it.
-    if (genAI && apiKey === cachedApiKey) {
-        return genAI;
     }
+};
 
-    // Otherwise, create a new instance and cache it.
-    genAI = new GoogleGenAI({ apiKey });
-    cachedApiKey = apiKey;
-    return genAI;
+// --- Request Scheduling ---
+// Every provider call goes through one queue so background features can't starve chat.
+const scheduler = createAiScheduler({
+    maxConcurrent: 3,
+    maxBackgroundConcurrent: 1,
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+});
+
+const FEATURE_PRIORITIES: Record<AiFeature, AiPriority> = {
+    chat: 'interactive',
+    copilot: 'interactive',
+    writing: 'interactive',
+    suggestions: 'background',
+    spellcheck: 'background',
 };
 
-const safetySettings = [
-    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-];
+// With a fallback model left, give up on an overloaded model sooner and try the next one.
+const FALLBACK_MAX_RETRIES = 1;
+
+// Schedules a request for each model in a task's chain until one succeeds.
+const scheduleWithFallback = <T>(
+    models: string[],
+    task: (model: string, signal: AbortSignal) => Promise<T>,
+    options: { priority: AiPriority; signal?: AbortSignal }
+) => withModelFallback(models, (model, hasFallback) => scheduler.schedule(
+    (signal) => task(model, signal),
+    { ...options, maxRetries: hasFallback ? FALLBACK_MAX_RETRIES : undefined },
+));
+
+interface CallOptions<T> {
+    errorMessage: string;
+    processResponse: (reply: string) => T;
+    onError: () => T | never;
+    bypassCache?: boolean;
+    // Defaults to the feature's priority.
+    priority?: AiPriority;
+    signal?: AbortSignal;
+}
+
+// How many times the model may be asked to fix structured output that fails validation.
+const MAX_REPAIR_ATTEMPTS = 2;
 
-const fireRateLimitEvent = (error: any) => {
-    if (error instanceof Error && (error.message.includes('429') || error.message.includes('API key not valid'))) {
-        window.dispatchEvent(new CustomEvent('ai-rate-limit'));
-    }
+/**
+ * Continues the conversation with the invalid reply and what was wrong with it, so the
+ * model can correct its own output.
+ */
+const buildRepairRequest = (request: LlmRequest, reply: string, error: SchemaValidationError): LlmRequest => {
+    const turns: LlmTurn[] = typeof request.contents === 'string' ? [{ role: 'user', text: request.contents }] : request.contents;
+    return {
+        ...request,
+        contents: [
+            ...turns,
+            { role: 'model', text: reply },
+            { role: 'user', text: `Your response did not match the required JSON schema:\n- ${error.issues.join('\n- ')}\nReply again with only the corrected JSON.` },
+        ],
+    };
+};
+
+// The signed-in user who owns cloud cache rows, or null in demo mode.
+const getCacheOwnerId = async (): Promise<string | null> => {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.user.id ?? null;
 };
 
 /**
- * A centralized wrapper for making Gemini API calls, now with a two-tiered caching system.
- * It handles caching, getting the genAI instance, try/catch, error logging, and rate limit events.
- * Crucially, it now separates API call errors from response processing errors to prevent cache poisoning.
+ * A centralized wrapper for making AI calls, now with a two-tiered caching system.
+ * It routes the request to the task's provider and model chain, and handles caching,
+ * try/catch, error logging, and rate limit events.
+ * Crucially, it separates API call errors from response processing errors to prevent cache poisoning.
  */
-async function _callGemini<T>(
-    payload: {
-        model: string;
-        contents: string | Part | (string | Part)[];
-        config?: GenerationConfig;
-    },
-    processingOptions: {
-        errorMessage: string;
-        processResponse: (response: GenerateContentResponse) => T;
-        onError: () => T | never;
-        bypassCache?: boolean;
-    }
+async function _callAi<T>(
+    task: AiTask,
+    payload: AiPayload,
+    processingOptions: CallOptions<T>
 ): Promise<T> {
-    const { model, contents, config } = payload;
+    const { feature, provider, models } = getRouteForTask(task);
     const { bypassCache = false } = processingOptions;
+    const ownerId = await getCacheOwnerId();
+    // Cloud cache rows belong to one user and are skipped entirely if the feature opted out.
+    const cloudCacheOwnerId = loadAiSettings().features[feature].cloudCache ? ownerId : null;
 
-    const normalizedContents = normalizeContents(contents);
+    // Keyed by the primary model; a fallback's answer is cached in its place.
+    const request: LlmRequest = { ...payload, model: models[0], contents: normalizeContents(payload.contents) };
 
     // 1. Create a stable hash for the request by sorting keys before stringifying.
-    const requestPayload = { model, contents: normalizedContents, config };
-    const sortedPayload = sortObjectKeys(requestPayload);
+    // The owner is part of the hash so accounts sharing a browser never share entries.
+    const sortedPayload = sortObjectKeys({ provider: provider.id, owner: ownerId, ...request });
     const promptString = JSON.stringify(sortedPayload);
     const hash = await sha256(promptString);
 
     // 2. Check Level 1: Local Cache (fastest)
     if (!bypassCache) {
-        const localData = getLocalCache(hash);
+        const localData = await aiResponseCache.get<T>(hash);
         if (localData !== null) {
-            return localData as T;
+            recordCacheLookup('local');
+            return localData;
         }
     }
 
     // 3. Check Level 2: Supabase Persistent Cache
-    if (!bypassCache) {
+    if (!bypassCache && cloudCacheOwnerId) {
         const { data: dbCache, error: dbError } = await supabase
             .from('ai_cache')
             .select('response')
+            .eq('user_id', cloudCacheOwnerId)
             .eq('prompt_hash', hash)
-            .single();
+            .gt('expires_at', new Date().toISOString())
+            .maybeSingle();
         
         if (dbCache && !dbError) {
             const dbData = dbCache.response as T;
-            setLocalCache(hash, dbData); // Populate L1 cache
+            aiResponseCache.set(hash, dbData); // Populate L1 cache
+            recordCacheLookup('cloud');
             return dbData;
         }
     }
-
-    // 4. Cache Miss: Call the Gemini API
-    let response: GenerateContentResponse;
-    try {
-        const ai = getGenAI();
-        response = await ai.models.generateContent({ model, contents: normalizedContents, config: {...config, safetySettings } });
-    } catch (e) {
+    if (!bypassCache) recordCacheLookup('miss');
+
+    // 4. Cache Miss: Call the provider
+    let answeredBy = models[0];
+    const generate = async (providerRequest: LlmRequest) => {
+        const { result, model } = await scheduleWithFallback(
+            models,
+            (model, signal) => provider.generate({ ...providerRequest, model, signal, onUsage: (usage) => recordUsage(feature, model, usage) }),
+            { priority: processingOptions.priority ?? FEATURE_PRIORITIES[feature], signal: processingOptions.signal },
+        );
+        answeredBy = model;
+        return result;
+    };
+    const handleApiError = (e: unknown) => {
+        // A cancelled request is stale, not failed; the caller has already moved on.
+        if (isAbortError(e)) throw e;
         console.error(`API call error: ${processingOptions.errorMessage}`, e);
         fireRateLimitEvent(e);
         return processingOptions.onError();
+    };
+    let reply: string;
+    try {
+        reply = await generate(request);
+    } catch (e) {
+        return handleApiError(e);
     }
 
-    // 5. Process the response. If this fails, we DO NOT cache the result.
-    try {
-        const processedData = processingOptions.processResponse(response);
+    // 5. Process the response. Structured output that fails validation is sent back to the
+    //    model for a bounded number of repairs. If processing still fails, we DO NOT cache the result.
+    let processedData: T;
+    for (let repairs = 0; ; repairs++) {
+        try {
+            processedData = processingOptions.processResponse(reply);
+            break;
+        } catch (e) {
+            if (!(e instanceof SchemaValidationError) || repairs >= MAX_REPAIR_ATTEMPTS) {
+                console.error(`Processing error: ${processingOptions.errorMessage}`, e);
+                // Do not fire rate limit event; API call was successful.
+                return processingOptions.onError();
+            }
+            console.warn(`Repairing structured output: ${processingOptions.errorMessage}`, e.issues);
+            try {
+                reply = await generate(buildRepairRequest(request, reply, e));
+            } catch (repairError) {
+                return handleApiError(repairError);
+            }
+        }
+    }
 
-        // 6. Save to both caches for future requests
-        setLocalCache(hash, processedData);
-        // Fire-and-forget insertion to Supabase. Don't block the UI.
-        supabase.from('ai_cache').insert({
+    // 6. Save to both caches for future requests
+    aiResponseCache.set(hash, processedData);
+    // Fire-and-forget insertion to Supabase. Don't block the UI.
+    if (cloudCacheOwnerId) {
+        supabase.from('ai_cache').upsert({
+            user_id: cloudCacheOwnerId,
             prompt_hash: hash,
             prompt: promptString, // Store full context for analytics/debugging
             response: processedData as any, // Cast to any for JSONB compatibility
-            model,
-        }).then(({ error }) => {
-            if (error && error.code !== '23505') { // Ignore unique constraint violations
+            model: `${provider.id}:${answeredBy}`,
+            expires_at: new Date(Date.now() + AI_CACHE_TTL_MS).toISOString(),
+        }, { onConflict: 'user_id,prompt_hash' }).then(({ error }) => {
+            if (error) {
                 console.warn("Supabase cache insertion failed:", error);
             }
         });
+    }
+    return processedData;
+}
 
-        return processedData;
-    } catch (e) {
-        console.error(`Processing error: ${processingOptions.errorMessage}`, e);
-        // Do not fire rate limit event; API call was successful.
-        return processingOptions.onError();
+export type SuggestionSource = 'ai' | 'local';
+
+export interface SuggestionOptions {
+    signal?: AbortSignal;
+    // Answers from local heuristics without calling the AI, e.g. while it is rate-limited.
+    localOnly?: boolean;
+    // The notes the local tag heuristic learns the workspace's vocabulary from.
+    workspace?: LocalSuggestionContext;
+}
+
+/**
+ * Runs an AI suggestion, answering from a local heuristic instead when the AI is skipped or
+ * fails, e.g. without an API key or while rate-limited. The result says which one answered
+ * so the UI can label it. Cancellation still rejects.
+ */
+async function _withLocalFallback<T extends object>(
+    callAi: () => Promise<T>,
+    suggestLocally: () => T,
+    localOnly = false
+): Promise<T & { source: SuggestionSource }> {
+    if (!localOnly) {
+        try {
+            return { ...(await callAi()), source: 'ai' };
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            console.warn('AI suggestion failed, using a local suggestion instead.', e);
+        }
     }
+    return { ...suggestLocally(), source: 'local' };
+}
+
+/**
+ * Makes a call whose reply must be JSON matching `schema`. The validated value is typed
+ * from the schema and can be post-processed with `transform`.
+ */
+async function _callStructuredAi<S, R = S>(
+    task: AiTask,
+    payload: Omit<AiPayload, 'responseSchema'>,
+    schema: Schema<S>,
+    options: Omit<CallOptions<R>, 'processResponse'> & { transform?: (value: S) => R }
+): Promise<R> {
+    const { transform = (value: S) => value as unknown as R, ...callOptions } = options;
+    return _callAi(task, { ...payload, responseSchema: schema.json }, {
+        ...callOptions,
+        processResponse: (reply) => transform(parseStructuredReply(schema, reply)),
+    });
 }
 
 
+// --- Cache Management ---
+export interface AiCacheStats {
+    entries: number;
+    bytes: number;
+}
+
+/**
+ * Reports how much the signed-in user has in the cloud cache. Expired rows that the
+ * server hasn't purged yet are not counted.
+ */
+export const getAiCacheStats = async (): Promise<AiCacheStats> => {
+    const { data, error } = await supabase.rpc('get_ai_cache_stats');
+    if (error) throw error;
+    const row = Array.isArray(data) ? data[0] : data;
+    return { entries: Number(row?.entries ?? 0), bytes: Number(row?.bytes ?? 0) };
+};
+
+/**
+ * Deletes every cached AI response: this browser's local entries and, when signed in,
+ * the user's rows in the cloud cache.
+ */
+export const purgeAiCache = async (): Promise<void> => {
+    await clearLocalCache();
+    const ownerId = await getCacheOwnerId();
+    if (!ownerId) return;
+    const { error } = await supabase.from('ai_cache').delete().eq('user_id', ownerId);
+    if (error) throw error;
+};
+
 // --- Spellcheck ---
-export const findMisspelledWords = async (text: string): Promise<SpellingError[]> => {
+const misspelledWordsSchema = s.array(s.object({
+    word: s.string(),
+    index: s.integer(),
+    length: s.integer(),
+}));
+
+export const findMisspelledWords = async (text: string, signal?: AbortSignal): Promise<SpellingError[]> => {
     if (!text.trim()) return [];
     
     const payload = {
-        model: MODEL_NAMES.FLASH,
         contents: `Analyze the following text and identify all misspelled words. For each misspelled word, provide its exact text, its starting index in the original text, and its length.
 Text: "${text}"`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: {
-                    type: Type.OBJECT,
-                    properties: {
-                        word: { type: Type.STRING },
-                        index: { type: Type.INTEGER },
-                        length: { type: Type.INTEGER },
-                    },
-                    required: ["word", "index", "length"],
-                },
-            },
-        },
     };
     
-    return _callGemini(
-        payload,
-        {
-            errorMessage: 'Error in findMisspelledWords:',
-            processResponse: (res) => {
-                try {
-                    return JSON.parse(res.text.trim());
-                } catch (e) {
-                    console.error('Failed to parse JSON for misspelled words:', e, res.text);
-                    throw new Error("AI returned invalid data format.");
-                }
-            },
-            onError: () => { throw new Error("Failed to find misspelled words."); }
-        }
-    );
+    return _callStructuredAi('spellcheck', payload, misspelledWordsSchema, {
+        errorMessage: 'Error in findMisspelledWords:',
+        onError: () => { throw new Error("Failed to find misspelled words."); },
+        signal,
+    });
 };
 
 export const getSpellingSuggestions = async (word: string): Promise<string[]> => {
     const payload = {
-        model: MODEL_NAMES.FLASH,
         contents: `Provide up to 5 spelling suggestions for the word "${word}".`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING },
-            },
-        },
     };
     
-    return _callGemini(
-        payload,
-        {
-            errorMessage: 'Error in getSpellingSuggestions:',
-            processResponse: (res) => {
-                try {
-                    return JSON.parse(res.text.trim());
-                } catch (e) {
-                    console.error('Failed to parse JSON for spelling suggestions:', e, res.text);
-                    throw new Error("AI returned invalid data format.");
-                }
-            },
-            onError: () => { throw new Error("Failed to get spelling suggestions."); }
-        }
-    );
+    return _callStructuredAi('spellcheck', payload, s.array(s.string()), {
+        errorMessage: 'Error in getSpellingSuggestions:',
+        onError: () => { throw new Error("Failed to get spelling suggestions."); },
+        // The user clicked a word and is waiting for the menu.
+        priority: 'interactive',
+    });
 };
 
 
-// --- Semantic Search ---
-// Semantic search should not be cached as it depends on the entire (and changing) notes corpus.
-export const semanticSearchNotes = async (query: string, notes: Note[], limit: number = 5): Promise<string[]> => {
-    if (notes.length === 0) return [];
-
-    const notesContext = notes
-        .filter(n => n.id)
-        .map(note => `ID: ${note.id}\nTITLE: ${note.title}\nCONTENT: ${note.content.substring(0, 200)}...`)
-        .join('\n---\n');
-
-    const payload = {
-        model: MODEL_NAMES.FLASH,
-        contents: `Based on the user's query, which of the following notes are the most relevant? List the top ${limit} most relevant note IDs.
-QUERY: "${query}"
-
-NOTES:
-${notesContext}`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                description: `An array of the top ${limit} most relevant note IDs.`,
-                items: { type: Type.STRING },
-            },
-        },
-    };
-
-    return _callGemini(
-        payload,
-        {
-            errorMessage: 'Error in semanticSearchNotes:',
-            processResponse: (res) => {
-                try {
-                    return JSON.parse(res.text.trim());
-                } catch (e) {
-                    console.error('Failed to parse JSON in semanticSearchNotes:', e, res.text);
-                    throw new Error("AI search returned invalid data format.");
-                }
-            },
-            onError: () => {
-                throw new Error("AI search failed. Please check your API key and try again.");
-            },
-            bypassCache: true
+// --- Embeddings (Bypasses Caching) ---
+// Embeddings are persisted by the semantic index itself, so they skip the prompt cache.
+const EMBEDDING_BATCH_SIZE = 100;
+
+export const geminiEmbeddingProvider: EmbeddingProvider = {
+    id: `gemini:${MODEL_NAMES.EMBEDDING}`,
+    maxBatchSize: EMBEDDING_BATCH_SIZE,
+    embed: async (texts, purpose, signal) => {
+        let vectors: number[][];
+        try {
+            const ai = getGenAI();
+            // Search queries are waiting on a result; indexing documents can wait its turn.
+            const response = await scheduler.schedule(
+                () => withRequestErrors(() => ai.models.embedContent({
+                    model: MODEL_NAMES.EMBEDDING,
+                    contents: texts,
+                    config: { taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT' },
+                })),
+                { priority: purpose === 'query' ? 'interactive' : 'background', signal },
+            );
+            vectors = (response.embeddings || []).map(embedding => embedding.values || []);
+            // The embedding API doesn't report token counts; about four characters make a token.
+            const characters = texts.reduce((sum, text) => sum + text.length, 0);
+            recordUsage('embeddings', MODEL_NAMES.EMBEDDING, { inputTokens: Math.ceil(characters / 4), outputTokens: 0 });
+        } catch (e) {
+            console.error('Error generating embeddings:', e);
+            fireRateLimitEvent(e);
+            throw new Error("AI search failed. Please check your API key and try again.");
         }
-    );
+        if (vectors.length !== texts.length) {
+            throw new Error(`Expected ${texts.length} embeddings but received ${vectors.length}.`);
+        }
+        return vectors;
+    },
 };
 
 // --- Note Actions ---
+const consolidationSchema = s.object({
+    title: s.string(),
+    content: s.string(),
+});
+
 export const suggestNoteConsolidation = async (note1: Note, note2: Note): Promise<{ title: string, content: string }> => {
     const payload = {
-        model: MODEL_NAMES.FLASH,
         contents: `Consolidate the following two notes into a single, coherent note. Create a new title that synthesizes the topics, and merge the content, removing redundancy and improving flow.
 
 Note 1 Title: "${note1.title}"
@@ -325,132 +414,178 @@ ${note1.content}
 Note 2 Title: "${note2.title}"
 Note 2 Content:
 ${note2.content}`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    title: { type: Type.STRING },
-                    content: { type: Type.STRING },
-                },
-                required: ["title", "content"]
-            },
-        },
     };
 
-    return _callGemini(
-        payload,
-        {
-            errorMessage: 'Error in suggestNoteConsolidation:',
-            processResponse: (res) => {
-                try {
-                    return JSON.parse(res.text.trim());
-                } catch(e) {
-                    console.error('Failed to parse JSON for note consolidation:', e, res.text);
-                    throw new Error("AI returned invalid data format.");
-                }
-            },
-            onError: () => { throw new Error("Failed to generate consolidation. Please try again."); }
-        }
-    );
+    return _callStructuredAi('consolidation', payload, consolidationSchema, {
+        errorMessage: 'Error in suggestNoteConsolidation:',
+        onError: () => { throw new Error("Failed to generate consolidation. Please try again."); },
+    });
 };
 
-export const suggestTitleAndTags = async (content: string): Promise<{ title: string, tags: string[] }> => {
+const titleAndTagsSchema = s.object({
+    title: s.string({ description: "A concise, descriptive title, no more than 10 words." }),
+    tags: s.array(s.string(), { description: "Up to 5 relevant, single-word or two-word tags." }),
+});
+
+export const suggestTitleAndTags = async (content: string, options: SuggestionOptions = {}): Promise<{ title: string, tags: string[], source: SuggestionSource }> => {
+    const { signal, localOnly, workspace = { notes: [] } } = options;
     const payload = {
-        model: MODEL_NAMES.FLASH,
         contents: `Analyze the following note content. Suggest a concise, descriptive title (no more than 10 words) and up to 5 relevant, single-word or two-word tags.
 Content: ${content.substring(0, 1000)}`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    title: { 
-                        type: Type.STRING,
-                        description: "A concise, descriptive title, no more than 10 words."
-                    },
-                    tags: {
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING },
-                        description: "Up to 5 relevant, single-word or two-word tags."
-                    }
-                },
-                required: ["title", "tags"]
-            }
-        },
     };
     
-    return _callGemini(
+    return _withLocalFallback(
+        () => _callStructuredAi('suggestions', payload, titleAndTagsSchema, {
+            errorMessage: 'Error suggesting title and tags:',
+            transform: (result) => ({ ...result, title: result.title.replace(/["\.]/g, '') }),
+            onError: () => { throw new Error("Failed to suggest title and tags."); },
+            signal,
+        }),
+        () => ({ title: suggestLocalTitle(content), tags: suggestLocalTags('', content, workspace) }),
+        localOnly,
+    );
+};
+
+
+// --- Chat (Streaming - Bypasses Caching) ---
+
+// Converts prior turns to provider turns. Consecutive turns from the same role are merged,
+// and a leading model turn is dropped, since most APIs expect the conversation to open with the user.
+const toHistoryTurns = (turns: ChatTurn[]): LlmTurn[] => {
+    const merged: LlmTurn[] = [];
+    for (const turn of turns) {
+        const last = merged[merged.length - 1];
+        if (last && last.role === turn.role) {
+            last.text = `${last.text}\n\n${turn.text}`;
+        } else if (merged.length > 0 || turn.role === 'user') {
+            merged.push({ role: turn.role, text: turn.text });
+        }
+    }
+    // The new user message follows, so the history must end on a model turn.
+    if (merged.length > 0 && merged[merged.length - 1].role === 'user') merged.pop();
+    return merged;
+};
+
+const formatTranscript = (turns: ChatTurn[]) =>
+    turns.map(t => `${t.role === 'user' ? 'User' : 'Assistant'}: ${t.text}`).join('\n\n');
+
+/**
+ * Rewrites a follow-up question into a standalone query suitable for retrieval.
+ * Returns the original query when there is no history to resolve against.
+ */
+export const rewriteFollowUpQuery = async (history: ChatTurn[], query: string, signal?: AbortSignal): Promise<string> => {
+    if (history.length === 0) return query;
+    const payload: AiPayload = {
+        contents: `Given the conversation below and a follow-up question, rewrite the follow-up as a standalone search query that can be understood without the conversation. Resolve pronouns and references to earlier topics. If it is already standalone, return it unchanged. Respond with the query only.
+
+Conversation:
+${formatTranscript(history.slice(-6))}
+
+Follow-up question: ${query}`,
+    };
+
+    return _callAi(
+        'chatUtility',
         payload,
         {
-            errorMessage: 'Error suggesting title and tags:',
-            processResponse: (res) => {
-                try {
-                    const result = JSON.parse(res.text.trim());
-                    if (result.title) {
-                        result.title = result.title.replace(/["\.]/g, '');
-                    }
-                    return result;
-                } catch(e) {
-                    console.error('Failed to parse JSON for title/tags:', e, res.text);
-                    throw new Error("AI returned invalid data format.");
-                }
-            },
-            onError: () => { throw new Error("Failed to suggest title and tags."); }
+            errorMessage: 'Error rewriting follow-up query:',
+            processResponse: (reply) => reply.trim().replace(/^"|"$/g, '') || query,
+            onError: () => query,
+            signal,
         }
     );
 };
 
+/**
+ * Folds older conversation turns into a running summary.
+ * @param previousSummary The summary of turns before `turns`, if any.
+ * @param turns The turns to add to the summary, oldest first.
+ */
+export const summarizeConversation = async (previousSummary: string | null, turns: ChatTurn[]): Promise<string> => {
+    const payload: AiPayload = {
+        contents: `Update the running summary of a conversation between a user and an assistant with the new turns below. Preserve facts, decisions, names, numbers and open questions the assistant may need later. Write in concise third person, no more than 250 words.
 
-// --- Chat (Streaming - Bypasses Caching) ---
+Current summary:
+${previousSummary || '(none)'}
+
+New turns:
+${formatTranscript(turns)}`,
+    };
+
+    return _callAi(
+        'chatUtility',
+        payload,
+        {
+            errorMessage: 'Error summarizing conversation:',
+            processResponse: (reply) => reply.trim(),
+            onError: () => { throw new Error("Failed to summarize the conversation."); }
+        }
+    );
+};
+
+/**
+ * Streams a chat reply, along with the model that is producing it.
+ * @param task Which routing rule applies; Amazon copy is routed separately from other replies.
+ */
 export const generateChatStream = async (
     query: string,
     systemInstruction: string,
-    image?: string
-) => {
-    const userParts: Part[] = [{ text: query }];
-    if (image) {
-        userParts.push({
-            inlineData: {
-                mimeType: 'image/jpeg',
-                data: image,
-            },
-        });
-    }
-
+    image?: string,
+    history: ChatTurn[] = [],
+    historySummary?: string | null,
+    task: Extract<AiTask, 'chat' | 'amazonCopy'> = 'chat',
+    signal?: AbortSignal
+): Promise<{ stream: AsyncIterable<string>; model: string }> => {
     try {
-        const ai = getGenAI();
-        return await ai.models.generateContentStream({
-            model: MODEL_NAMES.FLASH,
-            contents: { role: 'user', parts: userParts },
-            config: { systemInstruction, safetySettings },
-        });
+        const { feature, provider, models } = getRouteForTask(task);
+        // The slot is released once the reply starts streaming, so a model can only be
+        // swapped for a fallback before its first chunk. The caller's signal keeps
+        // working after that, to stop a reply mid-stream.
+        const { result, model } = await scheduleWithFallback(models, (model, taskSignal) => provider.generateStream({
+            model,
+            contents: [...toHistoryTurns(history), { role: 'user', text: query, image }],
+            systemInstruction: historySummary
+                ? `${systemInstruction}\n\nSummary of the earlier conversation:\n${historySummary}`
+                : systemInstruction,
+            signal: signal ? AbortSignal.any([taskSignal, signal]) : taskSignal,
+            onUsage: (usage) => recordUsage(feature, model, usage),
+        }), { priority: 'interactive', signal });
+        return { stream: result, model };
     } catch (e) {
+        if (isAbortError(e)) throw e;
         console.error('Error getting streaming chat response:', e);
         fireRateLimitEvent(e);
-        throw new Error("Failed to get streaming response. Please check your API key.");
+        throw new Error("Failed to get streaming response. Please check your AI settings.");
     }
 };
 
 // --- General Chat with Tools (Bypasses Caching) ---
-export const createGeneralChatSession = (): Chat => {
-    const ai = getGenAI();
-
-    const functionDeclarations: FunctionDeclaration[] = [
-        { name: 'createNote', parameters: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, content: { type: Type.STRING } }, required: ['title'] } },
-        { name: 'findNotes', parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING } }, required: ['query'] } },
-        { name: 'getNoteContent', parameters: { type: Type.OBJECT, properties: { noteId: { type: Type.STRING } }, required: ['noteId'] } },
-        { name: 'updateNote', parameters: { type: Type.OBJECT, properties: { noteId: { type: Type.STRING }, title: { type: Type.STRING }, content: { type: Type.STRING } }, required: ['noteId'] } },
-        { name: 'deleteNote', parameters: { type: Type.OBJECT, properties: { noteId: { type: Type.STRING } }, required: ['noteId'] } },
-        { name: 'createCollection', parameters: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, parentId: { type: Type.STRING } }, required: ['name'] } },
-        { name: 'findCollections', parameters: { type: Type.OBJECT, properties: { query: { type: Type.STRING } }, required: ['query'] } },
-        { name: 'moveNoteToCollection', parameters: { type: Type.OBJECT, properties: { noteId: { type: Type.STRING }, collectionId: { type: Type.STRING } }, required: ['noteId', 'collectionId'] } },
+export interface RoutedToolChatReply extends ToolChatReply {
+    // The model that produced the reply.
+    model: string;
+}
+
+export interface RoutedToolChatSession {
+    sendMessage: (message: string) => Promise<RoutedToolChatReply>;
+    sendToolResponses: (responses: ToolResponse[]) => Promise<RoutedToolChatReply>;
+}
+
+export const createGeneralChatSession = (): RoutedToolChatSession => {
+    const tools: ToolDeclaration[] = [
+        { name: 'createNote', parameters: { type: 'object', properties: { title: { type: 'string' }, content: { type: 'string' } }, required: ['title'] } },
+        { name: 'findNotes', parameters: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] } },
+        { name: 'getNoteContent', parameters: { type: 'object', properties: { noteId: { type: 'string' } }, required: ['noteId'] } },
+        { name: 'updateNote', parameters: { type: 'object', properties: { noteId: { type: 'string' }, title: { type: 'string' }, content: { type: 'string' } }, required: ['noteId'] } },
+        { name: 'deleteNote', parameters: { type: 'object', properties: { noteId: { type: 'string' } }, required: ['noteId'] } },
+        { name: 'createCollection', parameters: { type: 'object', properties: { name: { type: 'string' }, parentId: { type: 'string' } }, required: ['name'] } },
+        { name: 'findCollections', parameters: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] } },
+        { name: 'moveNoteToCollection', parameters: { type: 'object', properties: { noteId: { type: 'string' }, collectionId: { type: 'string' } }, required: ['noteId', 'collectionId'] } },
         {
             name: 'findTemplates',
             description: "Finds templates by searching their titles.",
             parameters: {
-                type: Type.OBJECT,
-                properties: { query: { type: Type.STRING, description: "The text to search for within template titles." } },
+                type: 'object',
+                properties: { query: { type: 'string', description: "The text to search for within template titles." } },
                 required: ['query']
             }
         },
@@ -458,8 +593,8 @@ export const createGeneralChatSession = (): Chat => {
             name: 'createTemplateFromNote',
             description: "Creates a new template from the content and title of an existing note.",
             parameters: {
-                type: Type.OBJECT,
-                properties: { noteId: { type: Type.STRING, description: "The ID of the note to use for the template." } },
+                type: 'object',
+                properties: { noteId: { type: 'string', description: "The ID of the note to use for the template." } },
                 required: ['noteId']
             }
         },
@@ -467,10 +602,10 @@ export const createGeneralChatSession = (): Chat => {
             name: 'applyTemplateToNote',
             description: "Applies a template to an existing note, overwriting its title and content.",
             parameters: {
-                type: Type.OBJECT,
+                type: 'object',
                 properties: {
-                    templateId: { type: Type.STRING, description: "The ID of the template to apply." },
-                    noteId: { type: Type.STRING, description: "The ID of the note to apply the template to." }
+                    templateId: { type: 'string', description: "The ID of the template to apply." },
+                    noteId: { type: 'string', description: "The ID of the note to apply the template to." }
                 },
                 required: ['templateId', 'noteId']
             }
@@ -479,74 +614,235 @@ export const createGeneralChatSession = (): Chat => {
             name: 'findAndReplaceInNotes',
             description: "Finds and replaces text within the content of all notes. This is a bulk operation.",
             parameters: {
-                type: Type.OBJECT,
+                type: 'object',
                 properties: {
-                    searchQuery: { type: Type.STRING, description: "The text to search for." },
-                    newText: { type: Type.STRING, description: "The text to replace the found text with." },
-                    caseSensitive: { type: Type.BOOLEAN, description: "Optional. Whether the search should be case-sensitive. Defaults to false." }
+                    searchQuery: { type: 'string', description: "The text to search for." },
+                    newText: { type: 'string', description: "The text to replace the found text with." },
+                    caseSensitive: { type: 'boolean', description: "Optional. Whether the search should be case-sensitive. Defaults to false." }
                 },
                 required: ['searchQuery', 'newText']
             }
         },
+        {
+            name: 'addTagsToNote',
+            description: "Adds tags to a note. Tags the note already has are ignored.",
+            parameters: {
+                type: 'object',
+                properties: {
+                    noteId: { type: 'string', description: "The ID of the note to tag." },
+                    tags: { type: 'array', items: { type: 'string' }, description: "The tags to add." }
+                },
+                required: ['noteId', 'tags']
+            }
+        },
+        {
+            name: 'removeTagsFromNote',
+            description: "Removes tags from a note.",
+            parameters: {
+                type: 'object',
+                properties: {
+                    noteId: { type: 'string', description: "The ID of the note to untag." },
+                    tags: { type: 'array', items: { type: 'string' }, description: "The tags to remove." }
+                },
+                required: ['noteId', 'tags']
+            }
+        },
+        {
+            name: 'setNoteFavorite',
+            description: "Marks a note as a favorite or removes it from favorites.",
+            parameters: {
+                type: 'object',
+                properties: {
+                    noteId: { type: 'string', description: "The ID of the note." },
+                    isFavorite: { type: 'boolean', description: "Whether the note should be a favorite." }
+                },
+                required: ['noteId', 'isFavorite']
+            }
+        },
+        {
+            name: 'renameCollection',
+            description: "Renames a folder.",
+            parameters: {
+                type: 'object',
+                properties: {
+                    collectionId: { type: 'string', description: "The ID of the folder to rename." },
+                    name: { type: 'string', description: "The new folder name." }
+                },
+                required: ['collectionId', 'name']
+            }
+        },
+        {
+            name: 'deleteCollection',
+            description: "Moves a folder to the trash together with its sub-folders and every note inside them.",
+            parameters: {
+                type: 'object',
+                properties: { collectionId: { type: 'string', description: "The ID of the folder to delete." } },
+                required: ['collectionId']
+            }
+        },
+        {
+            name: 'createSmartCollection',
+            description: "Creates a smart folder. Provide `rules` for a folder filtered by exact rules, or `query` for a folder filtered by AI semantic search.",
+            parameters: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string', description: "The smart folder name." },
+                    query: { type: 'string', description: "Optional. A natural-language description of the notes to include." },
+                    combinator: { type: 'string', enum: ['AND', 'OR'], description: "Optional. Whether notes must match all rules or any rule. Defaults to AND." },
+                    rules: {
+                        type: 'array',
+                        description: "Optional. Rules such as { field: 'tag', operator: 'has', value: 'work' }. Fields and operators: tag (has, lacks), folder (in, notIn; value is a folder ID), createdAt and updatedAt (before, after, on with a YYYY-MM-DD value, or withinDays with a number), isFavorite (is; value 'true' or 'false'), wordCount (atLeast, atMost), content (matches, notMatches; value is a regex).",
+                        items: {
+                            type: 'object',
+                            properties: {
+                                field: { type: 'string' },
+                                operator: { type: 'string' },
+                                value: { type: 'string' }
+                            },
+                            required: ['field', 'operator', 'value']
+                        }
+                    }
+                },
+                required: ['name']
+            }
+        },
+        {
+            name: 'findBacklinks',
+            description: "Lists the notes that link to a note.",
+            parameters: {
+                type: 'object',
+                properties: { noteId: { type: 'string', description: "The ID of the linked-to note." } },
+                required: ['noteId']
+            }
+        },
+        {
+            name: 'getNoteVersions',
+            description: "Lists the saved previous versions of a note, newest first.",
+            parameters: {
+                type: 'object',
+                properties: { noteId: { type: 'string', description: "The ID of the note." } },
+                required: ['noteId']
+            }
+        },
+        {
+            name: 'restoreNoteVersion',
+            description: "Restores a note's title, content and tags from one of its previous versions.",
+            parameters: {
+                type: 'object',
+                properties: {
+                    noteId: { type: 'string', description: "The ID of the note." },
+                    versionId: { type: 'string', description: "The ID of the version to restore, from getNoteVersions." }
+                },
+                required: ['noteId', 'versionId']
+            }
+        },
     ];
 
-    return ai.chats.create({
-        model: MODEL_NAMES.PRO,
-        config: {
-            systemInstruction: "You are a helpful assistant with access to a user's notes. You can create, find, read, update, and delete notes and folders. You can also manage templates by creating them from existing notes, finding templates, or applying them to notes. Additionally, you can perform bulk operations like finding and replacing text across multiple notes. You MUST use the provided tools to interact with the user's workspace. If you receive a tool response with `{ success: false, error: '...' }`, you MUST NOT retry the same command. Instead, you MUST inform the user of the specific error message and ask them for clarification or a different command.",
-            tools: [{ functionDeclarations }],
-            safetySettings,
-        },
+    const { feature, provider, models } = getRouteForTask('copilot');
+    const createChat = (model: string) => provider.createToolChat({
+        model,
+        systemInstruction: "You are a helpful assistant with access to a user's notes. You can create, find, read, update, and delete notes and folders, rename folders, tag and untag notes, mark favorites, create smart folders, list a note's backlinks, and read or restore a note's version history. You can also manage templates by creating them from existing notes, finding templates, or applying them to notes. Additionally, you can perform bulk operations like finding and replacing text across multiple notes. You MUST use the provided tools to interact with the user's workspace. If you receive a tool response with `{ success: false, error: '...' }`, you MUST NOT retry the same command. Instead, you MUST inform the user of the specific error message and ask them for clarification or a different command.",
+        tools,
+        onUsage: (usage) => recordUsage(feature, model, usage),
     });
+
+    // The conversation lives inside the provider's session, so the model can only fall back
+    // until the first reply; after that the session stays on the model that answered.
+    let chat: ToolChatSession | null = null;
+    let chatModel = models[0];
+    const send = async (call: (session: ToolChatSession) => Promise<ToolChatReply>): Promise<RoutedToolChatReply> => {
+        if (chat) {
+            const session = chat;
+            const reply = await scheduler.schedule(() => call(session), { priority: 'interactive' });
+            return { ...reply, model: chatModel };
+        }
+        const { result, model } = await scheduleWithFallback(models, (model) => {
+            const session = createChat(model);
+            return call(session).then(reply => {
+                chat = session;
+                return reply;
+            });
+        }, { priority: 'interactive' });
+        chatModel = model;
+        return { ...result, model };
+    };
+    return {
+        sendMessage: (message) => send(session => session.sendMessage(message)),
+        sendToolResponses: (responses) => send(session => session.sendToolResponses(responses)),
+    };
 };
 
 
 // --- Editor AI Actions ---
-export const suggestTags = async (title: string, content: string): Promise<string[]> => {
+export const suggestTags = async (title: string, content: string, options: SuggestionOptions = {}): Promise<{ tags: string[], source: SuggestionSource }> => {
+    const { signal, localOnly, workspace = { notes: [] } } = options;
     const payload = {
-        model: MODEL_NAMES.FLASH,
         contents: `Suggest up to 5 relevant, single-word or two-word tags for the following note.
 Title: ${title}
 Content: ${content.substring(0, 500)}`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING }
-            }
-        },
     };
     
-    return _callGemini(
-        payload,
-        {
-            errorMessage: 'Error suggesting tags:',
-            processResponse: (res) => {
-                try {
-                    return JSON.parse(res.text.trim());
-                } catch(e) {
-                    console.error('Failed to parse JSON for tags:', e, res.text);
-                    throw new Error("AI returned invalid data format.");
-                }
-            },
-            onError: () => { throw new Error("Failed to suggest tags."); }
-        }
+    return _withLocalFallback(
+        async () => ({
+            tags: await _callStructuredAi('suggestions', payload, s.array(s.string()), {
+                errorMessage: 'Error suggesting tags:',
+                onError: () => { throw new Error("Failed to suggest tags."); },
+                signal,
+            }),
+        }),
+        () => ({ tags: suggestLocalTags(title, content, workspace) }),
+        localOnly,
     );
 };
 
-export const suggestTitle = async (content: string): Promise<string> => {
-    const payload = {
-        model: MODEL_NAMES.FLASH,
+export const suggestTitle = async (content: string, options: SuggestionOptions = {}): Promise<{ title: string, source: SuggestionSource }> => {
+    const { signal, localOnly } = options;
+    const payload: AiPayload = {
         contents: `Suggest a concise, descriptive title for the following note content. The title should be no more than 10 words.
 Content: ${content.substring(0, 1000)}`,
     };
 
-    return _callGemini(
+    return _withLocalFallback(
+        async () => ({
+            title: await _callAi(
+                'suggestions',
+                payload,
+                {
+                    errorMessage: 'Error suggesting title:',
+                    processResponse: (reply) => reply.trim().replace(/["\.]/g, ''),
+                    onError: () => { throw new Error("Failed to suggest a title."); },
+                    signal,
+                }
+            ),
+        }),
+        () => ({ title: suggestLocalTitle(content) }),
+        localOnly,
+    );
+};
+
+/**
+ * Names a chat conversation from its opening exchange.
+ */
+export const generateChatTitle = async (messages: ChatMessage[]): Promise<string> => {
+    const transcript = messages
+        .filter(m => m.role !== 'tool' && typeof m.content === 'string')
+        .slice(0, 6)
+        .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${(m.content as string).substring(0, 500)}`)
+        .join('\n');
+    const payload: AiPayload = {
+        contents: `Suggest a short, descriptive title (no more than 6 words) for the following conversation. Respond with the title only.
+Conversation:
+${transcript}`,
+    };
+
+    return _callAi(
+        'chatUtility',
         payload,
         {
-            errorMessage: 'Error suggesting title:',
-            processResponse: (res) => res.text.trim().replace(/["\.]/g, ''),
-            onError: () => { throw new Error("Failed to suggest a title."); }
+            errorMessage: 'Error generating chat title:',
+            processResponse: (reply) => reply.trim().replace(/["\.]/g, ''),
+            onError: () => { throw new Error("Failed to generate a chat title."); },
+            priority: 'background',
         }
     );
 };
@@ -562,75 +858,54 @@ export const performInlineEdit = async (text: string, action: InlineAction): Pro
         case 'makeCasual': instruction = 'Rewrite the following text in a casual tone:'; break;
     }
     
-    // FIX: Removed `config` property. The `safetySettings` are automatically
-    // applied within the `_callGemini` wrapper function. Passing a config with only
-    // `safetySettings` causes a type error as it's not a valid `GenerationConfig`.
-    const payload = {
-        model: MODEL_NAMES.FLASH,
+    const payload: AiPayload = {
         contents: `${instruction}\n\n"${text}"`,
     };
 
-    return _callGemini(
+    return _callAi(
+        'inlineEdit',
         payload,
         {
             errorMessage: `Error performing inline edit action "${action}":`,
-            processResponse: (res) => res.text.trim(),
+            processResponse: (reply) => reply.trim(),
             onError: () => { throw new Error(`AI action "${action}" failed.`); }
         }
     );
 };
 
-export const summarizeAndExtractActions = async (content: string): Promise<{ summary: string; actionItems: string[] }> => {
+const summaryAndActionsSchema = s.object({
+    summary: s.string(),
+    actionItems: s.array(s.string()),
+});
+
+export const summarizeAndExtractActions = async (content: string): Promise<{ summary: string; actionItems: string[]; source: SuggestionSource }> => {
     const payload = {
-        model: MODEL_NAMES.FLASH,
         contents: `Summarize the following note and extract a list of action items.
 Note:
 ${content}`,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    summary: { type: Type.STRING },
-                    actionItems: { type: Type.ARRAY, items: { type: Type.STRING } },
-                },
-                required: ["summary", "actionItems"]
-            },
-        },
     };
     
-    return _callGemini(
-        payload,
-        {
+    return _withLocalFallback(
+        () => _callStructuredAi('summary', payload, summaryAndActionsSchema, {
             errorMessage: 'Error in summarizeAndExtractActions:',
-            processResponse: (res) => {
-                try {
-                    return JSON.parse(res.text.trim());
-                } catch(e) {
-                    console.error('Failed to parse JSON for summary:', e, res.text);
-                    throw new Error("AI returned invalid data format.");
-                }
-            },
-            onError: () => { throw new Error("Failed to summarize and find actions."); }
-        }
+            onError: () => { throw new Error("Failed to summarize and find actions."); },
+        }),
+        () => summarizeLocally(content),
     );
 };
 
 
 export const enhanceText = async (text: string, tone: string): Promise<string> => {
-    // FIX: Removed `config` property. The `safetySettings` are automatically
-    // applied within the `_callGemini` wrapper function. Passing a config with only
-    // `safetySettings` causes a type error as it's not a valid `GenerationConfig`.
-    const payload = {
-        model: MODEL_NAMES.FLASH,
+    const payload: AiPayload = {
         contents: `Rewrite the following text to have a ${tone} tone:\n\n"${text}"`,
     };
     
-    return _callGemini(
+    return _callAi(
+        'inlineEdit',
         payload,
         {
             errorMessage: 'Error enhancing text:',
-            processResponse: (res) => res.text.trim(),
+            processResponse: (reply) => reply.trim(),
             onError: () => { throw new Error(`Failed to enhance text with ${tone} tone.`); }
         }
     );
@@ -0,0 +1,158 @@
+import { GoogleGenAI, HarmCategory, HarmBlockThreshold, Type, Schema, Content, Part, Chat, GenerateContentResponse, GenerateContentResponseUsageMetadata, ApiError } from "@google/genai";
+import { API_KEY_STORAGE_KEY } from '../../lib/config';
+import { TokenUsage } from '../../lib/aiUsage';
+import { JsonSchema, LlmProvider, LlmRequest, LlmRequestError, LlmTurn, ToolChatReply } from './types';
+
+// Cache for the GenAI instance to avoid re-creating it on every call.
+let genAI: GoogleGenAI | null = null;
+let cachedApiKey: string | null = null;
+
+export const getGenAI = (): GoogleGenAI => {
+    let apiKey: string | null = null;
+    try {
+        apiKey = localStorage.getItem(API_KEY_STORAGE_KEY);
+    } catch (e) {
+        console.error("Could not access localStorage for API key.", e);
+    }
+    
+    if (!apiKey) {
+        // Clear cached instance if API key is removed
+        genAI = null;
+        cachedApiKey = null;
+        window.dispatchEvent(new CustomEvent('ai-rate-limit'));
+        throw new Error("Gemini API key not found. Please set it in the settings.");
+    }
+
+    // If we have a cached instance and the key hasn't changed, return it.
+    if (genAI && apiKey === cachedApiKey) {
+        return genAI;
+    }
+
+    // Otherwise, create a new instance and cache it.
+    genAI = new GoogleGenAI({ apiKey });
+    cachedApiKey = apiKey;
+    return genAI;
+};
+
+const safetySettings = [
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+];
+
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+    string: Type.STRING,
+    number: Type.NUMBER,
+    integer: Type.INTEGER,
+    boolean: Type.BOOLEAN,
+    array: Type.ARRAY,
+    object: Type.OBJECT,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: GEMINI_TYPES[schema.type],
+    ...(schema.description && { description: schema.description }),
+    ...(schema.enum && { enum: schema.enum }),
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+    ...(schema.properties && {
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+    }),
+    ...(schema.required && { required: schema.required }),
+});
+
+const toParts = (turn: LlmTurn): Part[] => {
+    const parts: Part[] = [{ text: turn.text }];
+    if (turn.image) {
+        parts.push({ inlineData: { mimeType: 'image/jpeg', data: turn.image } });
+    }
+    return parts;
+};
+
+const toContents = (contents: LlmRequest['contents']): string | Content[] =>
+    typeof contents === 'string'
+        ? contents
+        : contents.map(turn => ({ role: turn.role, parts: toParts(turn) }));
+
+const toConfig = ({ systemInstruction, responseSchema, signal }: LlmRequest) => ({
+    ...(systemInstruction && { systemInstruction }),
+    ...(responseSchema && { responseMimeType: 'application/json', responseSchema: toGeminiSchema(responseSchema) }),
+    ...(signal && { abortSignal: signal }),
+    safetySettings,
+});
+
+/**
+ * Runs an SDK call, converting API errors into LlmRequestErrors. Quota errors carry
+ * the suggested wait as a `retryDelay` such as "17s" in their details.
+ */
+export const withRequestErrors = async <T>(call: () => Promise<T>): Promise<T> => {
+    try {
+        return await call();
+    } catch (error) {
+        if (!(error instanceof ApiError)) throw error;
+        const retryDelay = error.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+        throw new LlmRequestError(error.message, error.status, retryDelay ? Number(retryDelay[1]) * 1000 : undefined);
+    }
+};
+
+// Thinking tokens are billed as output.
+const reportUsage = (onUsage: ((usage: TokenUsage) => void) | undefined, metadata: GenerateContentResponseUsageMetadata | undefined) => {
+    if (!onUsage || !metadata) return;
+    onUsage({
+        inputTokens: (metadata.promptTokenCount ?? 0) + (metadata.toolUsePromptTokenCount ?? 0),
+        outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    });
+};
+
+const toReply = (response: GenerateContentResponse): ToolChatReply => ({
+    text: response.text || '',
+    functionCalls: (response.functionCalls || []).map(fc => ({ id: fc.id, name: fc.name || '', args: fc.args || {} })),
+});
+
+export const geminiProvider: LlmProvider = {
+    id: 'gemini',
+    generate: async (request) => {
+        const response = await withRequestErrors(() => getGenAI().models.generateContent({
+            model: request.model,
+            contents: toContents(request.contents),
+            config: toConfig(request),
+        }));
+        reportUsage(request.onUsage, response.usageMetadata);
+        return response.text || '';
+    },
+    generateStream: async (request) => {
+        const stream = await withRequestErrors(() => getGenAI().models.generateContentStream({
+            model: request.model,
+            contents: toContents(request.contents),
+            config: toConfig(request),
+        }));
+        return (async function* () {
+            // Each chunk carries the running totals, so only the last one counts.
+            let usage: GenerateContentResponseUsageMetadata | undefined;
+            for await (const chunk of stream) {
+                usage = chunk.usageMetadata ?? usage;
+                if (chunk.text) yield chunk.text;
+            }
+            reportUsage(request.onUsage, usage);
+        })();
+    },
+    createToolChat: ({ model, systemInstruction, tools, onUsage }) => {
+        const chat: Chat = getGenAI().chats.create({
+            model,
+            config: {
+                systemInstruction,
+                tools: [{ functionDeclarations: tools.map(tool => ({ ...tool, parameters: toGeminiSchema(tool.parameters) })) }],
+                safetySettings,
+            },
+        });
+        const send = async (message: Parameters<Chat['sendMessage']>[0]['message']) => {
+            const response = await withRequestErrors(() => chat.sendMessage({ message }));
+            reportUsage(onUsage, response.usageMetadata);
+            return toReply(response);
+        };
+        return {
+            sendMessage: (message) => send(message),
+            sendToolResponses: (responses) => send(responses.map(({ name, response }) => ({ functionResponse: { name, response } }))),
+        };
+    },
+};
@@ -0,0 +1,28 @@
+import { AiFeature, AiProviderId, AiTask, AI_TASKS, getModelChain, loadAiSettings } from '../../lib/aiSettings';
+import { geminiProvider } from './gemini';
+import { openAiCompatibleProvider } from './openAiCompatible';
+import { LlmProvider } from './types';
+
+export * from './types';
+export * from './scheduler';
+export * from './routing';
+export { getGenAI, withRequestErrors } from './gemini';
+export { SchemaValidationError, parseStructuredReply } from './schema';
+export type { Schema, Infer } from './schema';
+
+const PROVIDERS: Record<AiProviderId, LlmProvider> = {
+    'gemini': geminiProvider,
+    'openai-compatible': openAiCompatibleProvider,
+};
+
+/**
+ * Resolves how a task is served: the provider the user has chosen for the task's feature,
+ * and the chain of models to try in order. Settings are read on every call so changes
+ * apply without a reload.
+ */
+export const getRouteForTask = (task: AiTask): { feature: AiFeature; provider: LlmProvider; models: string[] } => {
+    const settings = loadAiSettings();
+    const feature = AI_TASKS.find(t => t.id === task)!.feature;
+    const provider = PROVIDERS[settings.features[feature].provider] ?? geminiProvider;
+    return { feature, provider, models: getModelChain(settings, task) };
+};
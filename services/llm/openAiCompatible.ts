@@ -0,0 +1,187 @@
+import { loadAiSettings } from '../../lib/aiSettings';
+import { TokenUsage } from '../../lib/aiUsage';
+import { LlmProvider, LlmRequest, LlmRequestError, LlmTurn, ToolChatReply } from './types';
+
+// Messages in the OpenAI chat completions format.
+type OpenAiMessage =
+    | { role: 'system'; content: string }
+    | { role: 'user'; content: string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[] }
+    | { role: 'assistant'; content: string | null; tool_calls?: OpenAiToolCall[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAiToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+const toMessage = (turn: LlmTurn): OpenAiMessage => {
+    if (turn.role === 'model') return { role: 'assistant', content: turn.text };
+    if (!turn.image) return { role: 'user', content: turn.text };
+    return {
+        role: 'user',
+        content: [
+            { type: 'text', text: turn.text },
+            { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${turn.image}` } },
+        ],
+    };
+};
+
+const toMessages = ({ contents, systemInstruction, responseSchema }: LlmRequest): OpenAiMessage[] => {
+    let system = systemInstruction || '';
+    if (responseSchema) {
+        // Not every server enforces `response_format`, so the schema is spelled out as well.
+        system = `${system}\n\nRespond only with JSON that matches this JSON Schema:\n${JSON.stringify(responseSchema)}`.trim();
+    }
+    const turns = typeof contents === 'string' ? [{ role: 'user' as const, text: contents }] : contents;
+    return [...(system ? [{ role: 'system' as const, content: system }] : []), ...turns.map(toMessage)];
+};
+
+// Local models often wrap JSON in a Markdown code fence despite being asked not to.
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const postChatCompletion = async (body: Record<string, unknown>, signal?: AbortSignal) => {
+    const { baseUrl, apiKey } = loadAiSettings().openAiCompatible;
+    if (!baseUrl) throw new Error("No server URL is set for the OpenAI-compatible provider. Please set it in the settings.");
+    let response: Response;
+    try {
+        response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+            },
+            body: JSON.stringify(body),
+            signal,
+        });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new Error(`Could not reach the AI server at ${baseUrl}. Is it running?`);
+    }
+    if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new LlmRequestError(
+            `AI server returned ${response.status}: ${detail.substring(0, 200)}`,
+            response.status,
+            parseRetryAfter(response.headers.get('Retry-After')),
+        );
+    }
+    return response;
+};
+
+const reportUsage = (onUsage: ((usage: TokenUsage) => void) | undefined, usage: any) => {
+    if (!onUsage || !usage) return;
+    onUsage({ inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 });
+};
+
+/**
+ * Reads an OpenAI-style server-sent event stream and yields the content deltas.
+ * Usage arrives in a final chunk with no choices, when the server supports it.
+ */
+async function* readContentDeltas(body: ReadableStream<Uint8Array>, onUsage?: (usage: TokenUsage) => void): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                const data = line.trim();
+                if (!data.startsWith('data:')) continue;
+                const payload = data.slice(5).trim();
+                if (payload === '[DONE]') return;
+                const chunk = JSON.parse(payload);
+                reportUsage(onUsage, chunk.usage);
+                const delta = chunk.choices?.[0]?.delta?.content;
+                if (delta) yield delta;
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Talks to any server that implements the OpenAI chat completions API, such as
+ * Ollama, llama.cpp's server, LM Studio or vLLM.
+ */
+export const openAiCompatibleProvider: LlmProvider = {
+    id: 'openai-compatible',
+    generate: async (request) => {
+        const response = await postChatCompletion({
+            model: request.model,
+            messages: toMessages(request),
+            ...(request.responseSchema && {
+                response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } },
+            }),
+        }, request.signal);
+        const data = await response.json();
+        reportUsage(request.onUsage, data.usage);
+        const text: string = data.choices?.[0]?.message?.content ?? '';
+        return request.responseSchema ? stripCodeFence(text) : text;
+    },
+    generateStream: async (request) => {
+        const response = await postChatCompletion({
+            model: request.model,
+            messages: toMessages(request),
+            stream: true,
+            stream_options: { include_usage: true },
+        }, request.signal);
+        if (!response.body) throw new Error("The AI server did not return a stream.");
+        return readContentDeltas(response.body, request.onUsage);
+    },
+    createToolChat: ({ model, systemInstruction, tools, onUsage }) => {
+        const messages: OpenAiMessage[] = [{ role: 'system', content: systemInstruction }];
+        const openAiTools = tools.map(tool => ({ type: 'function', function: tool }));
+
+        // The new messages are only added to the history once the server has replied,
+        // so a failed call can be retried as-is.
+        const complete = async (pending: OpenAiMessage[]): Promise<ToolChatReply> => {
+            const response = await postChatCompletion({ model, messages: [...messages, ...pending], tools: openAiTools });
+            const data = await response.json();
+            reportUsage(onUsage, data.usage);
+            messages.push(...pending);
+            const message = data.choices?.[0]?.message ?? {};
+            const toolCalls: OpenAiToolCall[] = (message.tool_calls || []).map((call: OpenAiToolCall, index: number) => ({
+                ...call,
+                // Some local servers omit ids; they're needed to pair results with calls.
+                id: call.id || `call_${messages.length}_${index}`,
+            }));
+            messages.push({ role: 'assistant', content: message.content ?? null, ...(toolCalls.length > 0 && { tool_calls: toolCalls }) });
+            return {
+                text: message.content || '',
+                functionCalls: toolCalls.map(call => {
+                    let args: Record<string, any> = {};
+                    try {
+                        args = JSON.parse(call.function.arguments || '{}');
+                    } catch {
+                        // Malformed arguments reach the tool as empty, which reports what's missing.
+                    }
+                    return { id: call.id, name: call.function.name, args };
+                }),
+            };
+        };
+
+        return {
+            sendMessage: (message) => complete([{ role: 'user', content: message }]),
+            sendToolResponses: (responses) => complete(responses.map(({ id, name, response }) => ({
+                role: 'tool' as const,
+                tool_call_id: id || name,
+                content: JSON.stringify(response),
+            }))),
+        };
+    },
+};
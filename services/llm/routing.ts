@@ -0,0 +1,31 @@
+import { isAbortError } from './scheduler';
+import { LlmRequestError } from './types';
+
+// Errors that every model on the provider would hit too, so trying another can't help.
+const isProviderWideError = (error: unknown) =>
+    (error instanceof LlmRequestError && (error.status === 401 || error.status === 403)) ||
+    (error instanceof Error && error.message.includes('API key not valid'));
+
+export const shouldFallBack = (error: unknown) => !isAbortError(error) && !isProviderWideError(error);
+
+/**
+ * Runs `attempt` with each model in the chain until one succeeds, and reports which model
+ * answered. Cancellation and errors no other model could avoid, like a bad API key, are
+ * thrown straight away.
+ * @param attempt Called with the model to use and whether another model is left to fall back to.
+ */
+export const withModelFallback = async <T>(
+    models: string[],
+    attempt: (model: string, hasFallback: boolean) => Promise<T>
+): Promise<{ result: T; model: string }> => {
+    for (const [i, model] of models.entries()) {
+        const hasFallback = i < models.length - 1;
+        try {
+            return { result: await attempt(model, hasFallback), model };
+        } catch (e) {
+            if (!hasFallback || !shouldFallBack(e)) throw e;
+            console.warn(`Model ${model} failed, falling back to ${models[i + 1]}.`, e);
+        }
+    }
+    throw new Error("No AI model is configured for this task.");
+};
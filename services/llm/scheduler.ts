@@ -0,0 +1,165 @@
+import { LlmRequestError } from './types';
+
+/**
+ * Interactive requests always start before normal ones, and normal ones before background work.
+ */
+export type AiPriority = 'interactive' | 'normal' | 'background';
+
+const PRIORITIES: AiPriority[] = ['interactive', 'normal', 'background'];
+
+// Transient statuses worth retrying: rate limits, server errors and overload.
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+export interface AiSchedulerOptions {
+    maxConcurrent: number;
+    /** Background work may only use this many of the slots, so it never blocks a chat reply. */
+    maxBackgroundConcurrent: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export interface ScheduleOptions {
+    priority: AiPriority;
+    /** Cancels the request, whether it is still queued, waiting to retry or running. */
+    signal?: AbortSignal;
+    /** Overrides the scheduler's retry limit, e.g. to move on to a fallback model sooner. */
+    maxRetries?: number;
+}
+
+export interface AiScheduler {
+    schedule: <T>(task: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions) => Promise<T>;
+}
+
+interface Job {
+    priority: AiPriority;
+    run: () => void;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof Error && error.name === 'AbortError';
+
+const createAbortError = () => new DOMException('The AI request was cancelled.', 'AbortError');
+
+const isRetryable = (error: unknown) =>
+    error instanceof LlmRequestError && error.status !== undefined && RETRYABLE_STATUSES.has(error.status);
+
+/**
+ * Creates a queue that runs AI requests in priority order with a concurrency cap,
+ * retrying transient failures with exponential backoff and full jitter. A 429 pauses
+ * every lane for as long as the provider's Retry-After asks, since they share one quota.
+ */
+export const createAiScheduler = (options: AiSchedulerOptions): AiScheduler => {
+    const { maxConcurrent, maxBackgroundConcurrent, maxRetries, baseDelayMs, maxDelayMs } = options;
+    const queues: Record<AiPriority, Job[]> = { interactive: [], normal: [], background: [] };
+    let running = 0;
+    let runningBackground = 0;
+    let pausedUntil = 0;
+    let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const nextJob = (): Job | undefined => {
+        for (const priority of PRIORITIES) {
+            if (priority === 'background' && runningBackground >= maxBackgroundConcurrent) continue;
+            if (queues[priority].length > 0) return queues[priority].shift();
+        }
+        return undefined;
+    };
+
+    const pump = () => {
+        const waitMs = pausedUntil - Date.now();
+        if (waitMs > 0) {
+            if (!resumeTimer) {
+                resumeTimer = setTimeout(() => {
+                    resumeTimer = null;
+                    pump();
+                }, waitMs);
+            }
+            return;
+        }
+        while (running < maxConcurrent) {
+            const job = nextJob();
+            if (!job) return;
+            job.run();
+        }
+    };
+
+    const schedule = <T>(task: (signal: AbortSignal) => Promise<T>, { priority, signal, maxRetries: retryLimit = maxRetries }: ScheduleOptions): Promise<T> =>
+        new Promise<T>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(createAbortError());
+                return;
+            }
+            const controller = new AbortController();
+            let attempt = 0;
+            let retryTimer: ReturnType<typeof setTimeout> | null = null;
+            let settled = false;
+
+            const job: Job = {
+                priority,
+                run: () => {
+                    running++;
+                    if (priority === 'background') runningBackground++;
+                    task(controller.signal)
+                        .then(finish, handleFailure)
+                        .finally(() => {
+                            running--;
+                            if (priority === 'background') runningBackground--;
+                            pump();
+                        });
+                },
+            };
+
+            const finish = (value: T) => {
+                if (settled) return;
+                settled = true;
+                signal?.removeEventListener('abort', onAbort);
+                if (controller.signal.aborted) reject(createAbortError());
+                else resolve(value);
+            };
+
+            const fail = (error: unknown) => {
+                if (settled) return;
+                settled = true;
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            };
+
+            const handleFailure = (error: unknown) => {
+                if (controller.signal.aborted) return fail(createAbortError());
+                if (!isRetryable(error) || attempt >= retryLimit) return fail(error);
+
+                const backoffMs = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+                const retryAfterMs = (error as LlmRequestError).retryAfterMs;
+                const delayMs = retryAfterMs ?? backoffMs;
+                if ((error as LlmRequestError).status === 429) {
+                    pausedUntil = Math.max(pausedUntil, Date.now() + delayMs);
+                }
+                attempt++;
+                retryTimer = setTimeout(() => {
+                    retryTimer = null;
+                    // Retries go to the front of their lane; they have waited long enough.
+                    queues[priority].unshift(job);
+                    pump();
+                }, delayMs);
+            };
+
+            const onAbort = () => {
+                controller.abort();
+                const queue = queues[priority];
+                const queuedAt = queue.indexOf(job);
+                if (queuedAt !== -1) queue.splice(queuedAt, 1);
+                if (retryTimer) {
+                    clearTimeout(retryTimer);
+                    retryTimer = null;
+                }
+                // A running task keeps its slot until it notices the abort; its result is ignored.
+                fail(createAbortError());
+            };
+
+            signal?.addEventListener('abort', onAbort);
+            queues[priority].push(job);
+            pump();
+        });
+
+    return { schedule };
+};
@@ -0,0 +1,120 @@
+import { JsonSchema } from './types';
+
+/**
+ * A structured-output schema: the JSON Schema sent to the provider, plus a validator
+ * that checks a parsed reply against it and returns it typed.
+ */
+export interface Schema<T> {
+    json: JsonSchema;
+    /** Collects a message for every mismatch into `issues`; the return value is only trusted if none were added. */
+    check: (value: unknown, path: string, issues: string[]) => T;
+    isOptional?: boolean;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * A structured reply that could not be parsed or didn't match its schema.
+ */
+export class SchemaValidationError extends Error {
+    constructor(readonly issues: string[]) {
+        super(`AI returned invalid data: ${issues.join('; ')}`);
+        this.name = 'SchemaValidationError';
+    }
+}
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+const primitive = <T>(type: JsonSchema['type'], test: (value: unknown) => boolean) =>
+    (options: { description?: string } = {}): Schema<T> => ({
+        json: { type, ...options },
+        check: (value, path, issues) => {
+            if (!test(value)) issues.push(`${path} should be ${type === 'integer' ? 'an integer' : `a ${type}`}, got ${describe(value)}`);
+            return value as T;
+        },
+    });
+
+export const string = primitive<string>('string', v => typeof v === 'string');
+export const number = primitive<number>('number', v => typeof v === 'number' && Number.isFinite(v));
+export const integer = primitive<number>('integer', v => Number.isInteger(v));
+export const boolean = primitive<boolean>('boolean', v => typeof v === 'boolean');
+
+export const enumOf = <const V extends string>(values: readonly V[], options: { description?: string } = {}): Schema<V> => ({
+    json: { type: 'string', enum: [...values], ...options },
+    check: (value, path, issues) => {
+        if (!values.includes(value as V)) issues.push(`${path} should be one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+        return value as V;
+    },
+});
+
+export const array = <T>(items: Schema<T>, options: { description?: string } = {}): Schema<T[]> => ({
+    json: { type: 'array', items: items.json, ...options },
+    check: (value, path, issues) => {
+        if (!Array.isArray(value)) {
+            issues.push(`${path} should be an array, got ${describe(value)}`);
+            return [];
+        }
+        return value.map((item, i) => items.check(item, `${path}[${i}]`, issues));
+    },
+});
+
+/**
+ * Marks an object property as one the model may leave out.
+ */
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+    ...schema,
+    check: (value, path, issues) => (value === undefined ? undefined : schema.check(value, path, issues)),
+    isOptional: true,
+});
+
+type Shape = Record<string, Schema<any>>;
+type OptionalKeys<P extends Shape> = { [K in keyof P]: P[K]['isOptional'] extends true ? K : never }[keyof P];
+type ObjectOf<P extends Shape> =
+    { [K in Exclude<keyof P, OptionalKeys<P>>]: Infer<P[K]> } &
+    { [K in OptionalKeys<P>]?: Infer<P[K]> };
+
+export const object = <P extends Shape>(properties: P, options: { description?: string } = {}): Schema<ObjectOf<P>> => {
+    const required = Object.keys(properties).filter(key => !properties[key].isOptional);
+    return {
+        json: {
+            type: 'object',
+            properties: Object.fromEntries(Object.entries(properties).map(([key, schema]) => [key, schema.json])),
+            required,
+            ...options,
+        },
+        check: (value, path, issues) => {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                issues.push(`${path} should be an object, got ${describe(value)}`);
+                return {} as ObjectOf<P>;
+            }
+            const record = value as Record<string, unknown>;
+            const result: Record<string, unknown> = {};
+            for (const [key, schema] of Object.entries(properties)) {
+                if (record[key] === undefined) {
+                    if (!schema.isOptional) issues.push(`${path}.${key} is missing`);
+                    continue;
+                }
+                result[key] = schema.check(record[key], `${path}.${key}`, issues);
+            }
+            // Unknown properties are dropped rather than rejected.
+            return result as ObjectOf<P>;
+        },
+    };
+};
+
+/**
+ * Parses a JSON reply and validates it against a schema.
+ * @throws SchemaValidationError listing every problem found.
+ */
+export const parseStructuredReply = <T>(schema: Schema<T>, reply: string): T => {
+    let value: unknown;
+    try {
+        value = JSON.parse(reply.trim());
+    } catch (e) {
+        throw new SchemaValidationError([`the response is not valid JSON (${e instanceof Error ? e.message : 'parse error'})`]);
+    }
+    const issues: string[] = [];
+    const result = schema.check(value, '$', issues);
+    if (issues.length > 0) throw new SchemaValidationError(issues);
+    return result;
+};
@@ -0,0 +1,98 @@
+import { AiProviderId } from '../../lib/aiSettings';
+import { TokenUsage } from '../../lib/aiUsage';
+
+/**
+ * The subset of JSON Schema that every provider can express, used for structured
+ * output and tool parameters.
+ */
+export interface JsonSchema {
+    type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+    description?: string;
+    enum?: string[];
+    items?: JsonSchema;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+}
+
+/**
+ * One turn of a conversation. Images are base64-encoded JPEGs.
+ */
+export interface LlmTurn {
+    role: 'user' | 'model';
+    text: string;
+    image?: string;
+}
+
+export interface LlmRequest {
+    model: string;
+    // A single user prompt, or a conversation ending on a user turn.
+    contents: string | LlmTurn[];
+    systemInstruction?: string;
+    // When set, the reply is JSON text matching this schema.
+    responseSchema?: JsonSchema;
+    signal?: AbortSignal;
+    // Called with the token counts the provider reports, once per request.
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface ToolDeclaration {
+    name: string;
+    description?: string;
+    parameters: JsonSchema;
+}
+
+export interface ToolCall {
+    id?: string;
+    name: string;
+    args: Record<string, any>;
+}
+
+export interface ToolResponse {
+    id?: string;
+    name: string;
+    response: any;
+}
+
+export interface ToolChatReply {
+    text: string;
+    functionCalls: ToolCall[];
+}
+
+/**
+ * A stateful conversation in which the model may call tools. The session keeps the
+ * history, so each call only carries the new user message or tool results.
+ */
+export interface ToolChatSession {
+    sendMessage: (message: string) => Promise<ToolChatReply>;
+    sendToolResponses: (responses: ToolResponse[]) => Promise<ToolChatReply>;
+}
+
+export interface ToolChatOptions {
+    model: string;
+    systemInstruction: string;
+    tools: ToolDeclaration[];
+    // Called after every model turn with the provider's token counts.
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * An error response from a provider's API.
+ */
+export class LlmRequestError extends Error {
+    constructor(message: string, readonly status?: number, readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'LlmRequestError';
+    }
+}
+
+/**
+ * A backend that can serve every AI feature. Adapters throw on transport or API
+ * errors; callers decide how to report them.
+ */
+export interface LlmProvider {
+    id: AiProviderId;
+    generate: (request: LlmRequest) => Promise<string>;
+    // Resolves once the reply has started, then yields text as it arrives.
+    generateStream: (request: LlmRequest) => Promise<AsyncIterable<string>>;
+    createToolChat: (options: ToolChatOptions) => ToolChatSession;
+}
@@ -0,0 +1,37 @@
+-- Scope the AI response cache to its owner and expire it on the server.
+
+-- Rows written before this migration have no owner and may contain another account's notes.
+delete from public.ai_cache;
+
+alter table public.ai_cache
+    add column if not exists user_id uuid not null references auth.users (id) on delete cascade,
+    add column if not exists expires_at timestamptz not null default now() + interval '30 days';
+
+alter table public.ai_cache drop constraint if exists ai_cache_prompt_hash_key;
+alter table public.ai_cache add constraint ai_cache_user_id_prompt_hash_key unique (user_id, prompt_hash);
+create index if not exists ai_cache_expires_at_idx on public.ai_cache (expires_at);
+
+alter table public.ai_cache enable row level security;
+
+drop policy if exists "Users manage their own AI cache" on public.ai_cache;
+create policy "Users manage their own AI cache" on public.ai_cache
+    for all
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+-- Size of the caller's live cache, for the Settings panel.
+create or replace function public.get_ai_cache_stats()
+returns table (entries bigint, bytes bigint)
+language sql
+stable
+security invoker
+as $$
+    select count(*), coalesce(sum(pg_column_size(c.*)), 0)
+    from public.ai_cache c
+    where c.user_id = auth.uid() and c.expires_at > now();
+$$;
+
+-- Purge expired rows hourly.
+create extension if not exists pg_cron;
+select cron.unschedule(jobid) from cron.job where jobname = 'purge-expired-ai-cache';
+select cron.schedule('purge-expired-ai-cache', '0 * * * *', $$delete from public.ai_cache where expires_at <= now()$$);
@@ -0,0 +1,16 @@
+-- Store note versions as line deltas against periodic full snapshots.
+
+-- A version with no base_id is a full snapshot; otherwise `delta` rebuilds its content
+-- from the version base_id points to. Existing rows are all snapshots and stay valid.
+alter table public.note_versions
+    add column if not exists base_id uuid,
+    add column if not exists delta jsonb;
+
+alter table public.note_versions alter column content drop not null;
+
+alter table public.note_versions drop constraint if exists note_versions_snapshot_or_delta;
+alter table public.note_versions add constraint note_versions_snapshot_or_delta
+    check (base_id is null or delta is not null);
+
+-- History is now fetched one note at a time, when it's opened.
+create index if not exists note_versions_user_id_note_id_idx on public.note_versions (user_id, note_id);
@@ -0,0 +1,55 @@
+-- Soft delete: notes and folders go to the trash first and are deleted for good later.
+
+-- `deleted_from` keeps the names of the folders an item was in, so it can be put back
+-- even after those folders are gone.
+alter table public.notes
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deleted_from text[];
+
+alter table public.collections
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deleted_from text[];
+
+-- Moves notes and folders to the trash together. `p_deleted_from` maps each id to its folder path.
+create or replace function public.move_to_trash(p_collection_ids uuid[], p_note_ids uuid[], p_deleted_at timestamptz, p_deleted_from jsonb)
+returns void
+language sql
+security invoker
+as $$
+    update public.collections c
+    set deleted_at = p_deleted_at,
+        deleted_from = array(select jsonb_array_elements_text(coalesce(p_deleted_from -> c.id::text, '[]'::jsonb)))
+    where c.id = any(p_collection_ids) and c.user_id = auth.uid() and c.deleted_at is null;
+
+    update public.notes n
+    set deleted_at = p_deleted_at,
+        deleted_from = array(select jsonb_array_elements_text(coalesce(p_deleted_from -> n.id::text, '[]'::jsonb)))
+    where n.id = any(p_note_ids) and n.user_id = auth.uid() and n.deleted_at is null;
+$$;
+
+create or replace function public.restore_from_trash(p_collection_ids uuid[], p_note_ids uuid[])
+returns void
+language sql
+security invoker
+as $$
+    update public.collections
+    set deleted_at = null, deleted_from = null
+    where id = any(p_collection_ids) and user_id = auth.uid();
+
+    update public.notes
+    set deleted_at = null, deleted_from = null
+    where id = any(p_note_ids) and user_id = auth.uid();
+$$;
+
+-- Deletes trashed items for good. Items that aren't in the trash are left alone.
+create or replace function public.delete_from_trash(p_collection_ids uuid[], p_note_ids uuid[])
+returns void
+language sql
+security invoker
+as $$
+    delete from public.notes
+    where id = any(p_note_ids) and user_id = auth.uid() and deleted_at is not null;
+
+    delete from public.collections
+    where id = any(p_collection_ids) and user_id = auth.uid() and deleted_at is not null;
+$$;
@@ -0,0 +1,3 @@
+-- Other names a note can be linked by, as in `[[Alias]]`.
+alter table public.notes
+    add column if not exists aliases text[] not null default '{}';
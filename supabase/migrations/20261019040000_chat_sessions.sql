@@ -0,0 +1,42 @@
+-- Named chat sessions, synced across the user's devices.
+
+create table if not exists public.chat_sessions (
+    id uuid primary key,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    name text not null default 'New chat',
+    mode text not null,
+    messages jsonb not null default '[]',
+    is_pinned boolean not null default false,
+    -- Where the name came from: 'default', 'ai' or 'user'.
+    title_source text not null default 'default',
+    -- Rolling summaries of older turns, one per branch they were made on.
+    summaries jsonb not null default '[]',
+    active_leaf_id text,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_sessions_user_id_idx on public.chat_sessions (user_id);
+
+alter table public.chat_sessions enable row level security;
+
+drop policy if exists "Users manage their own chat sessions" on public.chat_sessions;
+create policy "Users manage their own chat sessions" on public.chat_sessions
+    for all
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+-- Other devices are told about changes as they happen. Deletes carry the whole old row so
+-- the `user_id` filter on the subscription can match them.
+alter table public.chat_sessions replica identity full;
+
+do $$
+begin
+    if not exists (
+        select 1 from pg_publication_tables
+        where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'chat_sessions'
+    ) then
+        alter publication supabase_realtime add table public.chat_sessions;
+    end if;
+end
+$$;
@@ -0,0 +1,9 @@
+-- Smart folders can be filtered by rules as well as by an AI query. Existing smart folders
+-- are all AI queries.
+alter table public.smart_collections
+    add column if not exists type text not null default 'AI',
+    add column if not exists rules jsonb;
+
+alter table public.smart_collections drop constraint if exists smart_collections_type_check;
+alter table public.smart_collections add constraint smart_collections_type_check
+    check (type in ('AI', 'RULES'));
@@ -22,8 +22,14 @@ export interface Note {
     updatedAt: string;
     isFavorite: boolean;
     tags: string[];
+    // Other names the note can be linked by, as in `[[Alias]]`.
+    aliases?: string[];
     history: NoteVersion[];
     parentId: string | null;
+    // Set while the note is in the trash.
+    deletedAt?: string | null;
+    // The names of the folders the note was in when it was trashed, from the top level down.
+    deletedFrom?: string[] | null;
 }
 
 export interface Collection {
@@ -31,6 +37,35 @@ export interface Collection {
     userId?: string;
     name: string;
     parentId: string | null;
+    // Set while the folder is in the trash.
+    deletedAt?: string | null;
+    // The names of the folders above this one when it was trashed, from the top level down.
+    deletedFrom?: string[] | null;
+}
+
+export type SmartCollectionType = 'AI' | 'RULES';
+
+export type SmartRuleField = 'tag' | 'folder' | 'createdAt' | 'updatedAt' | 'isFavorite' | 'wordCount' | 'content';
+
+export type SmartRuleOperator =
+    | 'has' | 'lacks'                               // tag
+    | 'in' | 'notIn'                                // folder
+    | 'before' | 'after' | 'on' | 'withinDays'      // createdAt, updatedAt
+    | 'is'                                          // isFavorite
+    | 'atLeast' | 'atMost'                          // wordCount
+    | 'matches' | 'notMatches';                     // content (regex)
+
+export interface SmartRule {
+    id: string;
+    field: SmartRuleField;
+    operator: SmartRuleOperator;
+    value: string;
+}
+
+export interface SmartRuleGroup {
+    id: string;
+    combinator: 'AND' | 'OR';
+    rules: (SmartRule | SmartRuleGroup)[];
 }
 
 export interface SmartCollection {
@@ -38,6 +73,9 @@ export interface SmartCollection {
     userId?: string;
     name: string;
     query: string;
+    // Smart folders created before rules existed have no type and are AI queries.
+    type?: SmartCollectionType;
+    rules?: SmartRuleGroup | null;
 }
 
 export interface Template {
@@ -46,10 +84,58 @@ export interface Template {
     content: string;
 }
 
+export interface NoteContentSnapshot {
+    title: string;
+    content: string;
+    // Only set by changes that also replace the note's tags.
+    tags?: string[];
+}
+
+// The effect a Co-pilot tool call would have on one note, shown for approval before it runs.
+export interface NoteChangePreview {
+    noteId: string;
+    // Null when the note would be created.
+    before: NoteContentSnapshot | null;
+    // Null when the note would be deleted.
+    after: NoteContentSnapshot | null;
+}
+
+export type ToolCallStatus = 'pending' | 'awaiting_approval' | 'complete' | 'rejected' | 'error';
+
+export interface ToolCallContent {
+    name: string;
+    args: any;
+    result?: any;
+    status: ToolCallStatus;
+    preview?: NoteChangePreview[];
+}
+
+// A single workspace change made by a Co-pilot tool, with enough state to revert it.
+export type CopilotChange =
+    | { kind: 'createNote'; noteId: string; title: string }
+    | { kind: 'updateNote'; noteId: string; title: string; before: NoteContentSnapshot; after: NoteContentSnapshot }
+    | { kind: 'deleteNote'; noteId: string; title: string; note: Note }
+    | { kind: 'moveNote'; noteId: string; title: string; fromParentId: string | null; toParentId: string | null }
+    | { kind: 'updateNoteTags'; noteId: string; title: string; before: string[]; after: string[] }
+    | { kind: 'setFavorite'; noteId: string; title: string; before: boolean; after: boolean }
+    | { kind: 'createCollection'; collectionId: string; title: string }
+    | { kind: 'renameCollection'; collectionId: string; title: string; fromName: string }
+    // The deleted folder, its sub-folders (parents first) and every note inside them.
+    | { kind: 'deleteCollection'; collectionId: string; title: string; collections: Collection[]; notes: Note[] }
+    | { kind: 'createSmartCollection'; smartCollectionId: string; title: string }
+    | { kind: 'createTemplate'; templateId: string; title: string };
+
+// Everything the Co-pilot changed in one turn, so the turn can be undone as a unit.
+export interface CopilotChangeset {
+    id: string;
+    changes: CopilotChange[];
+    revertedAt?: string;
+}
+
 export interface ChatMessage {
     id:string;
     role: 'user' | 'ai' | 'tool';
-    content: string | { name: string; args: any; result?: any; status: 'pending' | 'complete' | 'error' };
+    content: string | ToolCallContent;
     sources?: Note[];
     image?: string;
     status?: 'processing' | 'complete';
@@ -59,18 +145,45 @@ export interface ChatMessage {
         tags?: string[];
     };
     contextNoteIds?: string[];
+    changeset?: CopilotChangeset;
+    // The model that wrote an AI reply, after routing and any fallback.
+    model?: string;
+    // The message this one answers or follows; siblings are alternative branches.
+    // Undefined on messages saved before branching, which follow the message before them.
+    parentId?: string | null;
+    // Set on an AI reply the user stopped before it finished.
+    stopped?: boolean;
 }
 
 export type SearchMode = 'KEYWORD' | 'AI';
 
 export type ChatMode = 'ASSISTANT' | 'RESPONDER' | 'WESCORE_COPILOT' | 'AMAZON';
 
+// Where a chat session's name came from; only 'default' names are replaced by AI titles.
+export type ChatSessionTitleSource = 'default' | 'ai' | 'user';
+
+// A rolling summary of the older turns that no longer fit in the model's history budget.
+// It covers the conversation up to its boundary message, so it holds for every branch through it.
+export interface ChatSessionSummary {
+  text: string;
+  // The last message folded into the summary; everything after it is sent verbatim.
+  throughMessageId: string;
+}
+
 export interface ChatSession {
   id: string;
+  userId?: string;
   name: string;
   mode: ChatMode;
   messages: ChatMessage[];
+  isPinned: boolean;
+  titleSource: ChatSessionTitleSource;
+  // Summaries made on the session's branches, oldest first.
+  summaries?: ChatSessionSummary[];
+  // The message whose branch is on screen; the newest branch when unset.
+  activeLeafId?: string | null;
   createdAt: string;
+  updatedAt: string;
 }
 
 export type ChatStatus = 'idle' | 'searching' | 'replying' | 'using_tool' | 'awaiting_confirmation';
@@ -148,7 +261,7 @@ export type ContextMenuItem =
         divider: true;
       };
 
-export type SettingsTab = 'general' | 'templates' | 'data';
+export type SettingsTab = 'general' | 'usage' | 'templates' | 'data';
 
 export type TreeNode = (Note | (Collection & { type: 'collection' })) & {
     children: TreeNode[];